@@ -1,108 +1,11 @@
-import { VercelRequest, VercelResponse } from "@vercel/node";
+import { createServer } from "../../server";
 
-interface AIRequest {
-  userMessage: string;
-  conversationHistory: Array<{ role: string; content: string }>;
-  model: string;
-  temperature: number;
-  maxTokens: number;
-  systemPrompt: string;
-}
+/**
+ * Vercel function for /api/ai/chat. It serves the same Express app as the
+ * Node and Netlify builds, so the request goes through authMiddleware, the
+ * rate limits, the content policy, model entitlements and the credit ledger
+ * (server/routes/ai.ts) instead of calling the model provider directly.
+ */
+const app = createServer();
 
-export default async (req: VercelRequest, res: VercelResponse) => {
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
-
-  const {
-    userMessage,
-    conversationHistory,
-    model,
-    temperature,
-    maxTokens,
-    systemPrompt,
-  } = req.body as AIRequest;
-
-  const apiKey = process.env.OPENROUTER_API_KEY;
-
-  if (!apiKey) {
-    console.error("OPENROUTER_API_KEY not configured");
-    return res.status(500).json({
-      error:
-        "Service d'IA non disponible. Veuillez contacter l'administrateur.",
-    });
-  }
-
-  if (!userMessage) {
-    return res.status(400).json({ error: "User message is required" });
-  }
-
-  try {
-    const response = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": process.env.VERCEL_URL
-            ? `https://${process.env.VERCEL_URL}`
-            : "http://localhost:3000",
-          "X-Title": "Chat AI",
-        },
-        body: JSON.stringify({
-          model: model || "x-ai/grok-4.1-fast:free",
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt || "Tu es un assistant utile et amical.",
-            },
-            ...conversationHistory,
-            {
-              role: "user",
-              content: userMessage,
-            },
-          ],
-          temperature: temperature || 0.7,
-          max_tokens: maxTokens || 2048,
-        }),
-      },
-    );
-
-    let responseText: string;
-    try {
-      responseText = await response.text();
-    } catch (readError) {
-      console.error("Failed to read OpenRouter response:", readError);
-      return res.status(500).json({
-        error: "Failed to read response from AI service",
-      });
-    }
-
-    let data: any;
-    try {
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error("Failed to parse OpenRouter response:", parseError);
-      console.error("Response text:", responseText.substring(0, 500));
-      return res.status(500).json({
-        error: "Invalid response from AI service",
-      });
-    }
-
-    if (!response.ok) {
-      console.error("OpenRouter API error:", data);
-      return res.status(response.status).json({
-        error: data?.error?.message || data?.error || "OpenRouter API error",
-      });
-    }
-
-    const content = data?.choices?.[0]?.message?.content || "Pas de réponse";
-    return res.json({ content });
-  } catch (error) {
-    console.error("AI route error:", error);
-    return res.status(500).json({
-      error: error instanceof Error ? error.message : "Internal server error",
-    });
-  }
-};
+export default app;
@@ -25,6 +25,7 @@ import Register from "./pages/Register";
 import Admin from "./pages/Admin";
 import { BanModal } from "@/components/BanModal";
 import TOSModal from "@/components/TOSModal";
+import { hasRole } from "@shared/roles";
 
 const queryClient = new QueryClient();
 
@@ -47,7 +48,7 @@ function ProtectedRoute({ element }: { element: React.ReactNode }) {
 }
 
 function AdminRoute({ element }: { element: React.ReactNode }) {
-  const { user, userData, loading } = useAuth();
+  const { user, role, loading } = useAuth();
 
   if (loading) {
     return (
@@ -57,7 +58,12 @@ function AdminRoute({ element }: { element: React.ReactNode }) {
     );
   }
 
-  return user && userData?.isAdmin ? element : <Navigate to="/" replace />;
+  // Moderators get the panel too, trimmed to their permissions
+  return user && hasRole(role, "moderator") ? (
+    element
+  ) : (
+    <Navigate to="/" replace />
+  );
 }
 
 function AuthPages() {
@@ -67,14 +73,15 @@ function AuthPages() {
 
 function AppRoutes() {
   const navigate = useNavigate();
-  const { userData } = useAuth();
+  const { role } = useAuth();
   const { showTOS, acceptTOS } = useTOS();
+  const isStaff = hasRole(role, "moderator");
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === "A") {
         e.preventDefault();
-        if (userData?.isAdmin) {
+        if (isStaff) {
           navigate("/admin");
           toast.success("Accès au panneau admin");
         } else {
@@ -85,7 +92,7 @@ function AppRoutes() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [navigate, userData?.isAdmin]);
+  }, [navigate, isStaff]);
 
   return (
     <>
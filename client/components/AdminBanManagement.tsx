@@ -12,19 +12,34 @@ import {
   EyeOff,
 } from "lucide-react";
 import { toast } from "sonner";
+import { auth } from "@/lib/firebase";
 import { UserData } from "@/contexts/AuthContext";
-import { SystemNoticesService, UserBan } from "@/lib/system-notices";
+import {
+  getSanctions,
+  issueSanction,
+  liftSanction,
+  Sanction,
+} from "@/lib/bans";
+
+async function fetchUsers(): Promise<UserData[]> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
 
-interface AdminBanManagementProps {
-  users: UserData[];
+  const response = await fetch("/api/admin/users", {
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || "Failed to load users");
+  return data.users || [];
 }
 
-export default function AdminBanManagement({ users }: AdminBanManagementProps) {
+export default function AdminBanManagement() {
+  const [users, setUsers] = useState<UserData[]>([]);
   const [userEmailToBan, setUserEmailToBan] = useState("");
   const [banReason, setBanReason] = useState("");
   const [banDuration, setBanDuration] = useState<number | null>(null);
   const [actionType, setActionType] = useState<"ban" | "warn">("ban");
-  const [bans, setBans] = useState<UserBan[]>([]);
+  const [bans, setBans] = useState<Sanction[]>([]);
   const [loading, setLoading] = useState(false);
   const [savingBan, setSavingBan] = useState(false);
 
@@ -35,13 +50,15 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
 
   useEffect(() => {
     loadBans();
+    fetchUsers()
+      .then(setUsers)
+      .catch((error) => console.error("Error loading users:", error));
   }, []);
 
   const loadBans = async () => {
     try {
       setLoading(true);
-      const allBans = await SystemNoticesService.getAllBans();
-      setBans(allBans);
+      setBans(await getSanctions());
     } catch (error) {
       console.error("Error loading bans:", error);
       toast.error("Erreur lors du chargement des bans");
@@ -71,23 +88,17 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
         return;
       }
 
-      if (actionType === "ban") {
-        await SystemNoticesService.banUser(
-          user.uid,
-          user.email,
-          banReason,
-          banDuration || undefined,
-        );
-        toast.success("Utilisateur banni avec succès");
-      } else {
-        await SystemNoticesService.warnUser(
-          user.uid,
-          user.email,
-          banReason,
-          banDuration || undefined,
-        );
-        toast.success("Utilisateur averti avec succès");
-      }
+      await issueSanction({
+        userId: user.uid,
+        type: actionType,
+        reason: banReason,
+        durationMinutes: banDuration || undefined,
+      });
+      toast.success(
+        actionType === "ban"
+          ? "Utilisateur banni avec succès"
+          : "Utilisateur averti avec succès",
+      );
 
       setUserEmailToBan("");
       setBanReason("");
@@ -103,13 +114,13 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
     }
   };
 
-  const handleUnbanUser = async (userId: string) => {
+  const handleLiftSanction = async (sanctionId: string) => {
     try {
-      await SystemNoticesService.unbanUser(userId);
-      toast.success("Utilisateur débanni");
+      await liftSanction(sanctionId);
+      toast.success("Sanction retirée");
       await loadBans();
     } catch (error) {
-      console.error("Error in handleUnbanUser:", error);
+      console.error("Error in handleLiftSanction:", error);
       const errorMessage =
         error instanceof Error ? error.message : "Erreur lors du déban";
       toast.error(errorMessage);
@@ -125,7 +136,7 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
     }
 
     if (!showExpired) {
-      result = result.filter((b) => b.isPermanent || !isExpired(b));
+      result = result.filter((b) => b.status === "active");
     }
 
     if (userSearchQuery) {
@@ -137,10 +148,6 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
     return result;
   }, [bans, filterType, showExpired, userSearchQuery]);
 
-  const isExpired = (ban: UserBan) => {
-    return ban.expiresAt && ban.expiresAt.toDate() < new Date();
-  };
-
   return (
     <div className="space-y-8">
       {/* Action Type Tabs */}
@@ -304,7 +311,7 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-white flex items-center gap-2">
               <User size={20} className="text-blue-400" />
-              Utilisateurs sanctionn��s ({filteredUserBans.length})
+              Utilisateurs sanctionnés ({filteredUserBans.length})
             </h3>
           </div>
 
@@ -385,7 +392,7 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
               </thead>
               <tbody>
                 {filteredUserBans.map((ban) => {
-                  const expired = isExpired(ban);
+                  const expired = ban.status !== "active";
                   return (
                     <tr
                       key={ban.id}
@@ -414,19 +421,25 @@ export default function AdminBanManagement({ users }: AdminBanManagementProps) {
                         {ban.isPermanent
                           ? "Permanent"
                           : ban.expiresAt
-                            ? new Date(
-                                ban.expiresAt.toDate(),
-                              ).toLocaleDateString("fr-FR")
+                            ? new Date(ban.expiresAt).toLocaleDateString(
+                                "fr-FR",
+                              )
                             : "-"}
                       </td>
                       <td className="px-6 py-4">
-                        <button
-                          onClick={() => handleUnbanUser(ban.userId)}
-                          className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors text-xs font-medium"
-                        >
-                          <Trash2 size={14} className="inline mr-1" />
-                          Retirer
-                        </button>
+                        {expired ? (
+                          <span className="text-gray-600 text-xs">
+                            {ban.status === "lifted" ? "Retirée" : "Expirée"}
+                          </span>
+                        ) : (
+                          <button
+                            onClick={() => handleLiftSanction(ban.id)}
+                            className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-red-500/20 text-gray-400 hover:text-red-400 transition-colors text-xs font-medium"
+                          >
+                            <Trash2 size={14} className="inline mr-1" />
+                            Retirer
+                          </button>
+                        )}
                       </td>
                     </tr>
                   );
@@ -0,0 +1,70 @@
+import { FileText, X } from "lucide-react";
+import { useTheme } from "@/contexts/ThemeContext";
+import { formatFileSize } from "@/lib/attachments";
+import type { MessageAttachment } from "@shared/api";
+
+interface AttachmentChipsProps {
+  attachments: MessageAttachment[];
+  // Pending attachments can be removed before sending
+  onRemove?: (attachmentId: string) => void;
+  // Sent attachments can be downloaded
+  onOpen?: (attachment: MessageAttachment) => void;
+  disabled?: boolean;
+  align?: "start" | "end";
+}
+
+/**
+ * Files attached to a message, or waiting to be sent with the next one.
+ */
+export function AttachmentChips({
+  attachments,
+  onRemove,
+  onOpen,
+  disabled = false,
+  align = "start",
+}: AttachmentChipsProps) {
+  const { isDark } = useTheme();
+  if (attachments.length === 0) return null;
+
+  return (
+    <div
+      className={`flex flex-wrap gap-1.5 ${
+        align === "end" ? "justify-end" : "justify-start"
+      }`}
+    >
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className={`flex items-center gap-1.5 max-w-[220px] rounded-md px-2 py-1 text-xs border transition-colors duration-200 ${
+            isDark
+              ? "border-white/10 bg-white/5 text-foreground/80"
+              : "border-black/10 bg-black/[0.03] text-[#3F3F3F]"
+          }`}
+        >
+          <FileText size={13} className="flex-shrink-0" />
+          <button
+            onClick={() => onOpen?.(attachment)}
+            disabled={!onOpen}
+            title={attachment.name}
+            className="truncate text-left disabled:cursor-default hover:underline disabled:no-underline"
+          >
+            {attachment.name}
+          </button>
+          <span className="flex-shrink-0 opacity-60">
+            {formatFileSize(attachment.size)}
+          </span>
+          {onRemove && (
+            <button
+              onClick={() => onRemove(attachment.id)}
+              disabled={disabled}
+              className="flex-shrink-0 rounded p-0.5 hover:bg-black/10 disabled:opacity-40"
+              aria-label={`Retirer ${attachment.name}`}
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
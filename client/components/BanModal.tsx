@@ -1,16 +1,42 @@
-import { AlertCircle, LogOut } from "lucide-react";
+import { useState } from "react";
+import { AlertCircle, LogOut, Send } from "lucide-react";
 import { signOut } from "firebase/auth";
 import { auth } from "@/lib/firebase";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
-import { UserBan } from "@/lib/system-notices";
+import { useAuth } from "@/contexts/AuthContext";
+import { Sanction, submitAppeal } from "@/lib/bans";
+
+const APPEAL_STATUS_LABELS: Record<string, string> = {
+  pending: "Votre appel est en cours d'examen",
+  upheld: "Votre appel a été rejeté, la sanction est maintenue",
+  reduced: "Votre appel a été accepté en partie, la sanction a été réduite",
+};
 
 interface BanModalProps {
-  ban: UserBan;
+  ban: Sanction;
 }
 
 export function BanModal({ ban }: BanModalProps) {
   const navigate = useNavigate();
+  const { refreshBan } = useAuth();
+  const [appealMessage, setAppealMessage] = useState("");
+  const [submittingAppeal, setSubmittingAppeal] = useState(false);
+
+  const handleAppeal = async () => {
+    setSubmittingAppeal(true);
+    try {
+      await submitAppeal(ban.id, appealMessage.trim());
+      toast.success("Appel envoyé");
+      await refreshBan();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de l'envoi",
+      );
+    } finally {
+      setSubmittingAppeal(false);
+    }
+  };
 
   const handleLogout = async () => {
     try {
@@ -24,7 +50,7 @@ export function BanModal({ ban }: BanModalProps) {
 
   const isBan = ban.type === "ban";
   const expiryDate = ban.expiresAt
-    ? ban.expiresAt.toDate().toLocaleDateString("fr-FR", {
+    ? new Date(ban.expiresAt).toLocaleDateString("fr-FR", {
         year: "numeric",
         month: "long",
         day: "numeric",
@@ -91,6 +117,44 @@ export function BanModal({ ban }: BanModalProps) {
           )}
         </div>
 
+        {/* One appeal per ban */}
+        {isBan && ban.appealStatus === "none" && (
+          <div className="mb-6 space-y-3">
+            <p className="text-xs text-foreground/50 uppercase font-semibold">
+              Faire appel
+            </p>
+            <textarea
+              value={appealMessage}
+              onChange={(e) => setAppealMessage(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-foreground placeholder-foreground/40 focus:outline-none focus:border-red-500/50 resize-none"
+              placeholder="Expliquez pourquoi la sanction devrait être revue (20 caractères minimum)"
+            />
+            <button
+              onClick={handleAppeal}
+              disabled={submittingAppeal || appealMessage.trim().length < 20}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-foreground text-sm font-semibold rounded-lg border border-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send size={16} />
+              {submittingAppeal ? "Envoi..." : "Envoyer l'appel"}
+            </button>
+          </div>
+        )}
+
+        {isBan && APPEAL_STATUS_LABELS[ban.appealStatus] && (
+          <div className="bg-white/5 border border-white/10 rounded-lg p-4 mb-6 space-y-2">
+            <p className="text-sm text-foreground">
+              {APPEAL_STATUS_LABELS[ban.appealStatus]}
+            </p>
+            {ban.appeal?.response && (
+              <p className="text-sm text-foreground/70 break-words">
+                {ban.appeal.response}
+              </p>
+            )}
+          </div>
+        )}
+
         <p className="text-center text-xs text-foreground/50 mb-6">
           {isBan
             ? "Vous ne pouvez pas accéder à l'application"
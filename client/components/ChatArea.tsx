@@ -1,29 +1,56 @@
-import { Loader2 } from "lucide-react";
+import { FileText, Loader2, RefreshCw, UserCog } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/contexts/ThemeContext";
 import { MessagesService, Message } from "@/lib/messages";
 import { getStorage, ref, getBytes } from "firebase/storage";
 import { AIService } from "@/lib/ai";
-import { splitIntoBlocks, getBlockPauseDuration } from "@/lib/blockSplitter";
+import {
+  formatTokens,
+  getAttachmentLimits,
+  getTokenBudget,
+} from "@shared/plans";
 import {
   validateMessageContent,
   detectInjectionAttempt,
-  sanitizeInput,
+  normalizeMessageText,
   RateLimiter,
-  escapeHtml,
 } from "@/lib/security";
 import { toast } from "sonner";
 import { MessageRenderer } from "@/components/MessageRenderer";
 import { ThinkingAnimation } from "@/components/ThinkingAnimation";
 import { TypingIndicator } from "@/components/TypingIndicator";
 import { ChatInput } from "@/components/ChatInput";
+import { AttachmentChips } from "@/components/AttachmentChips";
+import { MessageBranchBar } from "@/components/MessageBranchBar";
+import { PersonasModal } from "@/components/PersonasModal";
+import { Persona, PersonasService } from "@/lib/personas";
+import {
+  Attachment,
+  AttachmentsService,
+  formatFileSize,
+} from "@/lib/attachments";
+import type {
+  ContextSummary,
+  MessageAttachment,
+  ModelCatalogEntry,
+} from "@shared/api";
 
 interface ChatMessage {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: number;
+  // Set once the message is stored (see MessageBranchBar)
+  siblingIds?: string[];
+  attachments?: MessageAttachment[];
+}
+
+// Branch started by a reply: its versions so far, and what to send
+interface ReplyBranch {
+  editMessageId?: string;
+  regenerateMessageId?: string;
+  siblingIds: string[];
 }
 
 interface ChatAreaProps {
@@ -39,242 +66,469 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
   const [loadingMessages, setLoadingMessages] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
   const [generatingImage, setGeneratingImage] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
-  const [typingText, setTypingText] = useState("");
-  const [fullText, setFullText] = useState("");
-  const [blocks, setBlocks] = useState<string[]>([]);
-  const [renderedBlockCount, setRenderedBlockCount] = useState(0);
-  const [isRenderingBlocks, setIsRenderingBlocks] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(
+    null,
+  );
+  const [showSummary, setShowSummary] = useState(false);
+  const [regeneratingSummary, setRegeneratingSummary] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [personasOpen, setPersonasOpen] = useState(false);
+  const [models, setModels] = useState<ModelCatalogEntry[]>([]);
+  const [conversationModel, setConversationModel] = useState<string | null>(
+    null,
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  // Uploaded for the next message
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>(
+    [],
+  );
+  const [uploading, setUploading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const typingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const blockIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const prependingRef = useRef(false);
 
   // Rate limiter: max 30 messages per minute
   const messageRateLimiter = useRef(new RateLimiter("send_message", 30, 60000));
 
-  const getCharacterDelay = (char: string, nextChar?: string): number => {
-    const baseDelay = 20;
-    if (char === "." || char === "?" || char === "!") {
-      return 200;
-    }
-    if (char === ",") {
-      return 80;
-    }
-    if (char === "\n") {
-      return 100;
+  useEffect(() => {
+    if (conversationId && user?.uid) {
+      loadMessages();
     }
-    return baseDelay;
-  };
+  }, [conversationId, user?.uid]);
 
-  const startTypewriterEffect = (text: string) => {
-    if (typingIntervalRef.current) {
-      clearInterval(typingIntervalRef.current);
-    }
+  useEffect(() => {
+    if (!user?.uid) return;
+    PersonasService.getPersonas()
+      .then(setPersonas)
+      .catch((error) => console.error("Error loading personas:", error));
+  }, [user?.uid]);
 
-    setIsTyping(true);
-    setTypingText("");
-    setFullText(text);
-    let currentIndex = 0;
+  // Availability depends on the plan
+  useEffect(() => {
+    if (!user?.uid) return;
+    AIService.getModels()
+      .then((catalog) => setModels(catalog.models))
+      .catch((error) => console.error("Error loading models:", error));
+  }, [user?.uid, userData?.plan]);
+
+  // Stop an in-flight stream on unmount and conversation change
+  useEffect(() => {
+    return () => {
+      streamAbortRef.current?.abort();
+      streamAbortRef.current = null;
+    };
+  }, [conversationId]);
 
-    const typeNextCharacter = () => {
-      if (currentIndex < text.length) {
-        const newText = text.substring(0, currentIndex + 1);
-        setTypingText(newText);
-        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  useEffect(() => {
+    // Keep the reading position when older messages are prepended
+    if (prependingRef.current) {
+      prependingRef.current = false;
+      return;
+    }
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [chatMessages, loading, isThinking]);
 
-        const currentChar = text[currentIndex];
-        const delay = getCharacterDelay(currentChar);
+  const toChatMessage = (msg: Message): ChatMessage => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    timestamp: new Date(msg.createdAt).getTime(),
+    siblingIds: msg.siblingIds,
+    attachments: msg.attachments,
+  });
 
-        typingIntervalRef.current = setTimeout(
-          typeNextCharacter,
-          delay,
-        ) as unknown as NodeJS.Timeout;
+  const loadMessages = async () => {
+    if (!conversationId) return;
+    setContextSummary(null);
+    setShowSummary(false);
+    setPersonaId(null);
+    setConversationModel(null);
+    setEditingId(null);
+    setPendingAttachments([]);
+    MessagesService.getConversation(conversationId)
+      .then((conversation) => {
+        setPersonaId(conversation.personaId);
+        setConversationModel(conversation.model);
+      })
+      .catch((error) => console.error("Error loading conversation:", error));
+    MessagesService.getContextSummary(conversationId)
+      .then(setContextSummary)
+      .catch((error) => console.error("Error loading summary:", error));
 
-        currentIndex++;
+    try {
+      setLoadingMessages(true);
+      const page = await MessagesService.getMessages(conversationId);
+      setChatMessages(page.messages.map(toChatMessage));
+      setOlderCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading messages:", error);
+      if (error instanceof Error) {
+        console.error("Error message:", error.message);
+        if (error.message.includes("Failed to fetch")) {
+          toast.error("Erreur réseau. Vérifiez votre connexion.");
+        } else {
+          toast.error("Erreur lors du chargement des messages");
+        }
       } else {
-        setIsTyping(false);
-        typingIntervalRef.current = null;
+        toast.error("Erreur lors du chargement des messages");
       }
-    };
-
-    typingIntervalRef.current = setTimeout(
-      typeNextCharacter,
-      20,
-    ) as unknown as NodeJS.Timeout;
+    } finally {
+      setLoadingMessages(false);
+    }
   };
 
-  const startBlockRendering = (fullText: string) => {
-    if (typingIntervalRef.current) {
-      clearTimeout(typingIntervalRef.current);
-    }
-    if (blockIntervalRef.current) {
-      clearTimeout(blockIntervalRef.current);
+  const loadOlderMessages = async () => {
+    if (!conversationId || !olderCursor) return;
+    try {
+      setLoadingOlder(true);
+      const page = await MessagesService.getMessages(conversationId, {
+        before: olderCursor,
+      });
+      prependingRef.current = true;
+      setChatMessages((prev) => [...page.messages.map(toChatMessage), ...prev]);
+      setOlderCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading older messages:", error);
+      toast.error("Erreur lors du chargement des messages");
+    } finally {
+      setLoadingOlder(false);
     }
+  };
 
-    setFullText(fullText);
-    const textBlocks = splitIntoBlocks(fullText);
-    setBlocks(textBlocks);
-    setRenderedBlockCount(0);
-    setIsRenderingBlocks(true);
-    setIsTyping(false);
-
-    let blockIndex = 0;
-
-    const renderNextBlock = () => {
-      if (blockIndex < textBlocks.length) {
-        setRenderedBlockCount(blockIndex + 1);
-        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-
-        const currentBlockLength = textBlocks[blockIndex].length;
-        const pauseDuration = getBlockPauseDuration(textBlocks[blockIndex]);
-
-        blockIndex++;
+  const regenerateSummary = async () => {
+    if (!conversationId) return;
+    try {
+      setRegeneratingSummary(true);
+      setContextSummary(
+        await MessagesService.regenerateContextSummary(conversationId),
+      );
+      setShowSummary(true);
+      toast.success("Résumé régénéré");
+    } catch (error) {
+      console.error("Error regenerating summary:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la régénération du résumé",
+      );
+    } finally {
+      setRegeneratingSummary(false);
+    }
+  };
 
-        blockIntervalRef.current = setTimeout(
-          renderNextBlock,
-          pauseDuration,
-        ) as unknown as NodeJS.Timeout;
-      } else {
-        setIsRenderingBlocks(false);
-        blockIntervalRef.current = null;
-      }
-    };
+  const changePersona = async (nextPersonaId: string | null) => {
+    if (!conversationId) return;
+    const previous = personaId;
+    setPersonaId(nextPersonaId);
+    try {
+      await PersonasService.setConversationPersona(
+        conversationId,
+        nextPersonaId,
+      );
+    } catch (error) {
+      setPersonaId(previous);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors du changement de personnalité",
+      );
+    }
+  };
 
-    // Start with first block immediately
-    blockIntervalRef.current = setTimeout(
-      renderNextBlock,
-      300,
-    ) as unknown as NodeJS.Timeout;
+  const changeModel = async (nextModel: string | null) => {
+    if (!conversationId) return;
+    const previous = conversationModel;
+    setConversationModel(nextModel);
+    try {
+      await MessagesService.setConversationModel(conversationId, nextModel);
+    } catch (error) {
+      setConversationModel(previous);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors du changement de modèle",
+      );
+    }
   };
 
-  useEffect(() => {
-    if (conversationId && user?.uid) {
-      loadMessages();
+  /**
+   * Upload files for the next message, checking the plan's limits first so
+   * an oversized file is refused before it is read.
+   */
+  const attachFiles = async (files: File[]) => {
+    if (!conversationId) return;
+    const limits = getAttachmentLimits(userData?.plan);
+    const room = limits.maxFilesPerMessage - pendingAttachments.length;
+    if (files.length > room) {
+      toast.error(
+        `Votre offre permet ${limits.maxFilesPerMessage} pièces jointes par message`,
+      );
+      files = files.slice(0, Math.max(0, room));
     }
-  }, [conversationId, user?.uid]);
 
-  // Cleanup typing interval on unmount and conversation change
-  useEffect(() => {
-    return () => {
-      if (typingIntervalRef.current) {
-        clearTimeout(typingIntervalRef.current);
-        typingIntervalRef.current = null;
-      }
-      if (blockIntervalRef.current) {
-        clearTimeout(blockIntervalRef.current);
-        blockIntervalRef.current = null;
+    setUploading(true);
+    try {
+      for (const file of files) {
+        if (file.size > limits.maxFileBytes) {
+          toast.error(
+            `${file.name} dépasse ${formatFileSize(limits.maxFileBytes)}, la limite de votre offre`,
+          );
+          continue;
+        }
+        try {
+          const attachment = await AttachmentsService.upload(
+            conversationId,
+            file,
+          );
+          setPendingAttachments((prev) => [...prev, attachment]);
+        } catch (error) {
+          toast.error(
+            `${file.name} : ${
+              error instanceof Error ? error.message : "envoi impossible"
+            }`,
+          );
+        }
       }
-    };
-  }, []);
+    } finally {
+      setUploading(false);
+    }
+  };
 
-  // Reset typing state when conversation changes
-  useEffect(() => {
-    if (typingIntervalRef.current) {
-      clearTimeout(typingIntervalRef.current);
-      typingIntervalRef.current = null;
+  const removeAttachment = async (attachmentId: string) => {
+    try {
+      await AttachmentsService.remove(attachmentId);
+      setPendingAttachments((prev) =>
+        prev.filter((attachment) => attachment.id !== attachmentId),
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la suppression de la pièce jointe",
+      );
     }
-    if (blockIntervalRef.current) {
-      clearTimeout(blockIntervalRef.current);
-      blockIntervalRef.current = null;
+  };
+
+  const openAttachment = async (attachment: MessageAttachment) => {
+    try {
+      await AttachmentsService.download(attachment.id, attachment.name);
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      toast.error("Erreur lors du téléchargement");
     }
-    setIsTyping(false);
-    setTypingText("");
-    setFullText("");
-    setBlocks([]);
-    setRenderedBlockCount(0);
-    setIsRenderingBlocks(false);
-  }, [conversationId]);
+  };
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatMessages, loading, isThinking, typingText, renderedBlockCount]);
+  /**
+   * Stream the answer to the last user message and swap the temporary IDs
+   * of `localUserId` (when one was added) and of the reply for the stored
+   * ones. With `branch` the new message joins the versions it replaces.
+   */
+  const streamReply = async (
+    userMessage: string,
+    localUserId: string | null,
+    branch?: ReplyBranch,
+    attachmentIds: string[] = [],
+  ) => {
+    if (!conversationId) return;
+    const assistantId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    let started = false;
 
-  // Handle saving message to Firebase when typing or block rendering is complete
-  useEffect(() => {
-    if (
-      !isTyping &&
-      !isRenderingBlocks &&
-      fullText &&
-      conversationId &&
-      user &&
-      chatMessages.length > 0
-    ) {
-      const lastMessage = chatMessages[chatMessages.length - 1];
-      if (lastMessage.role === "assistant" && lastMessage.content === "") {
-        const saveMessage = async () => {
-          try {
-            // Update the last message with the full text
-            setChatMessages((prev) => {
-              const updated = [...prev];
-              if (
-                updated.length > 0 &&
-                updated[updated.length - 1].role === "assistant"
-              ) {
-                updated[updated.length - 1].content = fullText;
+    try {
+      for await (const event of AIService.streamMessage(userMessage, {
+        conversationId,
+        editMessageId: branch?.editMessageId,
+        regenerateMessageId: branch?.regenerateMessageId,
+        attachmentIds,
+        signal: controller.signal,
+      })) {
+        if (event.type === "summary") {
+          setContextSummary(event.summary);
+          continue;
+        }
+        if (event.type === "done") {
+          const stored = (id: string | null, joins: boolean) =>
+            id ? [...(joins ? branch!.siblingIds : []), id] : undefined;
+          setChatMessages((prev) =>
+            prev.map((msg) => {
+              if (msg.id === localUserId && event.userMessageId) {
+                return {
+                  ...msg,
+                  id: event.userMessageId,
+                  siblingIds: stored(
+                    event.userMessageId,
+                    !!branch?.editMessageId,
+                  ),
+                };
+              }
+              if (msg.id === assistantId && event.assistantMessageId) {
+                return {
+                  ...msg,
+                  id: event.assistantMessageId,
+                  siblingIds: stored(
+                    event.assistantMessageId,
+                    !!branch?.regenerateMessageId,
+                  ),
+                };
               }
-              return updated;
-            });
-
-            // Save to Firebase
-            await MessagesService.addMessage(
-              conversationId,
-              user.uid,
-              `assistant:${fullText}`,
+              return msg;
+            }),
+          );
+          continue;
+        }
+        if (event.type === "policy") {
+          // The server flagged or redacted the message before the model
+          if (event.outcome === "redact") {
+            setChatMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === localUserId
+                  ? { ...msg, content: event.content }
+                  : msg,
+              ),
+            );
+            toast.warning(
+              "Des données sensibles ont été masquées dans votre message.",
+            );
+          } else {
+            toast.warning(
+              `Message signalé : ${event.matches.map((m) => m.label).join(", ")}`,
             );
-
-            // Reset states
-            setTypingText("");
-            setFullText("");
-            setBlocks([]);
-            setRenderedBlockCount(0);
-          } catch (error) {
-            console.error("Error saving message:", error);
           }
-        };
+          continue;
+        }
+        if (event.type !== "delta") continue;
 
-        saveMessage();
+        if (!started) {
+          // First token: swap the thinking animation for the message
+          started = true;
+          setIsThinking(false);
+          setIsStreaming(true);
+          setChatMessages((prev) => [
+            ...prev,
+            {
+              id: assistantId,
+              role: "assistant",
+              content: event.content,
+              timestamp: Date.now(),
+            },
+          ]);
+        } else {
+          setChatMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantId
+                ? { ...msg, content: msg.content + event.content }
+                : msg,
+            ),
+          );
+        }
+      }
+    } finally {
+      setIsStreaming(false);
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
       }
     }
-  }, [
-    isTyping,
-    isRenderingBlocks,
-    fullText,
-    conversationId,
-    user,
-    chatMessages,
-  ]);
+  };
+
+  /**
+   * Regenerate a reply or resend an edited message as a new version. The
+   * messages after it are hidden until the stream ends, and shown again if
+   * it fails.
+   */
+  const branchReply = async (
+    target: ChatMessage,
+    branch: ReplyBranch,
+    editedText?: string,
+  ) => {
+    if (!conversationId || loading) return;
+    const previous = chatMessages;
+    const index = chatMessages.findIndex((msg) => msg.id === target.id);
+    const localUserId = editedText ? Date.now().toString() : null;
+
+    setEditingId(null);
+    setChatMessages([
+      ...chatMessages.slice(0, index),
+      ...(editedText
+        ? [
+            {
+              id: localUserId!,
+              role: "user" as const,
+              content: editedText,
+              timestamp: Date.now(),
+              // The server keeps the edited message's files
+              attachments: target.attachments,
+            },
+          ]
+        : []),
+    ]);
+    setLoading(true);
+    setIsThinking(true);
 
-  const loadMessages = async () => {
-    if (!conversationId) return;
     try {
-      setLoadingMessages(true);
-      const fbMessages = await MessagesService.getMessages(conversationId);
-      const messages: ChatMessage[] = fbMessages.map((msg) => ({
-        id: msg.id,
-        role: msg.text.startsWith("user:") ? "user" : "assistant",
-        content: msg.text.replace(/^(user:|assistant:)/, ""),
-        timestamp: msg.createdAt.toDate().getTime(),
-      }));
-      setChatMessages(messages);
+      await streamReply(editedText ?? "", localUserId, branch);
     } catch (error) {
-      console.error("Error loading messages:", error);
-      if (error instanceof Error) {
-        console.error("Error message:", error.message);
-        if (error.message.includes("Failed to fetch")) {
-          toast.error("Erreur réseau. Vérifiez votre connexion.");
-        } else {
-          toast.error("Erreur lors du chargement des messages");
-        }
-      } else {
-        toast.error("Erreur lors du chargement des messages");
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
       }
+      console.error("Error branching conversation:", error);
+      setChatMessages(previous);
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de l'envoi",
+      );
     } finally {
-      setLoadingMessages(false);
+      setLoading(false);
+      setIsThinking(false);
+    }
+  };
+
+  const regenerate = (msg: ChatMessage) =>
+    branchReply(msg, {
+      regenerateMessageId: msg.id,
+      siblingIds: msg.siblingIds ?? [msg.id],
+    });
+
+  const submitEdit = (msg: ChatMessage) => {
+    const text = editText.trim();
+    if (!validateMessageContent(text)) {
+      toast.error("Message invalide. Longueur: 1-5000 caractères.");
+      return;
+    }
+    if (detectInjectionAttempt(text)) {
+      toast.error("Le message contient des caractères invisibles interdits.");
+      return;
+    }
+    branchReply(
+      msg,
+      { editMessageId: msg.id, siblingIds: msg.siblingIds ?? [msg.id] },
+      normalizeMessageText(text),
+    );
+  };
+
+  const selectBranch = async (messageId: string) => {
+    if (!conversationId) return;
+    try {
+      setEditingId(null);
+      const page = await MessagesService.selectBranch(
+        conversationId,
+        messageId,
+      );
+      setChatMessages(page.messages.map(toChatMessage));
+      setOlderCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error selecting branch:", error);
+      toast.error("Erreur lors du changement de version");
     }
   };
 
   const handleSend = async () => {
     if (!message.trim() || !user || !userData || !conversationId) return;
+    if (uploading) return;
 
     // Rate limiting check
     if (!messageRateLimiter.current.isAllowed()) {
@@ -292,31 +546,34 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
 
     // Detect injection attempts
     if (detectInjectionAttempt(message)) {
-      toast.error("Message contains invalid characters or patterns.");
+      toast.error("Le message contient des caractères invisibles interdits.");
       return;
     }
 
-    // Check message limit
-    if (userData.messagesUsed >= userData.messagesLimit) {
+    // Check daily token budget
+    const tokensUsed = userData.tokensUsed || 0;
+    const tokenBudget = getTokenBudget(userData);
+    if (tokensUsed >= tokenBudget) {
       toast.error(
-        "Limite de messages atteinte. Vous serez redirigé pour activer une licence.",
+        "Quota de tokens atteint. Vous serez redirigé pour activer une licence.",
       );
       return;
     }
 
     // Warn when getting close to limit (90%)
-    const percentUsed = (userData.messagesUsed / userData.messagesLimit) * 100;
+    const percentUsed = (tokensUsed / tokenBudget) * 100;
     if (percentUsed >= 90) {
       toast.warning(
-        `Attention: ${userData.messagesLimit - userData.messagesUsed} messages restants`,
+        `Attention: ${formatTokens(tokenBudget - tokensUsed)} tokens restants aujourd'hui`,
       );
     }
 
-    // Sanitize message
-    const sanitizedMessage = sanitizeInput(message.trim());
-    const userMessageText = sanitizedMessage;
-    const isImage = isImageRequest(userMessageText);
+    const userMessageText = normalizeMessageText(message);
+    // Files are for the chat model, not the image generator
+    const attachments = pendingAttachments;
+    const isImage = attachments.length === 0 && isImageRequest(userMessageText);
     setMessage("");
+    setPendingAttachments([]);
     setLoading(true);
     if (!isImage) setIsThinking(true);
     if (isImage) setGeneratingImage(true);
@@ -328,22 +585,16 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
         role: "user",
         content: userMessageText,
         timestamp: Date.now(),
+        attachments,
       };
       setChatMessages((prev) => [...prev, userMsg]);
 
-      // Save user message to Firebase
-      await MessagesService.addMessage(
-        conversationId,
-        user.uid,
-        `user:${userMessageText}`,
-      );
-
-      let assistantContent: string;
-
       if (isImage) {
-        // Generate image
-        assistantContent = await generateImage(userMessageText);
-        // Add assistant response immediately for images
+        // The server stores the prompt and the image link
+        const assistantContent = await AIService.generateImage(
+          userMessageText,
+          conversationId,
+        );
         const assistantMsg: ChatMessage = {
           id: (Date.now() + 1).toString(),
           role: "assistant",
@@ -352,46 +603,21 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
         };
         setChatMessages((prev) => [...prev, assistantMsg]);
 
-        // Save assistant message to Firebase
-        await MessagesService.addMessage(
-          conversationId,
-          user.uid,
-          `assistant:${assistantContent}`,
-        );
-
         toast.success("Image g��nérée avec succès!");
       } else {
-        // Get AI response for normal chat
-        const conversationHistory = chatMessages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        }));
-
-        setIsThinking(false);
-        assistantContent = await AIService.sendMessage(
+        // Get AI response for normal chat; the server builds the prompt from
+        // the stored history and stores both messages
+        await streamReply(
           userMessageText,
-          conversationHistory,
+          userMsg.id,
+          undefined,
+          attachments.map((attachment) => attachment.id),
         );
-
-        // Add placeholder message with empty content
-        const assistantMsg: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          content: "", // Will be filled by block rendering
-          timestamp: Date.now(),
-        };
-        setChatMessages((prev) => [...prev, assistantMsg]);
-
-        // Start block rendering with premium animation
-        startBlockRendering(assistantContent);
       }
-
-      // Update message count in Firebase
-      await MessagesService.updateUserMessageCount(
-        user.uid,
-        userData.messagesUsed + 1,
-      );
     } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
       console.error("Error sending message:", error);
       toast.error(
         error instanceof Error ? error.message : "Erreur lors de l'envoi",
@@ -428,17 +654,6 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
     return imageKeywords.some((keyword) => lowerText.includes(keyword));
   };
 
-  const generateImage = async (prompt: string): Promise<string> => {
-    try {
-      // Use Pollinations.ai for image generation
-      const imageUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}`;
-      return imageUrl;
-    } catch (error) {
-      console.error("Error generating image:", error);
-      throw new Error("Erreur lors de la génération d'image");
-    }
-  };
-
   return (
     <div
       id="chat-area"
@@ -552,11 +767,63 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
             </div>
           ) : (
             <div className="space-y-3 pb-4">
-              {chatMessages.map((msg, index) => {
-                const isLastMessage = index === chatMessages.length - 1;
-                const displayContent =
-                  isLastMessage && isTyping ? typingText : msg.content;
-
+              {contextSummary && (
+                <div
+                  className={`rounded-lg border px-3 py-2 text-xs transition-colors duration-300 ${
+                    isDark
+                      ? "border-white/10 bg-white/[0.03] text-foreground/60"
+                      : "border-black/10 bg-black/[0.03] text-[#3F3F3F]/70"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      onClick={() => setShowSummary(!showSummary)}
+                      className="inline-flex items-center gap-2 hover:underline"
+                    >
+                      <FileText className="w-3.5 h-3.5" />
+                      {contextSummary.messageCount} message(s) plus anciens
+                      résumés pour l'IA
+                    </button>
+                    <button
+                      onClick={regenerateSummary}
+                      disabled={regeneratingSummary || loading}
+                      className="inline-flex items-center gap-1 hover:underline disabled:opacity-50"
+                    >
+                      {regeneratingSummary ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RefreshCw className="w-3 h-3" />
+                      )}
+                      Régénérer
+                    </button>
+                  </div>
+                  {showSummary && (
+                    <p className="mt-2 whitespace-pre-wrap leading-relaxed">
+                      {contextSummary.content}
+                    </p>
+                  )}
+                </div>
+              )}
+              {olderCursor && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={loadOlderMessages}
+                    disabled={loadingOlder}
+                    className={`text-xs px-3 py-1.5 rounded-full border transition-colors duration-200 disabled:opacity-50 ${
+                      isDark
+                        ? "border-white/10 text-foreground/60 hover:bg-white/5"
+                        : "border-black/10 text-[#3F3F3F]/70 hover:bg-black/5"
+                    }`}
+                  >
+                    {loadingOlder ? (
+                      <Loader2 className="w-3 h-3 animate-spin inline" />
+                    ) : (
+                      "Charger les messages précédents"
+                    )}
+                  </button>
+                </div>
+              )}
+              {chatMessages.map((msg) => {
                 return (
                   <div
                     key={msg.id}
@@ -607,11 +874,63 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
                               backdropFilter: "blur(4px)",
                             }}
                           >
-                            <MessageRenderer
-                              content={msg.content}
-                              role={msg.role}
-                            />
+                            {editingId === msg.id ? (
+                              <div className="space-y-2">
+                                <textarea
+                                  value={editText}
+                                  onChange={(e) => setEditText(e.target.value)}
+                                  maxLength={5000}
+                                  rows={3}
+                                  autoFocus
+                                  className="w-full bg-transparent resize-none focus:outline-none text-sm"
+                                />
+                                <div className="flex justify-end gap-2 text-xs">
+                                  <button
+                                    onClick={() => setEditingId(null)}
+                                    className="px-2 py-1 rounded-md hover:bg-white/10"
+                                  >
+                                    Annuler
+                                  </button>
+                                  <button
+                                    onClick={() => submitEdit(msg)}
+                                    disabled={!editText.trim()}
+                                    className="px-2 py-1 rounded-md bg-white/20 hover:bg-white/30 disabled:opacity-50"
+                                  >
+                                    Envoyer
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <MessageRenderer
+                                content={msg.content}
+                                role={msg.role}
+                              />
+                            )}
                           </div>
+                          {msg.attachments && msg.attachments.length > 0 && (
+                            <div className="mt-1">
+                              <AttachmentChips
+                                attachments={msg.attachments}
+                                onOpen={
+                                  msg.siblingIds ? openAttachment : undefined
+                                }
+                                align="end"
+                              />
+                            </div>
+                          )}
+                          {msg.siblingIds && editingId !== msg.id && (
+                            <MessageBranchBar
+                              messageId={msg.id}
+                              siblingIds={msg.siblingIds}
+                              onSelectBranch={selectBranch}
+                              onEdit={() => {
+                                setEditingId(msg.id);
+                                setEditText(msg.content);
+                              }}
+                              disabled={loading}
+                              align="end"
+                            />
+                          )}
                         </div>
                       </div>
                     ) : (
@@ -628,60 +947,35 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
                           </span>
                         </div>
                         <div className="flex-1 max-w-md max-h-96 overflow-y-auto">
-                          {isLastMessage &&
-                          blocks.length > 0 &&
-                          renderedBlockCount > 0 ? (
-                            <div className="space-y-2.5">
-                              {blocks
-                                .slice(0, renderedBlockCount)
-                                .map((block, blockIndex) => (
-                                  <div
-                                    key={blockIndex}
-                                    className="rounded-lg rounded-tl-none py-2 px-3 text-sm break-words transition-all duration-300"
-                                    style={{
-                                      backgroundColor: isDark
-                                        ? "#111418"
-                                        : "#E5E7EB",
-                                      color: isDark ? "#E5E7EB" : "#1A1A1A",
-                                      height: "auto",
-                                      lineHeight: "1.3",
-                                      border: isDark
-                                        ? "1px solid rgba(255, 255, 255, 0.08)"
-                                        : "1px solid rgba(0, 0, 0, 0.06)",
-                                      boxShadow: isDark
-                                        ? "0 4px 16px rgba(0, 0, 0, 0.3)"
-                                        : "0 2px 8px rgba(0, 0, 0, 0.08)",
-                                      animation: `blockSlideUp 240ms cubic-bezier(0.34, 1.56, 0.64, 1) ${blockIndex * 50}ms both`,
-                                    }}
-                                  >
-                                    <MessageRenderer
-                                      content={block}
-                                      role={msg.role}
-                                    />
-                                  </div>
-                                ))}
-                            </div>
-                          ) : (
-                            <div
-                              className="rounded-lg rounded-tl-none py-2 px-3 text-sm break-words transition-all duration-300"
-                              style={{
-                                backgroundColor: isDark ? "#111418" : "#E5E7EB",
-                                color: isDark ? "#E5E7EB" : "#1A1A1A",
-                                height: "auto",
-                                lineHeight: "1.3",
-                                border: isDark
-                                  ? "1px solid rgba(255, 255, 255, 0.08)"
-                                  : "1px solid rgba(0, 0, 0, 0.06)",
-                                boxShadow: isDark
-                                  ? "0 4px 16px rgba(0, 0, 0, 0.3)"
-                                  : "0 2px 8px rgba(0, 0, 0, 0.08)",
-                              }}
-                            >
-                              <MessageRenderer
-                                content={displayContent}
-                                role={msg.role}
-                              />
-                            </div>
+                          <div
+                            className="rounded-lg rounded-tl-none py-2 px-3 text-sm break-words transition-all duration-300"
+                            style={{
+                              backgroundColor: isDark ? "#111418" : "#E5E7EB",
+                              color: isDark ? "#E5E7EB" : "#1A1A1A",
+                              height: "auto",
+                              lineHeight: "1.3",
+                              border: isDark
+                                ? "1px solid rgba(255, 255, 255, 0.08)"
+                                : "1px solid rgba(0, 0, 0, 0.06)",
+                              boxShadow: isDark
+                                ? "0 4px 16px rgba(0, 0, 0, 0.3)"
+                                : "0 2px 8px rgba(0, 0, 0, 0.08)",
+                            }}
+                          >
+                            <MessageRenderer
+                              content={msg.content}
+                              role={msg.role}
+                            />
+                          </div>
+                          {msg.siblingIds && (
+                            <MessageBranchBar
+                              messageId={msg.id}
+                              siblingIds={msg.siblingIds}
+                              onSelectBranch={selectBranch}
+                              onRegenerate={() => regenerate(msg)}
+                              disabled={loading}
+                              align="start"
+                            />
                           )}
                         </div>
                       </div>
@@ -689,7 +983,7 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
                   </div>
                 );
               })}
-              {(loading || isThinking || isTyping || isRenderingBlocks) && (
+              {(loading || isThinking) && (
                 <div className="flex w-full justify-start animate-messageFadeUp">
                   <div className="flex gap-2 items-start max-w-lg">
                     <div
@@ -701,11 +995,7 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
                     >
                       <span className="text-xs font-bold text-white">V</span>
                     </div>
-                    {isTyping || isRenderingBlocks ? (
-                      <TypingIndicator />
-                    ) : (
-                      <ThinkingAnimation />
-                    )}
+                    {isStreaming ? <TypingIndicator /> : <ThinkingAnimation />}
                   </div>
                 </div>
               )}
@@ -725,6 +1015,42 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
       >
         <div className="flex flex-col items-center w-full">
           <div className="w-full max-w-2xl">
+            {/* Persona selector */}
+            {conversationId && (
+              <div className="flex items-center justify-end gap-2 mb-2">
+                <select
+                  value={
+                    personas.some((p) => p.id === personaId) ? personaId! : ""
+                  }
+                  onChange={(e) => changePersona(e.target.value || null)}
+                  disabled={loading}
+                  className={`text-xs rounded-md px-2 py-1 border bg-transparent focus:outline-none transition-colors duration-300 ${
+                    isDark
+                      ? "border-white/10 text-foreground/70"
+                      : "border-black/10 text-[#3F3F3F]/80"
+                  }`}
+                >
+                  <option value="">Assistant par défaut</option>
+                  {personas.map((persona) => (
+                    <option key={persona.id} value={persona.id}>
+                      {persona.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setPersonasOpen(true)}
+                  title="Gérer les personnalités"
+                  className={`p-1 rounded-md transition-colors duration-300 ${
+                    isDark
+                      ? "text-foreground/60 hover:bg-white/5"
+                      : "text-[#3F3F3F]/70 hover:bg-black/5"
+                  }`}
+                >
+                  <UserCog className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
             {/* Chat Input Component */}
             <ChatInput
               message={message}
@@ -738,6 +1064,21 @@ export function ChatArea({ conversationId }: ChatAreaProps) {
                   ? "Votre message..."
                   : "Sélectionnez une conversation..."
               }
+              models={models}
+              model={conversationModel}
+              onModelChange={changeModel}
+              attachments={pendingAttachments}
+              onAttach={attachFiles}
+              onRemoveAttachment={removeAttachment}
+              uploading={uploading}
+            />
+
+            <PersonasModal
+              isOpen={personasOpen}
+              onOpenChange={setPersonasOpen}
+              personas={personas}
+              onPersonasChange={setPersonas}
+              models={models}
             />
 
             {/* Image Generation Loading State */}
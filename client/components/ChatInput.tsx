@@ -1,4 +1,4 @@
-import { Send, Smile, Loader2 } from "lucide-react";
+import { Send, Smile, Loader2, Paperclip } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { useTheme } from "@/contexts/ThemeContext";
 import {
@@ -6,6 +6,9 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { AttachmentChips } from "@/components/AttachmentChips";
+import { ATTACHMENT_ACCEPT } from "@/lib/attachments";
+import type { MessageAttachment, ModelCatalogEntry } from "@shared/api";
 
 const EMOJIS = [
   "😀",
@@ -38,6 +41,22 @@ interface ChatInputProps {
   disabled: boolean;
   loading: boolean;
   placeholder: string;
+  // Model picker; hidden until the catalog is loaded
+  models?: ModelCatalogEntry[];
+  model?: string | null;
+  onModelChange?: (model: string | null) => void;
+  // Files for the next message; the button is hidden without onAttach
+  attachments?: MessageAttachment[];
+  onAttach?: (files: File[]) => void;
+  onRemoveAttachment?: (attachmentId: string) => void;
+  uploading?: boolean;
+}
+
+// "Claude 3 Opus · Anthropic ×10", locked models name the plan they need
+function modelLabel(model: ModelCatalogEntry): string {
+  const cost = model.costMultiplier !== 1 ? ` ×${model.costMultiplier}` : "";
+  const lock = model.available ? "" : ` (offre ${model.plans[0]})`;
+  return `${model.name} · ${model.provider}${cost}${lock}`;
 }
 
 export function ChatInput({
@@ -48,10 +67,18 @@ export function ChatInput({
   disabled,
   loading,
   placeholder,
+  models = [],
+  model = null,
+  onModelChange,
+  attachments = [],
+  onAttach,
+  onRemoveAttachment,
+  uploading = false,
 }: ChatInputProps) {
   const { isDark } = useTheme();
   const [emojiOpen, setEmojiOpen] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleTextareaAutoResize = () => {
     if (!textareaRef.current) return;
@@ -89,6 +116,15 @@ export function ChatInput({
         transition: "all 200ms ease",
       }}
     >
+      {attachments.length > 0 && (
+        <div style={{ marginBottom: "10px" }}>
+          <AttachmentChips
+            attachments={attachments}
+            onRemove={onRemoveAttachment}
+            disabled={loading}
+          />
+        </div>
+      )}
       <div
         className="chat-input-inner flex items-center gap-3"
         style={{
@@ -137,6 +173,91 @@ export function ChatInput({
           }}
         />
 
+        {/* Model Picker */}
+        {onModelChange && models.length > 0 && (
+          <select
+            value={model ?? ""}
+            onChange={(e) => onModelChange(e.target.value || null)}
+            disabled={disabled || loading}
+            aria-label="Modèle"
+            title="Modèle utilisé pour cette conversation"
+            className="flex-shrink-0"
+            style={{
+              maxWidth: "160px",
+              fontSize: "12.5px",
+              padding: "4px 8px",
+              borderRadius: "8px",
+              border: "none",
+              outline: "none",
+              background: isDark
+                ? "rgba(255,255,255,0.08)"
+                : "rgba(0,0,0,0.05)",
+              color: isDark ? "#FFFFFF" : "#1A1A1A",
+              cursor: "pointer",
+            }}
+          >
+            <option value="">Modèle par défaut</option>
+            {models.map((entry) => (
+              <option
+                key={entry.id}
+                value={entry.id}
+                disabled={!entry.available}
+              >
+                {modelLabel(entry)}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Attach Button */}
+        {onAttach && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                // Picking the same file again must fire onChange
+                e.target.value = "";
+                if (files.length > 0) onAttach(files);
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || loading || uploading}
+              className="attach-button flex-shrink-0"
+              style={{
+                width: "28px",
+                height: "28px",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                borderRadius: "50%",
+                border: "none",
+                background: isDark
+                  ? "rgba(255,255,255,0.08)"
+                  : "rgba(0,0,0,0.05)",
+                color: isDark ? "#FFFFFF" : "#1A1A1A",
+                cursor: disabled || uploading ? "default" : "pointer",
+                opacity: disabled ? 0.5 : 1,
+                transition: "0.15s ease",
+                flexShrink: 0,
+              }}
+              aria-label="Joindre un fichier"
+              title="Joindre un fichier (PDF, texte, Markdown, CSV, code)"
+            >
+              {uploading ? (
+                <Loader2 size={16} className="animate-spin" strokeWidth={2} />
+              ) : (
+                <Paperclip size={16} strokeWidth={1.5} />
+              )}
+            </button>
+          </>
+        )}
+
         {/* Emoji Button */}
         <Popover open={emojiOpen} onOpenChange={setEmojiOpen}>
           <PopoverTrigger asChild>
@@ -8,7 +8,6 @@ import { generateLicenseKey } from "@/lib/licenses";
 interface GenerateLicenseModalProps {
   isOpen: boolean;
   onClose: () => void;
-  adminUid: string;
   onLicenseGenerated: () => void;
 }
 
@@ -22,7 +21,6 @@ const DURATION_PRESETS = [
 export function GenerateLicenseModal({
   isOpen,
   onClose,
-  adminUid,
   onLicenseGenerated,
 }: GenerateLicenseModalProps) {
   const [selectedPlan, setSelectedPlan] = useState<PlanType>("Classic");
@@ -37,11 +35,7 @@ export function GenerateLicenseModal({
 
     setLoading(true);
     try {
-      const newKey = await generateLicenseKey(
-        selectedPlan,
-        adminUid,
-        selectedDays,
-      );
+      const newKey = await generateLicenseKey(selectedPlan, selectedDays);
       toast.success(`Clé générée: ${newKey}`);
       onLicenseGenerated();
       onClose();
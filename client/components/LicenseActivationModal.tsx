@@ -1,9 +1,8 @@
 import { useState } from "react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
-import { doc, updateDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { isSignedLicenseKey, parseLicenseKey } from "@shared/license-key";
 
 interface LicenseActivationModalProps {
   isOpen: boolean;
@@ -30,6 +29,19 @@ export function LicenseActivationModal({
       return;
     }
 
+    // Signed keys carry a check character: catch typos before the API call
+    if (isSignedLicenseKey(licenseKey)) {
+      const parsed = parseLicenseKey(licenseKey);
+      if ("problem" in parsed) {
+        toast.error(
+          parsed.problem === "checksum"
+            ? "Clé mal saisie, vérifiez les caractères"
+            : "Format de clé de licence invalide",
+        );
+        return;
+      }
+    }
+
     setLoading(true);
     try {
       // Get idToken from Firebase Auth
@@ -61,17 +73,9 @@ export function LicenseActivationModal({
         return;
       }
 
-      const data = await response.json();
-
-      // Update local user data in Firestore to trigger auth context refresh
-      await updateDoc(doc(db, "users", user.uid), {
-        messagesUsed: 0,
-        messagesLimit: data.messageLimit,
-        plan: data.plan,
-        licenseKey: licenseKey.trim(),
-        licenseExpiresAt: data.expiresAt,
-        lastMessageReset: Date.now(),
-      });
+      // The server updated the user's plan and counters; AuthContext picks
+      // them up on its next refresh
+      await response.json();
 
       setSuccess(true);
       toast.success("Licence activée avec succès!");
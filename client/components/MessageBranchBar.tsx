@@ -0,0 +1,89 @@
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react";
+import { useTheme } from "@/contexts/ThemeContext";
+
+interface MessageBranchBarProps {
+  messageId: string;
+  // Versions of this message, itself included, oldest first
+  siblingIds: string[];
+  onSelectBranch: (messageId: string) => void;
+  // Shown on user messages
+  onEdit?: () => void;
+  // Shown on assistant replies
+  onRegenerate?: () => void;
+  disabled: boolean;
+  align: "start" | "end";
+}
+
+/**
+ * Actions under a stored message: "1/3" navigation between its versions,
+ * and edit or regenerate, which add a version instead of replacing it.
+ */
+export function MessageBranchBar({
+  messageId,
+  siblingIds,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  disabled,
+  align,
+}: MessageBranchBarProps) {
+  const { isDark } = useTheme();
+  const index = siblingIds.indexOf(messageId);
+  const buttonClass = `p-1 rounded-md transition-colors duration-200 disabled:opacity-30 disabled:cursor-default ${
+    isDark
+      ? "text-foreground/50 hover:bg-white/10"
+      : "text-[#3F3F3F]/60 hover:bg-black/5"
+  }`;
+
+  return (
+    <div
+      className={`flex items-center gap-0.5 mt-1 text-xs ${
+        align === "end" ? "justify-end" : "justify-start"
+      } ${isDark ? "text-foreground/50" : "text-[#3F3F3F]/60"}`}
+    >
+      {siblingIds.length > 1 && (
+        <>
+          <button
+            onClick={() => onSelectBranch(siblingIds[index - 1])}
+            disabled={disabled || index <= 0}
+            className={buttonClass}
+            aria-label="Version précédente"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="tabular-nums">
+            {index + 1}/{siblingIds.length}
+          </span>
+          <button
+            onClick={() => onSelectBranch(siblingIds[index + 1])}
+            disabled={disabled || index >= siblingIds.length - 1}
+            className={buttonClass}
+            aria-label="Version suivante"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </>
+      )}
+      {onEdit && (
+        <button
+          onClick={onEdit}
+          disabled={disabled}
+          className={buttonClass}
+          title="Modifier et renvoyer"
+        >
+          <Pencil size={13} />
+        </button>
+      )}
+      {onRegenerate && (
+        <button
+          onClick={onRegenerate}
+          disabled={disabled}
+          className={buttonClass}
+          title="Régénérer la réponse"
+        >
+          <RefreshCw size={13} />
+        </button>
+      )}
+    </div>
+  );
+}
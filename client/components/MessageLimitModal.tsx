@@ -1,15 +1,16 @@
 import { useState } from "react";
 import { LicenseActivationModal } from "@/components/LicenseActivationModal";
+import { formatTokens } from "@shared/plans";
 
 interface MessageLimitModalProps {
-  messagesUsed: number;
-  messagesLimit: number;
+  tokensUsed: number;
+  tokenBudget: number;
   onUpgrade?: () => void;
 }
 
 export function MessageLimitModal({
-  messagesUsed,
-  messagesLimit,
+  tokensUsed,
+  tokenBudget,
   onUpgrade,
 }: MessageLimitModalProps) {
   const [showLicenseModal, setShowLicenseModal] = useState(false);
@@ -44,12 +45,13 @@ export function MessageLimitModal({
           </h1>
 
           <p className="text-lg text-foreground/80 mb-8">
-            Vous avez utilisé tous vos messages ({messagesUsed}/{messagesLimit})
+            Vous avez utilisé votre quota de tokens du jour{" "}
+            {`(${formatTokens(tokensUsed)}/${formatTokens(tokenBudget)})`}
           </p>
 
           <p className="text-sm text-foreground/60 mb-12">
-            Pour continuer à utiliser l'IA, vous devez activer une nouvelle
-            licence ou mettre à jour votre plan.
+            Votre quota se renouvelle demain. Pour continuer dès maintenant,
+            activez une nouvelle licence ou mettez à jour votre plan.
           </p>
 
           {/* Upgrade Button - Always Visible */}
@@ -1,6 +1,5 @@
 import { Copy, Check } from "lucide-react";
 import { useState, ReactNode } from "react";
-import { escapeHtml } from "@/lib/security";
 import { useTheme } from "@/contexts/ThemeContext";
 
 interface MessageRendererProps {
@@ -83,7 +82,7 @@ function CodeBlockWithCopy({
             isDark ? "text-white/90" : "text-[#1A1A1A]/90"
           }`}
         >
-          {escapeHtml(code)}
+          {code}
         </code>
       </pre>
     </div>
@@ -322,6 +321,8 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
   // Links
   const linkRe = /\[(.+?)\]\((.+?)\)/g;
   while ((match = linkRe.exec(text))) {
+    // Only web and mail links; a javascript: URL would run on click
+    if (!/^(https?:|mailto:)/i.test(match[2])) continue;
     allMatches.push({
       type: "link",
       start: match.index,
@@ -337,8 +338,8 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
   // Render with formatting
   allMatches.forEach((m, idx) => {
     if (m.start > lastIndex) {
-      // Escape plain text to prevent XSS
-      parts.push(escapeHtml(text.substring(lastIndex, m.start)));
+      // Plain text: React escapes it, markup is shown as typed
+      parts.push(text.substring(lastIndex, m.start));
     }
 
     switch (m.type) {
@@ -350,7 +351,7 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
               isDark ? "text-white" : "text-[#1A1A1A]"
             }`}
           >
-            {escapeHtml(m.content)}
+            {m.content}
           </strong>,
         );
         break;
@@ -362,7 +363,7 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
               isDark ? "text-white/95" : "text-[#1A1A1A]/95"
             }`}
           >
-            {escapeHtml(m.content)}
+            {m.content}
           </em>,
         );
         break;
@@ -377,7 +378,7 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
             }`}
             style={{ margin: 0 }}
           >
-            {escapeHtml(m.content)}
+            {m.content}
           </code>,
         );
         break;
@@ -394,7 +395,7 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
                 : "text-orange-600 hover:text-orange-700"
             }`}
           >
-            {escapeHtml(m.content)}
+            {m.content}
           </a>,
         );
         break;
@@ -407,10 +408,10 @@ function parseInlineMarkdown(text: string, isDark: boolean): ReactNode[] {
 
   if (lastIndex < text.length) {
     // Escape remaining plain text to prevent XSS
-    parts.push(escapeHtml(text.substring(lastIndex)));
+    parts.push(text.substring(lastIndex));
   }
 
-  return parts.length > 0 ? parts : [escapeHtml(text)];
+  return parts.length > 0 ? parts : [text];
 }
 
 export function MessageRenderer({
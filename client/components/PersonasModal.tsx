@@ -0,0 +1,282 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useTheme } from "@/contexts/ThemeContext";
+import { Persona, PersonaInput, PersonasService } from "@/lib/personas";
+import { toast } from "sonner";
+import type { ModelCatalogEntry } from "@shared/api";
+
+const EMPTY_FORM: PersonaInput = {
+  name: "",
+  instructions: "",
+  model: null,
+  temperature: null,
+};
+
+interface PersonasModalProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  personas: Persona[];
+  onPersonasChange: (personas: Persona[]) => void;
+  // From GET /api/models; models outside the plan cannot be picked
+  models: ModelCatalogEntry[];
+}
+
+export function PersonasModal({
+  isOpen,
+  onOpenChange,
+  personas,
+  onPersonasChange,
+  models,
+}: PersonasModalProps) {
+  const { isDark } = useTheme();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaInput>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const inputClass = `w-full border rounded-[10px] px-3 py-2.5 focus:outline-none transition-all duration-200 text-sm ${
+    isDark
+      ? "bg-white/[0.03] border-white/[0.06] text-foreground placeholder-foreground/40 focus:border-primary/40"
+      : "bg-[#FFFFFF] border-black/[0.08] text-[#1A1A1A] placeholder-[#3F3F3F]/50 focus:border-primary/40"
+  }`;
+  const mutedText = isDark ? "text-foreground/50" : "text-[#3F3F3F]/60";
+
+  const startEdit = (persona: Persona) => {
+    setEditingId(persona.id);
+    setForm({
+      name: persona.name,
+      instructions: persona.instructions,
+      model: persona.model,
+      temperature: persona.temperature,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const input = {
+        ...form,
+        name: form.name.trim(),
+        instructions: form.instructions.trim(),
+      };
+      if (editingId) {
+        const updated = await PersonasService.updatePersona(editingId, input);
+        onPersonasChange(
+          personas.map((p) => (p.id === editingId ? updated : p)),
+        );
+        toast.success("Personnalité mise à jour");
+      } else {
+        const created = await PersonasService.createPersona(input);
+        onPersonasChange([...personas, created]);
+        toast.success("Personnalité créée");
+      }
+      resetForm();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la sauvegarde",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (persona: Persona) => {
+    try {
+      await PersonasService.deletePersona(persona.id);
+      onPersonasChange(personas.filter((p) => p.id !== persona.id));
+      if (editingId === persona.id) resetForm();
+      toast.success("Personnalité supprimée");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la suppression",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={`border-0 rounded-[12px] w-[520px] max-h-[85vh] flex flex-col p-0 overflow-hidden shadow-2xl transition-all duration-300 ${
+          isDark ? "bg-[#0f0f0f]" : "bg-[#FAFAFA] border border-black/5"
+        }`}
+      >
+        <DialogHeader
+          className={`px-6 py-4 border-b transition-all duration-300 ${
+            isDark ? "border-white/[0.06]" : "border-black/[0.08]"
+          }`}
+        >
+          <DialogTitle
+            className={`text-lg font-semibold transition-colors duration-300 ${
+              isDark ? "text-foreground" : "text-[#1A1A1A]"
+            }`}
+          >
+            Personnalités
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-5">
+          {/* Existing personas */}
+          {personas.length === 0 ? (
+            <p className={`text-sm ${mutedText}`}>
+              Aucune personnalité pour le moment
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {personas.map((persona) => (
+                <div
+                  key={persona.id}
+                  className={`rounded-[10px] p-3 flex items-start justify-between gap-3 ${
+                    isDark
+                      ? "bg-white/[0.03]"
+                      : "bg-[#FFFFFF] border border-black/[0.08]"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <p
+                      className={`text-sm font-medium ${
+                        isDark ? "text-foreground" : "text-[#1A1A1A]"
+                      }`}
+                    >
+                      {persona.name}
+                    </p>
+                    <p className={`text-xs truncate ${mutedText}`}>
+                      {persona.instructions}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => startEdit(persona)}
+                      className={`p-1.5 rounded-md ${mutedText} hover:bg-white/10`}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(persona)}
+                      className="p-1.5 rounded-md text-red-400 hover:bg-red-500/10"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Create / edit form */}
+          <div className="space-y-3">
+            <h3
+              className={`text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-foreground/80" : "text-[#3F3F3F]/70"
+              }`}
+            >
+              {editingId ? "Modifier" : "Nouvelle personnalité"}
+            </h3>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              maxLength={60}
+              placeholder="Nom"
+              className={inputClass}
+            />
+            <textarea
+              value={form.instructions}
+              onChange={(e) =>
+                setForm({ ...form, instructions: e.target.value })
+              }
+              maxLength={4000}
+              rows={5}
+              placeholder="Instructions (ton, rôle, format des réponses...)"
+              className={`${inputClass} resize-none`}
+            />
+            <div className="flex gap-3">
+              <select
+                value={form.model || ""}
+                onChange={(e) =>
+                  setForm({ ...form, model: e.target.value || null })
+                }
+                className={inputClass}
+              >
+                <option value="">Modèle par défaut</option>
+                {models.map((model) => (
+                  <option
+                    key={model.id}
+                    value={model.id}
+                    disabled={!model.available}
+                  >
+                    {model.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                max="2"
+                step="0.1"
+                value={form.temperature ?? ""}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    temperature: e.target.value
+                      ? parseFloat(e.target.value)
+                      : null,
+                  })
+                }
+                placeholder="Température"
+                className={`${inputClass} w-40`}
+              />
+            </div>
+            <p className={`text-xs ${mutedText}`}>
+              Les instructions s'ajoutent à celles de l'administrateur, qui
+              restent prioritaires.
+            </p>
+          </div>
+        </div>
+
+        <div
+          className={`border-t px-6 py-4 flex gap-2.5 transition-all duration-300 ${
+            isDark
+              ? "border-white/[0.06] bg-[#0a0a0a]/50"
+              : "border-black/[0.08] bg-white/40"
+          }`}
+        >
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className={`px-4 py-3 text-sm rounded-[10px] ${mutedText} hover:bg-white/5`}
+            >
+              Annuler
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.name.trim() || !form.instructions.trim()}
+            className={`flex-1 px-4 py-3 font-medium text-sm rounded-[10px] transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDark
+                ? "bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30"
+                : "bg-primary/10 hover:bg-primary/20 text-primary border border-primary/30"
+            }`}
+          >
+            {saving ? (
+              <Loader2 size={16} className="animate-spin" />
+            ) : (
+              !editingId && <Plus size={16} />
+            )}
+            {editingId ? "Enregistrer" : "Créer"}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/contexts/ThemeContext";
 import { toast } from "sonner";
 import { MessagesService } from "@/lib/messages";
+import { formatTokens, getTokenBudget } from "@shared/plans";
+import { hasRole } from "@shared/roles";
 import {
   Popover,
   PopoverContent,
@@ -54,7 +56,7 @@ export function Sidebar({
   activeConversationId,
   onConversationSelect,
 }: SidebarProps) {
-  const { user, userData, loading } = useAuth();
+  const { user, userData, role, loading } = useAuth();
   const { isDark } = useTheme();
   const navigate = useNavigate();
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -68,8 +70,8 @@ export function Sidebar({
   const [isSyncing, setIsSyncing] = useState(false);
 
   const userInitial = userData?.displayName?.[0]?.toUpperCase() || "U";
-  const messagesUsed = userData?.messagesUsed || 0;
-  const messagesLimit = userData?.messagesLimit || 10;
+  const tokensUsed = userData?.tokensUsed || 0;
+  const tokenBudget = userData ? getTokenBudget(userData) : 1;
 
   useEffect(() => {
     if (user?.uid) {
@@ -81,14 +83,14 @@ export function Sidebar({
     if (!user?.uid) return;
     try {
       setLoadingConversations(true);
-      const fbConversations = await MessagesService.getConversations(user.uid);
+      const fbConversations = await MessagesService.getConversations();
       setConversations(
         fbConversations.map((conv) => ({
           id: conv.id,
           name: conv.title,
           active: conv.id === activeConversationId,
-          createdAt: conv.createdAt.toDate(),
-          updatedAt: conv.updatedAt.toDate(),
+          createdAt: new Date(conv.createdAt),
+          updatedAt: new Date(conv.updatedAt),
           messageCount: conv.messageCount,
         })),
       );
@@ -112,20 +114,19 @@ export function Sidebar({
   const handleNewConversation = async () => {
     if (!user?.uid) return;
     try {
-      const conversationRef = await MessagesService.createConversation(
-        user.uid,
+      const created = await MessagesService.createConversation(
         "Nouvelle conversation",
       );
       const newConversation: Conversation = {
-        id: conversationRef.id,
-        name: "Nouvelle conversation",
+        id: created.id,
+        name: created.title,
         active: true,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt: new Date(created.createdAt),
+        updatedAt: new Date(created.updatedAt),
         messageCount: 0,
       };
       setConversations([newConversation, ...conversations]);
-      onConversationSelect?.(conversationRef.id);
+      onConversationSelect?.(created.id);
       toast.success("Conversation créée");
     } catch (error) {
       console.error("Error creating conversation:", error);
@@ -184,9 +185,7 @@ export function Sidebar({
     if (!editingId || !editName.trim()) return;
 
     try {
-      await MessagesService.updateConversation(editingId, {
-        title: editName,
-      });
+      await MessagesService.renameConversation(editingId, editName.trim());
       setConversations(
         conversations.map((c) =>
           c.id === editingId ? { ...c, name: editName } : c,
@@ -323,7 +322,7 @@ export function Sidebar({
                     >
                       Aide
                     </button>
-                    {userData?.isAdmin && (
+                    {hasRole(role, "moderator") && (
                       <>
                         <div
                           className={`h-px my-0.5 transition-colors duration-300 ${
@@ -519,7 +518,9 @@ export function Sidebar({
             >
               <div
                 className="h-full bg-gradient-to-r from-primary/60 to-primary/80 rounded-full transition-all shadow-sm"
-                style={{ width: `${(messagesUsed / messagesLimit) * 100}%` }}
+                style={{
+                  width: `${Math.min(100, (tokensUsed / tokenBudget) * 100)}%`,
+                }}
               ></div>
             </div>
             <p
@@ -527,7 +528,8 @@ export function Sidebar({
                 isDark ? "text-foreground/60" : "text-[#3F3F3F]/60"
               }`}
             >
-              {messagesLimit - messagesUsed} sur {messagesLimit} restants
+              {formatTokens(Math.max(0, tokenBudget - tokensUsed))} tokens sur{" "}
+              {formatTokens(tokenBudget)} restants aujourd'hui
             </p>
           </div>
         </div>
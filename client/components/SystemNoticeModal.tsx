@@ -66,7 +66,7 @@ export function SystemNoticeModal({
             {getSeverityIcon()}
             <div>
               <h2 className="text-xl font-bold text-white mb-1">{title}</h2>
-              {type === "ban" && (
+              {type === "ban" && !dismissible && (
                 <p className="text-sm text-red-400/80">
                   Votre compte a été banni
                 </p>
@@ -128,7 +128,7 @@ export function SystemNoticeModal({
 
         {/* Footer */}
         <div className="px-6 py-6 border-t border-white/10">
-          {type === "ban" && (
+          {type === "ban" && !dismissible && (
             <div className="text-center">
               <p className="text-xs text-foreground/50 mb-3">
                 Veuillez contacter le support pour plus d'informations
@@ -142,7 +142,7 @@ export function SystemNoticeModal({
             </div>
           )}
 
-          {type === "maintenance" && (
+          {(type === "maintenance" || dismissible) && (
             <button
               onClick={onAcknowledge}
               className={`w-full py-2 rounded-lg font-semibold border transition-all ${getButtonColor()}`}
@@ -1,7 +1,16 @@
 import { Loader2, AlertCircle } from "lucide-react";
 
 interface ActionConfirmModalProps {
-  type: "promote" | "demote" | "ban" | "unban" | "reset" | "delete";
+  type:
+    | "promote"
+    | "promoteModerator"
+    | "demote"
+    | "ban"
+    | "unban"
+    | "reset"
+    | "delete"
+    | "revokeBatch"
+    | "revokeLicense";
   email: string;
   onConfirm: () => void;
   onCancel: () => void;
@@ -22,9 +31,15 @@ export default function ActionConfirmModal({
       confirmText: "Promouvoir",
       color: "purple",
     },
+    promoteModerator: {
+      title: "Promouvoir en modérateur",
+      description: `Êtes-vous sûr de vouloir promouvoir ${email} en modérateur ? Cette personne pourra bannir des utilisateurs et réinitialiser leurs quotas.`,
+      confirmText: "Promouvoir",
+      color: "blue",
+    },
     demote: {
       title: "Rétrograder en utilisateur",
-      description: `Êtes-vous sûr de vouloir rétrograder ${email} ? Cette personne perdra tous les droits administrateur.`,
+      description: `Êtes-vous sûr de vouloir rétrograder ${email} ? Cette personne perdra tous ses droits d'administration et de modération.`,
       confirmText: "Rétrograder",
       color: "slate",
     },
@@ -52,12 +67,25 @@ export default function ActionConfirmModal({
       confirmText: "Supprimer",
       color: "red",
     },
+    revokeBatch: {
+      title: "Révoquer ce lot de licences",
+      description: `Êtes-vous sûr de vouloir révoquer le lot ${email} ? Toutes ses clés seront invalidées et les utilisateurs qui en utilisent une repasseront au plan Free.`,
+      confirmText: "Révoquer",
+      color: "red",
+    },
+    revokeLicense: {
+      title: "Révoquer cette licence",
+      description: `Êtes-vous sûr de vouloir révoquer la licence ${email} ? Les utilisateurs qui l'utilisent repasseront immédiatement au plan Free.`,
+      confirmText: "Révoquer",
+      color: "red",
+    },
   };
 
   const msg = messages[type];
 
   const colorClasses = {
     purple: "bg-purple-500/10 border-purple-500/20 text-purple-400",
+    blue: "bg-blue-500/10 border-blue-500/20 text-blue-400",
     slate: "bg-slate-500/10 border-slate-500/20 text-slate-400",
     red: "bg-red-500/10 border-red-500/20 text-red-400",
     emerald: "bg-emerald-500/10 border-emerald-500/20 text-emerald-400",
@@ -66,6 +94,7 @@ export default function ActionConfirmModal({
 
   const buttonClasses = {
     purple: "bg-purple-500 hover:bg-purple-600 text-white",
+    blue: "bg-blue-500 hover:bg-blue-600 text-white",
     slate: "bg-slate-500 hover:bg-slate-600 text-white",
     red: "bg-red-500 hover:bg-red-600 text-white",
     emerald: "bg-emerald-500 hover:bg-emerald-600 text-white",
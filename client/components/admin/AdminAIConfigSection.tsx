@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { auth } from "@/lib/firebase";
 import { toast } from "sonner";
 import { Loader2, Save } from "lucide-react";
+import { AIService } from "@/lib/ai";
+import type { ModelCatalogEntry } from "@shared/api";
 
 interface AIConfig {
   model: string;
@@ -15,16 +17,26 @@ export default function AdminAIConfigSection() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [tempConfig, setTempConfig] = useState<AIConfig | null>(null);
+  const [models, setModels] = useState<ModelCatalogEntry[]>([]);
 
   useEffect(() => {
     loadConfig();
+    AIService.getModels()
+      .then((catalog) => setModels(catalog.models))
+      .catch((error) => console.error("Error loading models:", error));
   }, []);
 
   const loadConfig = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/ai/config");
+      const idToken = await auth.currentUser?.getIdToken();
+      if (!idToken) throw new Error("Not authenticated");
+
+      const response = await fetch("/api/admin/ai-config", {
+        headers: { Authorization: `Bearer ${idToken}` },
+      });
       const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to load");
       setConfig(data);
       setTempConfig(data);
     } catch (error) {
@@ -44,7 +56,7 @@ export default function AdminAIConfigSection() {
       if (!currentUser) throw new Error("Not authenticated");
 
       const idToken = await currentUser.getIdToken();
-      const response = await fetch("/api/ai/config", {
+      const response = await fetch("/api/admin/ai-config", {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -98,17 +110,22 @@ export default function AdminAIConfigSection() {
           <label className="block text-sm font-medium text-white mb-2">
             Modèle
           </label>
-          <input
-            type="text"
+          <select
             value={tempConfig.model}
             onChange={(e) =>
               setTempConfig({ ...tempConfig, model: e.target.value })
             }
-            placeholder="ex: gpt-4o-mini, claude-3-5-sonnet, etc."
-            className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
-          />
+            className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+          >
+            {models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name} · {model.provider} ({model.plans.join(", ")})
+              </option>
+            ))}
+          </select>
           <p className="text-xs text-foreground/60 mt-2">
-            Entrez le nom du modèle d'IA à utiliser
+            Modèle par défaut des conversations. Les offres qui ne l'incluent
+            pas utilisent Grok 4.1 Fast.
           </p>
         </div>
 
@@ -178,7 +195,9 @@ export default function AdminAIConfigSection() {
             placeholder="Entrez l'instruction système pour le modèle..."
           />
           <p className="text-xs text-foreground/60 mt-2">
-            Instructions de base pour guider le comportement de l'IA
+            Envoyée en premier à chaque requête. Elle prime sur les
+            personnalités définies par les utilisateurs et ne leur est jamais
+            montrée.
           </p>
         </div>
       </div>
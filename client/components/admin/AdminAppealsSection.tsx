@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, Gavel } from "lucide-react";
+import { decideAppeal, getPendingAppeals, Sanction } from "@/lib/bans";
+import type { AppealDecision } from "@shared/bans";
+
+const DECISION_LABELS: Record<AppealDecision, string> = {
+  upheld: "Appel rejeté",
+  reduced: "Sanction réduite",
+  lifted: "Sanction levée",
+};
+
+function AppealCard({
+  appeal,
+  onDecided,
+}: {
+  appeal: Sanction;
+  onDecided: (id: string) => void;
+}) {
+  const [response, setResponse] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  const [deciding, setDeciding] = useState<AppealDecision | null>(null);
+
+  const decide = async (decision: AppealDecision) => {
+    if (decision === "reduced" && !durationMinutes) {
+      toast.error("Indiquez la nouvelle durée en minutes");
+      return;
+    }
+    try {
+      setDeciding(decision);
+      await decideAppeal(appeal.id, {
+        decision,
+        response: response.trim() || undefined,
+        durationMinutes:
+          decision === "reduced" ? durationMinutes || undefined : undefined,
+      });
+      toast.success(DECISION_LABELS[decision]);
+      onDecided(appeal.id);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la décision",
+      );
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-white/5 bg-white/[0.02] p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-white font-medium">{appeal.email}</p>
+          <p className="text-xs text-foreground/50 mt-1">
+            Banni le{" "}
+            {appeal.createdAt
+              ? new Date(appeal.createdAt).toLocaleString("fr-FR")
+              : "-"}{" "}
+            ·{" "}
+            {appeal.isPermanent
+              ? "Permanent"
+              : `Jusqu'au ${new Date(appeal.expiresAt!).toLocaleString("fr-FR")}`}
+          </p>
+        </div>
+        <span className="text-xs text-foreground/50">
+          Appel du{" "}
+          {appeal.appeal?.submittedAt
+            ? new Date(appeal.appeal.submittedAt).toLocaleString("fr-FR")
+            : "-"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-foreground/50 uppercase font-semibold mb-1">
+            Raison du ban
+          </p>
+          <p className="text-sm text-foreground/80 break-words">
+            {appeal.reason}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-foreground/50 uppercase font-semibold mb-1">
+            Message de l'utilisateur
+          </p>
+          <p className="text-sm text-foreground/80 break-words whitespace-pre-wrap">
+            {appeal.appeal?.message}
+          </p>
+        </div>
+      </div>
+
+      <textarea
+        value={response}
+        onChange={(e) => setResponse(e.target.value)}
+        rows={2}
+        maxLength={1000}
+        placeholder="Réponse à l'utilisateur (optionnelle)"
+        className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm placeholder:text-foreground/40 focus:outline-none focus:border-white/30 resize-none"
+      />
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => decide("upheld")}
+          disabled={deciding !== null}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors disabled:opacity-50"
+        >
+          Maintenir
+        </button>
+        <input
+          type="number"
+          min="1"
+          value={durationMinutes || ""}
+          onChange={(e) =>
+            setDurationMinutes(
+              e.target.value ? parseInt(e.target.value, 10) : null,
+            )
+          }
+          placeholder="Minutes restantes"
+          className="w-40 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <button
+          onClick={() => decide("reduced")}
+          disabled={deciding !== null}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300 transition-colors disabled:opacity-50"
+        >
+          Réduire
+        </button>
+        <button
+          onClick={() => decide("lifted")}
+          disabled={deciding !== null}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-green-500/20 hover:bg-green-500/30 text-green-300 transition-colors disabled:opacity-50"
+        >
+          Lever
+        </button>
+        {deciding && (
+          <Loader2 size={16} className="animate-spin text-foreground/60" />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminAppealsSection() {
+  const [appeals, setAppeals] = useState<Sanction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAppeals();
+  }, []);
+
+  const loadAppeals = async () => {
+    try {
+      setLoading(true);
+      setAppeals(await getPendingAppeals());
+    } catch (error) {
+      console.error("Error loading appeals:", error);
+      toast.error("Erreur lors du chargement des appels");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Appels</h2>
+          <p className="text-sm text-foreground/60 mt-1">
+            Appels des utilisateurs bannis, du plus ancien au plus récent. Une
+            décision est définitive.
+          </p>
+        </div>
+        <button
+          onClick={loadAppeals}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+        >
+          <RefreshCw size={16} />
+          Actualiser
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={32} className="animate-spin text-foreground/60" />
+        </div>
+      ) : appeals.length === 0 ? (
+        <div className="py-12 text-center">
+          <Gavel size={32} className="mx-auto text-foreground/30 mb-3" />
+          <p className="text-sm text-foreground/60">Aucun appel en attente</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {appeals.map((appeal) => (
+            <AppealCard
+              key={appeal.id}
+              appeal={appeal}
+              onDecided={(id) =>
+                setAppeals((current) => current.filter((a) => a.id !== id))
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { auth } from "@/lib/firebase";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import type { AdminAuditEntry, AdminAuditPage } from "@shared/api";
+
+const ACTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Toutes les actions" },
+  { value: "user.promote", label: "Promotion admin" },
+  { value: "user.demote", label: "Rétrogradation" },
+  { value: "user.ban", label: "Bannissement" },
+  { value: "user.unban", label: "Débannissement" },
+  { value: "user.warn", label: "Avertissement" },
+  { value: "user.unwarn", label: "Retrait avertissement" },
+  { value: "user.appeal_decide", label: "Décision d'appel" },
+  { value: "user.reset_usage", label: "Réinitialisation quota" },
+  { value: "user.delete", label: "Suppression utilisateur" },
+  { value: "license.create", label: "Création licence" },
+  { value: "license.revoke", label: "Révocation licence" },
+  { value: "license.extend", label: "Prolongation licence" },
+  { value: "license.transfer", label: "Transfert licence" },
+  { value: "license.purge", label: "Purge licences" },
+  { value: "license_batch.create", label: "Création lot" },
+  { value: "license_batch.revoke", label: "Révocation lot" },
+  { value: "ai_config.update", label: "Configuration IA" },
+  { value: "content_policy.update", label: "Politique de contenu" },
+  { value: "ip.ban", label: "Ban IP" },
+  { value: "ip.unban", label: "Levée ban IP" },
+  { value: "ip_range.create", label: "Ajout plage IP" },
+  { value: "ip_range.delete", label: "Suppression plage IP" },
+  { value: "system.migrate_messages", label: "Migration messages" },
+  { value: "system.run_maintenance", label: "Maintenance" },
+];
+
+interface AuditFilters {
+  action: string;
+  actorId: string;
+  targetId: string;
+}
+
+async function fetchAuditPage(
+  filters: AuditFilters,
+  before?: string,
+): Promise<AdminAuditPage> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+
+  const params = new URLSearchParams();
+  if (filters.action) params.set("action", filters.action);
+  if (filters.actorId.trim()) params.set("actorId", filters.actorId.trim());
+  if (filters.targetId.trim()) params.set("targetId", filters.targetId.trim());
+  if (before) params.set("before", before);
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(`/api/admin/audit?${params}`, {
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to load audit log");
+  }
+  return data;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function AdminAuditSection() {
+  const [filters, setFilters] = useState<AuditFilters>({
+    action: "",
+    actorId: "",
+    targetId: "",
+  });
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters.action]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      const page = await fetchAuditPage(filters);
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("Erreur lors du chargement du journal d'audit");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const page = await fetchAuditPage(filters, nextCursor);
+      setEntries((current) => [...current, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("Erreur lors du chargement du journal d'audit");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const actionLabel = (action: string) =>
+    ACTIONS.find((a) => a.value === action)?.label || action;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold text-white">Journal d'audit</h2>
+        <p className="text-sm text-foreground/60 mt-1">
+          Historique des actions administrateur (lecture seule)
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          loadEntries();
+        }}
+        className="flex flex-wrap items-center gap-3"
+      >
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+        >
+          {ACTIONS.map((action) => (
+            <option key={action.value} value={action.value}>
+              {action.label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={filters.actorId}
+          onChange={(e) => setFilters({ ...filters, actorId: e.target.value })}
+          placeholder="ID de l'admin"
+          className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+        />
+        <input
+          value={filters.targetId}
+          onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+          placeholder="ID de la cible"
+          className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+        />
+        <button
+          type="submit"
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+        >
+          <RefreshCw size={16} />
+          Filtrer
+        </button>
+      </form>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={32} className="animate-spin text-foreground/60" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-foreground/60 py-12 text-center">
+          Aucune entrée
+        </p>
+      ) : (
+        <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.05] border-b border-white/5">
+              <tr>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Date
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Action
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Admin
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Cible
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Modifications
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Origine
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className="hover:bg-white/[0.03] transition-colors align-top"
+                >
+                  <td className="px-6 py-4 text-foreground/80 whitespace-nowrap">
+                    {new Date(entry.createdAt).toLocaleString("fr-FR")}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-300">
+                      {actionLabel(entry.action)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <code className="text-xs text-foreground/70 font-mono">
+                      {entry.actorId}
+                    </code>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-xs text-foreground/50">
+                      {entry.targetType}
+                    </div>
+                    <code className="text-xs text-foreground/70 font-mono break-all">
+                      {entry.targetId}
+                    </code>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-foreground/80 space-y-1">
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <div key={field}>
+                        <span className="text-foreground/50">{field}: </span>
+                        <span className="text-red-300 line-through">
+                          {formatValue(change.before)}
+                        </span>{" "}
+                        →{" "}
+                        <span className="text-emerald-300">
+                          {formatValue(change.after)}
+                        </span>
+                      </div>
+                    ))}
+                    {Object.keys(entry.metadata).length > 0 && (
+                      <div className="text-foreground/50 break-all">
+                        {JSON.stringify(entry.metadata)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-foreground/50">
+                    <div>{entry.ip || "—"}</div>
+                    <div className="font-mono">{entry.requestId || ""}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {loadingMore && <Loader2 size={16} className="animate-spin" />}
+            Charger plus
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { auth } from "@/lib/firebase";
+import { toast } from "sonner";
+import { FlaskConical, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import {
+  PII_TYPES,
+  POLICY_OUTCOMES,
+  PiiType,
+  PolicyDecision,
+  PolicyOutcome,
+  PolicyRule,
+} from "@shared/content-policy";
+
+const OUTCOME_LABELS: Record<PolicyOutcome, string> = {
+  allow: "Autoriser",
+  warn: "Avertir",
+  redact: "Masquer",
+  block: "Bloquer",
+};
+
+const OUTCOME_BADGES: Record<PolicyOutcome, string> = {
+  allow: "bg-slate-500/20 text-slate-300",
+  warn: "bg-amber-500/20 text-amber-300",
+  redact: "bg-blue-500/20 text-blue-300",
+  block: "bg-red-500/20 text-red-300",
+};
+
+const KIND_LABELS: Record<PolicyRule["kind"], string> = {
+  size: "Taille",
+  pii: "Données personnelles",
+  injection: "Injection de prompt",
+  topic: "Sujet interdit",
+};
+
+const PII_LABELS: Record<PiiType, string> = {
+  email: "Email",
+  phone: "Téléphone",
+  credit_card: "Carte bancaire",
+  iban: "IBAN",
+};
+
+async function policyRequest<T>(
+  path: string,
+  method: string,
+  body?: unknown,
+): Promise<T> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(path, {
+    method,
+    headers: {
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function AdminContentPolicySection() {
+  const [rules, setRules] = useState<PolicyRule[] | null>(null);
+  const [tempRules, setTempRules] = useState<PolicyRule[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sample, setSample] = useState("");
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<PolicyDecision | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const data = await policyRequest<{ rules: PolicyRule[] }>(
+        "/api/admin/content-policy",
+        "GET",
+      );
+      setRules(data.rules);
+      setTempRules(data.rules);
+    } catch (error) {
+      toast.error("Erreur lors du chargement de la politique de contenu");
+      console.error("Error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRules = async () => {
+    if (!tempRules) return;
+
+    try {
+      setSaving(true);
+      const data = await policyRequest<{ rules: PolicyRule[] }>(
+        "/api/admin/content-policy",
+        "PUT",
+        { rules: tempRules },
+      );
+      setRules(data.rules);
+      setTempRules(data.rules);
+      toast.success("Politique de contenu sauvegardée");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la sauvegarde",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs the draft rules, so changes can be tried before saving
+  const testRules = async () => {
+    if (!sample.trim() || !tempRules) return;
+
+    try {
+      setTesting(true);
+      const data = await policyRequest<{ decision: PolicyDecision }>(
+        "/api/admin/content-policy/test",
+        "POST",
+        { text: sample, rules: tempRules },
+      );
+      setTestResult(data.decision);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors du test",
+      );
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const updateRule = (index: number, changes: Partial<PolicyRule>) => {
+    setTempRules((current) =>
+      current!.map((rule, i) =>
+        i === index ? ({ ...rule, ...changes } as PolicyRule) : rule,
+      ),
+    );
+  };
+
+  const addTopicRule = () => {
+    setTempRules((current) => [
+      ...current!,
+      {
+        id: `topic-${Date.now().toString(36)}`,
+        kind: "topic",
+        label: "Nouveau sujet",
+        enabled: true,
+        outcome: "block",
+        terms: [],
+      },
+    ]);
+  };
+
+  if (loading || !tempRules) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 size={32} className="animate-spin text-foreground/60" />
+      </div>
+    );
+  }
+
+  const hasChanges = JSON.stringify(rules) !== JSON.stringify(tempRules);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">
+            Politique de contenu
+          </h2>
+          <p className="text-sm text-foreground/60 mt-1">
+            Règles appliquées aux messages et aux prompts d'image avant l'IA
+          </p>
+        </div>
+        <button
+          onClick={addTopicRule}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 border border-emerald-500/30 rounded-lg transition-colors"
+        >
+          <Plus size={18} />
+          Sujet interdit
+        </button>
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-3">
+        {tempRules.map((rule, index) => (
+          <div
+            key={rule.id}
+            className="rounded-lg border border-white/5 bg-white/[0.02] p-4 space-y-3"
+          >
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) =>
+                  updateRule(index, { enabled: e.target.checked })
+                }
+              />
+              <input
+                value={rule.label}
+                onChange={(e) => updateRule(index, { label: e.target.value })}
+                maxLength={100}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+              />
+              <span className="text-xs text-foreground/50">
+                {KIND_LABELS[rule.kind]}
+              </span>
+              <select
+                value={rule.outcome}
+                onChange={(e) =>
+                  updateRule(index, {
+                    outcome: e.target.value as PolicyOutcome,
+                  })
+                }
+                className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+              >
+                {POLICY_OUTCOMES.map((outcome) => (
+                  <option key={outcome} value={outcome}>
+                    {OUTCOME_LABELS[outcome]}
+                  </option>
+                ))}
+              </select>
+              {rule.kind === "topic" && (
+                <button
+                  onClick={() =>
+                    setTempRules(tempRules.filter((_, i) => i !== index))
+                  }
+                  className="p-2 hover:bg-red-500/20 rounded-lg transition-colors text-red-400"
+                  title="Supprimer"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+
+            {rule.kind === "size" && (
+              <label className="flex items-center gap-2 text-sm text-foreground/70">
+                Caractères max.
+                <input
+                  type="number"
+                  min={1}
+                  max={100000}
+                  value={rule.maxChars}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      maxChars: parseInt(e.target.value) || 1,
+                    })
+                  }
+                  className="w-32 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                />
+              </label>
+            )}
+
+            {rule.kind === "pii" && (
+              <div className="flex flex-wrap gap-4 text-sm text-foreground/70">
+                {PII_TYPES.map((type) => (
+                  <label key={type} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.types.includes(type)}
+                      onChange={(e) =>
+                        updateRule(index, {
+                          types: e.target.checked
+                            ? [...rule.types, type]
+                            : rule.types.filter((t) => t !== type),
+                        })
+                      }
+                    />
+                    {PII_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {rule.kind === "topic" && (
+              <textarea
+                value={rule.terms.join("\n")}
+                onChange={(e) =>
+                  updateRule(index, { terms: e.target.value.split("\n") })
+                }
+                onBlur={() =>
+                  updateRule(index, {
+                    terms: rule.terms.map((t) => t.trim()).filter(Boolean),
+                  })
+                }
+                rows={3}
+                placeholder="Un mot ou une expression par ligne"
+                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 hover:border-white/20 transition-colors focus:outline-none focus:border-white/30 resize-none text-sm"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Dry run */}
+      <div className="rounded-lg border border-white/5 bg-white/[0.02] p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-white">Tester les règles</h3>
+        <textarea
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          rows={3}
+          placeholder="Texte à analyser..."
+          className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 hover:border-white/20 transition-colors focus:outline-none focus:border-white/30 resize-none font-mono text-sm"
+        />
+        <button
+          onClick={testRules}
+          disabled={!sample.trim() || testing}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {testing ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <FlaskConical size={16} />
+          )}
+          Tester
+        </button>
+        {testResult && (
+          <div className="space-y-2 text-sm">
+            <span
+              className={`px-2.5 py-1 rounded-md text-xs font-medium ${OUTCOME_BADGES[testResult.outcome]}`}
+            >
+              {OUTCOME_LABELS[testResult.outcome]}
+            </span>
+            {testResult.matches.map((match, i) => (
+              <div key={i} className="text-foreground/70">
+                {match.label} ({match.detail}) → {OUTCOME_LABELS[match.outcome]}
+              </div>
+            ))}
+            {testResult.outcome === "redact" && (
+              <pre className="whitespace-pre-wrap text-xs text-foreground/80 bg-white/5 rounded-lg p-3">
+                {testResult.content}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Save Button */}
+      <div className="flex items-center gap-3 pt-4 border-t border-white/5">
+        {hasChanges && (
+          <p className="text-xs text-amber-400">
+            Vous avez des modifications non sauvegardées
+          </p>
+        )}
+        <div className="flex-1" />
+        <button
+          onClick={() => setTempRules(rules)}
+          disabled={!hasChanges || saving}
+          className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Annuler
+        </button>
+        <button
+          onClick={saveRules}
+          disabled={!hasChanges || saving}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving && <Loader2 size={16} className="animate-spin" />}
+          <Save size={16} />
+          Sauvegarder
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, ShieldBan } from "lucide-react";
+import { banIp, getIpBans, liftIpBan } from "@/lib/bans";
+import type { IpBanSummary } from "@shared/api";
+
+const STATUS_STYLES: Record<IpBanSummary["status"], string> = {
+  active: "bg-red-500/20 text-red-300",
+  expired: "bg-white/10 text-foreground/60",
+  lifted: "bg-green-500/20 text-green-300",
+};
+
+const STATUS_LABELS: Record<IpBanSummary["status"], string> = {
+  active: "Actif",
+  expired: "Expiré",
+  lifted: "Levé",
+};
+
+export default function AdminIpBansSection() {
+  const [bans, setBans] = useState<IpBanSummary[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [target, setTarget] = useState("");
+  const [reason, setReason] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadBans();
+  }, [showAll]);
+
+  const loadBans = async () => {
+    try {
+      setLoading(true);
+      setBans(await getIpBans(showAll ? "all" : "active"));
+    } catch (error) {
+      console.error("Error loading IP bans:", error);
+      toast.error("Erreur lors du chargement des bans IP");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const ban = await banIp({
+        target: target.trim(),
+        reason: reason.trim(),
+        durationMinutes: durationMinutes || undefined,
+      });
+      setBans((current) => [ban, ...current]);
+      setTarget("");
+      setReason("");
+      setDurationMinutes(null);
+      toast.success(`${ban.cidr} banni`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors du bannissement",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLift = async (ban: IpBanSummary) => {
+    try {
+      const lifted = await liftIpBan(ban.id);
+      setBans((current) =>
+        showAll
+          ? current.map((b) => (b.id === ban.id ? lifted : b))
+          : current.filter((b) => b.id !== ban.id),
+      );
+      toast.success(`Ban de ${ban.cidr} levé`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la levée",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Bans IP</h2>
+          <p className="text-sm text-foreground/60 mt-1">
+            Une adresse ou une plage CIDR (ex. 203.0.113.0/24 ou
+            2001:db8:1234::/48). Les bans bloquent la connexion et
+            l'inscription.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-foreground/70">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+            />
+            Afficher l'historique
+          </label>
+          <button
+            onClick={loadBans}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+          >
+            <RefreshCw size={16} />
+            Actualiser
+          </button>
+        </div>
+      </div>
+
+      {/* Ban form */}
+      <form onSubmit={handleBan} className="flex flex-wrap items-center gap-3">
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder="Adresse ou plage CIDR"
+          className="w-64 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30 font-mono text-sm"
+        />
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          placeholder="Raison (5 caractères min.)"
+          className="flex-1 min-w-48 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <input
+          type="number"
+          min="1"
+          value={durationMinutes || ""}
+          onChange={(e) =>
+            setDurationMinutes(
+              e.target.value ? parseInt(e.target.value, 10) : null,
+            )
+          }
+          placeholder="Minutes (vide = permanent)"
+          className="w-56 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <button
+          type="submit"
+          disabled={saving || !target.trim() || reason.trim().length < 5}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <ShieldBan size={16} />
+          )}
+          Bannir
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={32} className="animate-spin text-foreground/60" />
+        </div>
+      ) : bans.length === 0 ? (
+        <p className="text-sm text-foreground/60 py-12 text-center">
+          Aucun ban IP
+        </p>
+      ) : (
+        <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.05] border-b border-white/5">
+              <tr>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Plage
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Raison
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Expiration
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Statut
+                </th>
+                <th className="px-6 py-4" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {bans.map((ban) => (
+                <tr
+                  key={ban.id}
+                  className="hover:bg-white/[0.03] transition-colors"
+                >
+                  <td className="px-6 py-4">
+                    <code className="text-xs text-foreground/80 font-mono">
+                      {ban.cidr}
+                    </code>
+                  </td>
+                  <td className="px-6 py-4 text-foreground/70 break-words">
+                    {ban.reason}
+                  </td>
+                  <td className="px-6 py-4 text-foreground/70 whitespace-nowrap">
+                    {ban.isPermanent
+                      ? "Permanent"
+                      : new Date(ban.expiresAt!).toLocaleString("fr-FR")}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`px-2.5 py-1 rounded-md text-xs font-medium ${STATUS_STYLES[ban.status]}`}
+                    >
+                      {STATUS_LABELS[ban.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {ban.status === "active" && (
+                      <button
+                        onClick={() => handleLift(ban)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium bg-green-500/20 hover:bg-green-500/30 text-green-300 transition-colors"
+                      >
+                        Lever
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { auth } from "@/lib/firebase";
+import { toast } from "sonner";
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { IpRangeRuleSummary } from "@shared/api";
+
+async function rangeRequest<T>(path: string, body?: unknown): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
+
+  const response = await fetch(path, {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+export default function AdminIpRangesSection() {
+  const [ranges, setRanges] = useState<IpRangeRuleSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<{
+    cidr: string;
+    action: "allow" | "deny";
+    note: string;
+  }>({ cidr: "", action: "deny", note: "" });
+
+  useEffect(() => {
+    loadRanges();
+  }, []);
+
+  const loadRanges = async () => {
+    try {
+      setLoading(true);
+      const data = await rangeRequest<{ ranges: IpRangeRuleSummary[] }>(
+        "/api/admin/ip-ranges",
+      );
+      setRanges(data.ranges);
+    } catch (error) {
+      console.error("Error loading IP ranges:", error);
+      toast.error("Erreur lors du chargement des plages IP");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addRange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.cidr.trim()) return;
+    try {
+      setSaving(true);
+      const data = await rangeRequest<{ range: IpRangeRuleSummary }>(
+        "/api/admin/ip-ranges",
+        form,
+      );
+      setRanges((current) => [data.range, ...current]);
+      setForm({ cidr: "", action: form.action, note: "" });
+      toast.success(`Plage ${data.range.cidr} ajoutée`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de l'ajout",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeRange = async (range: IpRangeRuleSummary) => {
+    try {
+      await rangeRequest(
+        `/api/admin/ip-ranges/${encodeURIComponent(range.id)}/remove`,
+        {},
+      );
+      setRanges((current) => current.filter((r) => r.id !== range.id));
+      toast.success(`Plage ${range.cidr} supprimée`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la suppression",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Plages IP</h2>
+          <p className="text-sm text-foreground/60 mt-1">
+            Règles prioritaires sur la détection VPN : une plage autorisée n'est
+            jamais signalée, une plage refusée l'est toujours. La plage la plus
+            précise l'emporte.
+          </p>
+        </div>
+        <button
+          onClick={loadRanges}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+        >
+          <RefreshCw size={16} />
+          Actualiser
+        </button>
+      </div>
+
+      {/* Add form */}
+      <form onSubmit={addRange} className="flex flex-wrap items-center gap-3">
+        <input
+          value={form.cidr}
+          onChange={(e) => setForm({ ...form, cidr: e.target.value })}
+          placeholder="203.0.113.0/24 ou 2001:db8::/32"
+          className="w-64 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30 font-mono text-sm"
+        />
+        <select
+          value={form.action}
+          onChange={(e) =>
+            setForm({ ...form, action: e.target.value as "allow" | "deny" })
+          }
+          className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-white/30"
+        >
+          <option value="deny">Refuser</option>
+          <option value="allow">Autoriser</option>
+        </select>
+        <input
+          value={form.note}
+          onChange={(e) => setForm({ ...form, note: e.target.value })}
+          maxLength={200}
+          placeholder="Note (optionnelle)"
+          className="flex-1 min-w-48 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <button
+          type="submit"
+          disabled={saving || !form.cidr.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Plus size={16} />
+          )}
+          Ajouter
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={32} className="animate-spin text-foreground/60" />
+        </div>
+      ) : ranges.length === 0 ? (
+        <p className="text-sm text-foreground/60 py-12 text-center">
+          Aucune plage
+        </p>
+      ) : (
+        <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.05] border-b border-white/5">
+              <tr>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Plage
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Règle
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Note
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Ajoutée le
+                </th>
+                <th className="px-6 py-4" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {ranges.map((range) => (
+                <tr
+                  key={range.id}
+                  className="hover:bg-white/[0.03] transition-colors"
+                >
+                  <td className="px-6 py-4">
+                    <code className="text-xs text-foreground/80 font-mono">
+                      {range.cidr}
+                    </code>
+                  </td>
+                  <td className="px-6 py-4">
+                    {range.action === "allow" ? (
+                      <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-green-500/20 text-green-300">
+                        Autorisée
+                      </span>
+                    ) : (
+                      <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-red-500/20 text-red-300">
+                        Refusée
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-foreground/70 break-words">
+                    {range.note || "—"}
+                  </td>
+                  <td className="px-6 py-4 text-foreground/70 whitespace-nowrap">
+                    {range.createdAt
+                      ? new Date(range.createdAt).toLocaleString("fr-FR")
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => removeRange(range)}
+                      className="p-2 rounded-lg text-foreground/60 hover:text-red-300 hover:bg-red-500/10 transition-colors"
+                      title="Supprimer"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,76 @@
 import { useState, useEffect } from "react";
 import { auth } from "@/lib/firebase";
 import { toast } from "sonner";
-import { Loader2, Plus, Copy, X, Check } from "lucide-react";
-
-interface License {
-  key: string;
-  plan: string;
-  createdAt: string;
-  usedBy?: string;
-  usedAt?: string;
-  valid: boolean;
+import {
+  Loader2,
+  Plus,
+  Copy,
+  X,
+  Check,
+  Download,
+  Layers,
+  Ban,
+  CalendarPlus,
+  ArrowRightLeft,
+} from "lucide-react";
+import type { LicenseBatchSummary, LicenseSummary } from "@shared/api";
+import type { LicenseStatus } from "@shared/licenses";
+import { extendLicense, revokeLicense, transferLicense } from "@/lib/licenses";
+import ActionConfirmModal from "./ActionConfirmModal";
+
+type License = LicenseSummary;
+
+const STATUS_BADGES: Record<
+  LicenseStatus,
+  { label: string; className: string }
+> = {
+  issued: {
+    label: "Disponible",
+    className: "bg-amber-500/20 text-amber-300",
+  },
+  active: {
+    label: "Active",
+    className: "bg-emerald-500/20 text-emerald-300",
+  },
+  expired: {
+    label: "Expirée",
+    className: "bg-slate-500/20 text-slate-300",
+  },
+  revoked: {
+    label: "Révoquée",
+    className: "bg-red-500/20 text-red-300",
+  },
+};
+
+async function adminFetch(path: string, init: RequestInit = {}) {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+
+  const idToken = await currentUser.getIdToken();
+  return fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
+}
+
+async function downloadBatchCSV(batch: LicenseBatchSummary) {
+  const response = await adminFetch(
+    `/api/admin/license-batches/${batch.id}/export`,
+  );
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || "Failed to export batch");
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `licences-${batch.name.replace(/[^a-zA-Z0-9_-]+/g, "_")}-${batch.id}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 export default function AdminLicensesSection() {
@@ -20,12 +81,124 @@ export default function AdminLicensesSection() {
   const [planToGenerate, setPlanToGenerate] = useState<
     "Free" | "Classic" | "Pro"
   >("Pro");
+  const [seatsToGenerate, setSeatsToGenerate] = useState(1);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const [licenseAction, setLicenseAction] = useState<{
+    type: "extend" | "transfer";
+    license: License;
+  } | null>(null);
+  const [extendDays, setExtendDays] = useState(30);
+  const [transferFrom, setTransferFrom] = useState("");
+  const [transferTo, setTransferTo] = useState("");
+  const [licenseToRevoke, setLicenseToRevoke] = useState<License | null>(null);
+  const [licenseActionKey, setLicenseActionKey] = useState<string | null>(null);
+  const [batches, setBatches] = useState<LicenseBatchSummary[]>([]);
+  const [showBatchModal, setShowBatchModal] = useState(false);
+  const [creatingBatch, setCreatingBatch] = useState(false);
+  const [batchForm, setBatchForm] = useState({
+    name: "",
+    reseller: "",
+    plan: "Pro" as "Free" | "Classic" | "Pro",
+    validityDays: 365,
+    count: 50,
+    seats: 1,
+  });
+  const [batchToRevoke, setBatchToRevoke] =
+    useState<LicenseBatchSummary | null>(null);
+  const [batchActionId, setBatchActionId] = useState<string | null>(null);
 
   useEffect(() => {
     loadLicenses();
+    loadBatches();
   }, []);
 
+  const loadBatches = async () => {
+    try {
+      const response = await adminFetch("/api/admin/license-batches");
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load batches");
+      }
+      setBatches(data.batches || []);
+    } catch (error) {
+      toast.error("Erreur lors du chargement des lots");
+      console.error("Error:", error);
+    }
+  };
+
+  const createBatch = async () => {
+    if (!batchForm.name.trim() || !batchForm.reseller.trim()) {
+      toast.error("Nom du lot et revendeur requis");
+      return;
+    }
+
+    try {
+      setCreatingBatch(true);
+      const response = await adminFetch("/api/admin/license-batches", {
+        method: "POST",
+        body: JSON.stringify(batchForm),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to create batch");
+      }
+
+      toast.success(`${data.keys.length} licences générées`);
+      setShowBatchModal(false);
+      setBatches((prev) => [data.batch, ...prev]);
+      loadLicenses();
+      await downloadBatchCSV(data.batch);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la génération",
+      );
+    } finally {
+      setCreatingBatch(false);
+    }
+  };
+
+  const exportBatch = async (batch: LicenseBatchSummary) => {
+    try {
+      setBatchActionId(batch.id);
+      await downloadBatchCSV(batch);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de l'export",
+      );
+    } finally {
+      setBatchActionId(null);
+    }
+  };
+
+  const revokeBatch = async () => {
+    if (!batchToRevoke) return;
+
+    try {
+      setBatchActionId(batchToRevoke.id);
+      const response = await adminFetch(
+        `/api/admin/license-batches/${batchToRevoke.id}/revoke`,
+        { method: "POST", body: JSON.stringify({}) },
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to revoke batch");
+      }
+
+      toast.success(
+        `Lot révoqué : ${data.licensesRevoked} clés, ${data.usersDowngraded} utilisateurs repassés en Free`,
+      );
+      setBatchToRevoke(null);
+      loadBatches();
+      loadLicenses();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la révocation",
+      );
+    } finally {
+      setBatchActionId(null);
+    }
+  };
+
   const loadLicenses = async () => {
     try {
       setLoading(true);
@@ -73,6 +246,7 @@ export default function AdminLicensesSection() {
         body: JSON.stringify({
           plan: planToGenerate,
           validityDays: 365,
+          seats: seatsToGenerate,
         }),
       });
 
@@ -99,6 +273,57 @@ export default function AdminLicensesSection() {
     }
   };
 
+  const openLicenseAction = (type: "extend" | "transfer", license: License) => {
+    setExtendDays(30);
+    setTransferFrom(license.holders[0] || "");
+    setTransferTo("");
+    setLicenseAction({ type, license });
+  };
+
+  const runLicenseAction = async () => {
+    if (!licenseAction) return;
+    const { type, license } = licenseAction;
+
+    try {
+      setLicenseActionKey(license.key);
+      if (type === "extend") {
+        await extendLicense(license.key, extendDays);
+        toast.success(`Licence prolongée de ${extendDays} jours`);
+      } else {
+        await transferLicense(license.key, transferFrom, transferTo.trim());
+        toast.success("Licence transférée");
+      }
+      setLicenseAction(null);
+      loadLicenses();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de l'opération",
+      );
+    } finally {
+      setLicenseActionKey(null);
+    }
+  };
+
+  const confirmRevokeLicense = async () => {
+    if (!licenseToRevoke) return;
+
+    try {
+      setLicenseActionKey(licenseToRevoke.key);
+      const { holdersDowngraded } = await revokeLicense(licenseToRevoke.key);
+      toast.success(
+        `Licence révoquée, ${holdersDowngraded} utilisateur(s) repassé(s) en Free`,
+      );
+      setLicenseToRevoke(null);
+      loadLicenses();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la révocation",
+      );
+    } finally {
+      setLicenseActionKey(null);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopiedKey(text);
@@ -125,15 +350,104 @@ export default function AdminLicensesSection() {
             {licenses.length} licence{licenses.length !== 1 ? "s" : ""} au total
           </p>
         </div>
-        <button
-          onClick={() => setShowGenerateModal(true)}
-          className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 border border-emerald-500/30 rounded-lg transition-colors"
-        >
-          <Plus size={18} />
-          Nouvelle licence
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowBatchModal(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 border border-blue-500/30 rounded-lg transition-colors"
+          >
+            <Layers size={18} />
+            Nouveau lot
+          </button>
+          <button
+            onClick={() => setShowGenerateModal(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-300 border border-emerald-500/30 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            Nouvelle licence
+          </button>
+        </div>
       </div>
 
+      {/* Batches */}
+      {batches.length > 0 && (
+        <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.05] border-b border-white/5">
+              <tr>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Lot
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Revendeur
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Plan
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Clés
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {batches.map((batch) => (
+                <tr
+                  key={batch.id}
+                  className="hover:bg-white/[0.03] transition-colors"
+                >
+                  <td className="px-6 py-4 text-white">
+                    {batch.name}
+                    <div className="text-xs text-foreground/50">
+                      {new Date(batch.createdAt).toLocaleDateString("fr-FR")}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-foreground/80">
+                    {batch.reseller}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-300">
+                      {batch.plan} · {batch.validityDays} j
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-foreground/80">
+                    {batch.count}
+                    {batch.revoked && (
+                      <span className="ml-2 px-2 py-0.5 rounded-md text-xs font-medium bg-red-500/20 text-red-300">
+                        Révoqué
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => exportBatch(batch)}
+                        disabled={batchActionId === batch.id}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+                      >
+                        <Download size={14} />
+                        CSV
+                      </button>
+                      {!batch.revoked && (
+                        <button
+                          onClick={() => setBatchToRevoke(batch)}
+                          disabled={batchActionId === batch.id}
+                          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors disabled:opacity-50"
+                        >
+                          <Ban size={14} />
+                          Révoquer
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
         <table className="w-full text-sm">
@@ -173,44 +487,71 @@ export default function AdminLicensesSection() {
                   </span>
                 </td>
                 <td className="px-6 py-4">
-                  {license.valid ? (
-                    license.usedBy ? (
-                      <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-emerald-500/20 text-emerald-300">
-                        <Check size={12} />
-                        Utilisé
-                      </span>
-                    ) : (
-                      <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-amber-500/20 text-amber-300">
-                        Disponible
-                      </span>
-                    )
-                  ) : (
-                    <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-red-500/20 text-red-300">
-                      <X size={12} />
-                      Invalide
-                    </span>
-                  )}
+                  <span
+                    className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium ${STATUS_BADGES[license.status].className}`}
+                  >
+                    {license.status === "active" && <Check size={12} />}
+                    {license.status === "revoked" && <X size={12} />}
+                    {STATUS_BADGES[license.status].label}
+                  </span>
+                  <div className="text-xs text-foreground/50 mt-1">
+                    {license.holders.length}/{license.seats} place
+                    {license.seats !== 1 ? "s" : ""}
+                    {license.expiresAt &&
+                      ` · jusqu'au ${new Date(license.expiresAt).toLocaleDateString("fr-FR")}`}
+                  </div>
                 </td>
                 <td className="px-6 py-4 text-foreground/80 text-xs font-mono">
-                  {license.usedBy || "-"}
+                  {license.holders.length ? license.holders.join(", ") : "-"}
                 </td>
                 <td className="px-6 py-4">
-                  <button
-                    onClick={() => copyToClipboard(license.key)}
-                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-white/10 hover:bg-white/20 text-white transition-colors"
-                  >
-                    {copiedKey === license.key ? (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => copyToClipboard(license.key)}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium bg-white/10 hover:bg-white/20 text-white transition-colors"
+                    >
+                      {copiedKey === license.key ? (
+                        <>
+                          <Check size={14} />
+                          Copié
+                        </>
+                      ) : (
+                        <>
+                          <Copy size={14} />
+                          Copier
+                        </>
+                      )}
+                    </button>
+                    {license.status !== "revoked" && (
                       <>
-                        <Check size={14} />
-                        Copié
-                      </>
-                    ) : (
-                      <>
-                        <Copy size={14} />
-                        Copier
+                        <button
+                          onClick={() => openLicenseAction("extend", license)}
+                          title="Prolonger"
+                          className="inline-flex items-center px-2 py-1.5 rounded-md text-xs bg-white/10 hover:bg-white/20 text-white transition-colors"
+                        >
+                          <CalendarPlus size={14} />
+                        </button>
+                        {license.status === "active" && (
+                          <button
+                            onClick={() =>
+                              openLicenseAction("transfer", license)
+                            }
+                            title="Transférer"
+                            className="inline-flex items-center px-2 py-1.5 rounded-md text-xs bg-white/10 hover:bg-white/20 text-white transition-colors"
+                          >
+                            <ArrowRightLeft size={14} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setLicenseToRevoke(license)}
+                          title="Révoquer"
+                          className="inline-flex items-center px-2 py-1.5 rounded-md text-xs bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors"
+                        >
+                          <Ban size={14} />
+                        </button>
                       </>
                     )}
-                  </button>
+                  </div>
                 </td>
               </tr>
             ))}
@@ -224,6 +565,252 @@ export default function AdminLicensesSection() {
         )}
       </div>
 
+      {/* Batch Modal */}
+      {showBatchModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-[#1a1a1a] border border-white/10 rounded-lg max-w-md w-full">
+            <div className="p-6 border-b border-white/5">
+              <h2 className="text-lg font-semibold text-white">
+                Générer un lot de licences
+              </h2>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground/80 mb-2">
+                  Nom du lot
+                </label>
+                <input
+                  value={batchForm.name}
+                  onChange={(e) =>
+                    setBatchForm({ ...batchForm, name: e.target.value })
+                  }
+                  maxLength={100}
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground/80 mb-2">
+                  Revendeur
+                </label>
+                <input
+                  value={batchForm.reseller}
+                  onChange={(e) =>
+                    setBatchForm({ ...batchForm, reseller: e.target.value })
+                  }
+                  maxLength={100}
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground/80 mb-2">
+                  Plan
+                </label>
+                <select
+                  value={batchForm.plan}
+                  onChange={(e) =>
+                    setBatchForm({
+                      ...batchForm,
+                      plan: e.target.value as "Free" | "Classic" | "Pro",
+                    })
+                  }
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                >
+                  <option value="Free">Free</option>
+                  <option value="Classic">Classic</option>
+                  <option value="Pro">Pro</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-foreground/80 mb-2">
+                    Validité (jours)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={3650}
+                    value={batchForm.validityDays}
+                    onChange={(e) =>
+                      setBatchForm({
+                        ...batchForm,
+                        validityDays: Number(e.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground/80 mb-2">
+                    Nombre de clés
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={batchForm.count}
+                    onChange={(e) =>
+                      setBatchForm({
+                        ...batchForm,
+                        count: Number(e.target.value),
+                      })
+                    }
+                    className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground/80 mb-2">
+                  Places par clé
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={batchForm.seats}
+                  onChange={(e) =>
+                    setBatchForm({
+                      ...batchForm,
+                      seats: Number(e.target.value),
+                    })
+                  }
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                />
+              </div>
+            </div>
+
+            <div className="p-6 border-t border-white/5 flex items-center gap-3">
+              <button
+                onClick={() => setShowBatchModal(false)}
+                disabled={creatingBatch}
+                className="flex-1 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={createBatch}
+                disabled={creatingBatch}
+                className="flex-1 px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {creatingBatch && (
+                  <Loader2 size={16} className="animate-spin" />
+                )}
+                Générer et exporter
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {batchToRevoke && (
+        <ActionConfirmModal
+          type="revokeBatch"
+          email={batchToRevoke.name}
+          onConfirm={revokeBatch}
+          onCancel={() => setBatchToRevoke(null)}
+          isLoading={batchActionId === batchToRevoke.id}
+        />
+      )}
+
+      {licenseToRevoke && (
+        <ActionConfirmModal
+          type="revokeLicense"
+          email={licenseToRevoke.key}
+          onConfirm={confirmRevokeLicense}
+          onCancel={() => setLicenseToRevoke(null)}
+          isLoading={licenseActionKey === licenseToRevoke.key}
+        />
+      )}
+
+      {/* Extend / Transfer Modal */}
+      {licenseAction && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-[#1a1a1a] border border-white/10 rounded-lg max-w-md w-full">
+            <div className="p-6 border-b border-white/5">
+              <h2 className="text-lg font-semibold text-white">
+                {licenseAction.type === "extend"
+                  ? "Prolonger la licence"
+                  : "Transférer la licence"}
+              </h2>
+              <code className="text-xs text-amber-400 font-mono break-all">
+                {licenseAction.license.key}
+              </code>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {licenseAction.type === "extend" ? (
+                <div>
+                  <label className="block text-sm font-medium text-foreground/80 mb-2">
+                    Jours supplémentaires
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={3650}
+                    value={extendDays}
+                    onChange={(e) => setExtendDays(Number(e.target.value))}
+                    className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                  />
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-foreground/80 mb-2">
+                      Depuis
+                    </label>
+                    <select
+                      value={transferFrom}
+                      onChange={(e) => setTransferFrom(e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30 font-mono text-xs"
+                    >
+                      {licenseAction.license.holders.map((uid) => (
+                        <option key={uid} value={uid}>
+                          {uid}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-foreground/80 mb-2">
+                      Vers (UID)
+                    </label>
+                    <input
+                      value={transferTo}
+                      onChange={(e) => setTransferTo(e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30 font-mono text-xs"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="p-6 border-t border-white/5 flex items-center gap-3">
+              <button
+                onClick={() => setLicenseAction(null)}
+                disabled={licenseActionKey !== null}
+                className="flex-1 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={runLicenseAction}
+                disabled={
+                  licenseActionKey !== null ||
+                  (licenseAction.type === "transfer" &&
+                    (!transferFrom || !transferTo.trim()))
+                }
+                className="flex-1 px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {licenseActionKey !== null && (
+                  <Loader2 size={16} className="animate-spin" />
+                )}
+                {licenseAction.type === "extend" ? "Prolonger" : "Transférer"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Generate Modal */}
       {showGenerateModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -249,6 +836,19 @@ export default function AdminLicensesSection() {
                   <option value="Pro">Pro</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground/80 mb-2">
+                  Nombre de places
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={seatsToGenerate}
+                  onChange={(e) => setSeatsToGenerate(Number(e.target.value))}
+                  className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white hover:border-white/20 transition-colors focus:outline-none focus:border-white/30"
+                />
+              </div>
             </div>
 
             <div className="p-6 border-t border-white/5 flex items-center gap-3">
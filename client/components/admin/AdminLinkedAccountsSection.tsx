@@ -0,0 +1,394 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, Search, ShieldBan } from "lucide-react";
+import { auth } from "@/lib/firebase";
+import {
+  banAccountCluster,
+  getAccountClusters,
+  getLinkedAccounts,
+} from "@/lib/bans";
+import type { AccountClusterSummary } from "@shared/api";
+
+const USER_ID_PATTERN = /^[a-zA-Z0-9]{28}$/;
+
+async function fetchUserEmails(): Promise<{ uid: string; email: string }[]> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
+
+  const response = await fetch("/api/admin/users", {
+    headers: { Authorization: `Bearer ${idToken}` },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.message || "Failed to load users");
+  return data.users || [];
+}
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString("fr-FR") : "—";
+}
+
+function ClusterDetails({
+  rootUserId,
+  cluster,
+  onBanned,
+}: {
+  rootUserId: string;
+  cluster: AccountClusterSummary;
+  onBanned: () => void;
+}) {
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [reason, setReason] = useState("Comptes multiples");
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  const [banning, setBanning] = useState(false);
+
+  const emailOf = (userId: string) =>
+    cluster.accounts.find((a) => a.userId === userId)?.email || userId;
+
+  const toggle = (userId: string) =>
+    setExcluded((current) =>
+      current.includes(userId)
+        ? current.filter((id) => id !== userId)
+        : [...current, userId],
+    );
+
+  const banCluster = async () => {
+    try {
+      setBanning(true);
+      const result = await banAccountCluster(rootUserId, {
+        reason: reason.trim(),
+        durationMinutes: durationMinutes || undefined,
+        excludeUserIds: excluded,
+      });
+      toast.success(
+        `${result.banned.length} compte(s) banni(s), ${result.skipped.length} ignoré(s)`,
+      );
+      onBanned();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors du bannissement",
+      );
+    } finally {
+      setBanning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Accounts */}
+      <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+        <table className="w-full text-sm">
+          <thead className="bg-white/[0.05] border-b border-white/5">
+            <tr>
+              <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                Inclure
+              </th>
+              <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                Compte
+              </th>
+              <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                Plan
+              </th>
+              <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                Créé le
+              </th>
+              <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                Statut
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {cluster.accounts.map((account) => (
+              <tr key={account.userId} className="hover:bg-white/[0.03]">
+                <td className="px-6 py-4">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.includes(account.userId)}
+                    disabled={account.role !== "user" || account.isBanned}
+                    onChange={() => toggle(account.userId)}
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <div className="text-foreground/80">
+                    {account.email || "—"}
+                    {account.userId === rootUserId && (
+                      <span className="ml-2 text-xs text-blue-300">
+                        (recherché)
+                      </span>
+                    )}
+                  </div>
+                  <code className="text-xs text-foreground/50 font-mono">
+                    {account.userId}
+                  </code>
+                </td>
+                <td className="px-6 py-4 text-foreground/70">{account.plan}</td>
+                <td className="px-6 py-4 text-foreground/70">
+                  {formatDate(account.createdAt)}
+                </td>
+                <td className="px-6 py-4 text-xs">
+                  {!account.exists ? (
+                    <span className="text-foreground/50">Supprimé</span>
+                  ) : account.isBanned ? (
+                    <span className="text-red-300">Banni</span>
+                  ) : account.role !== "user" ? (
+                    <span className="text-blue-300">Staff</span>
+                  ) : (
+                    <span className="text-foreground/60">Actif</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Shared identifiers */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">Points communs</h3>
+        {cluster.shared.map((shared) => (
+          <div
+            key={`${shared.kind}:${shared.value}`}
+            className="rounded-lg border border-white/5 bg-white/[0.02] px-4 py-3 text-sm"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-0.5 rounded text-xs font-medium bg-white/10 text-foreground/70">
+                  {shared.kind === "ip" ? "IP" : "Appareil"}
+                </span>
+                <code className="text-xs text-foreground/80 font-mono">
+                  {shared.kind === "device"
+                    ? `${shared.value.slice(0, 8)}…`
+                    : shared.value}
+                </code>
+              </div>
+              <span className="text-xs text-foreground/50">
+                {formatDate(shared.firstSeen)} → {formatDate(shared.lastSeen)}
+              </span>
+            </div>
+            <p className="text-xs text-foreground/60 mt-2 break-words">
+              {shared.userIds.map(emailOf).join(" · ")}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Cluster ban */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          maxLength={500}
+          placeholder="Raison"
+          className="flex-1 min-w-48 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <input
+          type="number"
+          min="1"
+          value={durationMinutes || ""}
+          onChange={(e) =>
+            setDurationMinutes(
+              e.target.value ? parseInt(e.target.value, 10) : null,
+            )
+          }
+          placeholder="Minutes (vide = permanent)"
+          className="w-56 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <button
+          onClick={banCluster}
+          disabled={banning || reason.trim().length < 5}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-red-500/20 hover:bg-red-500/30 text-red-300 transition-colors disabled:opacity-50"
+        >
+          {banning ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <ShieldBan size={16} />
+          )}
+          Bannir le groupe
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminLinkedAccountsSection() {
+  const [users, setUsers] = useState<{ uid: string; email: string }[]>([]);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<{
+    userId: string;
+    cluster: AccountClusterSummary | null;
+  } | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [clusters, setClusters] = useState<AccountClusterSummary[]>([]);
+  const [sinceDays, setSinceDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUserEmails()
+      .then(setUsers)
+      .catch((error) => console.error("Error loading users:", error));
+  }, []);
+
+  useEffect(() => {
+    loadClusters();
+  }, [sinceDays]);
+
+  const loadClusters = async () => {
+    try {
+      setLoading(true);
+      setClusters(await getAccountClusters(sinceDays));
+    } catch (error) {
+      console.error("Error loading account clusters:", error);
+      toast.error("Erreur lors du chargement des groupes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showUser = async (userId: string) => {
+    try {
+      setSearching(true);
+      setSelected({ userId, cluster: await getLinkedAccounts(userId) });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Erreur lors de la recherche",
+      );
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const search = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = query.trim();
+    const userId = USER_ID_PATTERN.test(value)
+      ? value
+      : users.find((u) => u.email === value)?.uid;
+    if (!userId) {
+      toast.error("Utilisateur introuvable");
+      return;
+    }
+    showUser(userId);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold text-white">Comptes liés</h2>
+        <p className="text-sm text-foreground/60 mt-1">
+          Comptes ayant utilisé la même adresse IP ou le même navigateur,
+          directement ou par l'intermédiaire d'autres comptes
+        </p>
+      </div>
+
+      {/* Search */}
+      <form onSubmit={search} className="flex items-center gap-3">
+        <input
+          list="linked-accounts-users"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Email ou UID"
+          className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white placeholder:text-foreground/40 focus:outline-none focus:border-white/30"
+        />
+        <datalist id="linked-accounts-users">
+          {users.map((user) => (
+            <option key={user.uid} value={user.email} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          disabled={searching || !query.trim()}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {searching ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Search size={16} />
+          )}
+          Rechercher
+        </button>
+      </form>
+
+      {selected &&
+        (selected.cluster ? (
+          <ClusterDetails
+            key={selected.userId}
+            rootUserId={selected.userId}
+            cluster={selected.cluster}
+            onBanned={() => {
+              showUser(selected.userId);
+              loadClusters();
+            }}
+          />
+        ) : (
+          <p className="text-sm text-foreground/60">
+            Aucun autre compte ne partage d'IP ou d'appareil avec ce compte
+          </p>
+        ))}
+
+      {/* Largest clusters */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-white">
+            Groupes les plus importants
+          </h3>
+          <div className="flex items-center gap-3">
+            <select
+              value={sinceDays}
+              onChange={(e) => setSinceDays(parseInt(e.target.value, 10))}
+              className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-white/30"
+            >
+              <option value={7}>7 derniers jours</option>
+              <option value={30}>30 derniers jours</option>
+              <option value={90}>90 derniers jours</option>
+            </select>
+            <button
+              onClick={loadClusters}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+            >
+              <RefreshCw size={16} />
+              Actualiser
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 size={32} className="animate-spin text-foreground/60" />
+          </div>
+        ) : clusters.length === 0 ? (
+          <p className="text-sm text-foreground/60 py-12 text-center">
+            Aucun groupe de comptes
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {clusters.map((cluster) => (
+              <button
+                key={cluster.accounts.map((a) => a.userId).join(",")}
+                onClick={() => showUser(cluster.accounts[0].userId)}
+                className="w-full text-left rounded-lg border border-white/5 bg-white/[0.02] hover:bg-white/[0.05] px-4 py-3 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-white">
+                    {cluster.accounts.length} comptes
+                    {cluster.accounts.some((a) => a.isBanned) && (
+                      <span className="ml-2 text-xs text-red-300">
+                        dont {cluster.accounts.filter((a) => a.isBanned).length}{" "}
+                        banni(s)
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-foreground/50">
+                    {cluster.shared.length} point(s) commun(s)
+                  </span>
+                </div>
+                <p className="text-xs text-foreground/60 mt-1 truncate">
+                  {cluster.accounts.map((a) => a.email || a.userId).join(" · ")}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
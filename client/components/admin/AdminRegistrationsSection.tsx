@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { auth } from "@/lib/firebase";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+import type { RegistrationAttemptSummary } from "@shared/api";
+
+const BLOCK_LABELS: Record<string, string> = {
+  disposable_email: "Email temporaire",
+  ip_banned: "IP bannie",
+  ip_account_limit: "Limite de comptes par IP",
+  vpn: "VPN / proxy",
+  auth_error: "Erreur de création",
+};
+
+async function fetchAttempts(
+  blockedOnly: boolean,
+): Promise<RegistrationAttemptSummary[]> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error("Not authenticated");
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(
+    `/api/admin/registration-attempts?blocked=${blockedOnly}`,
+    { headers: { Authorization: `Bearer ${idToken}` } },
+  );
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || "Failed to load registration attempts");
+  }
+  return data.attempts;
+}
+
+export default function AdminRegistrationsSection() {
+  const [attempts, setAttempts] = useState<RegistrationAttemptSummary[]>([]);
+  const [blockedOnly, setBlockedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [blockedOnly]);
+
+  const loadAttempts = async () => {
+    try {
+      setLoading(true);
+      setAttempts(await fetchAttempts(blockedOnly));
+    } catch (error) {
+      console.error("Error loading registration attempts:", error);
+      toast.error("Erreur lors du chargement des inscriptions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Inscriptions</h2>
+          <p className="text-sm text-foreground/60 mt-1">
+            Résultat des vérifications anti-abus de chaque tentative
+            d'inscription
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-foreground/70">
+            <input
+              type="checkbox"
+              checked={blockedOnly}
+              onChange={(e) => setBlockedOnly(e.target.checked)}
+            />
+            Refusées uniquement
+          </label>
+          <button
+            onClick={loadAttempts}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+          >
+            <RefreshCw size={16} />
+            Actualiser
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={32} className="animate-spin text-foreground/60" />
+        </div>
+      ) : attempts.length === 0 ? (
+        <p className="text-sm text-foreground/60 py-12 text-center">
+          Aucune tentative
+        </p>
+      ) : (
+        <div className="rounded-lg border border-white/5 overflow-hidden bg-white/[0.02]">
+          <table className="w-full text-sm">
+            <thead className="bg-white/[0.05] border-b border-white/5">
+              <tr>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Date
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Email
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  IP
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Comptes sur l'IP
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  VPN
+                </th>
+                <th className="px-6 py-4 text-left font-medium text-foreground/70">
+                  Résultat
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {attempts.map((attempt) => (
+                <tr
+                  key={attempt.id}
+                  className="hover:bg-white/[0.03] transition-colors"
+                >
+                  <td className="px-6 py-4 text-foreground/80 whitespace-nowrap">
+                    {new Date(attempt.createdAt).toLocaleString("fr-FR")}
+                  </td>
+                  <td className="px-6 py-4 text-foreground/80 break-all">
+                    {attempt.email}
+                  </td>
+                  <td className="px-6 py-4">
+                    <code className="text-xs text-foreground/70 font-mono">
+                      {attempt.ipAddress}
+                    </code>
+                  </td>
+                  <td className="px-6 py-4 text-foreground/80">
+                    {attempt.accountsOnIp}
+                  </td>
+                  <td className="px-6 py-4 text-xs text-foreground/70">
+                    {attempt.isVPN === null
+                      ? "Inconnu"
+                      : attempt.isVPN
+                        ? attempt.vpnProvider || "Oui"
+                        : "Non"}
+                  </td>
+                  <td className="px-6 py-4">
+                    {attempt.allowed ? (
+                      <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-green-500/20 text-green-300">
+                        Acceptée
+                      </span>
+                    ) : (
+                      <span className="px-2.5 py-1 rounded-md text-xs font-medium bg-red-500/20 text-red-300">
+                        {BLOCK_LABELS[attempt.blockedBy || ""] ||
+                          attempt.blockedBy ||
+                          "Refusée"}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
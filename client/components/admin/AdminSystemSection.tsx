@@ -1,6 +1,5 @@
 import { useEffect, useState } from "react";
-import { db, auth } from "@/lib/firebase";
-import { collection, getDocs, Timestamp } from "firebase/firestore";
+import { auth } from "@/lib/firebase";
 import { Loader2, TrendingUp, Users, Zap } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -40,58 +39,40 @@ export default function AdminSystemSection() {
     return () => clearInterval(interval);
   }, []);
 
+  // Aggregated server-side, so moderators (no direct Firestore access to
+  // users and licenses) can read the reports too
   const loadStats = async () => {
     try {
-      // Get all users
-      const usersSnap = await getDocs(collection(db, "users"));
-      const users = usersSnap.docs.map((doc) => ({
-        uid: doc.id,
-        ...doc.data(),
-      })) as any[];
+      const currentUser = auth.currentUser;
+      if (!currentUser) throw new Error("Not authenticated");
 
-      // Get all licenses
-      const licensesSnap = await getDocs(collection(db, "licenses"));
-      const totalLicenses = licensesSnap.size;
-
-      // Get all conversations to count messages
-      const conversationsSnap = await getDocs(collection(db, "conversations"));
-      let totalMessages = 0;
-
-      for (const convDoc of conversationsSnap.docs) {
-        const messagesSnap = await getDocs(
-          collection(db, "conversations", convDoc.id, "messages"),
-        );
-        totalMessages += messagesSnap.size;
+      const idToken = await currentUser.getIdToken();
+      const response = await fetch("/api/admin/system-stats", {
+        headers: { Authorization: `Bearer ${idToken}` },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to load stats");
       }
 
-      // Calculate stats
-      const totalUsers = users.length;
-      const freeUsers = users.filter((u) => u.plan === "Free").length;
-      const proUsers = users.filter(
-        (u) => u.plan === "Classic" || u.plan === "Pro",
-      ).length;
-      const adminUsers = users.filter((u) => u.isAdmin).length;
-      const avgMessagesPerUser =
-        totalUsers > 0 ? Math.round(totalMessages / totalUsers) : 0;
-
       // Generate chart data (last 7 days)
-      const chartData = generateChartData(users);
+      const chartData = generateChartData(data.totalUsers);
 
       // Plan distribution
       const planDistribution = [
-        { name: "Free", value: freeUsers, color: "#64748b" },
-        { name: "Pro", value: proUsers, color: "#3b82f6" },
-        { name: "Admin", value: adminUsers, color: "#8b5cf6" },
+        { name: "Free", value: data.freeUsers, color: "#64748b" },
+        { name: "Pro", value: data.proUsers, color: "#3b82f6" },
+        { name: "Admin", value: data.adminUsers, color: "#8b5cf6" },
       ];
 
       setStats({
-        totalUsers,
-        totalLicenses,
-        totalMessages,
-        freeUsers,
-        proUsers,
-        adminUsers,
-        avgMessagesPerUser,
+        totalUsers: data.totalUsers,
+        totalLicenses: data.totalLicenses,
+        totalMessages: data.totalMessages,
+        freeUsers: data.freeUsers,
+        proUsers: data.proUsers,
+        adminUsers: data.adminUsers,
+        avgMessagesPerUser: data.avgMessagesPerUser,
         chartData,
         planDistribution,
       });
@@ -103,7 +84,7 @@ export default function AdminSystemSection() {
     }
   };
 
-  const generateChartData = (users: any[]) => {
+  const generateChartData = (totalUsers: number) => {
     const data = [];
     for (let i = 6; i >= 0; i--) {
       const date = new Date();
@@ -115,7 +96,7 @@ export default function AdminSystemSection() {
 
       // Simulate user signups based on actual data
       const usersOnDay =
-        Math.floor(users.length / 7) + Math.floor(Math.random() * 5);
+        Math.floor(totalUsers / 7) + Math.floor(Math.random() * 5);
 
       data.push({
         day: dateStr,
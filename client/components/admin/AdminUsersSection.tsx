@@ -1,16 +1,34 @@
 import { useState, useEffect } from "react";
 import { auth } from "@/lib/firebase";
-import { UserData } from "@/contexts/AuthContext";
+import { useAuth, UserData, UserRole } from "@/contexts/AuthContext";
 import { toast } from "sonner";
-import { Loader2, Shield, User, Ban, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Loader2,
+  Shield,
+  ShieldHalf,
+  User,
+  Ban,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
 import ActionConfirmModal from "./ActionConfirmModal";
+import { formatTokens, getTokenBudget } from "@shared/plans";
+import { can, canModerate } from "@shared/permissions";
 
 export default function AdminUsersSection() {
+  const { role } = useAuth();
   const [users, setUsers] = useState<UserData[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [confirmAction, setConfirmAction] = useState<{
-    type: "promote" | "demote" | "ban" | "unban" | "reset" | "delete";
+    type:
+      | "promote"
+      | "promoteModerator"
+      | "demote"
+      | "ban"
+      | "unban"
+      | "reset"
+      | "delete";
     userId: string;
     email: string;
   } | null>(null);
@@ -68,6 +86,11 @@ export default function AdminUsersSection() {
       switch (type) {
         case "promote":
           endpoint = "/api/admin/promote-user";
+          body.role = "admin";
+          break;
+        case "promoteModerator":
+          endpoint = "/api/admin/promote-user";
+          body.role = "moderator";
           break;
         case "demote":
           endpoint = "/api/admin/demote-user";
@@ -114,11 +137,13 @@ export default function AdminUsersSection() {
 
           switch (type) {
             case "promote":
-              return { ...u, isAdmin: true };
+              return { ...u, isAdmin: true, role: "admin" };
+            case "promoteModerator":
+              return { ...u, isAdmin: false, role: "moderator" };
             case "demote":
-              return { ...u, isAdmin: false };
+              return { ...u, isAdmin: false, role: "user" };
             case "reset":
-              return { ...u, messagesUsed: 0 };
+              return { ...u, messagesUsed: 0, tokensUsed: 0 };
             default:
               return u;
           }
@@ -127,10 +152,11 @@ export default function AdminUsersSection() {
 
       const messages: Record<string, string> = {
         promote: "Promu en administrateur",
+        promoteModerator: "Promu en modérateur",
         demote: "Rétrogradé en utilisateur",
         ban: "Utilisateur banni",
         unban: "Utilisateur débanni",
-        reset: "Messages réinitialisés",
+        reset: "Quota réinitialisé",
         delete: "Utilisateur supprimé",
       };
 
@@ -180,7 +206,7 @@ export default function AdminUsersSection() {
         />
         <StatCard
           label="Administrateurs"
-          value={users.filter((u) => u.isAdmin).length.toString()}
+          value={users.filter((u) => u.role === "admin").length.toString()}
           color="purple"
         />
         <StatCard
@@ -209,7 +235,7 @@ export default function AdminUsersSection() {
                 Plan
               </th>
               <th className="px-6 py-4 text-left font-medium text-foreground/70 whitespace-nowrap">
-                Messages
+                Tokens (jour)
               </th>
               <th className="px-6 py-4 text-left font-medium text-foreground/70 whitespace-nowrap">
                 Statut
@@ -239,81 +265,108 @@ export default function AdminUsersSection() {
                   </span>
                 </td>
                 <td className="px-6 py-4 text-foreground/80">
-                  {user.messagesUsed} / {user.messagesLimit}
+                  {formatTokens(user.tokensUsed || 0)} /{" "}
+                  {formatTokens(getTokenBudget(user))}
                 </td>
                 <td className="px-6 py-4">
-                  <StatusBadge isAdmin={user.isAdmin} />
+                  <StatusBadge role={user.role} />
                 </td>
                 <td className="px-6 py-4">
                   <div className="flex items-center gap-2">
-                    {!user.isAdmin ? (
+                    {can(role, "users.manage_roles") &&
+                      user.role === "user" && (
+                        <ActionButton
+                          icon={ShieldHalf}
+                          label="Modérateur"
+                          color="blue"
+                          loading={actionLoading === user.uid}
+                          onClick={() =>
+                            setConfirmAction({
+                              type: "promoteModerator",
+                              userId: user.uid,
+                              email: user.email,
+                            })
+                          }
+                        />
+                      )}
+                    {can(role, "users.manage_roles") &&
+                      user.role !== "admin" && (
+                        <ActionButton
+                          icon={Shield}
+                          label="Admin"
+                          color="purple"
+                          loading={actionLoading === user.uid}
+                          onClick={() =>
+                            setConfirmAction({
+                              type: "promote",
+                              userId: user.uid,
+                              email: user.email,
+                            })
+                          }
+                        />
+                      )}
+                    {can(role, "users.manage_roles") &&
+                      user.role !== "user" && (
+                        <ActionButton
+                          icon={User}
+                          label="Rétrograder"
+                          color="slate"
+                          loading={actionLoading === user.uid}
+                          onClick={() =>
+                            setConfirmAction({
+                              type: "demote",
+                              userId: user.uid,
+                              email: user.email,
+                            })
+                          }
+                        />
+                      )}
+                    {can(role, "users.moderate") &&
+                      canModerate(role, user.role) && (
+                        <ActionButton
+                          icon={Ban}
+                          label="Bannir"
+                          color="red"
+                          loading={actionLoading === user.uid}
+                          onClick={() =>
+                            setConfirmAction({
+                              type: "ban",
+                              userId: user.uid,
+                              email: user.email,
+                            })
+                          }
+                        />
+                      )}
+                    {can(role, "users.reset_usage") && (
                       <ActionButton
-                        icon={Shield}
-                        label="Promouvoir"
-                        color="purple"
+                        icon={RotateCcw}
+                        label="Réinit."
+                        color="amber"
                         loading={actionLoading === user.uid}
                         onClick={() =>
                           setConfirmAction({
-                            type: "promote",
+                            type: "reset",
                             userId: user.uid,
                             email: user.email,
                           })
                         }
                       />
-                    ) : (
+                    )}
+                    {can(role, "users.delete") && (
                       <ActionButton
-                        icon={User}
-                        label="Rétrograder"
-                        color="slate"
+                        icon={Trash2}
+                        label="Supprimer"
+                        color="red"
                         loading={actionLoading === user.uid}
                         onClick={() =>
                           setConfirmAction({
-                            type: "demote",
+                            type: "delete",
                             userId: user.uid,
                             email: user.email,
                           })
                         }
                       />
                     )}
-                    <ActionButton
-                      icon={Ban}
-                      label="Bannir"
-                      color="red"
-                      loading={actionLoading === user.uid}
-                      onClick={() =>
-                        setConfirmAction({
-                          type: "ban",
-                          userId: user.uid,
-                          email: user.email,
-                        })
-                      }
-                    />
-                    <ActionButton
-                      icon={RotateCcw}
-                      label="Réinit."
-                      color="amber"
-                      loading={actionLoading === user.uid}
-                      onClick={() =>
-                        setConfirmAction({
-                          type: "reset",
-                          userId: user.uid,
-                          email: user.email,
-                        })
-                      }
-                    />
-                    <ActionButton
-                      icon={Trash2}
-                      label="Supprimer"
-                      color="red"
-                      loading={actionLoading === user.uid}
-                      onClick={() =>
-                        setConfirmAction({
-                          type: "delete",
-                          userId: user.uid,
-                          email: user.email,
-                        })
-                      }
-                    />
                   </div>
                 </td>
               </tr>
@@ -368,13 +421,24 @@ function StatCard({
   );
 }
 
-function StatusBadge({ isAdmin }: { isAdmin: boolean }) {
-  return isAdmin ? (
-    <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-purple-500/20 text-purple-300 border border-purple-500/30">
-      <Shield size={12} />
-      Admin
-    </span>
-  ) : (
+function StatusBadge({ role }: { role: UserRole }) {
+  if (role === "admin") {
+    return (
+      <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-purple-500/20 text-purple-300 border border-purple-500/30">
+        <Shield size={12} />
+        Admin
+      </span>
+    );
+  }
+  if (role === "moderator") {
+    return (
+      <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30">
+        <ShieldHalf size={12} />
+        Modérateur
+      </span>
+    );
+  }
+  return (
     <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium bg-white/10 text-white">
       <User size={12} />
       User
@@ -391,13 +455,14 @@ function ActionButton({
 }: {
   icon: any;
   label: string;
-  color: "purple" | "slate" | "red" | "amber";
+  color: "purple" | "blue" | "slate" | "red" | "amber";
   loading: boolean;
   onClick: () => void;
 }) {
   const colors = {
     purple:
       "bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 border-purple-500/30",
+    blue: "bg-blue-500/20 hover:bg-blue-500/30 text-blue-300 border-blue-500/30",
     slate:
       "bg-slate-500/20 hover:bg-slate-500/30 text-slate-300 border-slate-500/30",
     red: "bg-red-500/20 hover:bg-red-500/30 text-red-300 border-red-500/30",
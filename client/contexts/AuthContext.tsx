@@ -1,15 +1,14 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import { User, onAuthStateChanged } from "firebase/auth";
-import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
-import {
-  SystemNoticesService,
-  UserBan,
-  MaintenanceNotice,
-} from "@/lib/system-notices";
+import { SystemNoticesService, MaintenanceNotice } from "@/lib/system-notices";
+import { acknowledgeAppeal, getMyBanStatus, Sanction } from "@/lib/bans";
+import { saveTimezone } from "@/lib/profile";
+import { resolveUserRole, UserRole } from "@shared/roles";
 
 export type PlanType = "Free" | "Classic" | "Pro";
-export type UserRole = "user" | "moderator" | "admin";
+export type { UserRole };
 export type UserCategory =
   | "individual"
   | "business"
@@ -23,13 +22,20 @@ export interface UserData {
   plan: PlanType;
   role: UserRole;
   category: UserCategory;
+  // Lifetime message count (statistics only, quotas are token based)
   messagesUsed: number;
-  messagesLimit: number;
+  // Legacy flat quota from before token budgets
+  messagesLimit?: number;
+  // Daily token quota, see @shared/plans
+  tokensUsed?: number;
+  tokenBudget?: number;
   createdAt: number;
   isAdmin: boolean;
   licenseKey?: string;
   licenseExpiresAt?: number;
   lastMessageReset?: number;
+  // IANA timezone used for the daily quota reset
+  timezone?: string;
   profilePhotoURL?: string;
   disclaimerAccepted?: boolean;
   disclaimerAcceptedAt?: number;
@@ -40,8 +46,13 @@ interface AuthContextType {
   userData: UserData | null;
   loading: boolean;
   error: string | null;
+  role: UserRole;
   isAdmin: boolean;
-  userBan: UserBan | null;
+  userBan: Sanction | null;
+  // Appeal decided since the user last looked, until dismissed
+  appealDecision: Sanction | null;
+  refreshBan: () => Promise<void>;
+  dismissAppealDecision: () => void;
   maintenanceNotice: MaintenanceNotice | null;
 }
 
@@ -50,15 +61,31 @@ const AuthContext = createContext<AuthContextType>({
   userData: null,
   loading: true,
   error: null,
+  role: "user",
   isAdmin: false,
+  userBan: null,
+  appealDecision: null,
+  refreshBan: async () => {},
+  dismissAppealDecision: () => {},
+  maintenanceNotice: null,
 });
 
+async function loadBanStatus() {
+  try {
+    return await getMyBanStatus();
+  } catch (error) {
+    console.error("Error loading ban:", error);
+    return { sanction: null, appealDecision: null };
+  }
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [userBan, setUserBan] = useState<UserBan | null>(null);
+  const [userBan, setUserBan] = useState<Sanction | null>(null);
+  const [appealDecision, setAppealDecision] = useState<Sanction | null>(null);
   const [maintenanceNotice, setMaintenanceNotice] =
     useState<MaintenanceNotice | null>(null);
 
@@ -105,10 +132,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         if (authUser) {
           setUser(authUser);
 
-          // Check if user is banned
-          const ban = await SystemNoticesService.getUserBan(authUser.uid);
+          // Active ban or warning, as enforced by the server
+          const status = await loadBanStatus();
           if (isMounted) {
-            setUserBan(ban);
+            setUserBan(status.sanction);
+            setAppealDecision(status.appealDecision);
           }
 
           const userDocRef = doc(db, "users", authUser.uid);
@@ -119,37 +147,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           if (userDocSnap.exists()) {
             const userData = userDocSnap.data() as UserData;
 
-            // Trigger daily reset check on server
-            if (userData.licenseKey && userData.lastMessageReset) {
-              try {
-                await fetch("/api/daily-reset", {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ userId: authUser.uid }),
-                });
-              } catch (error) {
-                console.error("Error checking daily reset:", error);
-              }
-            }
-
-            // Check if license has expired
-            if (
-              userData.licenseExpiresAt &&
-              userData.licenseExpiresAt <= Date.now()
-            ) {
-              // License expired, reset to Free plan
-              await updateDoc(userDocRef, {
-                plan: "Free",
-                messagesLimit: 10,
-                messagesUsed: 0,
-                licenseKey: "",
-                licenseExpiresAt: undefined,
-              });
-              userData.plan = "Free";
-              userData.messagesLimit = 10;
-              userData.messagesUsed = 0;
-              userData.licenseKey = "";
-              userData.licenseExpiresAt = undefined;
+            // Daily resets and license expiry run on the server
+            // (server/lib/scheduler.ts), in the user's timezone; accounts
+            // registered without one get it set by the server
+            const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+            if (!userData.timezone && timezone) {
+              saveTimezone(timezone).catch((error) =>
+                console.error("Error saving timezone:", error),
+              );
+              userData.timezone = timezone;
             }
 
             setUserData(userData);
@@ -163,7 +169,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
               role: "user",
               category: "individual",
               messagesUsed: 0,
-              messagesLimit: 10,
+              tokensUsed: 0,
               createdAt: Date.now(),
               isAdmin: false,
             };
@@ -173,6 +179,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(null);
           setUserData(null);
           setUserBan(null);
+          setAppealDecision(null);
           setMaintenanceNotice(null);
         }
       } catch (err) {
@@ -226,6 +233,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, [user]);
 
+  const role = userData ? resolveUserRole(userData) : "user";
+
+  const refreshBan = async () => {
+    const status = await loadBanStatus();
+    setUserBan(status.sanction);
+    setAppealDecision(status.appealDecision);
+  };
+
+  const dismissAppealDecision = () => {
+    if (!appealDecision) return;
+    acknowledgeAppeal(appealDecision.id).catch((error) =>
+      console.error("Error acknowledging appeal:", error),
+    );
+    setAppealDecision(null);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -233,8 +256,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         userData,
         loading,
         error,
-        isAdmin: userData?.isAdmin || false,
+        role,
+        isAdmin: role === "admin",
         userBan,
+        appealDecision,
+        refreshBan,
+        dismissAppealDecision,
         maintenanceNotice,
       }}
     >
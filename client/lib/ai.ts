@@ -1,4 +1,6 @@
 import { auth } from "@/lib/firebase";
+import { parseSSEStream } from "@shared/sse";
+import type { AIStreamEvent, ModelCatalogResponse } from "@shared/api";
 
 export interface AIConfig {
   model: string;
@@ -100,7 +102,8 @@ export class AIService {
       }
 
       if (!response.ok) {
-        const errorMessage = data?.error || `API error: ${response.status}`;
+        const errorMessage =
+          data?.error || data?.message || `API error: ${response.status}`;
         throw new Error(errorMessage);
       }
 
@@ -112,14 +115,129 @@ export class AIService {
     }
   }
 
-  static getAvailableModels(): string[] {
-    return [
-      "openrouter/auto",
-      "gpt-4-turbo-preview",
-      "gpt-3.5-turbo",
-      "claude-3-opus",
-      "claude-3-sonnet",
-      "mistral-large",
-    ];
+  /**
+   * Stream the assistant reply token by token from /api/ai/chat/stream.
+   * Yields "delta" events as they arrive and a final "done" event, preceded
+   * by a "policy" event when the content policy flagged or redacted the
+   * message and a "summary" event when older turns were summarized; stream
+   * errors are thrown. With a conversationId the server reads the history
+   * itself, `conversationHistory` is only used without one. The model and
+   * its settings come from the conversation's persona or the admin
+   * configuration. `editMessageId` sends `userMessage` as a new version of
+   * a stored user message and `regenerateMessageId` asks for another answer
+   * to the user message before a stored reply (`userMessage` is then
+   * ignored); both start a new branch. Aborting
+   * `signal` cancels the upstream request, the server still charges and
+   * saves whatever was generated.
+   */
+  static async *streamMessage(
+    userMessage: string,
+    options: {
+      conversationId?: string;
+      conversationHistory?: Array<{ role: string; content: string }>;
+      editMessageId?: string;
+      regenerateMessageId?: string;
+      // Uploaded with AttachmentsService, sent with this message
+      attachmentIds?: string[];
+      signal?: AbortSignal;
+    } = {},
+  ): AsyncGenerator<AIStreamEvent> {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error("Not authenticated. Please log in again.");
+    }
+
+    const response = await fetch("/api/ai/chat/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify({
+        idToken,
+        userMessage: options.regenerateMessageId ? undefined : userMessage,
+        conversationHistory: options.conversationId
+          ? []
+          : options.conversationHistory || [],
+        conversationId: options.conversationId,
+        editMessageId: options.editMessageId,
+        regenerateMessageId: options.regenerateMessageId,
+        attachmentIds: options.attachmentIds,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      throw new Error(
+        data?.error || data?.message || `API error: ${response.status}`,
+      );
+    }
+
+    for await (const event of parseSSEStream(response.body)) {
+      let payload: AIStreamEvent;
+      try {
+        payload = JSON.parse(event.data);
+      } catch {
+        continue;
+      }
+
+      if (payload.type === "error") {
+        throw new Error(payload.error);
+      }
+
+      yield payload;
+    }
+  }
+
+  /**
+   * Generate an image link for a prompt. The server charges one credit and,
+   * with a conversationId, stores the prompt and the image in it.
+   */
+  static async generateImage(
+    prompt: string,
+    conversationId?: string,
+  ): Promise<string> {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error("Not authenticated. Please log in again.");
+    }
+
+    const response = await fetch("/api/ai/image", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ idToken, prompt, conversationId }),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        data?.error || data?.message || "Erreur lors de la génération d'image",
+      );
+    }
+    return data.content;
+  }
+
+  /**
+   * The model catalog for the signed-in user's plan. Models the plan does
+   * not include come back with `available: false`.
+   */
+  static async getModels(): Promise<ModelCatalogResponse> {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error("Not authenticated. Please log in again.");
+    }
+
+    const response = await fetch("/api/models", {
+      headers: { Authorization: `Bearer ${idToken}` },
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(
+        data?.error || data?.message || "Erreur lors du chargement des modèles",
+      );
+    }
+    return data;
   }
 }
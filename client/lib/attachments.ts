@@ -0,0 +1,137 @@
+import { auth } from "./firebase";
+import type { AttachmentSummary } from "@shared/api";
+
+export type Attachment = AttachmentSummary;
+
+// File picker filter; the server decides from the extension and type
+// (server/lib/attachment-text.ts)
+export const ATTACHMENT_ACCEPT = [
+  "application/pdf",
+  "text/*",
+  ".pdf",
+  ".txt",
+  ".md",
+  ".markdown",
+  ".csv",
+  ".tsv",
+  ".json",
+  ".yaml",
+  ".yml",
+  ".xml",
+  ".html",
+  ".css",
+  ".scss",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".py",
+  ".rb",
+  ".php",
+  ".java",
+  ".kt",
+  ".swift",
+  ".go",
+  ".rs",
+  ".c",
+  ".h",
+  ".cpp",
+  ".hpp",
+  ".cs",
+  ".sh",
+  ".sql",
+  ".toml",
+  ".ini",
+  ".log",
+].join(",");
+
+async function getIdToken(): Promise<string> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) {
+    throw new Error("Not authenticated. Please log in again.");
+  }
+  return idToken;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${await getIdToken()}`,
+    },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+// Base64 content of a file, without the data: URL prefix
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const url = reader.result as string;
+      resolve(url.slice(url.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export class AttachmentsService {
+  /**
+   * Upload a file for the next message of a conversation. Size and count
+   * limits depend on the plan (shared/plans.ts).
+   */
+  static async upload(conversationId: string, file: File): Promise<Attachment> {
+    return request<Attachment>("/api/attachments", {
+      method: "POST",
+      body: JSON.stringify({
+        conversationId,
+        name: file.name,
+        mimeType: file.type,
+        data: await readAsBase64(file),
+      }),
+    });
+  }
+
+  // Only attachments that were not sent yet
+  static async remove(attachmentId: string): Promise<void> {
+    await request(`/api/attachments/${encodeURIComponent(attachmentId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Fetched with the auth header, then saved through a temporary link
+  static async download(attachmentId: string, name: string): Promise<void> {
+    const response = await fetch(
+      `/api/attachments/${encodeURIComponent(attachmentId)}/file`,
+      { headers: { Authorization: `Bearer ${await getIdToken()}` } },
+    );
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1_000_000) {
+    return `${(bytes / 1_000_000).toFixed(1).replace(/\.0$/, "")} Mo`;
+  }
+  if (bytes >= 1_000) return `${Math.round(bytes / 1_000)} Ko`;
+  return `${bytes} o`;
+}
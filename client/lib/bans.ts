@@ -0,0 +1,178 @@
+import { auth } from "./firebase";
+import type {
+  AccountClusterSummary,
+  IpBanSummary,
+  SanctionSummary,
+} from "@shared/api";
+import type { AppealDecision, SanctionType } from "@shared/bans";
+
+export type Sanction = SanctionSummary;
+
+async function banRequest<T>(path: string, body?: unknown): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
+
+  const response = await fetch(path, {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Bans and warnings are issued and lifted by the server only (see
+ * server/lib/bans.ts); the `bans` collection is not writable from here.
+ */
+export async function getMyBanStatus(): Promise<{
+  sanction: Sanction | null;
+  // Appeal decided since the user last looked
+  appealDecision: Sanction | null;
+}> {
+  return banRequest("/api/bans/me");
+}
+
+// One appeal per ban, locked once staff decide
+export async function submitAppeal(
+  banId: string,
+  message: string,
+): Promise<Sanction> {
+  const data = await banRequest<{ sanction: Sanction }>(
+    `/api/bans/${encodeURIComponent(banId)}/appeal`,
+    { message },
+  );
+  return data.sanction;
+}
+
+export async function acknowledgeAppeal(banId: string): Promise<void> {
+  await banRequest(
+    `/api/bans/${encodeURIComponent(banId)}/appeal/acknowledge`,
+    {},
+  );
+}
+
+export async function getSanctions(type?: SanctionType): Promise<Sanction[]> {
+  const query = type ? `?type=${type}` : "";
+  const data = await banRequest<{ sanctions: Sanction[] }>(
+    `/api/admin/bans${query}`,
+  );
+  return data.sanctions;
+}
+
+// Leave durationMinutes out for a permanent sanction
+export async function issueSanction(options: {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  durationMinutes?: number;
+}): Promise<Sanction> {
+  const data = await banRequest<{ sanction: Sanction }>(
+    "/api/admin/bans",
+    options,
+  );
+  return data.sanction;
+}
+
+export async function liftSanction(id: string): Promise<Sanction> {
+  const data = await banRequest<{ sanction: Sanction }>(
+    `/api/admin/bans/${encodeURIComponent(id)}/lift`,
+    {},
+  );
+  return data.sanction;
+}
+
+// Pending appeals, oldest first
+export async function getPendingAppeals(): Promise<Sanction[]> {
+  const data = await banRequest<{ appeals: Sanction[] }>("/api/admin/appeals");
+  return data.appeals;
+}
+
+// durationMinutes (from now) is required to reduce a ban
+export async function decideAppeal(
+  banId: string,
+  options: {
+    decision: AppealDecision;
+    response?: string;
+    durationMinutes?: number;
+  },
+): Promise<Sanction> {
+  const data = await banRequest<{ sanction: Sanction }>(
+    `/api/admin/bans/${encodeURIComponent(banId)}/appeal/decide`,
+    options,
+  );
+  return data.sanction;
+}
+
+export async function getIpBans(
+  status: "active" | "all" = "active",
+): Promise<IpBanSummary[]> {
+  const data = await banRequest<{ bans: IpBanSummary[] }>(
+    `/api/admin/ip-bans?status=${status}`,
+  );
+  return data.bans;
+}
+
+// `target` is a single address or a CIDR range, IPv4 or IPv6
+export async function banIp(options: {
+  target: string;
+  reason: string;
+  durationMinutes?: number;
+}): Promise<IpBanSummary> {
+  const data = await banRequest<{ ban: IpBanSummary }>(
+    "/api/admin/ip-bans",
+    options,
+  );
+  return data.ban;
+}
+
+export async function liftIpBan(id: string): Promise<IpBanSummary> {
+  const data = await banRequest<{ ban: IpBanSummary }>(
+    `/api/admin/ip-bans/${encodeURIComponent(id)}/lift`,
+    {},
+  );
+  return data.ban;
+}
+
+// Null when the account shares no IP or device with another
+export async function getLinkedAccounts(
+  userId: string,
+): Promise<AccountClusterSummary | null> {
+  const data = await banRequest<{ cluster: AccountClusterSummary | null }>(
+    `/api/admin/users/${encodeURIComponent(userId)}/linked-accounts`,
+  );
+  return data.cluster;
+}
+
+// Largest clusters first, among IPs and devices used in the last days
+export async function getAccountClusters(
+  sinceDays = 30,
+): Promise<AccountClusterSummary[]> {
+  const data = await banRequest<{ clusters: AccountClusterSummary[] }>(
+    `/api/admin/account-clusters?sinceDays=${sinceDays}`,
+  );
+  return data.clusters;
+}
+
+export async function banAccountCluster(
+  userId: string,
+  options: {
+    reason: string;
+    durationMinutes?: number;
+    excludeUserIds?: string[];
+  },
+): Promise<{
+  banned: Sanction[];
+  skipped: { userId: string; reason: string }[];
+}> {
+  return banRequest(
+    `/api/admin/users/${encodeURIComponent(userId)}/linked-accounts/ban`,
+    options,
+  );
+}
@@ -1,3 +1,5 @@
+import { auth } from "./firebase";
+
 export interface UserIP {
   id: string;
   userId: string;
@@ -59,44 +61,33 @@ export class IPService {
     }
   }
 
-  static async recordUserIP(
-    userId: string,
-    email: string,
-    ipAddress: string,
-  ): Promise<void> {
-    try {
-      const response = await fetch("/api/record-user-ip", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, email, ipAddress }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to record user IP");
-      }
-
-      await this.checkIPLimit(ipAddress);
-    } catch (error) {
-      console.error("Error recording user IP:", error);
+  /**
+   * Random ID kept by this browser, so the server can tell when several
+   * accounts are used from the same device.
+   */
+  static getDeviceId(): string {
+    const key = "device-id";
+    let deviceId = localStorage.getItem(key);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(key, deviceId);
     }
+    return deviceId;
   }
 
-  static async updateUserIPLogin(
-    userId: string,
-    ipAddress: string,
-  ): Promise<void> {
-    if (!userId || !ipAddress) {
-      console.warn(
-        "updateUserIPLogin called with undefined userId or ipAddress",
-      );
-      return;
-    }
-
+  // Records the signed-in user's IP (seen by the server) and device
+  static async updateUserIPLogin(): Promise<void> {
     try {
+      const idToken = await auth.currentUser?.getIdToken();
+      if (!idToken) return;
+
       const response = await fetch("/api/update-user-ip-login", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, ipAddress }),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ deviceId: IPService.getDeviceId() }),
       });
 
       if (!response.ok) {
@@ -185,7 +176,7 @@ export class IPService {
       return {
         ipAddress,
         reason: data.reason,
-        expiresAt: data.expiresAt,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
         isPermanent: !data.expiresAt,
       };
     } catch (error) {
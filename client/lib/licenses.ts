@@ -1,67 +1,93 @@
-import { db } from "./firebase";
-import {
-  doc,
-  setDoc,
-  collection,
-  getDocs,
-  query,
-  where,
-  updateDoc,
-} from "firebase/firestore";
+import { auth } from "./firebase";
 import { PlanType } from "@/contexts/AuthContext";
+import type { LicenseSummary } from "@shared/api";
 
-export interface LicenseKey {
-  key: string;
-  plan: PlanType;
-  active: boolean;
-  createdAt: number;
-  createdBy: string;
-  validityDays: number;
-  expiresAt: number;
-  usedBy?: string;
-  usedAt?: number;
-  lastMessageReset?: number;
+export type LicenseKey = LicenseSummary;
+
+async function adminRequest<T>(path: string, body?: unknown): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
+
+  const response = await fetch(path, {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
 }
 
+function licensePath(key: string, action: string) {
+  return `/api/admin/licenses/${encodeURIComponent(key)}/${action}`;
+}
+
+/**
+ * Keys are signed by the server (see server/lib/license-signing.ts), the
+ * client can no longer mint them.
+ */
 export async function generateLicenseKey(
   plan: PlanType,
-  adminUid: string,
   validityDays: number,
+  seats = 1,
 ): Promise<string> {
-  const key = `LICENSE-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-  const expiresAt = Date.now() + validityDays * 24 * 60 * 60 * 1000;
-
-  const licenseData: LicenseKey = {
-    key,
-    plan,
-    active: true,
-    createdAt: Date.now(),
-    createdBy: adminUid,
-    validityDays,
-    expiresAt,
-  };
+  const data = await adminRequest<{ license: LicenseKey }>(
+    "/api/admin/create-license",
+    { plan, validityDays, seats },
+  );
+  return data.license.key;
+}
 
-  await setDoc(doc(db, "licenses", key), licenseData);
-  return key;
+export async function getAllLicenses(): Promise<LicenseKey[]> {
+  const data = await adminRequest<{ licenses: LicenseKey[] }>(
+    "/api/admin/licenses",
+  );
+  return data.licenses;
 }
 
-export async function getAllLicenses(adminUid: string): Promise<LicenseKey[]> {
-  const licensesRef = collection(db, "licenses");
-  const q = query(licensesRef, where("createdBy", "==", adminUid));
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => doc.data() as LicenseKey);
+// Also downgrades every account still on the license
+export async function revokeLicense(
+  key: string,
+): Promise<{ holdersDowngraded: number }> {
+  return adminRequest(licensePath(key, "revoke"), {});
 }
 
-export async function deactivateLicense(key: string): Promise<void> {
-  await updateDoc(doc(db, "licenses", key), { active: false });
+export async function extendLicense(
+  key: string,
+  days: number,
+): Promise<{ expiresAt: string | null; validityDays: number }> {
+  return adminRequest(licensePath(key, "extend"), { days });
 }
 
-export async function markLicenseAsUsed(
+export async function transferLicense(
   key: string,
-  userUid: string,
+  fromUserId: string,
+  toUserId: string,
 ): Promise<void> {
-  await updateDoc(doc(db, "licenses", key), {
-    usedBy: userUid,
-    usedAt: Date.now(),
+  await adminRequest(licensePath(key, "transfer"), { fromUserId, toUserId });
+}
+
+// Redeem a key on the signed-in user's own account
+export async function activateLicense(licenseKey: string): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) throw new Error("Not authenticated");
+
+  const response = await fetch("/api/activate-license", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      licenseKey: licenseKey.trim(),
+      userId: user.uid,
+      idToken: await user.getIdToken(),
+    }),
   });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || data.error || "Clé de licence invalide");
+  }
 }
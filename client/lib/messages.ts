@@ -1,143 +1,140 @@
-import {
-  collection,
-  addDoc,
-  query,
-  where,
-  orderBy,
-  getDocs,
-  deleteDoc,
-  doc,
-  updateDoc,
-  Timestamp,
-  DocumentReference,
-} from "firebase/firestore";
-import { db } from "./firebase";
+import { auth } from "./firebase";
+import type {
+  BranchMessageRecord,
+  ContextSummary,
+  ConversationSummary,
+  MessagesPage,
+} from "@shared/api";
 
-export interface Message {
-  id: string;
-  conversationId: string;
-  userId: string;
-  text: string;
-  createdAt: Timestamp;
-  updatedAt?: Timestamp;
-}
+export type Message = BranchMessageRecord;
+export type Conversation = ConversationSummary;
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) {
+    throw new Error("Not authenticated. Please log in again.");
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
 
-export interface Conversation {
-  id: string;
-  userId: string;
-  title: string;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-  messageCount: number;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
 }
 
 export class MessagesService {
-  static async createConversation(
-    userId: string,
-    title: string,
-  ): Promise<DocumentReference> {
-    const conversationRef = await addDoc(collection(db, "conversations"), {
-      userId,
-      title,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-      messageCount: 0,
+  static async createConversation(title: string): Promise<Conversation> {
+    return request<Conversation>("/api/conversations", {
+      method: "POST",
+      body: JSON.stringify({ title }),
     });
-    return conversationRef;
   }
 
-  static async getConversations(userId: string): Promise<Conversation[]> {
-    const q = query(
-      collection(db, "conversations"),
-      where("userId", "==", userId),
+  // Sorted by updatedAt descending
+  static async getConversations(): Promise<Conversation[]> {
+    const data = await request<{ conversations: Conversation[] }>(
+      "/api/conversations",
     );
-    const snapshot = await getDocs(q);
-    const conversations = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt as Timestamp,
-      updatedAt: doc.data().updatedAt as Timestamp,
-    })) as Conversation[];
+    return data.conversations;
+  }
 
-    // Sort by updatedAt descending in memory
-    return conversations.sort(
-      (a, b) => b.updatedAt.toDate().getTime() - a.updatedAt.toDate().getTime(),
+  static async getConversation(conversationId: string): Promise<Conversation> {
+    return request<Conversation>(
+      `/api/conversations/${encodeURIComponent(conversationId)}`,
     );
   }
 
-  static async deleteConversation(conversationId: string): Promise<void> {
-    await deleteDoc(doc(db, "conversations", conversationId));
+  // null goes back to the persona's or the default model
+  static async setConversationModel(
+    conversationId: string,
+    model: string | null,
+  ): Promise<Conversation> {
+    return request<Conversation>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/model`,
+      { method: "PUT", body: JSON.stringify({ model }) },
+    );
   }
 
-  static async updateConversation(
-    conversationId: string,
-    data: Partial<Conversation>,
-  ): Promise<void> {
-    await updateDoc(doc(db, "conversations", conversationId), {
-      ...data,
-      updatedAt: Timestamp.now(),
+  static async deleteConversation(conversationId: string): Promise<void> {
+    await request(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+      method: "DELETE",
     });
   }
 
-  static async addMessage(
+  static async renameConversation(
     conversationId: string,
-    userId: string,
-    text: string,
-  ): Promise<string> {
-    const messageRef = await addDoc(collection(db, "messages"), {
-      conversationId,
-      userId,
-      text,
-      createdAt: Timestamp.now(),
-    });
-
-    // Update conversation's message count
-    const conversations = collection(db, "conversations");
-    const conversationDoc = doc(conversations, conversationId);
-    const conversationSnapshot = await getDocs(
-      query(conversations, where("id", "==", conversationId)),
+    title: string,
+  ): Promise<Conversation> {
+    return request<Conversation>(
+      `/api/conversations/${encodeURIComponent(conversationId)}`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ title }),
+      },
     );
-
-    if (conversationSnapshot.docs.length > 0) {
-      await updateDoc(conversationDoc, {
-        messageCount:
-          (conversationSnapshot.docs[0].data().messageCount || 0) + 1,
-        updatedAt: Timestamp.now(),
-      });
-    }
-
-    return messageRef.id;
   }
 
-  static async getMessages(conversationId: string): Promise<Message[]> {
-    const q = query(
-      collection(db, "messages"),
-      where("conversationId", "==", conversationId),
+  /**
+   * Messages of the active branch, latest first page; pass `before` (a previous nextCursor) to
+   * load older ones. Messages in a page are in chronological order.
+   */
+  static async getMessages(
+    conversationId: string,
+    options: { limit?: number; before?: string } = {},
+  ): Promise<MessagesPage> {
+    const params = new URLSearchParams();
+    if (options.limit) params.set("limit", String(options.limit));
+    if (options.before) params.set("before", options.before);
+    const query = params.toString() ? `?${params}` : "";
+
+    return request<MessagesPage>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/messages${query}`,
     );
-    const snapshot = await getDocs(q);
-    const messages = snapshot.docs.map((doc) => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt as Timestamp,
-      updatedAt: doc.data().updatedAt as Timestamp,
-    })) as Message[];
+  }
 
-    // Sort by createdAt ascending in memory
-    return messages.sort(
-      (a, b) => a.createdAt.toDate().getTime() - b.createdAt.toDate().getTime(),
+  /**
+   * Switch to the branch of `messageId` (usually a sibling of a message
+   * shown) and return its last page.
+   */
+  static async selectBranch(
+    conversationId: string,
+    messageId: string,
+  ): Promise<MessagesPage> {
+    return request<MessagesPage>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/branch`,
+      { method: "POST", body: JSON.stringify({ messageId }) },
     );
   }
 
-  static async deleteMessage(messageId: string): Promise<void> {
-    await deleteDoc(doc(db, "messages", messageId));
+  // Summary of the older messages sent to the model, null until there is one
+  static async getContextSummary(
+    conversationId: string,
+  ): Promise<ContextSummary | null> {
+    const data = await request<{ summary: ContextSummary | null }>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/summary`,
+    );
+    return data.summary;
   }
 
-  static async updateUserMessageCount(
-    userId: string,
-    messagesUsed: number,
-  ): Promise<void> {
-    await updateDoc(doc(db, "users", userId), {
-      messagesUsed,
-    });
+  /**
+   * Rewrite the summary from the messages it covers. Uses the daily token
+   * quota like a chat message.
+   */
+  static async regenerateContextSummary(
+    conversationId: string,
+  ): Promise<ContextSummary> {
+    const data = await request<{ summary: ContextSummary }>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/summary/regenerate`,
+      { method: "POST" },
+    );
+    return data.summary;
   }
 }
@@ -0,0 +1,77 @@
+import { auth } from "./firebase";
+import type { ConversationSummary, PersonaSummary } from "@shared/api";
+
+export type Persona = PersonaSummary;
+
+export interface PersonaInput {
+  name: string;
+  instructions: string;
+  model: string | null;
+  temperature: number | null;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) {
+    throw new Error("Not authenticated. Please log in again.");
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || data.message || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+export class PersonasService {
+  // Sorted by name
+  static async getPersonas(): Promise<Persona[]> {
+    const data = await request<{ personas: Persona[] }>("/api/personas");
+    return data.personas;
+  }
+
+  static async createPersona(input: PersonaInput): Promise<Persona> {
+    return request<Persona>("/api/personas", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async updatePersona(
+    personaId: string,
+    input: PersonaInput,
+  ): Promise<Persona> {
+    return request<Persona>(`/api/personas/${encodeURIComponent(personaId)}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+  }
+
+  static async deletePersona(personaId: string): Promise<void> {
+    await request(`/api/personas/${encodeURIComponent(personaId)}`, {
+      method: "DELETE",
+    });
+  }
+
+  // null goes back to the default assistant
+  static async setConversationPersona(
+    conversationId: string,
+    personaId: string | null,
+  ): Promise<ConversationSummary> {
+    return request<ConversationSummary>(
+      `/api/conversations/${encodeURIComponent(conversationId)}/persona`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ personaId }),
+      },
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { auth } from "./firebase";
+
+/**
+ * Save the browser's timezone, which decides when the daily token quota
+ * resets. Only the server writes it (server/lib/maintenance.ts); a change is
+ * accepted at most once a week.
+ */
+export async function saveTimezone(timezone: string): Promise<void> {
+  const idToken = await auth.currentUser?.getIdToken();
+  if (!idToken) throw new Error("Not authenticated");
+
+  const response = await fetch("/api/profile/timezone", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify({ timezone }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { normalizeMessageText } from "./security";
+
+describe("normalizeMessageText", () => {
+  it("should keep code and markup as typed", () => {
+    const samples = [
+      "List<T> items = new ArrayList<>();",
+      "if (a && b) { return <Button onClick={go} />; }",
+      "Why does <script>alert(1)</script> run here?",
+    ];
+
+    for (const sample of samples) {
+      expect(normalizeMessageText(`  ${sample}\n`)).toBe(sample);
+    }
+  });
+
+  it("should strip control characters but keep newlines and tabs", () => {
+    expect(normalizeMessageText("a\0b\x07c\n\td\x7F")).toBe("abc\n\td");
+  });
+});
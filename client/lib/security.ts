@@ -40,6 +40,17 @@ export function sanitizeInput(input: string): string {
   return sanitized;
 }
 
+/**
+ * Prepare a chat message for sending: trimmed, without control characters
+ * (newlines and tabs kept). Markup is left as typed, so code reaches the
+ * model unchanged; the server content policy decides what is allowed and
+ * MessageRenderer escapes at render time.
+ */
+export function normalizeMessageText(input: string): string {
+  if (!input || typeof input !== "string") return "";
+  return input.trim().replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "");
+}
+
 /**
  * Validate email format using regex.
  * Prevents obviously invalid emails from being processed.
@@ -171,28 +182,15 @@ export class RateLimiter {
 }
 
 /**
- * Detect and prevent common injection patterns.
- * Checks for SQL, NoSQL, XSS, and command injection attempts.
+ * Detect characters that have no place in a chat message or title: null
+ * bytes and Unicode bidi overrides (which make text render differently from
+ * what is sent). Code, SQL and shell snippets are fine; what users may send
+ * is decided by the server's content policy (shared/content-policy.ts).
  */
 export function detectInjectionAttempt(input: string): boolean {
   if (!input || typeof input !== "string") return false;
 
-  const suspiciousPatterns = [
-    // SQL injection patterns
-    /(\b(SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|EXEC|EXECUTE|UNION|WHERE|OR|AND)\b)/i,
-    // NoSQL injection patterns
-    /[\{\}\$\[\]]/,
-    // Script injection
-    /<script[^>]*>/i,
-    /javascript:/i,
-    // Command injection
-    /[;&|`$()]/,
-    // Path traversal
-    /\.\.\//,
-    /\.\.\\/, // Windows path traversal
-  ];
-
-  return suspiciousPatterns.some((pattern) => pattern.test(input));
+  return /[\0\u202A-\u202E\u2066-\u2069]/.test(input);
 }
 
 /**
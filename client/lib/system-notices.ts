@@ -11,17 +11,6 @@ import {
 } from "firebase/firestore";
 import { db } from "./firebase";
 
-export interface UserBan {
-  id: string;
-  userId: string;
-  email: string;
-  reason: string;
-  bannedAt: Timestamp;
-  expiresAt?: Timestamp;
-  isPermanent: boolean;
-  type: "ban" | "warn";
-}
-
 export interface MaintenanceNotice {
   id: string;
   title: string;
@@ -34,126 +23,6 @@ export interface MaintenanceNotice {
 }
 
 export class SystemNoticesService {
-  // ============ BAN MANAGEMENT ============
-
-  static async banUser(
-    userId: string,
-    email: string,
-    reason: string,
-    durationMinutes?: number,
-  ): Promise<void> {
-    if (!userId || !email || !reason) {
-      throw new Error("Missing required fields: userId, email, or reason");
-    }
-
-    const banRef = doc(collection(db, "bans"));
-    const bannedAt = Timestamp.now();
-
-    const banData: any = {
-      userId,
-      email,
-      reason,
-      bannedAt,
-      isPermanent: !durationMinutes,
-      type: "ban",
-    };
-
-    if (durationMinutes) {
-      banData.expiresAt = Timestamp.fromDate(
-        new Date(bannedAt.toDate().getTime() + durationMinutes * 60000),
-      );
-    }
-
-    await setDoc(banRef, banData as UserBan);
-  }
-
-  static async warnUser(
-    userId: string,
-    email: string,
-    reason: string,
-    durationMinutes?: number,
-  ): Promise<void> {
-    if (!userId || !email || !reason) {
-      throw new Error("Missing required fields: userId, email, or reason");
-    }
-
-    const banRef = doc(collection(db, "bans"));
-    const bannedAt = Timestamp.now();
-
-    const warnData: any = {
-      userId,
-      email,
-      reason,
-      bannedAt,
-      isPermanent: !durationMinutes,
-      type: "warn",
-    };
-
-    if (durationMinutes) {
-      warnData.expiresAt = Timestamp.fromDate(
-        new Date(bannedAt.toDate().getTime() + durationMinutes * 60000),
-      );
-    }
-
-    await setDoc(banRef, warnData as UserBan);
-  }
-
-  static async unbanUser(userId: string): Promise<void> {
-    if (!userId) {
-      console.warn("unbanUser called with undefined userId");
-      return;
-    }
-
-    const q = query(collection(db, "bans"), where("userId", "==", userId));
-    const snapshot = await getDocs(q);
-
-    for (const doc_ of snapshot.docs) {
-      await deleteDoc(doc_.ref);
-    }
-  }
-
-  static async getUserBan(userId: string): Promise<UserBan | null> {
-    if (!userId) {
-      console.warn("getUserBan called with undefined userId");
-      return null;
-    }
-
-    const q = query(collection(db, "bans"), where("userId", "==", userId));
-    const snapshot = await getDocs(q);
-
-    if (snapshot.empty) return null;
-
-    const banDoc = snapshot.docs[0];
-    const ban = { id: banDoc.id, ...banDoc.data() } as UserBan;
-
-    // Check if ban has expired
-    if (ban.expiresAt && ban.expiresAt.toDate() < new Date()) {
-      await deleteDoc(banDoc.ref);
-      return null;
-    }
-
-    return ban;
-  }
-
-  static async getAllBans(): Promise<UserBan[]> {
-    const snapshot = await getDocs(collection(db, "bans"));
-    const bans: UserBan[] = [];
-
-    for (const doc_ of snapshot.docs) {
-      const ban = { id: doc_.id, ...doc_.data() } as UserBan;
-
-      // Remove expired bans
-      if (ban.expiresAt && ban.expiresAt.toDate() < new Date()) {
-        await deleteDoc(doc_.ref);
-        continue;
-      }
-
-      bans.push(ban);
-    }
-
-    return bans;
-  }
-
   // ============ MAINTENANCE MANAGEMENT ============
 
   static async createMaintenanceNotice(
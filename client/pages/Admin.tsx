@@ -12,22 +12,51 @@ import {
   ChevronDown,
   Check,
   X,
+  ScrollText,
+  ShieldCheck,
+  Gavel,
+  MessageSquareWarning,
+  UserPlus,
+  Network,
+  ShieldBan,
+  Link2,
 } from "lucide-react";
 import { toast } from "sonner";
 import AdminUsersSection from "@/components/admin/AdminUsersSection";
 import AdminLicensesSection from "@/components/admin/AdminLicensesSection";
 import AdminAIConfigSection from "@/components/admin/AdminAIConfigSection";
 import AdminSystemSection from "@/components/admin/AdminSystemSection";
+import AdminAuditSection from "@/components/admin/AdminAuditSection";
+import AdminContentPolicySection from "@/components/admin/AdminContentPolicySection";
+import AdminBanManagement from "@/components/AdminBanManagement";
+import AdminAppealsSection from "@/components/admin/AdminAppealsSection";
+import AdminIpBansSection from "@/components/admin/AdminIpBansSection";
+import AdminLinkedAccountsSection from "@/components/admin/AdminLinkedAccountsSection";
+import AdminRegistrationsSection from "@/components/admin/AdminRegistrationsSection";
+import AdminIpRangesSection from "@/components/admin/AdminIpRangesSection";
 import { useState } from "react";
+import { can } from "@shared/permissions";
+import { hasRole } from "@shared/roles";
 
 export default function Admin() {
-  const { userData, user } = useAuth();
+  const { user, role } = useAuth();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<
-    "users" | "licenses" | "ai" | "system"
+    | "users"
+    | "bans"
+    | "appeals"
+    | "ip-bans"
+    | "linked-accounts"
+    | "registrations"
+    | "ip-ranges"
+    | "licenses"
+    | "ai"
+    | "policy"
+    | "system"
+    | "audit"
   >("users");
 
-  if (!userData?.isAdmin) {
+  if (!hasRole(role, "moderator")) {
     return (
       <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
         <div className="text-center">
@@ -55,12 +84,83 @@ export default function Admin() {
     }
   };
 
-  const tabs = [
-    { id: "users", label: "Utilisateurs", icon: Users },
-    { id: "licenses", label: "Licences", icon: Key },
-    { id: "ai", label: "Configuration IA", icon: Brain },
-    { id: "system", label: "Système", icon: BarChart3 },
-  ] as const;
+  // Moderators only see the tabs their permissions allow
+  const tabs = (
+    [
+      {
+        id: "users",
+        label: "Utilisateurs",
+        icon: Users,
+        permission: "users.read",
+      },
+      {
+        id: "bans",
+        label: "Sanctions",
+        icon: Gavel,
+        permission: "users.moderate",
+      },
+      {
+        id: "appeals",
+        label: "Appels",
+        icon: MessageSquareWarning,
+        permission: "users.moderate",
+      },
+      {
+        id: "ip-bans",
+        label: "Bans IP",
+        icon: ShieldBan,
+        permission: "users.moderate",
+      },
+      {
+        id: "linked-accounts",
+        label: "Comptes liés",
+        icon: Link2,
+        permission: "users.moderate",
+      },
+      {
+        id: "registrations",
+        label: "Inscriptions",
+        icon: UserPlus,
+        permission: "users.moderate",
+      },
+      {
+        id: "ip-ranges",
+        label: "Plages IP",
+        icon: Network,
+        permission: "system.manage",
+      },
+      {
+        id: "licenses",
+        label: "Licences",
+        icon: Key,
+        permission: "licenses.manage",
+      },
+      {
+        id: "ai",
+        label: "Configuration IA",
+        icon: Brain,
+        permission: "ai_config.manage",
+      },
+      {
+        id: "policy",
+        label: "Politique de contenu",
+        icon: ShieldCheck,
+        permission: "content_policy.manage",
+      },
+      {
+        id: "system",
+        label: "Système",
+        icon: BarChart3,
+        permission: "reports.read",
+      },
+      {
+        id: "audit",
+        label: "Audit",
+        icon: ScrollText,
+        permission: "audit.read",
+      },
+    ] as const
+  ).filter((tab) => can(role, tab.permission));
 
   return (
     <div className="min-h-screen bg-[#0a0a0a]">
@@ -68,9 +168,13 @@ export default function Admin() {
       <header className="border-b border-white/5 bg-[#0f0f0f]">
         <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-semibold text-white">Panneau Admin</h1>
+            <h1 className="text-2xl font-semibold text-white">
+              {role === "admin" ? "Panneau Admin" : "Panneau Modération"}
+            </h1>
             <p className="text-sm text-foreground/60 mt-1">
-              Gestion complète de la plateforme
+              {role === "admin"
+                ? "Gestion complète de la plateforme"
+                : "Modération des utilisateurs et rapports"}
             </p>
           </div>
           <div className="flex items-center gap-4">
@@ -115,9 +219,17 @@ export default function Admin() {
       {/* Content */}
       <main className="max-w-7xl mx-auto px-6 py-8">
         {activeTab === "users" && <AdminUsersSection />}
+        {activeTab === "bans" && <AdminBanManagement />}
+        {activeTab === "appeals" && <AdminAppealsSection />}
+        {activeTab === "ip-bans" && <AdminIpBansSection />}
+        {activeTab === "linked-accounts" && <AdminLinkedAccountsSection />}
+        {activeTab === "registrations" && <AdminRegistrationsSection />}
+        {activeTab === "ip-ranges" && <AdminIpRangesSection />}
         {activeTab === "licenses" && <AdminLicensesSection />}
         {activeTab === "ai" && <AdminAIConfigSection />}
+        {activeTab === "policy" && <AdminContentPolicySection />}
         {activeTab === "system" && <AdminSystemSection />}
+        {activeTab === "audit" && <AdminAuditSection />}
       </main>
     </div>
   );
@@ -10,14 +10,24 @@ import { SystemNoticeModal } from "@/components/SystemNoticeModal";
 import { MessageLimitModal } from "@/components/MessageLimitModal";
 import { Menu, Loader2 } from "lucide-react";
 import { MessagesService } from "@/lib/messages";
+import { getTokenBudget } from "@shared/plans";
 import { toast } from "sonner";
 
 export default function Index() {
-  const { loading, userBan, maintenanceNotice, user, userData } = useAuth();
+  const {
+    loading,
+    userBan,
+    appealDecision,
+    dismissAppealDecision,
+    maintenanceNotice,
+    user,
+    userData,
+  } = useAuth();
   const { isDark } = useTheme();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [activeConversationId, setActiveConversationId] = useState<string>();
   const [acknowledgedMaintenance, setAcknowledgedMaintenance] = useState(false);
+  const [acknowledgedWarning, setAcknowledgedWarning] = useState<string>();
 
   useEffect(() => {
     // Load first conversation if available
@@ -29,7 +39,7 @@ export default function Index() {
   const loadFirstConversation = async () => {
     if (!user?.uid) return;
     try {
-      const conversations = await MessagesService.getConversations(user.uid);
+      const conversations = await MessagesService.getConversations();
       if (conversations.length > 0) {
         setActiveConversationId(conversations[0].id);
       }
@@ -43,7 +53,7 @@ export default function Index() {
 
   useEffect(() => {
     // If user is banned, log them out
-    if (userBan) {
+    if (userBan?.type === "ban") {
       signOut(auth).catch(console.error);
     }
   }, [userBan]);
@@ -61,7 +71,7 @@ export default function Index() {
   }
 
   // Show ban modal (non-dismissible, forces logout)
-  if (userBan) {
+  if (userBan?.type === "ban") {
     return (
       <SystemNoticeModal
         type="ban"
@@ -69,18 +79,55 @@ export default function Index() {
         message={`Votre compte a été banni pour la raison suivante: "${userBan.reason}"`}
         severity="critical"
         reason={userBan.reason}
-        expiresAt={userBan.expiresAt ? userBan.expiresAt.toDate() : undefined}
+        expiresAt={userBan.expiresAt ? new Date(userBan.expiresAt) : undefined}
         dismissible={false}
       />
     );
   }
 
+  // Staff decided on an appeal since the user last looked
+  if (appealDecision) {
+    return (
+      <SystemNoticeModal
+        type="ban"
+        title="Décision sur votre appel"
+        message={
+          appealDecision.appealStatus === "lifted"
+            ? "Votre appel a été accepté, la sanction a été levée."
+            : appealDecision.appealStatus === "reduced"
+              ? "Votre appel a été accepté en partie, la sanction a été réduite."
+              : "Votre appel a été rejeté, la sanction est maintenue."
+        }
+        severity="info"
+        reason={appealDecision.appeal?.response || undefined}
+        onAcknowledge={dismissAppealDecision}
+        dismissible
+      />
+    );
+  }
+
+  // Warnings are shown once per session
+  if (userBan?.type === "warn" && acknowledgedWarning !== userBan.id) {
+    return (
+      <SystemNoticeModal
+        type="ban"
+        title="Avertissement"
+        message={`Vous avez reçu un avertissement pour la raison suivante: "${userBan.reason}"`}
+        severity="warning"
+        reason={userBan.reason}
+        expiresAt={userBan.expiresAt ? new Date(userBan.expiresAt) : undefined}
+        onAcknowledge={() => setAcknowledgedWarning(userBan.id)}
+        dismissible
+      />
+    );
+  }
+
   // Show message limit modal (non-dismissible)
-  if (userData && userData.messagesUsed >= userData.messagesLimit) {
+  if (userData && (userData.tokensUsed || 0) >= getTokenBudget(userData)) {
     return (
       <MessageLimitModal
-        messagesUsed={userData.messagesUsed}
-        messagesLimit={userData.messagesLimit}
+        tokensUsed={userData.tokensUsed || 0}
+        tokenBudget={getTokenBudget(userData)}
       />
     );
   }
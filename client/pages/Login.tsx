@@ -27,25 +27,17 @@ export default function Login() {
           "Votre adresse IP est bannie: " +
             ipBan.reason +
             (ipBan.expiresAt
-              ? " (Expire le " +
-                ipBan.expiresAt.toDate().toLocaleDateString() +
-                ")"
+              ? " (Expire le " + ipBan.expiresAt.toLocaleDateString() + ")"
               : " (Permanent)"),
         );
         setLoading(false);
         return;
       }
 
-      const userCredential = await signInWithEmailAndPassword(
-        auth,
-        email,
-        password,
-      );
+      await signInWithEmailAndPassword(auth, email, password);
 
       // Record or update user IP
-      if (userCredential.user.uid) {
-        await IPService.updateUserIPLogin(userCredential.user.uid, userIP);
-      }
+      await IPService.updateUserIPLogin();
 
       toast.success("Connecté avec succès!");
       navigate("/");
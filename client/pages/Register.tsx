@@ -1,12 +1,11 @@
 import { useState, useEffect } from "react";
 import { useNavigate, Link } from "react-router-dom";
-import { createUserWithEmailAndPassword } from "firebase/auth";
-import { doc, setDoc, getDoc } from "firebase/firestore";
-import { auth, db } from "@/lib/firebase";
-import { PlanType, UserData } from "@/contexts/AuthContext";
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth } from "@/lib/firebase";
 import { useTOS } from "@/contexts/TOSContext";
 import { Mail, Lock, Key } from "lucide-react";
 import { toast } from "sonner";
+import { activateLicense } from "@/lib/licenses";
 import { IPService } from "@/lib/ip-service";
 
 interface CaptchaData {
@@ -47,32 +46,6 @@ export default function Register() {
     return userAnswer === captcha.answer;
   };
 
-  const validateLicenseKey = async (
-    key: string,
-  ): Promise<{ valid: boolean; plan?: PlanType }> => {
-    if (!key.trim()) {
-      return { valid: false };
-    }
-
-    try {
-      const licenseDoc = await getDoc(doc(db, "licenses", key));
-
-      if (!licenseDoc.exists()) {
-        return { valid: false };
-      }
-
-      const licenseData = licenseDoc.data();
-
-      if (!licenseData.active) {
-        return { valid: false };
-      }
-
-      return { valid: true, plan: licenseData.plan as PlanType };
-    } catch (error) {
-      return { valid: false };
-    }
-  };
-
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -93,99 +66,38 @@ export default function Register() {
     setLoading(true);
 
     try {
-      // Get user's IP address
-      const userIP = await IPService.getUserIP();
-
-      // Check IP ban
-      const ipBan = await IPService.checkIPBan(userIP);
-      if (ipBan) {
-        toast.error(
-          "Votre adresse IP est bannie: " +
-            ipBan.reason +
-            (ipBan.expiresAt
-              ? " (Expire le " +
-                ipBan.expiresAt.toDate().toLocaleDateString() +
-                ")"
-              : " (Permanent)"),
-        );
-        setLoading(false);
-        return;
+      // IP bans, accounts per IP, disposable emails and VPNs are checked
+      // by the server before the account is created
+      const response = await fetch("/api/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email,
+          password,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          deviceId: IPService.getDeviceId(),
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Erreur d'inscription");
       }
 
-      // Check account limit per IP (max 1 account)
-      const ipCheck = await IPService.checkIPLimit(userIP, 1);
-      if (ipCheck.isLimitExceeded) {
-        toast.error(
-          "Vous avez atteint le nombre maximal de comptes autorisés depuis votre adresse IP",
-        );
-        setLoading(false);
-        return;
-      }
-
-      let planToUse: PlanType = "Free";
+      await signInWithEmailAndPassword(auth, email, password);
 
+      // The account exists either way: a bad key only skips the upgrade
       if (licenseKey.trim()) {
-        const licenseValidation = await validateLicenseKey(licenseKey);
-
-        if (!licenseValidation.valid) {
-          toast.error("Clé de licence invalide ou inactive");
-          setLoading(false);
-          return;
-        }
-
-        if (licenseValidation.plan) {
-          planToUse = licenseValidation.plan;
+        try {
+          await activateLicense(licenseKey);
+        } catch (licenseError) {
+          toast.error(
+            licenseError instanceof Error
+              ? licenseError.message
+              : "Clé de licence invalide ou inactive",
+          );
         }
       }
 
-      const userCredential = await createUserWithEmailAndPassword(
-        auth,
-        email,
-        password,
-      );
-      const user = userCredential.user;
-
-      const planLimits: Record<PlanType, number> = {
-        Free: 10,
-        Classic: 50,
-        Pro: 999,
-      };
-
-      const userData: UserData = {
-        uid: user.uid,
-        email: user.email || "",
-        displayName: email.split("@")[0],
-        plan: planToUse,
-        role: "user",
-        category: "individual",
-        messagesUsed: 0,
-        messagesLimit: planLimits[planToUse],
-        createdAt: Date.now(),
-        isAdmin: false,
-      };
-
-      // Only add licenseKey if it was provided
-      if (licenseKey.trim()) {
-        (userData as any).licenseKey = licenseKey.trim();
-      }
-
-      // Create user document in Firestore
-      try {
-        await setDoc(doc(db, "users", user.uid), userData);
-      } catch (firestoreError) {
-        console.error("Firestore error:", firestoreError);
-        throw new Error(
-          "Impossible de créer le profil utilisateur. Veuillez réessayer.",
-        );
-      }
-
-      // Record user IP (non-critical, don't block registration)
-      try {
-        await IPService.recordUserIP(user.uid, user.email || "", userIP);
-      } catch (ipError) {
-        console.error("IP recording error (non-critical):", ipError);
-      }
-
       toast.success("Compte créé avec succès!");
       navigate("/");
     } catch (error) {
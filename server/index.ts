@@ -4,11 +4,13 @@ import cors from "cors";
 import { handleDemo } from "./routes/demo";
 import { handleGetIP, handleCheckVPN } from "./routes/ip-detection";
 import { handleActivateLicense } from "./routes/license";
-import { handleDailyReset } from "./routes/daily-reset";
+import { handleRegister } from "./routes/register";
+import { handleDailyReset, handleSetTimezone } from "./routes/daily-reset";
 import {
   handleAIChat,
-  handleGetAIConfig,
-  handleUpdateAIConfig,
+  handleAIChatStream,
+  handleAIImage,
+  handleRegenerateContextSummary,
 } from "./routes/ai";
 import {
   handleVerifyAdmin,
@@ -17,29 +19,91 @@ import {
   handleDemoteUser,
   handleBanUser,
   handleUnbanUser,
+  handleGetSanctions,
+  handleIssueSanction,
+  handleLiftSanction,
+  handleGetIpBans,
+  handleGetLinkedAccounts,
+  handleGetAccountClusters,
+  handleBanAccountCluster,
+  handleBanIp,
+  handleLiftIpBan,
+  handleGetAppeals,
+  handleDecideAppeal,
+  handleGetRegistrationAttempts,
+  handleGetIpRanges,
+  handleAddIpRange,
+  handleRemoveIpRange,
   handleResetMessages,
   handleDeleteUser,
   handleGetLicenses,
   handleCreateLicense,
+  handleRevokeLicense,
+  handleExtendLicense,
+  handleTransferLicense,
+  handleGetLicenseBatches,
+  handleCreateLicenseBatch,
+  handleExportLicenseBatch,
+  handleRevokeLicenseBatch,
   handleGetAIConfig,
   handleUpdateAIConfig,
   handleGetSystemStats,
   handlePurgeLicenses,
+  handleMigrateMessages,
+  handleRunMaintenance,
+  handleGetMaintenanceRuns,
+  handleGetAuditLog,
+  handleGetContentPolicy,
+  handleUpdateContentPolicy,
+  handleTestContentPolicy,
 } from "./routes/admin";
 import {
   handleCheckIPBan,
   handleCheckIPLimit,
-  handleRecordUserIP,
   handleUpdateUserIPLogin,
 } from "./routes/ip-management";
 import { handleGetAIConfig as handleGetAIConfigSettings } from "./routes/settings";
+import {
+  handleListConversations,
+  handleCreateConversation,
+  handleGetConversation,
+  handleRenameConversation,
+  handleDeleteConversation,
+  handleGetMessages,
+  handleSelectBranch,
+  handleGetContextSummary,
+} from "./routes/conversations";
+import {
+  handleCreatePersona,
+  handleDeletePersona,
+  handleListPersonas,
+  handleSetConversationPersona,
+  handleUpdatePersona,
+} from "./routes/personas";
+import { handleListModels, handleSetConversationModel } from "./routes/models";
+import {
+  handleDeleteAttachment,
+  handleDownloadAttachment,
+  handleUploadAttachment,
+} from "./routes/attachments";
+import {
+  handleAcknowledgeAppeal,
+  handleGetMyBan,
+  handleSubmitAppeal,
+} from "./routes/bans";
 import {
   validateContentType,
   validateRequestSize,
   validateInput,
   serverRateLimit,
-  authMiddleware,
+  requestIdMiddleware,
 } from "./middleware/security";
+import {
+  authMiddleware,
+  requireAuth,
+  requirePermission,
+  requireRole,
+} from "./middleware/auth";
 
 export function createServer() {
   const app = express();
@@ -57,11 +121,22 @@ export function createServer() {
       origin: corsOrigins.length > 0 ? corsOrigins : true,
       credentials: true,
       methods: ["GET", "POST", "PUT", "DELETE"],
-      allowedHeaders: ["Content-Type", "Authorization"],
+      allowedHeaders: ["Content-Type", "Authorization", "X-Request-Id"],
+      exposedHeaders: [
+        "X-Request-Id",
+        "RateLimit-Limit",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "RateLimit-Policy",
+        "Retry-After",
+      ],
     }),
   );
 
-  // 2. Security headers
+  // 2. Request ID (ledger entries and logs reference it)
+  app.use(requestIdMiddleware);
+
+  // 3. Security headers
   app.use((req, res, next) => {
     res.setHeader("X-Content-Type-Options", "nosniff");
     res.setHeader("X-Frame-Options", "DENY");
@@ -75,24 +150,24 @@ export function createServer() {
     next();
   });
 
-  // 3. Request size validation
+  // 4. Request size validation
   app.use(validateRequestSize);
 
-  // 4. Parse JSON
+  // 5. Parse JSON
   app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 
-  // 5. Content-Type validation
+  // 6. Content-Type validation
   app.use(validateContentType);
 
-  // 6. Input validation (check for suspicious patterns)
+  // 7. Input validation (check for suspicious patterns)
   app.use(validateInput);
 
-  // 7. Authentication middleware (extract token from request)
+  // 8. Authentication middleware (verify token, attach the principal)
   app.use(authMiddleware);
 
-  // 8. Global rate limiting (100 requests per minute per IP)
-  app.use(serverRateLimit(60000, 100));
+  // 9. Global rate limiting (limits live in server/lib/rate-limit-policies.ts)
+  app.use(serverRateLimit("global"));
 
   // Create API router to handle all API routes
   const apiRouter = express.Router();
@@ -106,56 +181,483 @@ export function createServer() {
   apiRouter.get("/demo", handleDemo);
 
   // IP detection routes (public, with rate limiting)
-  apiRouter.get("/get-ip", serverRateLimit(60000, 30), handleGetIP);
-  apiRouter.post("/check-vpn", serverRateLimit(60000, 10), handleCheckVPN);
+  apiRouter.get("/get-ip", serverRateLimit("ipLookup"), handleGetIP);
+  apiRouter.post("/check-vpn", serverRateLimit("vpnCheck"), handleCheckVPN);
+
+  // Account creation, after server-side abuse checks
+  apiRouter.post("/register", serverRateLimit("registration"), handleRegister);
 
   // IP management routes
   apiRouter.post("/check-ip-ban", handleCheckIPBan);
   apiRouter.post("/check-ip-limit", handleCheckIPLimit);
-  apiRouter.post("/record-user-ip", handleRecordUserIP);
-  apiRouter.post("/update-user-ip-login", handleUpdateUserIPLogin);
+  apiRouter.post("/update-user-ip-login", requireAuth, handleUpdateUserIPLogin);
+
+  // Signed-in users, banned or not, see their own sanction
+  apiRouter.get("/bans/me", requireAuth, handleGetMyBan);
+  apiRouter.post(
+    "/bans/:id/appeal",
+    serverRateLimit("banAppeal"),
+    requireAuth,
+    handleSubmitAppeal,
+  );
+  apiRouter.post(
+    "/bans/:id/appeal/acknowledge",
+    requireAuth,
+    handleAcknowledgeAppeal,
+  );
 
   // License activation route (requires auth, strict rate limit)
   apiRouter.post(
     "/activate-license",
-    serverRateLimit(60000, 5),
+    serverRateLimit("licenseActivation"),
+    requireRole("user"),
     handleActivateLicense,
   );
 
   // Daily reset route (requires auth, strict rate limit)
-  apiRouter.post("/daily-reset", serverRateLimit(60000, 5), handleDailyReset);
+  apiRouter.post(
+    "/daily-reset",
+    serverRateLimit("dailyReset"),
+    handleDailyReset,
+  );
+  apiRouter.put(
+    "/profile/timezone",
+    serverRateLimit("dailyReset"),
+    requireRole("user"),
+    handleSetTimezone,
+  );
 
-  // AI chat route (requires auth, very strict rate limit - 10 requests per minute per user)
-  apiRouter.post("/ai/chat", serverRateLimit(60000, 10), handleAIChat);
+  // AI routes (requires auth, per-plan rate limits)
+  apiRouter.post(
+    "/ai/chat",
+    serverRateLimit("aiChat"),
+    requireRole("user"),
+    handleAIChat,
+  );
+  apiRouter.post(
+    "/ai/chat/stream",
+    serverRateLimit("aiChat"),
+    requireRole("user"),
+    handleAIChatStream,
+  );
+  apiRouter.post(
+    "/ai/image",
+    serverRateLimit("aiImage"),
+    requireRole("user"),
+    handleAIImage,
+  );
   apiRouter.get("/ai/config", handleGetAIConfigSettings);
-  apiRouter.put("/ai/config", serverRateLimit(60000, 5), handleUpdateAIConfig);
+  apiRouter.put(
+    "/ai/config",
+    serverRateLimit("aiConfig"),
+    requirePermission("ai_config.manage"),
+    handleUpdateAIConfig,
+  );
 
-  // Admin routes (require authentication + stricter rate limiting)
-  const adminRateLimit = serverRateLimit(60000, 10); // 10 requests per minute per user
+  // Conversations and messages (requires auth, banned users are refused)
+  const conversationRateLimit = serverRateLimit("conversations");
+  const requireUser = requireRole("user");
+  apiRouter.get(
+    "/conversations",
+    conversationRateLimit,
+    requireUser,
+    handleListConversations,
+  );
+  apiRouter.post(
+    "/conversations",
+    conversationRateLimit,
+    requireUser,
+    handleCreateConversation,
+  );
+  apiRouter.get(
+    "/conversations/:id",
+    conversationRateLimit,
+    requireUser,
+    handleGetConversation,
+  );
+  apiRouter.put(
+    "/conversations/:id",
+    conversationRateLimit,
+    requireUser,
+    handleRenameConversation,
+  );
+  apiRouter.delete(
+    "/conversations/:id",
+    conversationRateLimit,
+    requireUser,
+    handleDeleteConversation,
+  );
+  apiRouter.get(
+    "/conversations/:id/messages",
+    conversationRateLimit,
+    requireUser,
+    handleGetMessages,
+  );
+  apiRouter.post(
+    "/conversations/:id/branch",
+    conversationRateLimit,
+    requireUser,
+    handleSelectBranch,
+  );
+  apiRouter.get(
+    "/conversations/:id/summary",
+    conversationRateLimit,
+    requireUser,
+    handleGetContextSummary,
+  );
+  apiRouter.post(
+    "/conversations/:id/summary/regenerate",
+    serverRateLimit("aiChat"),
+    requireUser,
+    handleRegenerateContextSummary,
+  );
+  apiRouter.put(
+    "/conversations/:id/persona",
+    conversationRateLimit,
+    requireUser,
+    handleSetConversationPersona,
+  );
+  apiRouter.put(
+    "/conversations/:id/model",
+    conversationRateLimit,
+    requireUser,
+    handleSetConversationModel,
+  );
+
+  // Model catalog, with availability for the caller's plan
+  apiRouter.get(
+    "/models",
+    conversationRateLimit,
+    requireUser,
+    handleListModels,
+  );
+
+  // Attachments for the next message (text extracted for the prompt)
+  apiRouter.post(
+    "/attachments",
+    serverRateLimit("attachmentUpload"),
+    requireUser,
+    handleUploadAttachment,
+  );
+  apiRouter.delete(
+    "/attachments/:id",
+    conversationRateLimit,
+    requireUser,
+    handleDeleteAttachment,
+  );
+  apiRouter.get(
+    "/attachments/:id/file",
+    conversationRateLimit,
+    requireUser,
+    handleDownloadAttachment,
+  );
+
+  // Personas (instructions layered under the admin system prompt)
+  apiRouter.get(
+    "/personas",
+    conversationRateLimit,
+    requireUser,
+    handleListPersonas,
+  );
+  apiRouter.post(
+    "/personas",
+    conversationRateLimit,
+    requireUser,
+    handleCreatePersona,
+  );
+  apiRouter.put(
+    "/personas/:id",
+    conversationRateLimit,
+    requireUser,
+    handleUpdatePersona,
+  );
+  apiRouter.delete(
+    "/personas/:id",
+    conversationRateLimit,
+    requireUser,
+    handleDeletePersona,
+  );
+
+  // Admin panel routes (staff only, per-route permissions from
+  // shared/permissions.ts + stricter rate limiting)
+  const adminRateLimit = serverRateLimit("admin");
+  const requireStaff = requireRole("moderator");
 
   // User management
-  apiRouter.get("/admin/users", adminRateLimit, handleGetAllUsers);
-  apiRouter.post("/admin/promote-user", adminRateLimit, handlePromoteUser);
-  apiRouter.post("/admin/demote-user", adminRateLimit, handleDemoteUser);
-  apiRouter.post("/admin/ban-user", adminRateLimit, handleBanUser);
-  apiRouter.post("/admin/unban-user", adminRateLimit, handleUnbanUser);
-  apiRouter.post("/admin/reset-messages", adminRateLimit, handleResetMessages);
-  apiRouter.post("/admin/delete-user", adminRateLimit, handleDeleteUser);
+  apiRouter.get(
+    "/admin/users",
+    adminRateLimit,
+    requirePermission("users.read"),
+    handleGetAllUsers,
+  );
+  apiRouter.post(
+    "/admin/promote-user",
+    adminRateLimit,
+    requirePermission("users.manage_roles"),
+    handlePromoteUser,
+  );
+  apiRouter.post(
+    "/admin/demote-user",
+    adminRateLimit,
+    requirePermission("users.manage_roles"),
+    handleDemoteUser,
+  );
+  apiRouter.post(
+    "/admin/ban-user",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleBanUser,
+  );
+  apiRouter.post(
+    "/admin/unban-user",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleUnbanUser,
+  );
+  apiRouter.get(
+    "/admin/bans",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetSanctions,
+  );
+  apiRouter.post(
+    "/admin/bans",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleIssueSanction,
+  );
+  apiRouter.post(
+    "/admin/bans/:id/lift",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleLiftSanction,
+  );
+  apiRouter.get(
+    "/admin/ip-bans",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetIpBans,
+  );
+  apiRouter.post(
+    "/admin/ip-bans",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleBanIp,
+  );
+  apiRouter.post(
+    "/admin/ip-bans/:id/lift",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleLiftIpBan,
+  );
+  apiRouter.get(
+    "/admin/users/:userId/linked-accounts",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetLinkedAccounts,
+  );
+  apiRouter.post(
+    "/admin/users/:userId/linked-accounts/ban",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleBanAccountCluster,
+  );
+  apiRouter.get(
+    "/admin/account-clusters",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetAccountClusters,
+  );
+  apiRouter.get(
+    "/admin/appeals",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetAppeals,
+  );
+  apiRouter.post(
+    "/admin/bans/:id/appeal/decide",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleDecideAppeal,
+  );
+  apiRouter.get(
+    "/admin/registration-attempts",
+    adminRateLimit,
+    requirePermission("users.moderate"),
+    handleGetRegistrationAttempts,
+  );
+  apiRouter.get(
+    "/admin/ip-ranges",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleGetIpRanges,
+  );
+  apiRouter.post(
+    "/admin/ip-ranges",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleAddIpRange,
+  );
+  apiRouter.post(
+    "/admin/ip-ranges/:id/remove",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleRemoveIpRange,
+  );
+  apiRouter.post(
+    "/admin/reset-messages",
+    adminRateLimit,
+    requirePermission("users.reset_usage"),
+    handleResetMessages,
+  );
+  apiRouter.post(
+    "/admin/delete-user",
+    adminRateLimit,
+    requirePermission("users.delete"),
+    handleDeleteUser,
+  );
 
   // License management
-  apiRouter.get("/admin/licenses", adminRateLimit, handleGetLicenses);
-  apiRouter.post("/admin/create-license", adminRateLimit, handleCreateLicense);
-  apiRouter.post("/admin/purge-licenses", adminRateLimit, handlePurgeLicenses);
+  apiRouter.get(
+    "/admin/licenses",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleGetLicenses,
+  );
+  apiRouter.post(
+    "/admin/create-license",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleCreateLicense,
+  );
+  apiRouter.post(
+    "/admin/purge-licenses",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handlePurgeLicenses,
+  );
+  apiRouter.post(
+    "/admin/licenses/:key/revoke",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleRevokeLicense,
+  );
+  apiRouter.post(
+    "/admin/licenses/:key/extend",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleExtendLicense,
+  );
+  apiRouter.post(
+    "/admin/licenses/:key/transfer",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleTransferLicense,
+  );
+  apiRouter.get(
+    "/admin/license-batches",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleGetLicenseBatches,
+  );
+  apiRouter.post(
+    "/admin/license-batches",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleCreateLicenseBatch,
+  );
+  apiRouter.get(
+    "/admin/license-batches/:id/export",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleExportLicenseBatch,
+  );
+  apiRouter.post(
+    "/admin/license-batches/:id/revoke",
+    adminRateLimit,
+    requirePermission("licenses.manage"),
+    handleRevokeLicenseBatch,
+  );
+
+  // Data migrations
+  apiRouter.post(
+    "/admin/migrate-messages",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleMigrateMessages,
+  );
+
+  // Daily resets and license expiry (also run by server/lib/scheduler.ts)
+  apiRouter.post(
+    "/admin/run-maintenance",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleRunMaintenance,
+  );
+  apiRouter.get(
+    "/admin/maintenance-runs",
+    adminRateLimit,
+    requirePermission("system.manage"),
+    handleGetMaintenanceRuns,
+  );
+
+  // Append-only admin audit trail (no update or delete routes on purpose)
+  apiRouter.get(
+    "/admin/audit",
+    adminRateLimit,
+    requirePermission("audit.read"),
+    handleGetAuditLog,
+  );
 
   // AI configuration
-  apiRouter.get("/admin/ai-config", adminRateLimit, handleGetAIConfig);
-  apiRouter.put("/admin/ai-config", adminRateLimit, handleUpdateAIConfig);
+  apiRouter.get(
+    "/admin/ai-config",
+    adminRateLimit,
+    requirePermission("ai_config.manage"),
+    handleGetAIConfig,
+  );
+  apiRouter.put(
+    "/admin/ai-config",
+    adminRateLimit,
+    requirePermission("ai_config.manage"),
+    handleUpdateAIConfig,
+  );
+
+  // Content policy applied to chat messages and image prompts
+  apiRouter.get(
+    "/admin/content-policy",
+    adminRateLimit,
+    requirePermission("content_policy.manage"),
+    handleGetContentPolicy,
+  );
+  apiRouter.put(
+    "/admin/content-policy",
+    adminRateLimit,
+    requirePermission("content_policy.manage"),
+    handleUpdateContentPolicy,
+  );
+  apiRouter.post(
+    "/admin/content-policy/test",
+    adminRateLimit,
+    requirePermission("content_policy.manage"),
+    handleTestContentPolicy,
+  );
 
   // System stats
-  apiRouter.get("/admin/system-stats", adminRateLimit, handleGetSystemStats);
+  apiRouter.get(
+    "/admin/system-stats",
+    adminRateLimit,
+    requirePermission("reports.read"),
+    handleGetSystemStats,
+  );
 
   // Verification
-  apiRouter.post("/admin/verify", adminRateLimit, handleVerifyAdmin);
+  apiRouter.post(
+    "/admin/verify",
+    adminRateLimit,
+    requireStaff,
+    handleVerifyAdmin,
+  );
 
   // Mount API router
   app.use("/api", apiRouter);
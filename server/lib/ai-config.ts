@@ -0,0 +1,49 @@
+import { Firestore } from "firebase-admin/firestore";
+
+/**
+ * Chat settings saved by admins in `settings/ai_config`, read on every chat
+ * request. The system prompt is never sent to clients.
+ */
+
+export interface ChatSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
+}
+
+export const DEFAULT_SYSTEM_PROMPT =
+  "Tu es un assistant utile et amical. Réponds toujours en français.";
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: "x-ai/grok-4.1-fast:free",
+  temperature: 0.7,
+  maxTokens: 2048,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+};
+
+// Edits show up within this delay on the other instances
+const CACHE_TTL_MS = 30 * 1000;
+
+let cache: { settings: ChatSettings; loadedAt: number } | null = null;
+
+export async function getChatSettings(db: Firestore): Promise<ChatSettings> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.settings;
+  }
+
+  const data = (await db.collection("settings").doc("ai_config").get()).data();
+  const settings: ChatSettings = {
+    model: data?.model || DEFAULT_CHAT_SETTINGS.model,
+    temperature: data?.temperature ?? DEFAULT_CHAT_SETTINGS.temperature,
+    maxTokens: data?.maxTokens || DEFAULT_CHAT_SETTINGS.maxTokens,
+    systemPrompt: data?.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+  };
+  cache = { settings, loadedAt: Date.now() };
+  return settings;
+}
+
+// Called after `settings/ai_config` is written on this instance
+export function clearChatSettingsCache() {
+  cache = null;
+}
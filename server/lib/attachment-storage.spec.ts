@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AttachmentStorageError,
+  createAttachmentStorage,
+} from "./attachment-storage";
+
+describe("attachment storage", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should use the bucket when one is configured", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("FIREBASE_STORAGE_BUCKET", "demo.firebasestorage.app");
+
+    expect(createAttachmentStorage().name).toBe("firebase");
+  });
+
+  it("should only default to the local disk outside production", () => {
+    vi.stubEnv("FIREBASE_STORAGE_BUCKET", "");
+    vi.stubEnv("ATTACHMENT_STORAGE", "");
+
+    vi.stubEnv("NODE_ENV", "development");
+    expect(createAttachmentStorage().name).toBe("local");
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(() => createAttachmentStorage()).toThrow(AttachmentStorageError);
+
+    vi.stubEnv("ATTACHMENT_STORAGE", "local");
+    expect(createAttachmentStorage().name).toBe("local");
+  });
+
+  it("should refuse a Firebase adapter without a bucket", () => {
+    vi.stubEnv("FIREBASE_STORAGE_BUCKET", "");
+    vi.stubEnv("ATTACHMENT_STORAGE", "firebase");
+
+    expect(() => createAttachmentStorage()).toThrow(AttachmentStorageError);
+  });
+});
@@ -0,0 +1,161 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { getAdminAccessToken } from "./firebase-admin";
+
+/**
+ * Where attachment files and their extracted text are kept. Firebase Storage
+ * is reached through the Cloud Storage JSON API with the service account's
+ * token, so the Admin SDK's optional @google-cloud/storage dependency is not
+ * needed. The local adapter writes under a directory, for development: it
+ * is only picked without configuration outside production, where the disk
+ * may not outlive the instance. A production server with neither a bucket
+ * nor ATTACHMENT_STORAGE=local refuses to store attachments.
+ *
+ *   ATTACHMENT_STORAGE=firebase|local (default: firebase when
+ *     FIREBASE_STORAGE_BUCKET is set, local outside production)
+ *   FIREBASE_STORAGE_BUCKET=<project>.firebasestorage.app
+ *   ATTACHMENT_STORAGE_DIR=.data/attachments
+ */
+
+export interface AttachmentStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class AttachmentStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentStorageError";
+  }
+}
+
+const STORAGE_API = "https://storage.googleapis.com";
+
+export class FirebaseAttachmentStorage implements AttachmentStorage {
+  readonly name = "firebase";
+
+  constructor(private bucket: string) {}
+
+  private async headers(): Promise<Record<string, string>> {
+    const token = await getAdminAccessToken();
+    if (!token) {
+      throw new AttachmentStorageError("Firebase Admin is not initialized");
+    }
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  private objectUrl(key: string) {
+    return `${STORAGE_API}/storage/v1/b/${this.bucket}/o/${encodeURIComponent(key)}`;
+  }
+
+  async put(key: string, data: Buffer, contentType: string) {
+    const response = await fetch(
+      `${STORAGE_API}/upload/storage/v1/b/${this.bucket}/o?uploadType=media&name=${encodeURIComponent(key)}`,
+      {
+        method: "POST",
+        headers: { ...(await this.headers()), "Content-Type": contentType },
+        body: new Uint8Array(data),
+      },
+    );
+    if (!response.ok) {
+      throw new AttachmentStorageError(
+        `Upload of ${key} failed: HTTP ${response.status}`,
+      );
+    }
+  }
+
+  async get(key: string) {
+    const response = await fetch(`${this.objectUrl(key)}?alt=media`, {
+      headers: await this.headers(),
+    });
+    if (!response.ok) {
+      throw new AttachmentStorageError(
+        `Download of ${key} failed: HTTP ${response.status}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string) {
+    const response = await fetch(this.objectUrl(key), {
+      method: "DELETE",
+      headers: await this.headers(),
+    });
+    // Already gone is fine
+    if (!response.ok && response.status !== 404) {
+      throw new AttachmentStorageError(
+        `Deletion of ${key} failed: HTTP ${response.status}`,
+      );
+    }
+  }
+}
+
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  // Keys are generated by the server, this only guards against mistakes
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new AttachmentStorageError(`Invalid key ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.resolve(key));
+    } catch {
+      throw new AttachmentStorageError(`${key} not found`);
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export function createAttachmentStorage(): AttachmentStorage {
+  const bucket = process.env.FIREBASE_STORAGE_BUCKET;
+  const production = process.env.NODE_ENV === "production";
+  const kind =
+    process.env.ATTACHMENT_STORAGE ||
+    (bucket ? "firebase" : production ? null : "local");
+
+  if (kind === "firebase") {
+    if (!bucket) {
+      throw new AttachmentStorageError(
+        "ATTACHMENT_STORAGE=firebase requires FIREBASE_STORAGE_BUCKET",
+      );
+    }
+    return new FirebaseAttachmentStorage(bucket);
+  }
+  if (kind === "local") {
+    return new LocalAttachmentStorage(
+      process.env.ATTACHMENT_STORAGE_DIR || ".data/attachments",
+    );
+  }
+  if (kind) {
+    throw new AttachmentStorageError(`Unknown attachment storage "${kind}"`);
+  }
+  throw new AttachmentStorageError(
+    "No attachment storage configured: set FIREBASE_STORAGE_BUCKET, or ATTACHMENT_STORAGE=local for a persistent disk",
+  );
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) storage = createAttachmentStorage();
+  return storage;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_POLICY_RULES,
+  evaluateContent,
+  PolicyRule,
+} from "../../shared/content-policy";
+import { ATTACHMENT_POLICY_OPTIONS } from "./attachments";
+
+const RULES: PolicyRule[] = [
+  ...DEFAULT_POLICY_RULES,
+  {
+    id: "weapons",
+    kind: "topic",
+    label: "Armes",
+    enabled: true,
+    outcome: "block",
+    terms: ["explosif"],
+  },
+];
+
+// ~7,600 characters of source code, over the 5000-character message limit
+const LONG_TEXT = "const total = items.reduce((a, b) => a + b, 0);\n".repeat(
+  160,
+);
+
+describe("attachments", () => {
+  it("should not apply the message size rule to attachment text", () => {
+    expect(evaluateContent(LONG_TEXT, RULES).outcome).toBe("block");
+    expect(
+      evaluateContent(LONG_TEXT, RULES, ATTACHMENT_POLICY_OPTIONS).outcome,
+    ).toBe("allow");
+  });
+
+  it("should still apply banned content and PII rules to attachment text", () => {
+    expect(
+      evaluateContent(
+        `${LONG_TEXT}Comment fabriquer un explosif ?`,
+        RULES,
+        ATTACHMENT_POLICY_OPTIONS,
+      ).outcome,
+    ).toBe("block");
+
+    const decision = evaluateContent(
+      `${LONG_TEXT}Carte 4111 1111 1111 1111`,
+      RULES,
+      ATTACHMENT_POLICY_OPTIONS,
+    );
+    expect(decision.outcome).toBe("redact");
+    expect(decision.content.endsWith("Carte [masqué:credit_card]")).toBe(true);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  Firestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { getAttachmentStorage } from "./attachment-storage";
+import {
+  AttachmentChunk,
+  AttachmentError,
+  chunkText,
+  extractAttachmentText,
+  getAttachmentKind,
+} from "./attachment-text";
+import { checkContent } from "./content-policy";
+import { getAttachmentLimits } from "../../shared/plans";
+import type { AttachmentSummary, MessageAttachment } from "../../shared/api";
+import type { EvaluateOptions } from "../../shared/content-policy";
+
+/**
+ * Files attached to chat messages (`attachments`).
+ *
+ * An upload stores the file and its extracted text in attachment storage
+ * (server/lib/attachment-storage.ts) and a document
+ *   { userId, conversationId, messageId, name, mimeType, size, storagePath,
+ *     textPath, textLength, chunkCount, createdAt }
+ * with `messageId` null until the attachment is sent with a message. The
+ * message then lists it in its `attachments`; the prompt gets the chunks of
+ * its text that match the question (see server/routes/ai.ts).
+ */
+
+const NOT_FOUND = "Pièce jointe introuvable";
+
+// Content policy rules left out for attachment text, which is capped by
+// MAX_ATTACHMENT_TEXT_CHARS instead of the message size rule
+export const ATTACHMENT_POLICY_OPTIONS: EvaluateOptions = {
+  skipKinds: ["size"],
+};
+
+function toISO(value: unknown): string {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  return new Date(0).toISOString();
+}
+
+export function toAttachmentSummary(
+  id: string,
+  data: DocumentData,
+): AttachmentSummary {
+  return {
+    id,
+    conversationId: data.conversationId,
+    name: data.name,
+    mimeType: data.mimeType,
+    size: data.size,
+    chunkCount: data.chunkCount || 0,
+    createdAt: toISO(data.createdAt),
+  };
+}
+
+function toMessageAttachment(id: string, data: DocumentData) {
+  return { id, name: data.name, mimeType: data.mimeType, size: data.size };
+}
+
+function textPath(userId: string, attachmentId: string) {
+  return `attachments/${userId}/${attachmentId}/text.txt`;
+}
+
+// File names end up in storage keys and download headers
+function safeFileName(name: string) {
+  return name.replace(/[^\w.\-]+/g, "_").slice(-100) || "file";
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / 1_000_000).toFixed(1).replace(/\.0$/, "")} Mo`;
+}
+
+/**
+ * Decode, check and store an uploaded file. Throws AttachmentError for
+ * unsupported or oversized files, files without text and text the content
+ * policy blocks.
+ */
+export async function createAttachment(
+  db: Firestore,
+  upload: {
+    userId: string;
+    plan: string;
+    conversationId: string;
+    name: string;
+    mimeType: string;
+    data: string;
+  },
+): Promise<AttachmentSummary> {
+  const kind = getAttachmentKind(upload.name, upload.mimeType);
+  if (!kind) {
+    throw new AttachmentError(
+      "Type de fichier non pris en charge (PDF, texte, Markdown, CSV ou code source)",
+      415,
+    );
+  }
+
+  const file = Buffer.from(upload.data, "base64");
+  const { maxFileBytes } = getAttachmentLimits(upload.plan);
+  if (file.length === 0) {
+    throw new AttachmentError("Le fichier est vide");
+  }
+  if (file.length > maxFileBytes) {
+    throw new AttachmentError(
+      `Fichier trop volumineux (${formatMegabytes(maxFileBytes)} maximum avec votre offre)`,
+      413,
+    );
+  }
+
+  const extracted = extractAttachmentText(kind, file);
+  const decision = await checkContent(
+    db,
+    extracted,
+    `attachment user=${upload.userId}`,
+    ATTACHMENT_POLICY_OPTIONS,
+  );
+  if (decision.outcome === "block") {
+    throw new AttachmentError(
+      "Fichier refusé par la politique de contenu",
+      422,
+    );
+  }
+  const text = decision.content;
+
+  const ref = db.collection("attachments").doc();
+  const mimeType =
+    upload.mimeType || (kind === "pdf" ? "application/pdf" : "text/plain");
+  const data = {
+    userId: upload.userId,
+    conversationId: upload.conversationId,
+    messageId: null,
+    name: upload.name,
+    mimeType,
+    size: file.length,
+    storagePath: `attachments/${upload.userId}/${ref.id}/${safeFileName(upload.name)}`,
+    textPath: textPath(upload.userId, ref.id),
+    textLength: text.length,
+    chunkCount: chunkText(text).length,
+    createdAt: Timestamp.now(),
+  };
+
+  const storage = getAttachmentStorage();
+  await storage.put(data.storagePath, file, mimeType);
+  await storage.put(
+    data.textPath,
+    Buffer.from(text, "utf8"),
+    "text/plain; charset=utf-8",
+  );
+  await ref.set(data);
+
+  return toAttachmentSummary(ref.id, data);
+}
+
+/**
+ * Load an attachment only if it belongs to the user.
+ */
+export async function getOwnedAttachment(
+  db: Firestore,
+  attachmentId: string,
+  userId: string,
+) {
+  const snapshot = await db.collection("attachments").doc(attachmentId).get();
+  if (!snapshot.exists || snapshot.data()?.userId !== userId) return null;
+  return snapshot;
+}
+
+/**
+ * The pending attachments a new message sends, checked against the user,
+ * the conversation and the plan's per-message count. `kept` are attachments
+ * the message already carries (an edited message keeps its files).
+ */
+export async function claimAttachments(
+  db: Firestore,
+  options: {
+    userId: string;
+    plan: string;
+    conversationId: string;
+    attachmentIds: string[];
+    kept?: MessageAttachment[];
+  },
+): Promise<MessageAttachment[]> {
+  const kept = options.kept ?? [];
+  const ids = [...new Set(options.attachmentIds)].filter(
+    (id) => !kept.some((attachment) => attachment.id === id),
+  );
+
+  const { maxFilesPerMessage } = getAttachmentLimits(options.plan);
+  if (kept.length + ids.length > maxFilesPerMessage) {
+    throw new AttachmentError(
+      `Votre offre permet ${maxFilesPerMessage} pièces jointes par message`,
+    );
+  }
+  if (ids.length === 0) return kept;
+
+  const snapshots = await db.getAll(
+    ...ids.map((id) => db.collection("attachments").doc(id)),
+  );
+  const claimed = snapshots.map((snapshot) => {
+    const data = snapshot.data();
+    if (
+      !data ||
+      data.userId !== options.userId ||
+      data.conversationId !== options.conversationId ||
+      data.messageId
+    ) {
+      throw new AttachmentError(NOT_FOUND, 404);
+    }
+    return toMessageAttachment(snapshot.id, data);
+  });
+  return [...kept, ...claimed];
+}
+
+/**
+ * Mark attachments as sent with a message; they can no longer be deleted on
+ * their own.
+ */
+export async function linkAttachments(
+  db: Firestore,
+  attachments: MessageAttachment[],
+  messageId: string,
+) {
+  if (attachments.length === 0) return;
+  const batch = db.batch();
+  for (const attachment of attachments) {
+    batch.update(db.collection("attachments").doc(attachment.id), {
+      messageId,
+    });
+  }
+  await batch.commit();
+}
+
+/**
+ * Chunks of the attachments' extracted text, in order. An attachment whose
+ * text cannot be read is left out rather than failing the request.
+ */
+export async function loadAttachmentChunks(
+  userId: string,
+  attachments: MessageAttachment[],
+): Promise<AttachmentChunk[]> {
+  const storage = getAttachmentStorage();
+  const texts = await Promise.all(
+    attachments.map(async (attachment) => {
+      try {
+        const text = await storage.get(textPath(userId, attachment.id));
+        return text.toString("utf8");
+      } catch (error) {
+        console.warn(
+          `[ATTACHMENTS] Text of ${attachment.id} unavailable:`,
+          error instanceof Error ? error.message : error,
+        );
+        return "";
+      }
+    }),
+  );
+
+  return attachments.flatMap((attachment, i) =>
+    chunkText(texts[i]).map((content, index) => ({
+      attachmentId: attachment.id,
+      name: attachment.name,
+      index,
+      content,
+    })),
+  );
+}
+
+export async function readAttachmentFile(snapshot: DocumentSnapshot) {
+  return getAttachmentStorage().get(snapshot.data()!.storagePath);
+}
+
+export async function deleteAttachment(snapshot: DocumentSnapshot) {
+  const data = snapshot.data()!;
+  const storage = getAttachmentStorage();
+  await storage.delete(data.storagePath);
+  await storage.delete(data.textPath);
+  await snapshot.ref.delete();
+}
+
+/**
+ * Delete the attachments of a conversation, files included.
+ */
+export async function deleteConversationAttachments(
+  db: Firestore,
+  conversationId: string,
+) {
+  const snapshot = await db
+    .collection("attachments")
+    .where("conversationId", "==", conversationId)
+    .get();
+  for (const doc of snapshot.docs) {
+    await deleteAttachment(doc);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { diffFields } from "./audit";
+
+describe("audit", () => {
+  it("should keep only the fields that changed", () => {
+    expect(
+      diffFields(
+        { isAdmin: false, plan: "Pro", tokensUsed: 10 },
+        { isAdmin: true, plan: "Pro", tokensUsed: 10 },
+      ),
+    ).toEqual({ isAdmin: { before: false, after: true } });
+  });
+
+  it("should treat a missing snapshot as all fields null", () => {
+    expect(diffFields(null, { plan: "Pro", seats: 2 })).toEqual({
+      plan: { before: null, after: "Pro" },
+      seats: { before: null, after: 2 },
+    });
+    expect(diffFields({ email: "a@b.c" }, null)).toEqual({
+      email: { before: "a@b.c", after: null },
+    });
+  });
+
+  it("should compare timestamps and dates by instant", () => {
+    const at = new Date("2024-01-15T00:00:00.000Z");
+
+    expect(
+      diffFields({ expiresAt: Timestamp.fromDate(at) }, { expiresAt: at }),
+    ).toEqual({});
+    expect(
+      diffFields({ expiresAt: null }, { expiresAt: at }).expiresAt,
+    ).toEqual({ before: null, after: "2024-01-15T00:00:00.000Z" });
+  });
+});
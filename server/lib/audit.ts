@@ -0,0 +1,159 @@
+import { Request } from "express";
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "./firebase-admin";
+import type { AdminAuditEntry, AuditChange } from "../../shared/api";
+
+/**
+ * Append-only trail of admin mutations in `admin_audit`.
+ *
+ * Entries are only ever created here: no route updates or deletes them and
+ * the Firestore rules deny client access, so the collection can only grow.
+ * Only the fields that changed are stored, as before/after pairs.
+ */
+
+export interface AuditTarget {
+  type:
+    | "user"
+    | "license"
+    | "license_batch"
+    | "settings"
+    | "system"
+    | "ip_range"
+    | "ip_ban";
+  id: string;
+}
+
+export interface AuditRecordInput {
+  action: string;
+  actorId: string;
+  target: AuditTarget;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actorId?: string;
+  targetId?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+  before?: string;
+}
+
+// Timestamps and dates compare (and are stored) as ISO strings
+function normalize(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [key, normalize(inner)]),
+    );
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * Top-level fields whose value differs between the two snapshots. A missing
+ * snapshot (creation, deletion) counts as all fields null.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  for (const key of keys) {
+    const from = normalize(before?.[key]);
+    const to = normalize(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+function toAuditEntry(id: string, data: Record<string, any>): AdminAuditEntry {
+  return {
+    id,
+    action: data.action,
+    actorId: data.actorId,
+    targetType: data.targetType,
+    targetId: data.targetId,
+    changes: data.changes || {},
+    metadata: data.metadata || {},
+    ip: data.ip ?? null,
+    requestId: data.requestId ?? null,
+    createdAt: data.createdAt?.toDate?.().toISOString() ?? "",
+  };
+}
+
+export class AuditService {
+  /**
+   * Record an admin mutation. Called after the mutation succeeded; a failed
+   * write is logged but does not fail the request that was already applied.
+   */
+  static async record(req: Request, input: AuditRecordInput): Promise<void> {
+    try {
+      await getAdminDb()
+        .collection("admin_audit")
+        .add({
+          action: input.action,
+          actorId: input.actorId,
+          targetType: input.target.type,
+          targetId: input.target.id,
+          changes: diffFields(input.before, input.after),
+          metadata: normalize(input.metadata || {}),
+          ip: req.ip ?? null,
+          requestId: (req as any).requestId ?? null,
+          createdAt: Timestamp.now(),
+        });
+    } catch (error) {
+      console.error(
+        `[AUDIT] Failed to record ${input.action} by ${input.actorId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Newest entries first. Each equality filter combined with the date order
+   * needs its composite index (firestore.indexes.json).
+   */
+  static async list(
+    db: Firestore,
+    query: AuditQuery,
+  ): Promise<{ entries: AdminAuditEntry[]; nextCursor: string | null }> {
+    let ref = db
+      .collection("admin_audit")
+      .orderBy("createdAt", "desc")
+      .limit(query.limit + 1);
+
+    if (query.action) ref = ref.where("action", "==", query.action);
+    if (query.actorId) ref = ref.where("actorId", "==", query.actorId);
+    if (query.targetId) ref = ref.where("targetId", "==", query.targetId);
+    if (query.since) {
+      ref = ref.where("createdAt", ">=", Timestamp.fromDate(query.since));
+    }
+    if (query.until) {
+      ref = ref.where("createdAt", "<=", Timestamp.fromDate(query.until));
+    }
+    if (query.before) {
+      const cursor = await db.collection("admin_audit").doc(query.before).get();
+      if (cursor.exists) ref = ref.startAfter(cursor);
+    }
+
+    const snapshot = await ref.get();
+    const docs = snapshot.docs.slice(0, query.limit);
+    return {
+      entries: docs.map((doc) => toAuditEntry(doc.id, doc.data())),
+      nextCursor: snapshot.size > query.limit ? docs[docs.length - 1].id : null,
+    };
+  }
+}
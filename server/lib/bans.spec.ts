@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { toIpBanSummary } from "./bans";
+
+const NOW = Date.UTC(2024, 0, 1);
+
+describe("bans", () => {
+  it("should summarize range bans in canonical form", () => {
+    const summary = toIpBanSummary(
+      "ban1",
+      {
+        cidr: "2001:db8:0:1::/64",
+        status: "active",
+        reason: "Spam",
+        isPermanent: false,
+        expiresAt: Timestamp.fromMillis(NOW + 60_000),
+      },
+      NOW,
+    );
+    expect(summary).toMatchObject({
+      cidr: "2001:db8:0:1::/64",
+      status: "active",
+      isPermanent: false,
+    });
+  });
+
+  it("should read legacy single-address bans", () => {
+    const summary = toIpBanSummary(
+      "ban2",
+      {
+        ipAddress: "203.0.113.7",
+        reason: "Spam",
+        bannedAt: Timestamp.fromMillis(NOW - 120_000),
+        expiresAt: Timestamp.fromMillis(NOW - 60_000),
+      },
+      NOW,
+    );
+    expect(summary.cidr).toBe("203.0.113.7/32");
+    expect(summary.status).toBe("expired");
+    expect(summary.createdAt).toBe(new Date(NOW - 120_000).toISOString());
+  });
+});
@@ -0,0 +1,582 @@
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import {
+  AppealDecision,
+  canAppeal,
+  longestExpiry,
+  readSanction,
+  reducedExpiry,
+  SanctionType,
+  sanctionExpiry,
+} from "../../shared/bans";
+import { formatCidr, parseCidr, parseIp, cidrContains } from "./cidr";
+import type { IpBanSummary, SanctionSummary } from "../../shared/api";
+
+/**
+ * Bans and warnings, issued and lifted only through the server (model in
+ * shared/bans.ts). `ip_bans` documents follow the same model, without the
+ * user mirror, and cover a single address or a CIDR range ("cidr").
+ */
+
+export class BanError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BanError";
+    this.status = status;
+  }
+}
+
+export interface IssueSanctionOptions {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  // Omitted for permanent sanctions
+  durationMinutes?: number;
+  issuedBy: string;
+}
+
+export interface DecideAppealOptions {
+  decision: AppealDecision;
+  response?: string;
+  // New ban duration from now, required to reduce
+  durationMinutes?: number;
+  decidedBy: string;
+}
+
+export interface IssueIpBanOptions {
+  // Single address or CIDR range, IPv4 or IPv6
+  target: string;
+  reason: string;
+  durationMinutes?: number;
+  issuedBy: string;
+}
+
+export interface ActiveIpBan {
+  id: string;
+  cidr: string;
+  reason: string;
+  expiresAt: number | null;
+}
+
+// Wider ranges would sweep up whole providers along with the abuser
+const MIN_IP_BAN_PREFIX = { 4: 16, 6: 32 } as const;
+
+// IP bans are checked on every login and registration, new bans reach the
+// other instances within this delay
+const IP_BANS_CACHE_TTL_MS = 30 * 1000;
+
+let ipBansCache: {
+  docs: { id: string; data: Record<string, any> }[];
+  loadedAt: number;
+} | null = null;
+
+function isoOrNull(value: any): string | null {
+  return value?.toDate?.().toISOString() ?? null;
+}
+
+// Bans issued before ranges were supported only have `ipAddress`
+function ipBanCidr(data: Record<string, any>): string | null {
+  const range = parseCidr(data.cidr ?? data.ipAddress ?? "");
+  return range ? formatCidr(range) : null;
+}
+
+export function toIpBanSummary(
+  id: string,
+  data: Record<string, any>,
+  now: number = Date.now(),
+): IpBanSummary {
+  const state = readSanction(data, now);
+  return {
+    id,
+    cidr: ipBanCidr(data) ?? String(data.cidr ?? data.ipAddress ?? ""),
+    status: state.status,
+    reason: data.reason || "",
+    isPermanent: state.expiresAt === null,
+    expiresAt:
+      state.expiresAt === null ? null : new Date(state.expiresAt).toISOString(),
+    issuedBy: data.issuedBy ?? null,
+    createdAt: isoOrNull(data.createdAt ?? data.bannedAt),
+    liftedAt: isoOrNull(data.liftedAt),
+    liftedBy: data.liftedBy ?? null,
+  };
+}
+
+export function toSanctionSummary(
+  id: string,
+  data: Record<string, any>,
+  now: number = Date.now(),
+): SanctionSummary {
+  const state = readSanction(data, now);
+  return {
+    id,
+    userId: data.userId,
+    email: data.email || "",
+    type: state.type,
+    status: state.status,
+    reason: data.reason || "",
+    isPermanent: state.expiresAt === null,
+    expiresAt:
+      state.expiresAt === null ? null : new Date(state.expiresAt).toISOString(),
+    issuedBy: data.issuedBy ?? null,
+    createdAt: isoOrNull(data.createdAt ?? data.bannedAt),
+    liftedAt: isoOrNull(data.liftedAt),
+    liftedBy: data.liftedBy ?? null,
+    appealStatus: state.appealStatus,
+    appeal: data.appeal
+      ? {
+          message: data.appeal.message || "",
+          submittedAt: isoOrNull(data.appeal.submittedAt),
+          decidedAt: isoOrNull(data.appeal.decidedAt),
+          decidedBy: data.appeal.decidedBy ?? null,
+          response: data.appeal.response ?? null,
+        }
+      : null,
+  };
+}
+
+export class BanService {
+  /**
+   * Re-derive the user's ban mirror from their active bans, keeping the one
+   * that lasts longest.
+   */
+  static async syncUser(db: Firestore, userId: string): Promise<void> {
+    const userRef = db.collection("users").doc(userId);
+    if (!(await userRef.get()).exists) return;
+
+    const now = Date.now();
+    const snapshot = await db
+      .collection("bans")
+      .where("userId", "==", userId)
+      .where("type", "==", "ban")
+      .where("status", "==", "active")
+      .get();
+    const active = snapshot.docs
+      .map((doc) => readSanction(doc.data(), now))
+      .filter((ban) => ban.status === "active");
+
+    if (active.length === 0) {
+      await userRef.update({
+        isBanned: false,
+        banned: false,
+        banExpiresAt: null,
+      });
+      return;
+    }
+
+    const expiresAt = active
+      .map((ban) => ban.expiresAt)
+      .reduce((longest, expiry) => longestExpiry(longest, expiry));
+    await userRef.update({
+      isBanned: true,
+      banned: false,
+      banExpiresAt: expiresAt === null ? null : Timestamp.fromMillis(expiresAt),
+    });
+  }
+
+  static async issue(
+    db: Firestore,
+    options: IssueSanctionOptions,
+  ): Promise<SanctionSummary> {
+    const userSnap = await db.collection("users").doc(options.userId).get();
+    if (!userSnap.exists) throw new BanError("User not found", 404);
+
+    const now = Date.now();
+    const expiresAt = sanctionExpiry(options.durationMinutes, now);
+    const data = {
+      userId: options.userId,
+      email: userSnap.data()?.email || "",
+      type: options.type,
+      status: "active",
+      reason: options.reason,
+      isPermanent: expiresAt === null,
+      expiresAt: expiresAt === null ? null : Timestamp.fromMillis(expiresAt),
+      issuedBy: options.issuedBy,
+      createdAt: Timestamp.fromMillis(now),
+      appealStatus: "none",
+    };
+    const ref = await db.collection("bans").add(data);
+
+    if (options.type === "ban") await this.syncUser(db, options.userId);
+    return toSanctionSummary(ref.id, data, now);
+  }
+
+  static async lift(
+    db: Firestore,
+    sanctionId: string,
+    liftedBy: string,
+  ): Promise<SanctionSummary> {
+    const ref = db.collection("bans").doc(sanctionId);
+    const snap = await ref.get();
+    if (!snap.exists) throw new BanError("Sanction not found", 404);
+    if (readSanction(snap.data()!).status !== "active") {
+      throw new BanError("Sanction is no longer active", 409);
+    }
+
+    const update = {
+      status: "lifted",
+      liftedAt: Timestamp.now(),
+      liftedBy,
+    };
+    await ref.update(update);
+
+    const data: Record<string, any> = { ...snap.data(), ...update };
+    if (data.type !== "warn") await this.syncUser(db, data.userId);
+    return toSanctionSummary(snap.id, data);
+  }
+
+  /**
+   * Lift every active ban of a user, including legacy flags set before
+   * sanctions were recorded. Returns the lifted sanctions.
+   */
+  static async liftAllBans(
+    db: Firestore,
+    userId: string,
+    liftedBy: string,
+  ): Promise<SanctionSummary[]> {
+    const snapshot = await db
+      .collection("bans")
+      .where("userId", "==", userId)
+      .where("type", "==", "ban")
+      .where("status", "==", "active")
+      .get();
+
+    const lifted: SanctionSummary[] = [];
+    for (const doc of snapshot.docs) {
+      lifted.push(await this.lift(db, doc.id, liftedBy));
+    }
+    await this.syncUser(db, userId);
+    return lifted;
+  }
+
+  /**
+   * The sanction to show a user: their active ban, otherwise their latest
+   * active warning.
+   */
+  static async getActiveSanction(
+    db: Firestore,
+    userId: string,
+  ): Promise<SanctionSummary | null> {
+    const snapshot = await db
+      .collection("bans")
+      .where("userId", "==", userId)
+      .where("status", "==", "active")
+      .get();
+
+    const now = Date.now();
+    const active = snapshot.docs
+      .map((doc) => toSanctionSummary(doc.id, doc.data(), now))
+      .filter((sanction) => sanction.status === "active")
+      .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+
+    return active.find((s) => s.type === "ban") ?? active[0] ?? null;
+  }
+
+  static async list(
+    db: Firestore,
+    options: { type?: SanctionType; limit: number },
+  ): Promise<SanctionSummary[]> {
+    let query = db.collection("bans").orderBy("createdAt", "desc");
+    if (options.type) query = query.where("type", "==", options.type);
+
+    const snapshot = await query.limit(options.limit).get();
+    const now = Date.now();
+    return snapshot.docs.map((doc) =>
+      toSanctionSummary(doc.id, doc.data(), now),
+    );
+  }
+
+  /**
+   * Submit the user's one appeal against their ban. Only the banned user can
+   * appeal, once, while the ban is active.
+   */
+  static async submitAppeal(
+    db: Firestore,
+    banId: string,
+    userId: string,
+    message: string,
+  ): Promise<SanctionSummary> {
+    const ref = db.collection("bans").doc(banId);
+
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists || snap.data()!.userId !== userId) {
+        throw new BanError("Sanction introuvable", 404);
+      }
+      if (!canAppeal(readSanction(snap.data()!))) {
+        throw new BanError(
+          "Cette sanction ne peut plus faire l'objet d'un appel",
+          409,
+        );
+      }
+
+      const update = {
+        appealStatus: "pending",
+        appeal: {
+          message,
+          submittedAt: Timestamp.now(),
+          decidedAt: null,
+          decidedBy: null,
+          response: null,
+          acknowledgedAt: null,
+        },
+      };
+      tx.update(ref, update);
+      return toSanctionSummary(snap.id, { ...snap.data(), ...update });
+    });
+  }
+
+  // Pending appeals, oldest first
+  static async listPendingAppeals(
+    db: Firestore,
+    limit: number,
+  ): Promise<SanctionSummary[]> {
+    const snapshot = await db
+      .collection("bans")
+      .where("appealStatus", "==", "pending")
+      .orderBy("appeal.submittedAt", "asc")
+      .limit(limit)
+      .get();
+
+    const now = Date.now();
+    return snapshot.docs.map((doc) =>
+      toSanctionSummary(doc.id, doc.data(), now),
+    );
+  }
+
+  /**
+   * Record the decision on a pending appeal: uphold keeps the ban, reduce
+   * ends it sooner, lift ends it now. Decided appeals are locked.
+   */
+  static async decideAppeal(
+    db: Firestore,
+    banId: string,
+    options: DecideAppealOptions,
+  ): Promise<SanctionSummary> {
+    const ref = db.collection("bans").doc(banId);
+    const now = Date.now();
+
+    const sanction = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new BanError("Sanction not found", 404);
+
+      const data = snap.data()!;
+      const state = readSanction(data, now);
+      if (state.appealStatus !== "pending") {
+        throw new BanError("Appeal is not pending", 409);
+      }
+
+      const update: Record<string, any> = {
+        appealStatus: options.decision,
+        "appeal.decidedAt": Timestamp.fromMillis(now),
+        "appeal.decidedBy": options.decidedBy,
+        "appeal.response": options.response ?? null,
+      };
+
+      // An expired or lifted ban has nothing left to reduce or lift
+      if (state.status === "active" && options.decision === "lifted") {
+        update.status = "lifted";
+        update.liftedAt = Timestamp.fromMillis(now);
+        update.liftedBy = options.decidedBy;
+      } else if (state.status === "active" && options.decision === "reduced") {
+        const expiresAt = reducedExpiry(
+          state,
+          options.durationMinutes ?? 0,
+          now,
+        );
+        if (expiresAt === null) {
+          throw new BanError("Reduced duration must end the ban sooner");
+        }
+        update.expiresAt = Timestamp.fromMillis(expiresAt);
+        update.isPermanent = false;
+      }
+
+      tx.update(ref, update);
+      return toSanctionSummary(
+        snap.id,
+        {
+          ...data,
+          ...update,
+          appeal: {
+            ...data.appeal,
+            decidedAt: update["appeal.decidedAt"],
+            decidedBy: options.decidedBy,
+            response: update["appeal.response"],
+          },
+        },
+        now,
+      );
+    });
+
+    await this.syncUser(db, sanction.userId);
+    return sanction;
+  }
+
+  /**
+   * The user's latest appeal decision they have not acknowledged yet, so
+   * users whose ban was lifted on appeal are told about it too.
+   */
+  static async getUnseenAppealDecision(
+    db: Firestore,
+    userId: string,
+  ): Promise<SanctionSummary | null> {
+    const snapshot = await db
+      .collection("bans")
+      .where("userId", "==", userId)
+      .where("appealStatus", "in", ["upheld", "reduced", "lifted"])
+      .get();
+
+    const now = Date.now();
+    const unseen = snapshot.docs
+      .filter((doc) => !doc.data().appeal?.acknowledgedAt)
+      .map((doc) => toSanctionSummary(doc.id, doc.data(), now))
+      .sort((a, b) =>
+        (b.appeal?.decidedAt || "").localeCompare(a.appeal?.decidedAt || ""),
+      );
+    return unseen[0] ?? null;
+  }
+
+  static async acknowledgeAppeal(
+    db: Firestore,
+    banId: string,
+    userId: string,
+  ): Promise<void> {
+    const ref = db.collection("bans").doc(banId);
+    const snap = await ref.get();
+    if (!snap.exists || snap.data()!.userId !== userId) {
+      throw new BanError("Sanction introuvable", 404);
+    }
+    await ref.update({ "appeal.acknowledgedAt": Timestamp.now() });
+  }
+
+  static async issueIpBan(
+    db: Firestore,
+    options: IssueIpBanOptions,
+  ): Promise<IpBanSummary> {
+    const range = parseCidr(options.target);
+    if (!range) throw new BanError("Invalid IP address or CIDR range");
+    if (range.prefix < MIN_IP_BAN_PREFIX[range.version]) {
+      throw new BanError(
+        `IPv${range.version} range bans must be /${MIN_IP_BAN_PREFIX[range.version]} or narrower`,
+      );
+    }
+
+    const expiresAt = sanctionExpiry(options.durationMinutes);
+    const data = {
+      cidr: formatCidr(range),
+      version: range.version,
+      type: "ban",
+      status: "active",
+      reason: options.reason,
+      isPermanent: expiresAt === null,
+      expiresAt: expiresAt === null ? null : Timestamp.fromMillis(expiresAt),
+      issuedBy: options.issuedBy,
+      createdAt: Timestamp.now(),
+    };
+    const ref = await db.collection("ip_bans").add(data);
+    ipBansCache = null;
+    return toIpBanSummary(ref.id, data);
+  }
+
+  static async liftIpBan(
+    db: Firestore,
+    banId: string,
+    liftedBy: string,
+  ): Promise<IpBanSummary> {
+    const ref = db.collection("ip_bans").doc(banId);
+    const snap = await ref.get();
+    if (!snap.exists) throw new BanError("IP ban not found", 404);
+    if (readSanction(snap.data()!).status !== "active") {
+      throw new BanError("IP ban is no longer active", 409);
+    }
+
+    const update = {
+      status: "lifted",
+      liftedAt: Timestamp.now(),
+      liftedBy,
+    };
+    await ref.update(update);
+    ipBansCache = null;
+    return toIpBanSummary(snap.id, { ...snap.data(), ...update });
+  }
+
+  // Most recent first; bans issued before ranges were supported are left out
+  static async listIpBans(
+    db: Firestore,
+    options: { activeOnly: boolean; limit: number },
+  ): Promise<IpBanSummary[]> {
+    const snapshot = await db
+      .collection("ip_bans")
+      .orderBy("createdAt", "desc")
+      .limit(options.limit)
+      .get();
+
+    const now = Date.now();
+    const bans = snapshot.docs.map((doc) =>
+      toIpBanSummary(doc.id, doc.data(), now),
+    );
+    return options.activeOnly
+      ? bans.filter((ban) => ban.status === "active")
+      : bans;
+  }
+
+  /**
+   * The active ban covering an address, exact or by range. When several
+   * match, the one that lasts longest wins.
+   */
+  static async getActiveIpBan(
+    db: Firestore,
+    ipAddress: string,
+  ): Promise<ActiveIpBan | null> {
+    const ip = parseIp(ipAddress);
+    if (!ip) return null;
+
+    if (
+      !ipBansCache ||
+      Date.now() - ipBansCache.loadedAt >= IP_BANS_CACHE_TTL_MS
+    ) {
+      const snapshot = await db
+        .collection("ip_bans")
+        .where("status", "==", "active")
+        .get();
+      ipBansCache = {
+        docs: snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() })),
+        loadedAt: Date.now(),
+      };
+    }
+
+    // Bans issued before ranges were supported have no status, only an
+    // exact `ipAddress`
+    const legacy = await db
+      .collection("ip_bans")
+      .where("ipAddress", "==", ipAddress)
+      .get();
+    const candidates = [
+      ...ipBansCache.docs,
+      ...legacy.docs.map((doc) => ({ id: doc.id, data: doc.data() })),
+    ];
+
+    const now = Date.now();
+    let best: ActiveIpBan | null = null;
+    for (const { id, data } of candidates) {
+      const cidr = ipBanCidr(data);
+      const range = cidr && parseCidr(cidr);
+      if (!range || !cidrContains(range, ip)) continue;
+
+      const state = readSanction(data, now);
+      if (state.status !== "active") continue;
+      if (
+        !best ||
+        longestExpiry(best.expiresAt, state.expiresAt) !== best.expiresAt
+      ) {
+        best = {
+          id,
+          cidr,
+          reason: data.reason || "",
+          expiresAt: state.expiresAt,
+        };
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMessageTree,
+  getBranchPath,
+  getLatestLeaf,
+  getSiblingIds,
+  pageBranch,
+  resolveActiveLeaf,
+  splitAtSummary,
+} from "./branches";
+
+// u1 -> a1 -> u2 -> a2, with a1b regenerated from u1 and u2b an edit of u2
+const messages = [
+  { id: "u1", parentId: null, createdAt: "2026-01-01T00:00:01.000Z" },
+  { id: "a1", parentId: "u1", createdAt: "2026-01-01T00:00:02.000Z" },
+  { id: "u2", parentId: "a1", createdAt: "2026-01-01T00:00:03.000Z" },
+  { id: "a2", parentId: "u2", createdAt: "2026-01-01T00:00:04.000Z" },
+  { id: "a1b", parentId: "u1", createdAt: "2026-01-01T00:00:05.000Z" },
+  { id: "u2b", parentId: "a1", createdAt: "2026-01-01T00:00:06.000Z" },
+];
+const ids = (list: { id: string }[]) => list.map((message) => message.id);
+
+describe("branches", () => {
+  it("should follow parents from the root to a leaf", () => {
+    const tree = buildMessageTree(messages);
+
+    expect(ids(getBranchPath(tree, "a2"))).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(ids(getBranchPath(tree, "u2b"))).toEqual(["u1", "a1", "u2b"]);
+    expect(getBranchPath(tree, "missing")).toEqual([]);
+  });
+
+  it("should list the versions of a message oldest first", () => {
+    const tree = buildMessageTree(messages);
+
+    expect(getSiblingIds(tree, "a1")).toEqual(["a1", "a1b"]);
+    expect(getSiblingIds(tree, "u2b")).toEqual(["u2", "u2b"]);
+    expect(getSiblingIds(tree, "u1")).toEqual(["u1"]);
+  });
+
+  it("should open a branch on its most recent continuation", () => {
+    const tree = buildMessageTree(messages);
+
+    expect(getLatestLeaf(tree, "a1")?.id).toBe("u2b");
+    expect(getLatestLeaf(tree, "u2")?.id).toBe("a2");
+    expect(resolveActiveLeaf(tree, "a2")?.id).toBe("a2");
+    expect(resolveActiveLeaf(tree, undefined)?.id).toBe("u2b");
+  });
+
+  it("should treat a message whose parent was not loaded as a root", () => {
+    const tree = buildMessageTree([
+      { id: "a2", parentId: "u2", createdAt: "2026-01-01T00:00:04.000Z" },
+    ]);
+
+    expect(ids(getBranchPath(tree, "a2"))).toEqual(["a2"]);
+    expect(getSiblingIds(tree, "a2")).toEqual(["a2"]);
+  });
+
+  it("should apply a summary only to the branch it covers", () => {
+    const tree = buildMessageTree(messages);
+    const summary = {
+      coveredMessageId: "a1",
+      coveredUntil: "2026-01-01T00:00:02.000Z",
+    };
+
+    const split = splitAtSummary(getBranchPath(tree, "a2"), summary);
+    expect(ids(split.covered!)).toEqual(["u1", "a1"]);
+    expect(ids(split.rest)).toEqual(["u2", "a2"]);
+
+    const other = splitAtSummary(getBranchPath(tree, "a1b"), summary);
+    expect(other.covered).toBeNull();
+    expect(ids(other.rest)).toEqual(["u1", "a1b"]);
+  });
+
+  it("should match summaries written before branching by time", () => {
+    const path = getBranchPath(buildMessageTree(messages), "a2");
+    const split = splitAtSummary(path, {
+      coveredMessageId: null,
+      coveredUntil: "2026-01-01T00:00:03.000Z",
+    });
+
+    expect(ids(split.covered!)).toEqual(["u1", "a1", "u2"]);
+    expect(ids(split.rest)).toEqual(["a2"]);
+  });
+
+  it("should page a branch from the end", () => {
+    const path = getBranchPath(buildMessageTree(messages), "a2");
+
+    const last = pageBranch(path, undefined, 3)!;
+    expect(ids(last.messages)).toEqual(["a1", "u2", "a2"]);
+    expect(last.nextCursor).toBe("a1");
+
+    const previous = pageBranch(path, last.nextCursor!, 3)!;
+    expect(ids(previous.messages)).toEqual(["u1"]);
+    expect(previous.nextCursor).toBeNull();
+
+    expect(pageBranch(path, "a1b", 3)).toBeNull();
+  });
+});
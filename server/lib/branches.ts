@@ -0,0 +1,164 @@
+/**
+ * Conversation branches. Every message points to the one it follows
+ * (`parentId`, null for the first message), so regenerating a reply or
+ * editing a prompt adds a sibling instead of overwriting anything. The
+ * conversation's `activeLeafId` is the last message of the branch shown to
+ * the user and sent to the model.
+ *
+ * Messages stored before branching have no `parentId`; they follow the
+ * previous message in creation order (see loadMessageTree).
+ */
+
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+}
+
+export interface MessageTree<T extends BranchNode> {
+  byId: Map<string, T>;
+  // Children of each message, oldest first; roots are under null
+  children: Map<string | null, T[]>;
+  // Most recently created message
+  latest: T | null;
+}
+
+/**
+ * Index messages given oldest first. A parent that is not in the list (past
+ * the loaded window) makes the message a root.
+ */
+export function buildMessageTree<T extends BranchNode>(
+  messages: T[],
+): MessageTree<T> {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const children = new Map<string | null, T[]>();
+  for (const message of messages) {
+    const parentId =
+      message.parentId && byId.has(message.parentId) ? message.parentId : null;
+    if (!children.has(parentId)) children.set(parentId, []);
+    children.get(parentId)!.push(message);
+  }
+  return {
+    byId,
+    children,
+    latest: messages[messages.length - 1] ?? null,
+  };
+}
+
+/**
+ * Messages from the root to `leafId` included; empty when it is unknown.
+ */
+export function getBranchPath<T extends BranchNode>(
+  tree: MessageTree<T>,
+  leafId: string,
+): T[] {
+  const path: T[] = [];
+  const seen = new Set<string>();
+  let current = tree.byId.get(leafId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? tree.byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/**
+ * The last message of the most recent branch under `id`, following the
+ * newest child at each step.
+ */
+export function getLatestLeaf<T extends BranchNode>(
+  tree: MessageTree<T>,
+  id: string,
+): T | null {
+  let current = tree.byId.get(id) ?? null;
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    const next = tree.children.get(current.id);
+    if (!next?.length) break;
+    current = next[next.length - 1];
+  }
+  return current;
+}
+
+/**
+ * The stored active leaf, or the latest message for conversations that
+ * never had one.
+ */
+export function resolveActiveLeaf<T extends BranchNode>(
+  tree: MessageTree<T>,
+  activeLeafId: string | null | undefined,
+): T | null {
+  return (activeLeafId && tree.byId.get(activeLeafId)) || tree.latest;
+}
+
+/**
+ * IDs of the messages that answer the same parent, `id` included, oldest
+ * first. This is what the "1/3" navigation cycles through.
+ */
+export function getSiblingIds<T extends BranchNode>(
+  tree: MessageTree<T>,
+  id: string,
+): string[] {
+  const message = tree.byId.get(id);
+  if (!message) return [];
+  const parentId =
+    message.parentId && tree.byId.has(message.parentId)
+      ? message.parentId
+      : null;
+  return (tree.children.get(parentId) ?? []).map((sibling) => sibling.id);
+}
+
+/**
+ * Split a branch at the conversation summary. `covered` is null when the
+ * summary was made for another branch; it then does not apply. Summaries
+ * written before branching only have `coveredUntil` and are matched by
+ * creation time.
+ */
+export function splitAtSummary<T extends BranchNode & { createdAt: string }>(
+  path: T[],
+  summary: { coveredMessageId?: string | null; coveredUntil: string } | null,
+): { covered: T[] | null; rest: T[] } {
+  if (!summary) return { covered: null, rest: path };
+
+  let index: number;
+  if (summary.coveredMessageId) {
+    index = path.findIndex(
+      (message) => message.id === summary.coveredMessageId,
+    );
+  } else {
+    const until = Date.parse(summary.coveredUntil);
+    index = -1;
+    while (
+      index + 1 < path.length &&
+      Date.parse(path[index + 1].createdAt) <= until
+    ) {
+      index++;
+    }
+  }
+
+  if (index < 0) return { covered: null, rest: path };
+  return { covered: path.slice(0, index + 1), rest: path.slice(index + 1) };
+}
+
+/**
+ * Up to `limit` messages of a branch before the `before` message (the end
+ * when omitted), with the cursor for the previous page. Null when `before`
+ * is not on the branch.
+ */
+export function pageBranch<T extends BranchNode>(
+  path: T[],
+  before: string | undefined,
+  limit: number,
+): { messages: T[]; nextCursor: string | null } | null {
+  const end = before
+    ? path.findIndex((message) => message.id === before)
+    : path.length;
+  if (end < 0) return null;
+
+  const start = Math.max(0, end - limit);
+  return {
+    messages: path.slice(start, end),
+    nextCursor: start > 0 ? path[start].id : null,
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { cidrContains, formatCidr, parseCidr, parseIp } from "./cidr";
+
+function contains(cidr: string, ip: string) {
+  return cidrContains(parseCidr(cidr)!, parseIp(ip)!);
+}
+
+describe("cidr", () => {
+  it("should parse IPv4 and IPv6 addresses", () => {
+    expect(parseIp("203.0.113.7")).toEqual({ version: 4, value: 3405803783n });
+    expect(parseIp("2001:db8::1")?.version).toBe(6);
+    expect(parseIp("::1")?.value).toBe(1n);
+    expect(parseIp("256.0.0.1")).toBeNull();
+    expect(parseIp("1:2:3:4:5:6:7:8:9")).toBeNull();
+    expect(parseIp("2001:db8::1::2")).toBeNull();
+    expect(parseIp("not an ip")).toBeNull();
+  });
+
+  it("should treat IPv4-mapped IPv6 addresses as IPv4", () => {
+    expect(parseIp("::ffff:203.0.113.7")).toEqual(parseIp("203.0.113.7"));
+    expect(contains("203.0.113.0/24", "::ffff:203.0.113.7")).toBe(true);
+  });
+
+  it("should match addresses inside a range", () => {
+    expect(contains("10.0.0.0/8", "10.255.1.2")).toBe(true);
+    expect(contains("10.0.0.0/8", "11.0.0.1")).toBe(false);
+    expect(contains("0.0.0.0/0", "8.8.8.8")).toBe(true);
+    expect(contains("2001:db8::/32", "2001:db8:ffff::1")).toBe(true);
+    expect(contains("2001:db8::/32", "2001:db9::1")).toBe(false);
+    // Every address handed to a single IPv6 customer
+    expect(contains("2001:db8:1:2::/64", "2001:db8:1:2:a:b:c:d")).toBe(true);
+    expect(contains("2001:db8:1:2::/64", "2001:db8:1:3::1")).toBe(false);
+    // Families never match each other
+    expect(contains("::/0", "8.8.8.8")).toBe(false);
+  });
+
+  it("should treat a bare address as a single host", () => {
+    expect(parseCidr("203.0.113.7")?.prefix).toBe(32);
+    expect(parseCidr("2001:db8::1")?.prefix).toBe(128);
+    expect(contains("203.0.113.7", "203.0.113.8")).toBe(false);
+  });
+
+  it("should reject invalid prefixes", () => {
+    expect(parseCidr("10.0.0.0/33")).toBeNull();
+    expect(parseCidr("2001:db8::/129")).toBeNull();
+    expect(parseCidr("10.0.0.0/x")).toBeNull();
+    expect(parseCidr("10.0.0.0/8/8")).toBeNull();
+  });
+
+  it("should format ranges canonically", () => {
+    expect(formatCidr(parseCidr("10.1.2.3/8")!)).toBe("10.0.0.0/8");
+    expect(formatCidr(parseCidr("2001:0DB8:0:0:0:0:0:1/32")!)).toBe(
+      "2001:db8::/32",
+    );
+    expect(formatCidr(parseCidr("2001:db8:0:1:0:0:0:1")!)).toBe(
+      "2001:db8:0:1::1/128",
+    );
+    expect(formatCidr(parseCidr("::/0")!)).toBe("::/0");
+  });
+});
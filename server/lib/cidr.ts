@@ -0,0 +1,153 @@
+/**
+ * IPv4 / IPv6 address and CIDR range parsing. Addresses are compared as
+ * integers (bigint, 32 or 128 bits); IPv4-mapped IPv6 addresses
+ * ("::ffff:1.2.3.4") are treated as the IPv4 address they carry.
+ */
+
+export interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface CidrRange {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // Zone index ("fe80::1%eth0") is irrelevant for matching
+  const address = ip.split("%")[0];
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string): string[] | null => {
+    if (part === "") return [];
+    const groups = part.split(":");
+    const last = groups[groups.length - 1];
+    if (last.includes(".")) {
+      const v4 = parseIPv4(last);
+      if (v4 === null) return null;
+      groups.splice(
+        -1,
+        1,
+        ((v4 >> 16n) & 0xffffn).toString(16),
+        (v4 & 0xffffn).toString(16),
+      );
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+export function parseIp(ip: string): ParsedIp | null {
+  const trimmed = ip.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIPv6(trimmed);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) {
+      return { version: 4, value: value & 0xffffffffn };
+    }
+    return { version: 6, value };
+  }
+  const value = parseIPv4(trimmed);
+  return value === null ? null : { version: 4, value };
+}
+
+function mask(version: 4 | 6, prefix: number): bigint {
+  const bits = BigInt(BITS[version]);
+  const hostBits = bits - BigInt(prefix);
+  return ((1n << bits) - 1n) ^ ((1n << hostBits) - 1n);
+}
+
+/**
+ * Parse "10.0.0.0/8" or "2001:db8::/32". A bare address is a single-host
+ * range. Host bits are cleared, so "10.1.2.3/8" is the same range as
+ * "10.0.0.0/8".
+ */
+export function parseCidr(cidr: string): CidrRange | null {
+  const [address, prefixText, ...rest] = cidr.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  let prefix: number = BITS[ip.version];
+  if (prefixText !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixText)) return null;
+    prefix = Number(prefixText);
+    // "::ffff:10.0.0.0/104" is written against the IPv6 width
+    if (ip.version === 4 && address.includes(":")) prefix -= 96;
+    if (prefix < 0 || prefix > BITS[ip.version]) return null;
+  }
+
+  return {
+    version: ip.version,
+    network: ip.value & mask(ip.version, prefix),
+    prefix,
+  };
+}
+
+export function cidrContains(range: CidrRange, ip: ParsedIp): boolean {
+  return (
+    range.version === ip.version &&
+    (ip.value & mask(ip.version, range.prefix)) === range.network
+  );
+}
+
+function formatIp(version: 4 | 6, value: bigint): string {
+  if (version === 4) {
+    return [24n, 16n, 8n, 0n]
+      .map((shift) => (value >> shift) & 0xffn)
+      .join(".");
+  }
+
+  const groups: string[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(((value >> shift) & 0xffffn).toString(16));
+  }
+
+  // Compress the longest run of zero groups
+  let best = { start: -1, length: 1 };
+  for (let i = 0; i < groups.length; i++) {
+    let end = i;
+    while (end < groups.length && groups[end] === "0") end++;
+    if (end - i > best.length) best = { start: i, length: end - i };
+  }
+  if (best.start === -1) return groups.join(":");
+  const head = groups.slice(0, best.start).join(":");
+  const tail = groups.slice(best.start + best.length).join(":");
+  return `${head}::${tail}`;
+}
+
+// Canonical text form, used as the stored value so duplicates compare equal
+export function formatCidr(range: CidrRange): string {
+  return `${formatIp(range.version, range.network)}/${range.prefix}`;
+}
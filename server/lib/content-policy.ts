@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import {
+  DEFAULT_POLICY_RULES,
+  evaluateContent,
+  EvaluateOptions,
+  PII_TYPES,
+  POLICY_OUTCOMES,
+  PolicyDecision,
+  PolicyRule,
+} from "../../shared/content-policy";
+
+/**
+ * Admin-editable content policy rule set, stored in `settings/content_policy`
+ * and evaluated by shared/content-policy.ts. Falls back to
+ * DEFAULT_POLICY_RULES until an admin saves a rule set.
+ */
+
+const POLICY_DOC = ["settings", "content_policy"] as const;
+
+// Rule sets are read on every chat request, edits show up within this delay
+// on the other instances
+const CACHE_TTL_MS = 30 * 1000;
+
+const RuleBaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,40}$/, "Invalid rule ID"),
+  label: z.string().trim().min(1).max(100),
+  enabled: z.boolean(),
+  outcome: z.enum(POLICY_OUTCOMES as [string, ...string[]]),
+});
+
+const PolicyRuleSchema = z.discriminatedUnion("kind", [
+  RuleBaseSchema.extend({
+    kind: z.literal("size"),
+    maxChars: z.number().int().min(1).max(100_000),
+  }),
+  RuleBaseSchema.extend({
+    kind: z.literal("pii"),
+    types: z.array(z.enum(PII_TYPES as [string, ...string[]])).min(1),
+  }),
+  RuleBaseSchema.extend({ kind: z.literal("injection") }),
+  RuleBaseSchema.extend({
+    kind: z.literal("topic"),
+    terms: z.array(z.string().trim().min(1).max(100)).min(1).max(200),
+  }),
+]);
+
+export const PolicyRulesSchema = z
+  .array(PolicyRuleSchema)
+  .max(50)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+    "Rule IDs must be unique",
+  );
+
+let cache: { rules: PolicyRule[]; loadedAt: number } | null = null;
+
+export async function getPolicyRules(db: Firestore): Promise<PolicyRule[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.rules;
+  }
+
+  const snap = await db.collection(POLICY_DOC[0]).doc(POLICY_DOC[1]).get();
+  const rules: PolicyRule[] = snap.data()?.rules ?? DEFAULT_POLICY_RULES;
+  cache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+export async function savePolicyRules(
+  db: Firestore,
+  rules: PolicyRule[],
+  updatedBy: string,
+): Promise<void> {
+  await db.collection(POLICY_DOC[0]).doc(POLICY_DOC[1]).set({
+    rules,
+    updatedAt: Timestamp.now(),
+    updatedBy,
+  });
+  cache = { rules, loadedAt: Date.now() };
+}
+
+/**
+ * Evaluate user content against the current rule set, logging every
+ * decision other than "allow".
+ */
+export async function checkContent(
+  db: Firestore,
+  content: string,
+  source: string,
+  options: EvaluateOptions = {},
+): Promise<PolicyDecision> {
+  const decision = evaluateContent(content, await getPolicyRules(db), options);
+  if (decision.outcome !== "allow") {
+    console.log(
+      `[CONTENT_POLICY] ${decision.outcome} ${source}: ${decision.matches
+        .map((match) => `${match.ruleId}(${match.detail})`)
+        .join(", ")}`,
+    );
+  }
+  return decision;
+}
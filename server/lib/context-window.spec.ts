@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSummaryMessages,
+  chunkForSummary,
+  countMessageTokens,
+  countTokens,
+  planContext,
+  summarizeMessages,
+  type HistoryMessage,
+} from "./context-window";
+import type { LLMProvider, LLMRequest } from "./llm-providers";
+
+// 400 characters: 100 tokens on a 4 characters-per-token model
+const turn = (role: HistoryMessage["role"], n: number): HistoryMessage => ({
+  role,
+  content: `${n}`.padEnd(400, "."),
+});
+
+const history = Array.from({ length: 10 }, (_, i) =>
+  turn(i % 2 === 0 ? "user" : "assistant", i),
+);
+
+describe("context window", () => {
+  it("should count tokens with the model's ratio", () => {
+    expect(countTokens("a".repeat(400), "gpt-4")).toBe(100);
+    expect(countTokens("a".repeat(350), "claude-3-opus")).toBe(100);
+    expect(countTokens("a".repeat(400), "unknown-model")).toBe(100);
+    expect(countMessageTokens(history, "gpt-4")).toBe(1040);
+  });
+
+  it("should keep the whole history when it fits", () => {
+    const plan = planContext({
+      model: "gpt-4",
+      history,
+      reservedTokens: 500,
+      historyLimit: 12_000,
+    });
+    expect(plan.keep).toHaveLength(10);
+    expect(plan.fold).toEqual([]);
+  });
+
+  it("should fold older turns down to half of the budget", () => {
+    const plan = planContext({
+      model: "gpt-4",
+      history,
+      reservedTokens: 500,
+      historyLimit: 800,
+    });
+    // 400 tokens left for verbatim turns of 104 tokens each
+    expect(plan.keep).toEqual(history.slice(7));
+    expect(plan.fold).toEqual(history.slice(0, 7));
+  });
+
+  it("should respect the model's context window", () => {
+    const plan = planContext({
+      model: "gpt-4",
+      history,
+      reservedTokens: 8_000,
+      historyLimit: 12_000,
+    });
+    expect(plan.keep).toHaveLength(0);
+    expect(plan.fold).toHaveLength(10);
+  });
+
+  it("should include the previous summary in the summary prompt", () => {
+    const [system, user] = buildSummaryMessages("Déjà résumé", [
+      { role: "user", content: "Bonjour" },
+      { role: "assistant", content: "Salut" },
+    ]);
+    expect(system.role).toBe("system");
+    expect(user.content).toContain("Déjà résumé");
+    expect(user.content).toContain("Utilisateur : Bonjour");
+    expect(user.content).toContain("Assistant : Salut");
+  });
+
+  it("should split long histories into chunks the model accepts", () => {
+    const chunks = chunkForSummary(
+      Array.from({ length: 100 }, (_, i) => turn("user", i)),
+      "gpt-4",
+    );
+    // gpt-4 accepts chunks of half its 8192 tokens
+    expect(chunks.map((chunk) => chunk.length)).toEqual([39, 39, 22]);
+  });
+
+  it("should fold chunks one after the other", async () => {
+    const requests: LLMRequest[] = [];
+    const provider = {
+      name: "local",
+      complete: async (request: LLMRequest) => {
+        requests.push(request);
+        return {
+          content: `résumé ${requests.length}`,
+          usage: { promptTokens: 10, completionTokens: 2 },
+        };
+      },
+    } as unknown as LLMProvider;
+
+    const result = await summarizeMessages({
+      provider,
+      upstreamModel: "gpt-4",
+      model: "gpt-4",
+      previousSummary: null,
+      messages: Array.from({ length: 50 }, (_, i) => turn("user", i)),
+    });
+
+    expect(result).toEqual({
+      content: "résumé 2",
+      usage: { promptTokens: 20, completionTokens: 4 },
+    });
+    expect(requests[1].messages[1].content).toContain("résumé 1");
+  });
+});
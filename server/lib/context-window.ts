@@ -0,0 +1,197 @@
+import type { LLMMessage, LLMProvider, LLMUsage } from "./llm-providers";
+import { getModel } from "./model-catalog";
+
+/**
+ * Prompt budgeting for chat requests.
+ *
+ * The server builds the prompt from the stored conversation: the most recent
+ * turns are sent verbatim and older ones are folded into a rolling summary
+ * (`conversations.contextSummary`) sent as a system message. Token counts
+ * are estimated per model from its characters-per-token ratio; the provider
+ * reports the real usage afterwards.
+ */
+
+export interface ModelContextProfile {
+  // Prompt + completion tokens the model accepts
+  contextWindow: number;
+  charsPerToken: number;
+}
+
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+const DEFAULT_CONTEXT: ModelContextProfile = {
+  contextWindow: 8_192,
+  charsPerToken: 4,
+};
+
+// ~4 tokens of per-message overhead in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Verbatim history is capped even on large-context models so the cost of a
+// turn does not grow with the length of the conversation
+const DEFAULT_HISTORY_TOKEN_LIMIT = 12_000;
+
+// Upper bound on the summary itself and on each chunk folded into it
+export const SUMMARY_MAX_TOKENS = 1_024;
+const SUMMARY_CHUNK_TOKENS = 24_000;
+
+const SUMMARY_INSTRUCTIONS =
+  "Tu résumes une conversation entre un utilisateur et un assistant pour " +
+  "que l'assistant puisse la poursuivre. Conserve les faits, les décisions, " +
+  "les préférences de l'utilisateur, les noms, les chiffres et les questions " +
+  "restées ouvertes. Écris en français, à la troisième personne, en 300 mots " +
+  "au maximum, sans introduction.";
+
+export function getModelContext(model: string): ModelContextProfile {
+  return getModel(model) || DEFAULT_CONTEXT;
+}
+
+export function getHistoryTokenLimit(): number {
+  return (
+    parseInt(process.env.CHAT_HISTORY_MAX_TOKENS || "", 10) ||
+    DEFAULT_HISTORY_TOKEN_LIMIT
+  );
+}
+
+export function countTokens(text: string, model: string): number {
+  return Math.ceil(text.length / getModelContext(model).charsPerToken);
+}
+
+export function countMessageTokens(
+  messages: { content: string }[],
+  model: string,
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total + countTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS,
+    0,
+  );
+}
+
+/**
+ * Split the history into the turns sent verbatim and the older ones to fold
+ * into the summary. `reservedTokens` is everything else the request needs
+ * (system prompt, summary, new message, completion). When the history does
+ * not fit, only what fits in half of the budget is kept, so the summary is
+ * not rewritten on every turn.
+ */
+export function planContext<T extends { content: string }>(options: {
+  model: string;
+  history: T[];
+  reservedTokens: number;
+  historyLimit: number;
+}): { keep: T[]; fold: T[] } {
+  const { model, history, reservedTokens, historyLimit } = options;
+  const budget = Math.min(
+    historyLimit,
+    getModelContext(model).contextWindow - reservedTokens,
+  );
+
+  if (countMessageTokens(history, model) <= budget) {
+    return { keep: history, fold: [] };
+  }
+
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens =
+      countTokens(history[start - 1].content, model) + MESSAGE_OVERHEAD_TOKENS;
+    if (used + tokens > budget / 2) break;
+    used += tokens;
+    start--;
+  }
+
+  return { keep: history.slice(start), fold: history.slice(0, start) };
+}
+
+export function buildSummaryMessages(
+  previousSummary: string | null,
+  messages: HistoryMessage[],
+): LLMMessage[] {
+  const transcript = messages
+    .map(
+      (message) =>
+        `${message.role === "user" ? "Utilisateur" : "Assistant"} : ${message.content}`,
+    )
+    .join("\n\n");
+
+  return [
+    { role: "system", content: SUMMARY_INSTRUCTIONS },
+    {
+      role: "user",
+      content: previousSummary
+        ? `Résumé existant :\n${previousSummary}\n\nSuite de la conversation :\n${transcript}`
+        : `Conversation :\n${transcript}`,
+    },
+  ];
+}
+
+/**
+ * Group messages into chunks small enough to summarize in one request. A
+ * single message larger than the limit gets a chunk of its own.
+ */
+export function chunkForSummary<T extends HistoryMessage>(
+  messages: T[],
+  model: string,
+): T[][] {
+  const limit = Math.min(
+    SUMMARY_CHUNK_TOKENS,
+    Math.floor(getModelContext(model).contextWindow / 2),
+  );
+
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  for (const message of messages) {
+    const tokens =
+      countTokens(message.content, model) + MESSAGE_OVERHEAD_TOKENS;
+    if (current.length > 0 && used + tokens > limit) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(message);
+    used += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Fold messages into a summary, chunk by chunk. Returns the new summary and
+ * the usage of every request made (estimated when the provider does not
+ * report it). Provider errors are thrown.
+ */
+export async function summarizeMessages(options: {
+  provider: LLMProvider;
+  upstreamModel: string;
+  model: string;
+  previousSummary: string | null;
+  messages: HistoryMessage[];
+}): Promise<{ content: string; usage: LLMUsage }> {
+  const { provider, upstreamModel, model } = options;
+  let summary = options.previousSummary;
+  const usage: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+
+  for (const chunk of chunkForSummary(options.messages, model)) {
+    const messages = buildSummaryMessages(summary, chunk);
+    const completion = await provider.complete({
+      model: upstreamModel,
+      messages,
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_TOKENS,
+    });
+
+    usage.promptTokens +=
+      completion.usage?.promptTokens ?? countMessageTokens(messages, model);
+    usage.completionTokens +=
+      completion.usage?.completionTokens ??
+      countTokens(completion.content, model);
+    summary = completion.content.trim() || summary;
+  }
+
+  return { content: summary || "", usage };
+}
@@ -0,0 +1,340 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  FieldPath,
+  FieldValue,
+  Firestore,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { buildMessageTree, getSiblingIds, MessageTree } from "./branches";
+import type {
+  BranchMessageRecord,
+  ChatMessageRecord,
+  ChatRole,
+  ContextSummary,
+  ConversationSummary,
+  MessageAttachment,
+} from "../../shared/api";
+
+/**
+ * Firestore access for `conversations` and `messages`.
+ *
+ * Messages are stored as
+ *   { conversationId, userId, parentId, role, content, model, promptTokens,
+ *     completionTokens, attachments, createdAt }
+ * and form a tree through `parentId`; the conversation's `activeLeafId` ends
+ * the branch in use (see server/lib/branches.ts).
+ * Older documents only have `text` with a "user:"/"assistant:" prefix; they
+ * are still readable here and rewritten by migrateLegacyMessages.
+ *
+ * A conversation may carry a `contextSummary`
+ *   { content, coveredMessageId, coveredUntil, messageCount, model,
+ *     updatedAt }
+ * summarizing the branch up to `coveredMessageId` for the model (see
+ * server/lib/context-window.ts).
+ */
+
+export interface NewMessage {
+  conversationId: string;
+  userId: string;
+  parentId: string | null;
+  role: ChatRole;
+  content: string;
+  model?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  // Files sent with a user message (server/lib/attachments.ts)
+  attachments?: MessageAttachment[];
+}
+
+// A message with the exact timestamp used as the summary boundary
+export interface HistoryRecord extends ChatMessageRecord {
+  createdAtTimestamp: Timestamp;
+}
+
+// Unsummarized messages sent for one prompt; older ones are ignored
+export const MAX_HISTORY_MESSAGES = 200;
+
+// Most recent messages (all branches) read to rebuild the tree
+const MAX_TREE_MESSAGES = 1000;
+
+function toISO(value: unknown): string {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  return new Date(0).toISOString();
+}
+
+/**
+ * Split a legacy "user:..." / "assistant:..." text into role and content.
+ * Text without a known prefix is treated as an assistant reply, which is what
+ * the old client did when rendering it.
+ */
+export function parseLegacyMessageText(text: string): {
+  role: ChatRole;
+  content: string;
+} {
+  if (text.startsWith("user:")) {
+    return { role: "user", content: text.slice("user:".length) };
+  }
+  if (text.startsWith("assistant:")) {
+    return { role: "assistant", content: text.slice("assistant:".length) };
+  }
+  return { role: "assistant", content: text };
+}
+
+export function toMessageRecord(
+  id: string,
+  data: DocumentData,
+): ChatMessageRecord {
+  const { role, content } =
+    data.role && typeof data.content === "string"
+      ? { role: data.role as ChatRole, content: data.content as string }
+      : parseLegacyMessageText(data.text || "");
+
+  return {
+    id,
+    conversationId: data.conversationId,
+    parentId: data.parentId ?? null,
+    role,
+    content,
+    model: data.model ?? null,
+    promptTokens: data.promptTokens ?? null,
+    completionTokens: data.completionTokens ?? null,
+    attachments: data.attachments ?? [],
+    createdAt: toISO(data.createdAt),
+  };
+}
+
+export function toConversationSummary(
+  id: string,
+  data: DocumentData,
+): ConversationSummary {
+  return {
+    id,
+    title: data.title || "Nouvelle conversation",
+    createdAt: toISO(data.createdAt),
+    updatedAt: toISO(data.updatedAt),
+    messageCount: data.messageCount || 0,
+    personaId: data.personaId ?? null,
+    model: data.model ?? null,
+  };
+}
+
+export function toContextSummary(data: DocumentData): ContextSummary | null {
+  const summary = data.contextSummary;
+  if (!summary?.content) return null;
+  return {
+    content: summary.content,
+    messageCount: summary.messageCount || 0,
+    coveredUntil: toISO(summary.coveredUntil),
+    coveredMessageId: summary.coveredMessageId ?? null,
+    model: summary.model || null,
+    updatedAt: toISO(summary.updatedAt),
+  };
+}
+
+/**
+ * Load a conversation only if it belongs to the user.
+ */
+export async function getOwnedConversation(
+  db: Firestore,
+  conversationId: string,
+  userId: string,
+) {
+  const snapshot = await db
+    .collection("conversations")
+    .doc(conversationId)
+    .get();
+  if (!snapshot.exists || snapshot.data()?.userId !== userId) return null;
+  return snapshot;
+}
+
+/**
+ * Store a message, make it the end of the active branch and bump the
+ * conversation's counters in one batch.
+ */
+export async function appendMessage(
+  db: Firestore,
+  message: NewMessage,
+): Promise<ChatMessageRecord> {
+  const messageRef = db.collection("messages").doc();
+  const now = Timestamp.now();
+  const data = {
+    conversationId: message.conversationId,
+    userId: message.userId,
+    parentId: message.parentId,
+    role: message.role,
+    content: message.content,
+    model: message.model ?? null,
+    promptTokens: message.promptTokens ?? null,
+    completionTokens: message.completionTokens ?? null,
+    attachments: message.attachments ?? [],
+    createdAt: now,
+  };
+
+  const batch = db.batch();
+  batch.set(messageRef, data);
+  batch.update(db.collection("conversations").doc(message.conversationId), {
+    messageCount: FieldValue.increment(1),
+    activeLeafId: messageRef.id,
+    updatedAt: now,
+  });
+  await batch.commit();
+
+  return toMessageRecord(messageRef.id, data);
+}
+
+/**
+ * The conversation's messages as a tree, reading at most the
+ * MAX_TREE_MESSAGES most recent. Messages without `parentId` (stored before
+ * branching) follow the previous one.
+ */
+export async function loadMessageTree(
+  db: Firestore,
+  conversationId: string,
+): Promise<MessageTree<HistoryRecord>> {
+  const snapshot = await db
+    .collection("messages")
+    .where("conversationId", "==", conversationId)
+    .orderBy("createdAt", "desc")
+    .limit(MAX_TREE_MESSAGES)
+    .get();
+
+  let previousId: string | null = null;
+  const records = snapshot.docs.reverse().map((doc) => {
+    const data = doc.data();
+    const record: HistoryRecord = {
+      ...toMessageRecord(doc.id, data),
+      parentId: data.parentId === undefined ? previousId : data.parentId,
+      createdAtTimestamp: data.createdAt,
+    };
+    previousId = doc.id;
+    return record;
+  });
+  return buildMessageTree(records);
+}
+
+/**
+ * The message new ones attach to: the stored active leaf, or the latest
+ * message for conversations that never had one.
+ */
+export async function getActiveLeafId(
+  db: Firestore,
+  conversation: DocumentSnapshot,
+): Promise<string | null> {
+  const activeLeafId = conversation.data()?.activeLeafId;
+  if (activeLeafId) return activeLeafId;
+
+  const snapshot = await db
+    .collection("messages")
+    .where("conversationId", "==", conversation.id)
+    .orderBy("createdAt", "desc")
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+}
+
+export function toBranchMessage(
+  tree: MessageTree<HistoryRecord>,
+  record: HistoryRecord,
+): BranchMessageRecord {
+  const { createdAtTimestamp, ...message } = record;
+  return { ...message, siblingIds: getSiblingIds(tree, record.id) };
+}
+
+/**
+ * Replace the conversation's summary. `coveredMessageId` is the last message
+ * it includes and `coveredUntil` its creation time.
+ */
+export async function saveContextSummary(
+  db: Firestore,
+  conversationId: string,
+  summary: {
+    content: string;
+    coveredMessageId: string;
+    coveredUntil: Timestamp;
+    messageCount: number;
+    model: string;
+  },
+): Promise<ContextSummary> {
+  const data = { ...summary, updatedAt: Timestamp.now() };
+  await db
+    .collection("conversations")
+    .doc(conversationId)
+    .update({ contextSummary: data });
+  return toContextSummary({ contextSummary: data })!;
+}
+
+/**
+ * Delete a conversation and all of its messages.
+ */
+export async function deleteConversationWithMessages(
+  db: Firestore,
+  conversationId: string,
+) {
+  const BATCH_SIZE = 400;
+  while (true) {
+    const snapshot = await db
+      .collection("messages")
+      .where("conversationId", "==", conversationId)
+      .limit(BATCH_SIZE)
+      .get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+    if (snapshot.size < BATCH_SIZE) break;
+  }
+
+  await db.collection("conversations").doc(conversationId).delete();
+}
+
+/**
+ * Rewrite prefixed `text` messages into the structured schema.
+ * Safe to run repeatedly: already migrated documents are skipped.
+ */
+export async function migrateLegacyMessages(db: Firestore) {
+  const PAGE_SIZE = 400;
+  let scanned = 0;
+  let migrated = 0;
+  let lastId: string | null = null;
+
+  while (true) {
+    let query = db
+      .collection("messages")
+      .orderBy(FieldPath.documentId())
+      .limit(PAGE_SIZE);
+    if (lastId) query = query.startAfter(lastId);
+
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let pending = 0;
+    for (const doc of snapshot.docs) {
+      scanned++;
+      const data = doc.data();
+      if (data.role || typeof data.text !== "string") continue;
+
+      const { role, content } = parseLegacyMessageText(data.text);
+      batch.update(doc.ref, {
+        role,
+        content,
+        model: null,
+        promptTokens: null,
+        completionTokens: null,
+        text: FieldValue.delete(),
+      });
+      pending++;
+    }
+    if (pending > 0) {
+      await batch.commit();
+      migrated += pending;
+    }
+
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+    if (snapshot.size < PAGE_SIZE) break;
+  }
+
+  return { scanned, migrated };
+}
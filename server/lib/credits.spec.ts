@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { settleCounters } from "./credits";
+
+const RESERVED_AT = Timestamp.fromMillis(Date.UTC(2024, 2, 10, 23, 59));
+const BEFORE = Timestamp.fromMillis(Date.UTC(2024, 2, 10, 0, 0));
+const AFTER = Timestamp.fromMillis(Date.UTC(2024, 2, 11, 0, 0));
+
+describe("credits", () => {
+  it("should give a refunded reservation back", () => {
+    const user = {
+      tokensUsed: 1500,
+      messagesUsed: 3,
+      lastMessageReset: BEFORE,
+    };
+
+    expect(
+      settleCounters(user, RESERVED_AT, { tokensUsed: -500, messagesUsed: -1 }),
+    ).toEqual({ tokensUsed: 1000, messagesUsed: 2 });
+    expect(settleCounters(user, RESERVED_AT, { tokensUsed: 200 })).toEqual({
+      tokensUsed: 1700,
+    });
+  });
+
+  it("should leave counters reset after the reservation alone", () => {
+    const user = { tokensUsed: 0, messagesUsed: 0, lastMessageReset: AFTER };
+
+    expect(
+      settleCounters(user, RESERVED_AT, { tokensUsed: -500, messagesUsed: -1 }),
+    ).toBeNull();
+  });
+
+  it("should never take counters below zero", () => {
+    const user = { tokensUsed: 100, messagesUsed: 0 };
+
+    expect(
+      settleCounters(user, RESERVED_AT, { tokensUsed: -500, messagesUsed: -1 }),
+    ).toEqual({ tokensUsed: 0, messagesUsed: 0 });
+  });
+});
@@ -0,0 +1,329 @@
+import { randomUUID } from "crypto";
+import { DocumentData, FieldValue, Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "./firebase-admin";
+import {
+  getModelMultiplier,
+  getTokenBudget,
+  tokenCost,
+} from "../../shared/plans";
+
+/**
+ * Token quota accounting (see shared/plans.ts for budgets and multipliers).
+ *
+ * A chat request first reserves an estimated cost (the prompt plus the
+ * longest completion it may get) inside a Firestore transaction (budget
+ * check + increment of `tokensUsed` happen atomically) and opens a
+ * `usage_ledger/{requestId}` entry under an id generated here, never taken
+ * from the client. Once the upstream call settles the entry is either
+ * committed, replacing the estimate with the cost of the real token usage,
+ * or refunded. Settling is idempotent: only a "reserved" entry can move to
+ * another state. Work done for a request that is charged whatever becomes
+ * of its reply (summarizing the history) gets its own committed
+ * `usage_ledger/{requestId}:{kind}` entry.
+ */
+
+export type LedgerStatus = "reserved" | "committed" | "refunded";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CreditReservation {
+  requestId: string;
+  userId: string;
+  model: string;
+  plan: string;
+  reservedCost: number;
+  // Counters as they stand after the reservation
+  tokensUsed: number;
+  tokenBudget: number;
+}
+
+export interface ReserveCreditOptions {
+  userId: string;
+  // X-Request-Id of the HTTP request, kept for tracing only
+  httpRequestId?: string;
+  model: string;
+  provider?: string;
+  conversationId?: string;
+  // Raw prompt tokens and completion allowance (max_tokens), the plan's
+  // model multiplier is applied here
+  estimatedTokens?: number;
+  maxCompletionTokens?: number;
+  // Flat cost for requests without token usage (image generation)
+  fixedCost?: number;
+}
+
+export class CreditError extends Error {
+  status: number;
+  tokensUsed?: number;
+  tokenBudget?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    counters: { tokensUsed?: number; tokenBudget?: number } = {},
+  ) {
+    super(message);
+    this.name = "CreditError";
+    this.status = status;
+    this.tokensUsed = counters.tokensUsed;
+    this.tokenBudget = counters.tokenBudget;
+  }
+}
+
+/**
+ * Counters after settling a reservation made at `reservedAt` by `delta`,
+ * never below zero. Null when the quota was reset since: the reservation
+ * was taken from a day that is already over.
+ */
+export function settleCounters(
+  userData: DocumentData,
+  reservedAt: Timestamp | undefined,
+  delta: { tokensUsed: number; messagesUsed?: number },
+): { tokensUsed: number; messagesUsed?: number } | null {
+  const lastReset = userData.lastMessageReset;
+  if (
+    reservedAt &&
+    lastReset instanceof Timestamp &&
+    lastReset.toMillis() > reservedAt.toMillis()
+  ) {
+    return null;
+  }
+
+  return {
+    tokensUsed: Math.max(0, (userData.tokensUsed || 0) + delta.tokensUsed),
+    ...(delta.messagesUsed !== undefined && {
+      messagesUsed: Math.max(
+        0,
+        (userData.messagesUsed || 0) + delta.messagesUsed,
+      ),
+    }),
+  };
+}
+
+export class CreditService {
+  /**
+   * Take the request's estimated cost from the user's budget, under a ledger
+   * id made of the user id and a random suffix.
+   */
+  static async reserve(
+    options: ReserveCreditOptions,
+  ): Promise<CreditReservation> {
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(options.userId);
+    const requestId = `${options.userId}_${randomUUID()}`;
+    const ledgerRef = db.collection("usage_ledger").doc(requestId);
+
+    return db.runTransaction(async (tx) => {
+      const userSnap = await tx.get(userRef);
+      if (!userSnap.exists) {
+        throw new CreditError("User not found", 404);
+      }
+
+      const userData = userSnap.data() || {};
+      const plan = userData.plan || "Free";
+      const tokensUsed = userData.tokensUsed || 0;
+      const tokenBudget = getTokenBudget(userData);
+      const multiplier = getModelMultiplier(plan, options.model);
+      const reservedCost =
+        options.fixedCost ??
+        Math.ceil(
+          ((options.estimatedTokens || 0) +
+            (options.maxCompletionTokens || 0)) *
+            multiplier,
+        );
+
+      if (
+        tokensUsed >= tokenBudget ||
+        tokensUsed + reservedCost > tokenBudget
+      ) {
+        throw new CreditError(
+          "Daily token budget exhausted. Please activate a license or wait until tomorrow.",
+          403,
+          { tokensUsed, tokenBudget },
+        );
+      }
+
+      tx.update(userRef, {
+        tokensUsed: tokensUsed + reservedCost,
+        messagesUsed: FieldValue.increment(1),
+      });
+      tx.create(ledgerRef, {
+        requestId,
+        httpRequestId: options.httpRequestId ?? null,
+        userId: options.userId,
+        model: options.model,
+        plan,
+        provider: options.provider ?? null,
+        conversationId: options.conversationId ?? null,
+        status: "reserved" as LedgerStatus,
+        multiplier,
+        reservedCost,
+        cost: null,
+        promptTokens: null,
+        completionTokens: null,
+        createdAt: Timestamp.now(),
+        settledAt: null,
+      });
+
+      return {
+        requestId,
+        userId: options.userId,
+        model: options.model,
+        plan,
+        reservedCost,
+        tokensUsed: tokensUsed + reservedCost,
+        tokenBudget,
+      };
+    });
+  }
+
+  /**
+   * Replace the reserved estimate with the cost of the actual usage. Without
+   * usage (flat-cost requests) the reserved cost stands.
+   * Errors are logged, not thrown: the user already got the answer and the
+   * entry stays "reserved" for reconciliation. Returns the user's counter
+   * after the adjustment.
+   */
+  static async commit(
+    reservation: CreditReservation,
+    usage: TokenUsage | null,
+    details: { aborted?: boolean } = {},
+  ): Promise<number> {
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(reservation.userId);
+    const ledgerRef = db.collection("usage_ledger").doc(reservation.requestId);
+    const cost = usage
+      ? tokenCost(reservation.plan, reservation.model, usage)
+      : reservation.reservedCost;
+    const delta = cost - reservation.reservedCost;
+
+    try {
+      await db.runTransaction(async (tx) => {
+        const [userSnap, ledgerSnap] = await Promise.all([
+          tx.get(userRef),
+          tx.get(ledgerRef),
+        ]);
+        const ledger = ledgerSnap.data();
+        if (ledger?.status !== "reserved") return;
+
+        const counters =
+          delta !== 0 &&
+          settleCounters(userSnap.data() || {}, ledger.createdAt, {
+            tokensUsed: delta,
+          });
+        if (counters) tx.update(userRef, counters);
+        tx.update(ledgerRef, {
+          status: "committed" as LedgerStatus,
+          cost,
+          promptTokens: usage?.promptTokens ?? null,
+          completionTokens: usage?.completionTokens ?? null,
+          aborted: details.aborted === true,
+          settledAt: Timestamp.now(),
+        });
+      });
+      return reservation.tokensUsed + delta;
+    } catch (error) {
+      console.error(
+        `[CREDITS] Failed to commit ${reservation.requestId}:`,
+        error,
+      );
+      return reservation.tokensUsed;
+    }
+  }
+
+  /**
+   * Charge usage that was consumed for a reservation's request but must not
+   * follow its fate, e.g. summarizing the history before a reply that may
+   * still be refunded. Recorded as a committed entry of its own; the budget
+   * is not checked since the tokens are already spent. Errors are logged,
+   * not thrown.
+   */
+  static async charge(
+    reservation: CreditReservation,
+    kind: string,
+    usage: TokenUsage,
+  ): Promise<void> {
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(reservation.userId);
+    const requestId = `${reservation.requestId}:${kind}`;
+    const ledgerRef = db.collection("usage_ledger").doc(requestId);
+    const cost = tokenCost(reservation.plan, reservation.model, usage);
+
+    try {
+      await db.runTransaction(async (tx) => {
+        const ledgerSnap = await tx.get(ledgerRef);
+        if (ledgerSnap.exists) return;
+
+        tx.update(userRef, { tokensUsed: FieldValue.increment(cost) });
+        tx.create(ledgerRef, {
+          requestId,
+          userId: reservation.userId,
+          model: reservation.model,
+          plan: reservation.plan,
+          kind,
+          status: "committed" as LedgerStatus,
+          reservedCost: 0,
+          cost,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          createdAt: Timestamp.now(),
+          settledAt: Timestamp.now(),
+        });
+      });
+    } catch (error) {
+      console.error(`[CREDITS] Failed to charge ${requestId}:`, error);
+    }
+  }
+
+  /**
+   * Give the reserved cost back, e.g. when the upstream call failed, unless
+   * the quota was reset since the reservation (see settleCounters).
+   * Returns the user's counter after the refund.
+   */
+  static async refund(
+    reservation: CreditReservation,
+    reason: string,
+  ): Promise<number> {
+    const db = getAdminDb();
+    const userRef = db.collection("users").doc(reservation.userId);
+    const ledgerRef = db.collection("usage_ledger").doc(reservation.requestId);
+
+    try {
+      await db.runTransaction(async (tx) => {
+        const [userSnap, ledgerSnap] = await Promise.all([
+          tx.get(userRef),
+          tx.get(ledgerRef),
+        ]);
+        const ledger = ledgerSnap.data();
+        if (ledger?.status !== "reserved") return;
+
+        const counters = settleCounters(
+          userSnap.data() || {},
+          ledger.createdAt,
+          { tokensUsed: -reservation.reservedCost, messagesUsed: -1 },
+        );
+        if (counters) tx.update(userRef, counters);
+        tx.update(ledgerRef, {
+          status: "refunded" as LedgerStatus,
+          cost: 0,
+          refundReason: reason,
+          settledAt: Timestamp.now(),
+        });
+      });
+
+      console.log(
+        `[CREDITS] Refunded ${reservation.requestId} (${reservation.userId}): ${reason}`,
+      );
+      return Math.max(0, reservation.tokensUsed - reservation.reservedCost);
+    } catch (error) {
+      console.error(
+        `[CREDITS] Failed to refund ${reservation.requestId}:`,
+        error,
+      );
+      return reservation.tokensUsed;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Throwaway mailbox providers refused at registration. Extra domains can be
+ * added with DISPOSABLE_EMAIL_DOMAINS (comma-separated).
+ */
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  "10minutemail.com",
+  "20minutemail.com",
+  "33mail.com",
+  "dispostable.com",
+  "dropmail.me",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "guerrillamailblock.com",
+  "harakirimail.com",
+  "inboxkitten.com",
+  "jetable.org",
+  "mail.tm",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mailpoof.com",
+  "mintemail.com",
+  "moakt.com",
+  "mohmal.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.com",
+  "tempmail.dev",
+  "tempmailo.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "trashmail.de",
+  "yopmail.com",
+  "yopmail.fr",
+  "yopmail.net",
+]);
+
+function extraDomains(): string[] {
+  return (process.env.DISPOSABLE_EMAIL_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Subdomains of a listed provider count too (e.g. "x.mailinator.com")
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split("@").pop()?.trim().toLowerCase();
+  if (!domain) return false;
+
+  const extra = extraDomains();
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    if (DISPOSABLE_EMAIL_DOMAINS.has(candidate) || extra.includes(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
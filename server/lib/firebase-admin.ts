@@ -1,6 +1,9 @@
 import { initializeApp, cert, getApp, getApps } from "firebase-admin/app";
-import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { getFirestore } from "firebase-admin/firestore";
 import { getAuth } from "firebase-admin/auth";
+import { BanService } from "./bans";
+import { createLicense } from "./licenses";
+import type { PlanName } from "../../shared/plans";
 
 // Initialize Firebase Admin SDK only once
 let adminDb: ReturnType<typeof getFirestore> | null = null;
@@ -50,6 +53,18 @@ export function getAdminAuth() {
   return adminAuth;
 }
 
+/**
+ * OAuth token of the service account, for Google APIs the Admin SDK does not
+ * wrap (Cloud Storage, see attachment-storage.ts). Null when the SDK is not
+ * initialized.
+ */
+export async function getAdminAccessToken(): Promise<string | null> {
+  if (!initialized) return null;
+  const credential = getApp().options.credential;
+  if (!credential) return null;
+  return (await credential.getAccessToken()).access_token;
+}
+
 export function isAdminInitialized(): boolean {
   return adminDb !== null && adminAuth !== null;
 }
@@ -60,21 +75,6 @@ export class FirebaseAdminService {
     return adminDb;
   }
 
-  // Verify admin status
-  static async verifyAdmin(idToken: string): Promise<string> {
-    const auth = getAdminAuth();
-    const decodedToken = await auth.verifyIdToken(idToken);
-
-    const db = getAdminDb();
-    const userDoc = await db.collection("users").doc(decodedToken.uid).get();
-
-    if (!userDoc.exists || !userDoc.data()?.isAdmin) {
-      throw new Error("Unauthorized: Not an admin");
-    }
-
-    return decodedToken.uid;
-  }
-
   // Get user data
   static async getUser(userId: string) {
     const db = getAdminDb();
@@ -97,25 +97,19 @@ export class FirebaseAdminService {
     if (!targetUser) throw new Error("User not found");
     if (targetUser.isAdmin) throw new Error("Cannot ban admin users");
 
-    // Create ban record
-    const banData = {
+    const ban = await BanService.issue(db, {
       userId,
+      type: "ban",
       reason,
-      bannedBy: adminUid,
-      bannedAt: Timestamp.now(),
-      durationDays,
-      expiresAt: Timestamp.fromDate(
-        new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000),
-      ),
-    };
-
-    const banRef = await db.collection("bans").add(banData);
+      durationMinutes: durationDays * 24 * 60,
+      issuedBy: adminUid,
+    });
 
     console.log(
       `[ADMIN_ACTION] ${adminUid} banned user ${userId}. Reason: ${reason}`,
     );
 
-    return banRef.id;
+    return ban.id;
   }
 
   // Get all users
@@ -140,54 +134,38 @@ export class FirebaseAdminService {
   ) {
     const db = getAdminDb();
 
-    // Generate unique license key
-    const licenseKey = `LIC-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-
-    const licenseData = {
-      key: licenseKey,
-      plan,
+    const licenseKey = await createLicense(db, {
+      plan: plan as PlanName,
       validityDays,
       createdBy: adminUid,
-      createdAt: Timestamp.now(),
-      used: false,
-      usedBy: null,
-      usedAt: null,
-    };
-
-    await db.collection("licenses").doc(licenseKey).set(licenseData);
+    });
 
     console.log(`[ADMIN_ACTION] ${adminUid} created license ${licenseKey}`);
 
     return licenseKey;
   }
 
-  // Record IP ban
+  // Record an IP ban on a single address or a CIDR range ("2001:db8::/64")
   static async banIP(
     adminUid: string,
-    ipAddress: string,
+    target: string,
     reason: string,
     durationDays: number,
   ) {
     const db = getAdminDb();
 
-    const banData = {
-      ipAddress,
+    const ban = await BanService.issueIpBan(db, {
+      target,
       reason,
-      bannedBy: adminUid,
-      bannedAt: Timestamp.now(),
-      durationDays,
-      expiresAt: Timestamp.fromDate(
-        new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000),
-      ),
-    };
-
-    const banRef = await db.collection("ip_bans").add(banData);
+      durationMinutes: durationDays * 24 * 60,
+      issuedBy: adminUid,
+    });
 
     console.log(
-      `[ADMIN_ACTION] ${adminUid} banned IP ${ipAddress}. Reason: ${reason}`,
+      `[ADMIN_ACTION] ${adminUid} banned IP ${ban.cidr}. Reason: ${reason}`,
     );
 
-    return banRef.id;
+    return ban.id;
   }
 
   // Delete user data
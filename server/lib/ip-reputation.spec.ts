@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseCidr, parseIp } from "./cidr";
+import {
+  IpRangeRule,
+  LocalRangeProvider,
+  matchRange,
+  parseRangeList,
+} from "./ip-reputation";
+
+function rule(cidr: string, action: "allow" | "deny"): IpRangeRule {
+  return { range: parseCidr(cidr)!, action, label: cidr };
+}
+
+describe("ip-reputation", () => {
+  it("should parse range lists with labels and comments", () => {
+    const rules = parseRangeList(
+      [
+        "# Hosting providers",
+        "203.0.113.0/24 Example Hosting",
+        "",
+        "2001:db8::/32   # no label",
+        "not-a-range Broken",
+      ].join("\n"),
+    );
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toMatchObject({
+      action: "deny",
+      label: "Example Hosting",
+    });
+    expect(rules[1].label).toBeNull();
+  });
+
+  it("should prefer the most specific range", () => {
+    const rules = [rule("10.0.0.0/8", "deny"), rule("10.1.0.0/16", "allow")];
+    expect(matchRange(rules, parseIp("10.1.2.3")!)?.action).toBe("allow");
+    expect(matchRange(rules, parseIp("10.2.0.1")!)?.action).toBe("deny");
+    expect(matchRange(rules, parseIp("192.0.2.1")!)).toBeNull();
+  });
+
+  it("should let a deny win over an allow on the same prefix", () => {
+    const rules = [rule("10.0.0.0/8", "allow"), rule("10.0.0.0/8", "deny")];
+    expect(matchRange(rules, parseIp("10.0.0.1")!)?.action).toBe("deny");
+    expect(matchRange([...rules].reverse(), parseIp("10.0.0.1")!)?.action).toBe(
+      "deny",
+    );
+  });
+
+  it("should flag addresses from the local range list", async () => {
+    const provider = new LocalRangeProvider(
+      parseRangeList("203.0.113.0/24 Example Hosting"),
+    );
+    await expect(provider.lookup("203.0.113.9")).resolves.toEqual({
+      isVPN: true,
+      provider: "Example Hosting",
+      source: "local",
+    });
+    await expect(provider.lookup("192.0.2.1")).resolves.toMatchObject({
+      isVPN: false,
+    });
+    await expect(provider.lookup("nope")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,395 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { DocumentData, Firestore, Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "./firebase-admin";
+import {
+  CidrRange,
+  cidrContains,
+  formatCidr,
+  parseCidr,
+  parseIp,
+  ParsedIp,
+} from "./cidr";
+import type { IpRangeRuleSummary } from "../../shared/api";
+
+/**
+ * IP reputation (VPN / proxy / data center) lookups.
+ *
+ * Manual allow/deny ranges saved by admins in `ip_reputation_ranges` are
+ * checked first and always win. Other addresses go to the provider chosen
+ * with IP_REPUTATION_PROVIDER:
+ * - "abuseipdb" (default when ABUSEIPDB_API_KEY is set)
+ * - "local": CIDR list read from IP_REPUTATION_RANGES_FILE, one range per
+ *   line optionally followed by a label ("203.0.113.0/24 Example Hosting")
+ * - "mock": flags the ranges listed in IP_REPUTATION_MOCK_RANGES
+ *   (comma-separated), for development
+ *
+ * Provider answers are cached in `ip_reputation_cache` for
+ * IP_REPUTATION_CACHE_TTL_HOURS (default 24). When the provider fails,
+ * IP_REPUTATION_FAILURE_MODE=closed reports the address as a VPN; the
+ * default ("open") lets it through. Failures are never cached.
+ */
+
+export type IpReputationProviderName = "abuseipdb" | "local" | "mock";
+
+export type IpReputationSource =
+  | IpReputationProviderName
+  | "manual"
+  | "unavailable";
+
+export interface IpReputation {
+  isVPN: boolean;
+  // Usage type or range label, when the source knows it
+  provider: string | null;
+  source: IpReputationSource;
+}
+
+export interface IpReputationProvider {
+  readonly name: IpReputationProviderName;
+  lookup(ipAddress: string): Promise<IpReputation>;
+}
+
+export type IpRangeAction = "allow" | "deny";
+
+export interface IpRangeRule {
+  range: CidrRange;
+  action: IpRangeAction;
+  label: string | null;
+}
+
+export class IpReputationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "IpReputationError";
+    this.status = status;
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Manual ranges are read on every lookup, edits show up within this delay
+// on the other instances
+const RANGES_CACHE_TTL_MS = 30 * 1000;
+
+export class AbuseIPDBProvider implements IpReputationProvider {
+  readonly name = "abuseipdb";
+
+  constructor(private apiKey: string) {}
+
+  async lookup(ipAddress: string): Promise<IpReputation> {
+    const response = await fetch("https://api.abuseipdb.com/api/v2/check", {
+      method: "POST",
+      headers: {
+        Key: this.apiKey,
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        ipAddress,
+        maxAgeInDays: "90",
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`AbuseIPDB API request failed: ${response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      data?: {
+        usageType?: string;
+        totalReports?: number;
+      };
+    };
+
+    return {
+      isVPN:
+        data.data?.usageType === "Data Center" ||
+        (data.data?.totalReports || 0) > 5,
+      provider: data.data?.usageType || null,
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * "203.0.113.0/24 Example Hosting" lines; blank lines, "#" comments and
+ * invalid ranges are skipped.
+ */
+export function parseRangeList(text: string): IpRangeRule[] {
+  const rules: IpRangeRule[] = [];
+  for (const line of text.split("\n")) {
+    const content = line.split("#")[0].trim();
+    if (!content) continue;
+
+    const [cidr, ...label] = content.split(/\s+/);
+    const range = parseCidr(cidr);
+    if (!range) {
+      console.warn(`[IP_REPUTATION] Skipping invalid range: ${cidr}`);
+      continue;
+    }
+    rules.push({ range, action: "deny", label: label.join(" ") || null });
+  }
+  return rules;
+}
+
+/**
+ * The most specific range containing the address; on equal prefixes a deny
+ * beats an allow.
+ */
+export function matchRange(
+  rules: IpRangeRule[],
+  ip: ParsedIp,
+): IpRangeRule | null {
+  let best: IpRangeRule | null = null;
+  for (const rule of rules) {
+    if (!cidrContains(rule.range, ip)) continue;
+    if (
+      !best ||
+      rule.range.prefix > best.range.prefix ||
+      (rule.range.prefix === best.range.prefix && rule.action === "deny")
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+export class LocalRangeProvider implements IpReputationProvider {
+  readonly name: IpReputationProviderName;
+
+  constructor(
+    private rules: IpRangeRule[],
+    name: IpReputationProviderName = "local",
+  ) {
+    this.name = name;
+  }
+
+  async lookup(ipAddress: string): Promise<IpReputation> {
+    const ip = parseIp(ipAddress);
+    if (!ip) throw new Error(`Invalid IP address: ${ipAddress}`);
+
+    const match = matchRange(this.rules, ip);
+    return {
+      isVPN: match?.action === "deny",
+      provider: match?.label ?? null,
+      source: this.name,
+    };
+  }
+}
+
+function readRangesFile(path: string | undefined): IpRangeRule[] {
+  if (!path) return [];
+  try {
+    return parseRangeList(readFileSync(path, "utf8"));
+  } catch (error) {
+    console.error(`[IP_REPUTATION] Failed to read ${path}:`, error);
+    return [];
+  }
+}
+
+export function createIpReputationProvider(): IpReputationProvider {
+  const apiKey = process.env.ABUSEIPDB_API_KEY;
+  const kind =
+    process.env.IP_REPUTATION_PROVIDER || (apiKey ? "abuseipdb" : "local");
+
+  switch (kind) {
+    case "abuseipdb":
+      if (apiKey) return new AbuseIPDBProvider(apiKey);
+      console.warn(
+        "[IP_REPUTATION] ABUSEIPDB_API_KEY not configured, using the local provider",
+      );
+      break;
+    case "mock":
+      return new LocalRangeProvider(
+        parseRangeList(
+          (process.env.IP_REPUTATION_MOCK_RANGES || "").replace(/,/g, "\n"),
+        ),
+        "mock",
+      );
+    case "local":
+      break;
+    default:
+      console.warn(
+        `[IP_REPUTATION] Unknown provider "${kind}", using the local provider`,
+      );
+  }
+  return new LocalRangeProvider(
+    readRangesFile(process.env.IP_REPUTATION_RANGES_FILE),
+  );
+}
+
+let provider: IpReputationProvider | null = null;
+
+export function getIpReputationProvider(): IpReputationProvider {
+  if (!provider) provider = createIpReputationProvider();
+  return provider;
+}
+
+function cacheTtlMs(): number {
+  const hours = Number(process.env.IP_REPUTATION_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : 24) * HOUR;
+}
+
+function failClosed(): boolean {
+  return process.env.IP_REPUTATION_FAILURE_MODE === "closed";
+}
+
+// IPv6 addresses contain characters we'd rather not have in document IDs
+function cacheKey(ipAddress: string) {
+  return createHash("sha256").update(ipAddress).digest("hex").slice(0, 40);
+}
+
+// ============ MANUAL RANGES ============
+
+let rangesCache: { rules: IpRangeRule[]; loadedAt: number } | null = null;
+
+async function getManualRanges(db: Firestore): Promise<IpRangeRule[]> {
+  if (rangesCache && Date.now() - rangesCache.loadedAt < RANGES_CACHE_TTL_MS) {
+    return rangesCache.rules;
+  }
+
+  const snapshot = await db.collection("ip_reputation_ranges").get();
+  const rules = snapshot.docs.flatMap((doc) => {
+    const data = doc.data();
+    const range = parseCidr(data.cidr);
+    return range
+      ? [{ range, action: data.action, label: data.note || null }]
+      : [];
+  });
+  rangesCache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+function toRangeSummary(id: string, data: DocumentData): IpRangeRuleSummary {
+  return {
+    id,
+    cidr: data.cidr,
+    action: data.action,
+    note: data.note || "",
+    createdBy: data.createdBy,
+    createdAt: data.createdAt?.toDate().toISOString() ?? null,
+  };
+}
+
+export async function listManualRanges(
+  db: Firestore,
+): Promise<IpRangeRuleSummary[]> {
+  const snapshot = await db
+    .collection("ip_reputation_ranges")
+    .orderBy("createdAt", "desc")
+    .get();
+  return snapshot.docs.map((doc) => toRangeSummary(doc.id, doc.data()));
+}
+
+export async function addManualRange(
+  db: Firestore,
+  input: {
+    cidr: string;
+    action: IpRangeAction;
+    note: string;
+    createdBy: string;
+  },
+): Promise<IpRangeRuleSummary> {
+  const range = parseCidr(input.cidr);
+  if (!range) throw new IpReputationError("Invalid CIDR range");
+  const cidr = formatCidr(range);
+
+  const existing = await db
+    .collection("ip_reputation_ranges")
+    .where("cidr", "==", cidr)
+    .limit(1)
+    .get();
+  if (!existing.empty) {
+    throw new IpReputationError(`${cidr} already has a rule`, 409);
+  }
+
+  const data = {
+    cidr,
+    action: input.action,
+    note: input.note,
+    createdBy: input.createdBy,
+    createdAt: Timestamp.now(),
+  };
+  const ref = await db.collection("ip_reputation_ranges").add(data);
+  rangesCache = null;
+  return toRangeSummary(ref.id, data);
+}
+
+export async function removeManualRange(
+  db: Firestore,
+  id: string,
+): Promise<IpRangeRuleSummary> {
+  const ref = db.collection("ip_reputation_ranges").doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) throw new IpReputationError("Range not found", 404);
+
+  await ref.delete();
+  rangesCache = null;
+  return toRangeSummary(id, snap.data()!);
+}
+
+// ============ LOOKUP ============
+
+/**
+ * Reputation of an address: manual ranges, then the cache, then the
+ * provider. Never throws; provider failures follow the failure mode.
+ */
+export async function checkIpReputation(
+  ipAddress: string,
+): Promise<IpReputation> {
+  const ip = parseIp(ipAddress);
+  const db = getAdminDb();
+
+  if (db && ip) {
+    try {
+      const match = matchRange(await getManualRanges(db), ip);
+      if (match) {
+        return {
+          isVPN: match.action === "deny",
+          provider: match.label,
+          source: "manual",
+        };
+      }
+    } catch (error) {
+      console.error("[IP_REPUTATION] Failed to load manual ranges:", error);
+    }
+  }
+
+  const cacheRef = db
+    ?.collection("ip_reputation_cache")
+    .doc(cacheKey(ipAddress));
+  if (cacheRef) {
+    try {
+      const cached = (await cacheRef.get()).data();
+      if (cached && cached.expiresAt.toMillis() > Date.now()) {
+        return cached.result as IpReputation;
+      }
+    } catch (error) {
+      console.error("[IP_REPUTATION] Cache read failed:", error);
+    }
+  }
+
+  const current = getIpReputationProvider();
+  let result: IpReputation;
+  try {
+    result = await current.lookup(ipAddress);
+  } catch (error) {
+    console.warn(`[IP_REPUTATION] ${current.name} lookup failed:`, error);
+    return { isVPN: failClosed(), provider: null, source: "unavailable" };
+  }
+
+  const ttl = cacheTtlMs();
+  if (cacheRef && ttl > 0) {
+    await cacheRef
+      .set({
+        ipAddress,
+        result,
+        expiresAt: Timestamp.fromMillis(Date.now() + ttl),
+      })
+      .catch((error) =>
+        console.error("[IP_REPUTATION] Cache write failed:", error),
+      );
+  }
+  return result;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { licensesToCSV } from "./license-batches";
+
+describe("license batches", () => {
+  it("should export licenses as CSV with escaped fields", () => {
+    const csv = licensesToCSV([
+      {
+        key: "LIC-1-AAAAAAAAA",
+        plan: "Pro",
+        validityDays: 365,
+        status: "issued",
+        seats: 1,
+        holders: "",
+        expiresAt: null,
+        createdAt: "2024-01-01T00:00:00.000Z",
+      },
+      {
+        key: 'LIC-2-"QUOTED"',
+        plan: "Classic, annual",
+        validityDays: 30,
+        status: "active",
+        seats: 3,
+        holders: "user1 user2",
+        expiresAt: "2024-02-01T00:00:00.000Z",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      },
+    ]);
+
+    expect(csv.split("\r\n")).toEqual([
+      "key,plan,validityDays,status,seats,holders,expiresAt,createdAt",
+      "LIC-1-AAAAAAAAA,Pro,365,issued,1,,,2024-01-01T00:00:00.000Z",
+      '"LIC-2-""QUOTED""","Classic, annual",30,active,3,user1 user2,2024-02-01T00:00:00.000Z,2024-01-01T00:00:00.000Z',
+      "",
+    ]);
+  });
+});
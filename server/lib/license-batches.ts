@@ -0,0 +1,216 @@
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { freePlanUpdate } from "./maintenance";
+import { generateBatchId, issueLicenseKey } from "./license-signing";
+import { newLicenseData } from "./licenses";
+import { readLicense } from "../../shared/licenses";
+import type { LicenseBatchSummary } from "../../shared/api";
+import type { PlanName } from "../../shared/plans";
+
+/**
+ * Bulk license generation for resellers.
+ *
+ * A batch lives in `license_batches/{batchId}` and its keys are ordinary
+ * `licenses` documents tagged with `batchId`; the batch id is also signed
+ * into each key.
+ * Revoking a batch revokes every key and reverts the users still on one of
+ * them to Free.
+ */
+
+export interface CreateLicenseBatchOptions {
+  name: string;
+  reseller: string;
+  plan: PlanName;
+  validityDays: number;
+  count: number;
+  seats: number;
+  createdBy: string;
+}
+
+export interface LicenseCSVRow {
+  key: string;
+  plan: string;
+  validityDays: number;
+  status: string;
+  seats: number;
+  holders: string;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// Firestore batched writes are limited to 500 operations
+const WRITE_BATCH_SIZE = 450;
+
+function toISO(value: any): string | null {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate().toISOString();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function toLicenseBatchSummary(
+  id: string,
+  data: Record<string, any>,
+): LicenseBatchSummary {
+  return {
+    id,
+    name: data.name,
+    reseller: data.reseller,
+    plan: data.plan,
+    validityDays: data.validityDays,
+    count: data.count || 0,
+    createdBy: data.createdBy,
+    createdAt: toISO(data.createdAt) || "",
+    revoked: data.revoked === true,
+    revokedAt: toISO(data.revokedAt),
+  };
+}
+
+export async function createLicenseBatch(
+  db: Firestore,
+  options: CreateLicenseBatchOptions,
+): Promise<{ batch: LicenseBatchSummary; keys: string[] }> {
+  const batchRef = db.collection("license_batches").doc(generateBatchId());
+  const createdAt = Timestamp.now();
+  const keys = new Set<string>();
+  while (keys.size < options.count) {
+    keys.add(
+      issueLicenseKey({
+        plan: options.plan,
+        validityDays: options.validityDays,
+        batchId: batchRef.id,
+      }),
+    );
+  }
+
+  const keyList = [...keys];
+  for (let i = 0; i < keyList.length; i += WRITE_BATCH_SIZE) {
+    const writes = db.batch();
+    for (const key of keyList.slice(i, i + WRITE_BATCH_SIZE)) {
+      writes.create(
+        db.collection("licenses").doc(key),
+        newLicenseData({
+          key,
+          plan: options.plan,
+          validityDays: options.validityDays,
+          seats: options.seats,
+          batchId: batchRef.id,
+          createdBy: options.createdBy,
+          createdAt,
+        }),
+      );
+    }
+    await writes.commit();
+  }
+
+  // Written last: a batch document always refers to keys that exist
+  const data = {
+    name: options.name,
+    reseller: options.reseller,
+    plan: options.plan,
+    validityDays: options.validityDays,
+    seats: options.seats,
+    count: keyList.length,
+    createdBy: options.createdBy,
+    createdAt,
+    revoked: false,
+    revokedAt: null,
+    revokedBy: null,
+  };
+  await batchRef.set(data);
+
+  return { batch: toLicenseBatchSummary(batchRef.id, data), keys: keyList };
+}
+
+export async function getBatchLicenses(db: Firestore, batchId: string) {
+  const snapshot = await db
+    .collection("licenses")
+    .where("batchId", "==", batchId)
+    .get();
+  return snapshot.docs;
+}
+
+/**
+ * Invalidate every key of the batch and downgrade the users whose current
+ * license belongs to it. Returns null when the batch does not exist.
+ */
+export async function revokeLicenseBatch(
+  db: Firestore,
+  batchId: string,
+  revokedBy: string,
+): Promise<{ licensesRevoked: number; usersDowngraded: number } | null> {
+  const batchRef = db.collection("license_batches").doc(batchId);
+  const batchSnap = await batchRef.get();
+  if (!batchSnap.exists) return null;
+
+  const licenses = await getBatchLicenses(db, batchId);
+  const revokedAt = Timestamp.now();
+  let usersDowngraded = 0;
+
+  for (let i = 0; i < licenses.length; i += WRITE_BATCH_SIZE) {
+    const chunk = licenses.slice(i, i + WRITE_BATCH_SIZE);
+    const writes = db.batch();
+
+    for (const license of chunk) {
+      writes.update(license.ref, { status: "revoked", revokedAt, revokedBy });
+    }
+
+    const userIds = chunk.flatMap(
+      (license) => readLicense(license.data()).holders,
+    );
+    const users = userIds.length
+      ? await db.getAll(
+          ...userIds.map((uid) => db.collection("users").doc(uid)),
+        )
+      : [];
+    const keys = new Set(chunk.map((license) => license.id));
+
+    for (const user of users) {
+      if (user.exists && keys.has(user.data()?.licenseKey)) {
+        writes.update(user.ref, freePlanUpdate());
+        usersDowngraded++;
+      }
+    }
+
+    await writes.commit();
+  }
+
+  await batchRef.update({ revoked: true, revokedAt, revokedBy });
+
+  return { licensesRevoked: licenses.length, usersDowngraded };
+}
+
+function escapeCSV(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function licensesToCSV(rows: LicenseCSVRow[]): string {
+  const header: (keyof LicenseCSVRow)[] = [
+    "key",
+    "plan",
+    "validityDays",
+    "status",
+    "seats",
+    "holders",
+    "expiresAt",
+    "createdAt",
+  ];
+  const lines = rows.map((row) =>
+    header.map((column) => escapeCSV(row[column])).join(","),
+  );
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+export function toLicenseCSVRow(data: Record<string, any>): LicenseCSVRow {
+  const license = readLicense(data);
+  return {
+    key: data.key,
+    plan: data.plan,
+    validityDays: data.validityDays,
+    status: license.status,
+    seats: license.seats,
+    holders: license.holders.join(" "),
+    expiresAt: toISO(data.expiresAt),
+    createdAt: toISO(data.createdAt) || "",
+  };
+}
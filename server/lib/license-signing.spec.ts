@@ -0,0 +1,56 @@
+import { generateKeyPairSync } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import { checkCharacter, parseLicenseKey } from "../../shared/license-key";
+import {
+  generateBatchId,
+  issueLicenseKey,
+  verifyLicenseKey,
+} from "./license-signing";
+
+function replaceAt(text: string, index: number, char: string) {
+  return text.slice(0, index) + char + text.slice(index + 1);
+}
+
+describe("license signing", () => {
+  beforeAll(() => {
+    const { privateKey } = generateKeyPairSync("ed25519");
+    process.env.LICENSE_SIGNING_KEY = privateKey
+      .export({ type: "pkcs8", format: "der" })
+      .toString("base64");
+  });
+
+  it("should round-trip plan, validity and batch through a signed key", () => {
+    const batchId = generateBatchId();
+    const key = issueLicenseKey({ plan: "Pro", validityDays: 90, batchId });
+
+    expect(key).toMatch(/^LIC2-[0-9A-Z]{28}-[0-9A-Z]{104}$/);
+    expect(verifyLicenseKey(key)).toMatchObject({
+      plan: "Pro",
+      validityDays: 90,
+      batchId,
+    });
+    expect(verifyLicenseKey(key.toLowerCase()).plan).toBe("Pro");
+  });
+
+  it("should reject a mistyped key by its check character", () => {
+    const key = issueLicenseKey({ plan: "Classic", validityDays: 30 });
+    const index = key.length - 20;
+    const typo = replaceAt(key, index, key[index] === "A" ? "B" : "A");
+
+    expect(parseLicenseKey(typo)).toEqual({ problem: "checksum" });
+    expect(() => verifyLicenseKey(typo)).toThrow("Clé de licence mal saisie");
+  });
+
+  it("should reject a payload paired with another key's signature", () => {
+    const free = issueLicenseKey({ plan: "Free", validityDays: 30 });
+    const pro = issueLicenseKey({ plan: "Pro", validityDays: 30 });
+
+    // Pro payload + Free signature, with a correct check character
+    const payload = pro.slice(5, 33);
+    const signature = free.slice(34, -1);
+    const forged = `LIC2-${payload}-${signature}${checkCharacter(payload + signature)}`;
+
+    expect("problem" in parseLicenseKey(forged)).toBe(false);
+    expect(() => verifyLicenseKey(forged)).toThrow("Clé de licence invalide");
+  });
+});
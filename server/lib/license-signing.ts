@@ -0,0 +1,142 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  KeyObject,
+  randomBytes,
+  sign,
+  verify,
+} from "crypto";
+import { pathToFileURL } from "url";
+import {
+  encodeBase32,
+  encodeLicensePayload,
+  formatLicenseKey,
+  LICENSE_KEY_VERSION,
+  LicensePayload,
+  parseLicenseKey,
+} from "../../shared/license-key";
+import type { PlanName } from "../../shared/plans";
+
+/**
+ * Ed25519 signing of license keys (format in shared/license-key.ts).
+ *
+ * LICENSE_SIGNING_KEY holds the PKCS#8 private key, PEM or base64 DER. An
+ * instance that only activates keys can set LICENSE_PUBLIC_KEY (SPKI)
+ * instead. `npm run license:keygen` prints a fresh key pair.
+ *
+ * Keys minted before signing ("LIC-…"/"LICENSE-…") are only accepted while
+ * ALLOW_LEGACY_LICENSE_KEYS is not "false".
+ */
+
+export class LicenseKeyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LicenseKeyError";
+    this.status = status;
+  }
+}
+
+let signingKey: KeyObject | null = null;
+let verifyKey: KeyObject | null = null;
+
+function readKeyMaterial<T extends "pkcs8" | "spki">(value: string, type: T) {
+  const text = value.replace(/\\n/g, "\n").trim();
+  const pem = text.startsWith("-----BEGIN");
+  return {
+    key: pem ? text : Buffer.from(text, "base64"),
+    format: pem ? ("pem" as const) : ("der" as const),
+    type,
+  };
+}
+
+function getSigningKey(): KeyObject {
+  if (!signingKey) {
+    const value = process.env.LICENSE_SIGNING_KEY;
+    if (!value) {
+      throw new LicenseKeyError("LICENSE_SIGNING_KEY is not configured", 500);
+    }
+    signingKey = createPrivateKey(readKeyMaterial(value, "pkcs8"));
+  }
+  return signingKey;
+}
+
+function getVerifyKey(): KeyObject {
+  if (!verifyKey) {
+    const value = process.env.LICENSE_PUBLIC_KEY;
+    verifyKey = value
+      ? createPublicKey(readKeyMaterial(value, "spki"))
+      : createPublicKey(getSigningKey());
+  }
+  return verifyKey;
+}
+
+export function legacyLicenseKeysAllowed(): boolean {
+  return process.env.ALLOW_LEGACY_LICENSE_KEYS !== "false";
+}
+
+// 5 random bytes, encoded as the 8 characters a key payload can carry
+export function generateBatchId(): string {
+  let id = "";
+  while (!/[1-9A-Z]/.test(id)) {
+    id = encodeBase32(randomBytes(5));
+  }
+  return id;
+}
+
+export function issueLicenseKey(options: {
+  plan: PlanName;
+  validityDays: number;
+  batchId?: string | null;
+}): string {
+  const payload: LicensePayload = {
+    version: LICENSE_KEY_VERSION,
+    plan: options.plan,
+    validityDays: options.validityDays,
+    issuedAt: Math.floor(Date.now() / 1000),
+    batchId: options.batchId ?? null,
+    nonce: randomBytes(4).readUInt32BE(0),
+  };
+  const payloadBytes = encodeLicensePayload(payload);
+  const signature = sign(null, payloadBytes, getSigningKey());
+
+  return formatLicenseKey(payloadBytes, signature);
+}
+
+/**
+ * Check the structure, check character and signature of a signed key and
+ * return its payload. Throws LicenseKeyError (400) for a bad key.
+ */
+export function verifyLicenseKey(key: string): LicensePayload {
+  const parsed = parseLicenseKey(key);
+  if ("problem" in parsed) {
+    throw new LicenseKeyError(
+      parsed.problem === "checksum"
+        ? "Clé de licence mal saisie"
+        : "Clé de licence invalide",
+    );
+  }
+  if (parsed.payload.version !== LICENSE_KEY_VERSION) {
+    throw new LicenseKeyError("Version de clé de licence non supportée");
+  }
+  if (!verify(null, parsed.payloadBytes, getVerifyKey(), parsed.signature)) {
+    throw new LicenseKeyError("Clé de licence invalide");
+  }
+  return parsed.payload;
+}
+
+// Print a key pair for LICENSE_SIGNING_KEY / LICENSE_PUBLIC_KEY
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  console.log(
+    `LICENSE_SIGNING_KEY=${privateKey.export({ type: "pkcs8", format: "der" }).toString("base64")}`,
+  );
+  console.log(
+    `LICENSE_PUBLIC_KEY=${publicKey.export({ type: "spki", format: "der" }).toString("base64")}`,
+  );
+}
@@ -0,0 +1,344 @@
+import {
+  DocumentSnapshot,
+  FieldValue,
+  Firestore,
+  Timestamp,
+  Transaction,
+} from "firebase-admin/firestore";
+import { freePlanUpdate } from "./maintenance";
+import { issueLicenseKey } from "./license-signing";
+import { getPlan, PlanName } from "../../shared/plans";
+import { hasFreeSeat, readLicense } from "../../shared/licenses";
+import type { LicenseSummary } from "../../shared/api";
+
+/**
+ * License lifecycle on `licenses/{key}` (model in shared/licenses.ts):
+ * creation, seat activation, revocation, extension and transfer. Every
+ * operation that changes who holds a license updates the affected user
+ * documents in the same transaction, so a revoked or transferred license
+ * downgrades its former holders immediately.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LicenseError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "LicenseError";
+    this.status = status;
+  }
+}
+
+export interface NewLicenseFields {
+  key: string;
+  plan: PlanName;
+  validityDays: number;
+  seats: number;
+  batchId: string | null;
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
+export function newLicenseData(fields: NewLicenseFields) {
+  return {
+    ...fields,
+    status: "issued",
+    holders: [] as string[],
+    expiresAt: null,
+    activatedAt: null,
+  };
+}
+
+export async function createLicense(
+  db: Firestore,
+  options: {
+    plan: PlanName;
+    validityDays: number;
+    seats?: number;
+    createdBy: string;
+  },
+): Promise<string> {
+  const key = issueLicenseKey({
+    plan: options.plan,
+    validityDays: options.validityDays,
+  });
+  await db
+    .collection("licenses")
+    .doc(key)
+    .create(
+      newLicenseData({
+        key,
+        plan: options.plan,
+        validityDays: options.validityDays,
+        seats: options.seats ?? 1,
+        batchId: null,
+        createdBy: options.createdBy,
+        createdAt: Timestamp.now(),
+      }),
+    );
+  return key;
+}
+
+function toISO(millis: number | null): string | null {
+  return millis === null ? null : new Date(millis).toISOString();
+}
+
+export function toLicenseSummary(
+  key: string,
+  data: Record<string, any>,
+): LicenseSummary {
+  const state = readLicense(data);
+  const createdAt = data.createdAt?.toMillis?.() ?? data.createdAt;
+  return {
+    key,
+    plan: data.plan,
+    status: state.status,
+    seats: state.seats,
+    holders: state.holders,
+    validityDays: data.validityDays,
+    expiresAt: toISO(state.expiresAt),
+    batchId: data.batchId || null,
+    createdAt: createdAt ? new Date(createdAt).toISOString() : null,
+  };
+}
+
+// Only the budget changes: the day's usage stays, so switching licenses
+// cannot clear it
+function licensedUserUpdate(plan: string, key: string, expiresAt: number) {
+  return {
+    plan,
+    tokenBudget: getPlan(plan).dailyTokenBudget,
+    licenseKey: key,
+    licenseExpiresAt: Timestamp.fromMillis(expiresAt),
+  };
+}
+
+async function getLicenseInTx(
+  tx: Transaction,
+  db: Firestore,
+  key: string,
+): Promise<DocumentSnapshot> {
+  const snap = await tx.get(db.collection("licenses").doc(key));
+  if (!snap.exists) {
+    throw new LicenseError("Clé de licence invalide", 404);
+  }
+  return snap;
+}
+
+/**
+ * Take a seat on the license for `userId`. Re-activating a license the user
+ * already holds a seat on (e.g. after the plan lapsed) does not take a new
+ * one. A seat held on another license is released.
+ */
+export async function activateLicense(
+  db: Firestore,
+  key: string,
+  userId: string,
+) {
+  return db.runTransaction(async (tx) => {
+    const licenseSnap = await getLicenseInTx(tx, db, key);
+    const userRef = db.collection("users").doc(userId);
+    const userSnap = await tx.get(userRef);
+    if (!userSnap.exists) {
+      throw new LicenseError("User not found", 404);
+    }
+
+    const data = licenseSnap.data()!;
+    const license = readLicense(data);
+    const previousKey: string | undefined = userSnap.data()?.licenseKey;
+    const previousSnap =
+      previousKey && previousKey !== key
+        ? await tx.get(db.collection("licenses").doc(previousKey))
+        : null;
+
+    if (license.status === "revoked") {
+      throw new LicenseError("Clé de licence révoquée");
+    }
+    if (license.status === "expired") {
+      throw new LicenseError("Clé de licence expirée");
+    }
+
+    const isHolder = license.holders.includes(userId);
+    if (isHolder && previousKey === key) {
+      throw new LicenseError("Licence déjà activée sur ce compte", 409);
+    }
+    if (!isHolder && !hasFreeSeat(license)) {
+      throw new LicenseError(
+        "Toutes les places de cette licence sont utilisées",
+        409,
+      );
+    }
+
+    const plan = data.plan || "Classic";
+    const validityDays = data.validityDays || 30;
+    const expiresAt = license.expiresAt ?? Date.now() + validityDays * DAY_MS;
+
+    tx.update(licenseSnap.ref, {
+      status: "active",
+      holders: FieldValue.arrayUnion(userId),
+      expiresAt: Timestamp.fromMillis(expiresAt),
+      activatedAt: data.activatedAt ?? Timestamp.now(),
+    });
+    if (previousSnap?.exists) {
+      tx.update(previousSnap.ref, {
+        holders: FieldValue.arrayRemove(userId),
+      });
+    }
+    tx.update(userRef, licensedUserUpdate(plan, key, expiresAt));
+
+    return {
+      plan,
+      tokenBudget: getPlan(plan).dailyTokenBudget,
+      tokensUsed: (userSnap.data()?.tokensUsed as number) || 0,
+      expiresAt,
+    };
+  });
+}
+
+/**
+ * Revoke the license and downgrade every holder still on it.
+ */
+export async function revokeLicense(
+  db: Firestore,
+  key: string,
+  revokedBy: string,
+): Promise<{ holdersDowngraded: number }> {
+  return db.runTransaction(async (tx) => {
+    const licenseSnap = await getLicenseInTx(tx, db, key);
+    const license = readLicense(licenseSnap.data()!);
+    if (license.status === "revoked") {
+      throw new LicenseError("Licence déjà révoquée", 409);
+    }
+
+    const users = license.holders.length
+      ? await tx.getAll(
+          ...license.holders.map((uid) => db.collection("users").doc(uid)),
+        )
+      : [];
+
+    tx.update(licenseSnap.ref, {
+      status: "revoked",
+      revokedAt: Timestamp.now(),
+      revokedBy,
+    });
+
+    let holdersDowngraded = 0;
+    for (const user of users) {
+      if (user.exists && user.data()?.licenseKey === key) {
+        tx.update(user.ref, freePlanUpdate());
+        holdersDowngraded++;
+      }
+    }
+    return { holdersDowngraded };
+  });
+}
+
+/**
+ * Push the expiry back by `days` (from now if it already passed). A license
+ * that was never activated gets a longer validity instead.
+ */
+export async function extendLicense(
+  db: Firestore,
+  key: string,
+  days: number,
+): Promise<{ expiresAt: number | null; validityDays: number }> {
+  return db.runTransaction(async (tx) => {
+    const licenseSnap = await getLicenseInTx(tx, db, key);
+    const data = licenseSnap.data()!;
+    const license = readLicense(data);
+    if (license.status === "revoked") {
+      throw new LicenseError("Impossible de prolonger une licence révoquée");
+    }
+
+    if (license.expiresAt === null) {
+      const validityDays = (data.validityDays || 30) + days;
+      tx.update(licenseSnap.ref, { validityDays });
+      return { expiresAt: null, validityDays };
+    }
+
+    const expiresAt = Math.max(license.expiresAt, Date.now()) + days * DAY_MS;
+    const users = license.holders.length
+      ? await tx.getAll(
+          ...license.holders.map((uid) => db.collection("users").doc(uid)),
+        )
+      : [];
+
+    tx.update(licenseSnap.ref, {
+      expiresAt: Timestamp.fromMillis(expiresAt),
+      status: license.holders.length ? "active" : "issued",
+    });
+    for (const user of users) {
+      if (user.exists && user.data()?.licenseKey === key) {
+        tx.update(user.ref, {
+          licenseExpiresAt: Timestamp.fromMillis(expiresAt),
+        });
+      }
+    }
+    return { expiresAt, validityDays: data.validityDays };
+  });
+}
+
+/**
+ * Move `fromUserId`'s seat to `toUserId`: the former holder goes back to
+ * Free, the new one gets the plan with the same expiry.
+ */
+export async function transferLicense(
+  db: Firestore,
+  key: string,
+  fromUserId: string,
+  toUserId: string,
+) {
+  if (fromUserId === toUserId) {
+    throw new LicenseError("Source and target users are the same");
+  }
+
+  return db.runTransaction(async (tx) => {
+    const licenseSnap = await getLicenseInTx(tx, db, key);
+    const data = licenseSnap.data()!;
+    const license = readLicense(data);
+    const [fromSnap, toSnap] = await tx.getAll(
+      db.collection("users").doc(fromUserId),
+      db.collection("users").doc(toUserId),
+    );
+    if (!toSnap.exists) {
+      throw new LicenseError("Target user not found", 404);
+    }
+    const previousKey: string | undefined = toSnap.data()?.licenseKey;
+    const previousSnap =
+      previousKey && previousKey !== key
+        ? await tx.get(db.collection("licenses").doc(previousKey))
+        : null;
+
+    if (license.status !== "active" || license.expiresAt === null) {
+      throw new LicenseError("Only an active license can be transferred");
+    }
+    if (!license.holders.includes(fromUserId)) {
+      throw new LicenseError("Source user does not hold this license");
+    }
+    if (license.holders.includes(toUserId)) {
+      throw new LicenseError("Target user already holds this license", 409);
+    }
+
+    tx.update(licenseSnap.ref, {
+      holders: license.holders.map((uid) =>
+        uid === fromUserId ? toUserId : uid,
+      ),
+    });
+    if (previousSnap?.exists) {
+      tx.update(previousSnap.ref, {
+        holders: FieldValue.arrayRemove(toUserId),
+      });
+    }
+    if (fromSnap.exists && fromSnap.data()?.licenseKey === key) {
+      tx.update(fromSnap.ref, freePlanUpdate());
+    }
+    tx.update(
+      toSnap.ref,
+      licensedUserUpdate(data.plan, key, license.expiresAt),
+    );
+
+    return { plan: data.plan, expiresAt: license.expiresAt };
+  });
+}
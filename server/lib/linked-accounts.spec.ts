@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { clusterAccounts, type AccountLink } from "./linked-accounts";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function link(
+  userId: string,
+  kind: AccountLink["kind"],
+  value: string,
+  firstSeen = 0,
+  lastSeen = firstSeen,
+): AccountLink {
+  return { userId, kind, value, firstSeen, lastSeen };
+}
+
+describe("linked accounts", () => {
+  it("should link accounts transitively through IPs and devices", () => {
+    const clusters = clusterAccounts([
+      link("a", "ip", "203.0.113.5"),
+      link("b", "ip", "203.0.113.5"),
+      link("b", "device", "device-1"),
+      link("c", "device", "device-1"),
+      link("d", "ip", "198.51.100.7"),
+    ]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].userIds.sort()).toEqual(["a", "b", "c"]);
+    expect(clusters[0].shared.map((s) => s.value).sort()).toEqual([
+      "203.0.113.5",
+      "device-1",
+    ]);
+  });
+
+  it("should ignore accounts that share nothing", () => {
+    expect(
+      clusterAccounts([
+        link("a", "ip", "203.0.113.5"),
+        link("a", "device", "device-1"),
+        link("b", "ip", "198.51.100.7"),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should report when a shared identifier was first and last used", () => {
+    const [cluster] = clusterAccounts([
+      link("a", "ip", "203.0.113.5", 2 * DAY, 5 * DAY),
+      link("b", "ip", "203.0.113.5", 1 * DAY, 3 * DAY),
+      link("a", "ip", "203.0.113.5", 4 * DAY, 4 * DAY),
+    ]);
+
+    expect(cluster.shared[0]).toMatchObject({
+      kind: "ip",
+      userIds: ["a", "b"],
+      firstSeen: new Date(1 * DAY).toISOString(),
+      lastSeen: new Date(5 * DAY).toISOString(),
+    });
+  });
+
+  it("should sort clusters largest first", () => {
+    const clusters = clusterAccounts([
+      link("a", "ip", "198.51.100.7"),
+      link("b", "ip", "198.51.100.7"),
+      link("c", "device", "device-1"),
+      link("d", "device", "device-1"),
+      link("e", "device", "device-1"),
+    ]);
+
+    expect(clusters.map((c) => c.userIds.length)).toEqual([3, 2]);
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  Firestore,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { parseIp } from "./cidr";
+import { isUserBanned } from "../../shared/bans";
+import { resolveUserRole } from "../../shared/roles";
+import type {
+  AccountClusterSummary,
+  LinkedAccountSummary,
+  SharedIdentifier,
+} from "../../shared/api";
+
+/**
+ * Multi-account detection. Accounts are linked when they used the same IP
+ * address (`user_ips`) or the same browser (`user_devices`, a random ID the
+ * client keeps in localStorage); clusters are the connected groups of that
+ * graph. Both collections are written only from verified sessions: the
+ * registration and the login of the account itself.
+ */
+
+export type IdentifierKind = SharedIdentifier["kind"];
+
+export interface AccountLink {
+  userId: string;
+  kind: IdentifierKind;
+  value: string;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface AccountCluster {
+  userIds: string[];
+  shared: SharedIdentifier[];
+}
+
+const COLLECTIONS: Record<IdentifierKind, string> = {
+  ip: "user_ips",
+  device: "user_devices",
+};
+const FIELDS: Record<IdentifierKind, string> = {
+  ip: "ipAddress",
+  device: "deviceId",
+};
+
+// Firestore "in" queries accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+// Keeps one lookup bounded when a shared address (a school, a carrier NAT)
+// links hundreds of accounts
+const MAX_CLUSTER_ACCOUNTS = 50;
+
+// Most recent records read per collection when listing clusters
+const MAX_SCANNED_RECORDS = 5000;
+
+// Timestamps, or epoch milliseconds on profiles created by the client
+function toMillis(value: any): number {
+  if (typeof value === "number") return value;
+  return value?.toMillis?.() ?? 0;
+}
+
+/**
+ * Group accounts that share an IP or device, directly or through other
+ * accounts. Only identifiers used by two or more accounts are listed;
+ * clusters are sorted largest first.
+ */
+export function clusterAccounts(links: AccountLink[]): AccountCluster[] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const identifiers = new Map<string, SharedIdentifier>();
+  for (const link of links) {
+    if (!parent.has(link.userId)) parent.set(link.userId, link.userId);
+
+    const key = `${link.kind}:${link.value}`;
+    const shared = identifiers.get(key);
+    if (!shared) {
+      identifiers.set(key, {
+        kind: link.kind,
+        value: link.value,
+        userIds: [link.userId],
+        firstSeen: new Date(link.firstSeen).toISOString(),
+        lastSeen: new Date(link.lastSeen).toISOString(),
+      });
+      continue;
+    }
+
+    if (!shared.userIds.includes(link.userId)) {
+      parent.set(find(link.userId), find(shared.userIds[0]));
+      shared.userIds.push(link.userId);
+    }
+    if (link.firstSeen < Date.parse(shared.firstSeen)) {
+      shared.firstSeen = new Date(link.firstSeen).toISOString();
+    }
+    if (link.lastSeen > Date.parse(shared.lastSeen)) {
+      shared.lastSeen = new Date(link.lastSeen).toISOString();
+    }
+  }
+
+  const clusters = new Map<string, AccountCluster>();
+  for (const userId of parent.keys()) {
+    const root = find(userId);
+    if (!clusters.has(root)) clusters.set(root, { userIds: [], shared: [] });
+    clusters.get(root)!.userIds.push(userId);
+  }
+  for (const shared of identifiers.values()) {
+    if (shared.userIds.length < 2) continue;
+    clusters.get(find(shared.userIds[0]))!.shared.push(shared);
+  }
+
+  return [...clusters.values()]
+    .filter((cluster) => cluster.userIds.length > 1)
+    .sort((a, b) => b.userIds.length - a.userIds.length);
+}
+
+function toLinks(
+  kind: IdentifierKind,
+  docs: QueryDocumentSnapshot[],
+): AccountLink[] {
+  return docs.map((doc) => {
+    const data = doc.data();
+    return {
+      userId: data.userId,
+      kind,
+      value: data[FIELDS[kind]],
+      firstSeen: toMillis(data.recordedAt),
+      lastSeen: toMillis(data.lastUsed ?? data.recordedAt),
+    };
+  });
+}
+
+async function linksByField(
+  db: Firestore,
+  kind: IdentifierKind,
+  field: string,
+  values: string[],
+): Promise<AccountLink[]> {
+  const links: AccountLink[] = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    const snapshot = await db
+      .collection(COLLECTIONS[kind])
+      .where(field, "in", values.slice(i, i + IN_QUERY_LIMIT))
+      .get();
+    links.push(...toLinks(kind, snapshot.docs));
+  }
+  return links;
+}
+
+async function loadAccounts(
+  db: Firestore,
+  userIds: string[],
+): Promise<LinkedAccountSummary[]> {
+  if (userIds.length === 0) return [];
+  const snaps = await db.getAll(
+    ...userIds.map((id) => db.collection("users").doc(id)),
+  );
+  return snaps.map((snap) => {
+    const data = snap.data() ?? {};
+    return {
+      userId: snap.id,
+      email: data.email || "",
+      plan: data.plan || "Free",
+      role: resolveUserRole(data),
+      isBanned: isUserBanned(data),
+      createdAt: data.createdAt
+        ? new Date(toMillis(data.createdAt)).toISOString()
+        : null,
+      exists: snap.exists,
+    };
+  });
+}
+
+async function toSummary(
+  db: Firestore,
+  cluster: AccountCluster,
+): Promise<AccountClusterSummary> {
+  return {
+    accounts: await loadAccounts(db, cluster.userIds),
+    shared: cluster.shared.sort((a, b) => b.userIds.length - a.userIds.length),
+  };
+}
+
+/**
+ * The cluster around one account, followed hop by hop through shared IPs
+ * and devices. Null when the account shares nothing.
+ */
+export async function getLinkedAccounts(
+  db: Firestore,
+  userId: string,
+): Promise<AccountClusterSummary | null> {
+  const links: AccountLink[] = [];
+  const seenUsers = new Set<string>();
+  const seenValues = new Set<string>();
+  let frontier = [userId];
+
+  while (frontier.length > 0 && seenUsers.size < MAX_CLUSTER_ACCOUNTS) {
+    frontier.forEach((id) => seenUsers.add(id));
+
+    const own: AccountLink[] = [];
+    for (const kind of Object.keys(COLLECTIONS) as IdentifierKind[]) {
+      own.push(...(await linksByField(db, kind, "userId", frontier)));
+    }
+
+    const next = new Set<string>();
+    for (const kind of Object.keys(COLLECTIONS) as IdentifierKind[]) {
+      const values = [
+        ...new Set(
+          own
+            .filter((link) => link.kind === kind)
+            .map((link) => link.value)
+            .filter((value) => !seenValues.has(`${kind}:${value}`)),
+        ),
+      ];
+      values.forEach((value) => seenValues.add(`${kind}:${value}`));
+
+      for (const link of await linksByField(db, kind, FIELDS[kind], values)) {
+        links.push(link);
+        if (!seenUsers.has(link.userId)) next.add(link.userId);
+      }
+    }
+    frontier = [...next].slice(0, MAX_CLUSTER_ACCOUNTS - seenUsers.size);
+  }
+
+  const cluster = clusterAccounts(
+    links.filter((link) => seenUsers.has(link.userId)),
+  ).find((c) => c.userIds.includes(userId));
+  return cluster ? toSummary(db, cluster) : null;
+}
+
+/**
+ * Largest clusters among the IPs and devices used since `sinceDays` ago.
+ */
+export async function listAccountClusters(
+  db: Firestore,
+  options: { sinceDays: number; limit: number },
+): Promise<AccountClusterSummary[]> {
+  const since = Timestamp.fromMillis(
+    Date.now() - options.sinceDays * 24 * 60 * 60 * 1000,
+  );
+
+  const links: AccountLink[] = [];
+  for (const kind of Object.keys(COLLECTIONS) as IdentifierKind[]) {
+    const snapshot = await db
+      .collection(COLLECTIONS[kind])
+      .where("lastUsed", ">=", since)
+      .orderBy("lastUsed", "desc")
+      .limit(MAX_SCANNED_RECORDS)
+      .get();
+    links.push(...toLinks(kind, snapshot.docs));
+  }
+
+  const clusters = clusterAccounts(links).slice(0, options.limit);
+  return Promise.all(clusters.map((cluster) => toSummary(db, cluster)));
+}
+
+/**
+ * Record that an account was used from an IP and, when known, a device.
+ */
+export async function recordAccountUse(
+  db: Firestore,
+  input: {
+    userId: string;
+    email: string | null;
+    ipAddress: string;
+    deviceId?: string | null;
+  },
+): Promise<void> {
+  const now = Timestamp.now();
+  const entries: [IdentifierKind, string | null | undefined][] = [
+    ["ip", input.ipAddress],
+    ["device", input.deviceId],
+  ];
+
+  for (const [kind, value] of entries) {
+    // "unknown" and the like would link every account missing an address
+    if (!value || (kind === "ip" && !parseIp(value))) continue;
+    const existing = await db
+      .collection(COLLECTIONS[kind])
+      .where("userId", "==", input.userId)
+      .where(FIELDS[kind], "==", value)
+      .limit(1)
+      .get();
+
+    if (!existing.empty) {
+      await existing.docs[0].ref.update({ lastUsed: now });
+    } else {
+      await db.collection(COLLECTIONS[kind]).add({
+        userId: input.userId,
+        email: input.email,
+        [FIELDS[kind]]: value,
+        recordedAt: now,
+        lastUsed: now,
+      });
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  createProvider,
+  LLMProviderError,
+  LLMStreamChunk,
+  resolveProvider,
+} from "./llm-providers";
+import { LocalLLMStub, startLocalLLMStub } from "./local-llm-stub";
+
+describe("llm-providers", () => {
+  let stub: LocalLLMStub;
+
+  beforeAll(async () => {
+    stub = await startLocalLLMStub();
+    process.env.LOCAL_LLM_URL = stub.url;
+  });
+
+  afterAll(async () => {
+    delete process.env.LOCAL_LLM_URL;
+    await stub.close();
+  });
+
+  const messages = [
+    { role: "system" as const, content: "Be brief." },
+    { role: "user" as const, content: "Bonjour le monde" },
+  ];
+
+  it("should complete against a local OpenAI-compatible server", async () => {
+    const provider = createProvider("local");
+    const result = await provider.complete({ model: "stub", messages });
+
+    expect(result.content).toBe("Echo: Bonjour le monde");
+    expect(result.usage?.completionTokens).toBeGreaterThan(0);
+  });
+
+  it("should stream deltas followed by usage", async () => {
+    const provider = createProvider("local");
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of provider.stream({ model: "stub", messages })) {
+      chunks.push(chunk);
+    }
+
+    const text = chunks
+      .map((chunk) => (chunk.type === "delta" ? chunk.content : ""))
+      .join("");
+    expect(text).toBe("Echo: Bonjour le monde");
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[chunks.length - 1].type).toBe("usage");
+  });
+
+  it("should surface upstream HTTP errors as LLMProviderError", async () => {
+    process.env.LOCAL_LLM_URL = `${stub.url}/missing`;
+    try {
+      await expect(
+        createProvider("local").complete({ model: "stub", messages }),
+      ).rejects.toMatchObject({ status: 404, message: "Not found" });
+    } finally {
+      process.env.LOCAL_LLM_URL = stub.url;
+    }
+  });
+
+  it("should route models using the configured mapping", () => {
+    const { provider, upstreamModel } = resolveProvider("gpt-4", {
+      "gpt-4": { provider: "local", upstreamModel: "llama3.1:8b" },
+    });
+
+    expect(provider.name).toBe("local");
+    expect(upstreamModel).toBe("llama3.1:8b");
+  });
+
+  it("should reject providers without credentials", () => {
+    const previous = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      expect(() => createProvider("openai")).toThrow(LLMProviderError);
+    } finally {
+      if (previous !== undefined) process.env.OPENAI_API_KEY = previous;
+    }
+  });
+});
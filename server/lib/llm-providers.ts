@@ -0,0 +1,303 @@
+import { getAdminDb } from "./firebase-admin";
+import { parseSSEStream } from "../../shared/sse";
+
+/**
+ * LLM provider layer.
+ * Every backend we talk to speaks the OpenAI chat-completions protocol, they
+ * only differ by base URL, credentials and a few request extras. The provider
+ * used for a model is chosen in `settings/ai_config.modelProviders`, falling
+ * back to the LLM_PROVIDER env var (default: openrouter).
+ */
+
+export type LLMProviderName = "openrouter" | "openai" | "local";
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = [
+  "openrouter",
+  "openai",
+  "local",
+];
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage: LLMUsage | null;
+}
+
+export type LLMStreamChunk =
+  | { type: "delta"; content: string }
+  | { type: "usage"; usage: LLMUsage };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk>;
+}
+
+/**
+ * Per-model routing stored in `settings/ai_config.modelProviders`.
+ * `upstreamModel` renames the model for the backend, e.g. to serve
+ * "x-ai/grok-4.1-fast:free" from a local "llama3.1:8b".
+ */
+export interface ModelProviderRoute {
+  provider: LLMProviderName;
+  upstreamModel?: string;
+}
+
+export type ModelProviderRoutes = Record<string, ModelProviderRoute>;
+
+export class LLMProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.status = status;
+  }
+}
+
+export const PROVIDER_UNAVAILABLE_MESSAGE =
+  "Service d'IA non disponible. Veuillez contacter l'administrateur.";
+
+interface OpenAICompatibleOptions {
+  name: LLMProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  // Extra body fields asking the backend to report token usage when streaming
+  streamUsageOptions?: Record<string, unknown>;
+}
+
+function toUsage(raw: any): LLMUsage | null {
+  if (!raw) return null;
+  return {
+    promptTokens: raw.prompt_tokens || 0,
+    completionTokens: raw.completion_tokens || 0,
+  };
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  private options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.options = options;
+  }
+
+  private async post(request: LLMRequest, stream: boolean) {
+    const { baseUrl, apiKey, headers, streamUsageOptions } = this.options;
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            ...headers,
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            ...(stream ? { stream: true, ...streamUsageOptions } : {}),
+          }),
+          signal: request.signal,
+        },
+      );
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      console.error(`Failed to reach ${this.name}:`, error);
+      throw new LLMProviderError("Failed to reach AI service");
+    }
+
+    if (!response.ok) {
+      const responseText = await response.text().catch(() => "");
+      let message = `${this.name} API error`;
+      try {
+        const data = JSON.parse(responseText);
+        message = data?.error?.message || data?.error || message;
+      } catch {
+        console.error(
+          `${this.name} API error:`,
+          responseText.substring(0, 500),
+        );
+      }
+      throw new LLMProviderError(message, response.status);
+    }
+
+    return response;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+
+    let responseText: string;
+    try {
+      responseText = await response.text();
+    } catch (readError) {
+      console.error(`Failed to read ${this.name} response:`, readError);
+      throw new LLMProviderError("Failed to read response from AI service");
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error(`Failed to parse ${this.name} response:`, parseError);
+      console.error("Response text:", responseText.substring(0, 500));
+      throw new LLMProviderError("Invalid response from AI service");
+    }
+
+    return {
+      content: data?.choices?.[0]?.message?.content || "",
+      usage: toUsage(data?.usage),
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError("Empty stream from AI service");
+    }
+
+    for await (const event of parseSSEStream(response.body)) {
+      if (event.data === "[DONE]") return;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(event.data);
+      } catch {
+        continue;
+      }
+
+      if (chunk?.error) {
+        throw new LLMProviderError(
+          chunk.error.message || `${this.name} stream error`,
+        );
+      }
+
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (delta) yield { type: "delta", content: delta };
+
+      const usage = toUsage(chunk?.usage);
+      if (usage) yield { type: "usage", usage };
+    }
+  }
+}
+
+/**
+ * Build a provider from environment configuration.
+ * Throws LLMProviderError (500) when the provider's credentials are missing.
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openrouter": {
+      const apiKey = process.env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        console.error("OPENROUTER_API_KEY not configured");
+        throw new LLMProviderError(PROVIDER_UNAVAILABLE_MESSAGE, 500);
+      }
+      return new OpenAICompatibleProvider({
+        name,
+        baseUrl: "https://openrouter.ai/api/v1",
+        apiKey,
+        headers: {
+          "HTTP-Referer":
+            process.env.APP_URL ||
+            (process.env.VERCEL_URL
+              ? `https://${process.env.VERCEL_URL}`
+              : "http://localhost:5173"),
+          "X-Title": "Chat AI",
+        },
+        streamUsageOptions: { usage: { include: true } },
+      });
+    }
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.error("OPENAI_API_KEY not configured");
+        throw new LLMProviderError(PROVIDER_UNAVAILABLE_MESSAGE, 500);
+      }
+      return new OpenAICompatibleProvider({
+        name,
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKey,
+        streamUsageOptions: { stream_options: { include_usage: true } },
+      });
+    }
+    case "local":
+      // Ollama and llama.cpp both serve the OpenAI protocol under /v1
+      return new OpenAICompatibleProvider({
+        name,
+        baseUrl: process.env.LOCAL_LLM_URL || "http://127.0.0.1:11434/v1",
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        streamUsageOptions: { stream_options: { include_usage: true } },
+      });
+    default:
+      throw new LLMProviderError(`Unknown LLM provider: ${name}`, 500);
+  }
+}
+
+function defaultProviderName(): LLMProviderName {
+  const fromEnv = process.env.LLM_PROVIDER as LLMProviderName;
+  return LLM_PROVIDER_NAMES.includes(fromEnv) ? fromEnv : "openrouter";
+}
+
+/**
+ * Pick the provider and upstream model name for a model id.
+ */
+export function resolveProvider(
+  model: string,
+  routes: ModelProviderRoutes = {},
+): { provider: LLMProvider; upstreamModel: string } {
+  const route = routes[model];
+  const name = route?.provider || defaultProviderName();
+  return {
+    provider: createProvider(name),
+    upstreamModel:
+      route?.upstreamModel ||
+      (name === "local" && process.env.LOCAL_LLM_MODEL) ||
+      model,
+  };
+}
+
+/**
+ * Resolve the provider for a model using the routes saved in
+ * `settings/ai_config`. Works without Firestore (env defaults only).
+ */
+export async function getProviderForModel(model: string) {
+  let routes: ModelProviderRoutes = {};
+
+  const db = getAdminDb();
+  if (db) {
+    try {
+      const configDoc = await db.collection("settings").doc("ai_config").get();
+      routes = configDoc.data()?.modelProviders || {};
+    } catch (error) {
+      console.error("Failed to load model provider routes:", error);
+    }
+  }
+
+  return resolveProvider(model, routes);
+}
@@ -0,0 +1,107 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+
+/**
+ * Minimal OpenAI-compatible chat server used by tests and offline
+ * development. It echoes the last user message back, streamed word by word
+ * when `stream: true` is requested.
+ *
+ *   pnpm llm:stub                       # listens on :11434
+ *   LLM_PROVIDER=local pnpm dev          # app now talks to the stub
+ */
+
+export interface LocalLLMStub {
+  url: string;
+  close: () => Promise<void>;
+}
+
+function reply(messages: Array<{ role: string; content: string }>) {
+  const lastUser = [...(messages || [])]
+    .reverse()
+    .find((message) => message.role === "user");
+  return `Echo: ${lastUser?.content ?? ""}`;
+}
+
+function usageFor(messages: unknown, content: string) {
+  const promptTokens = Math.ceil(JSON.stringify(messages).length / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+export function startLocalLLMStub(port = 0): Promise<LocalLLMStub> {
+  const server: Server = createServer((req, res) => {
+    if (req.method !== "POST" || req.url !== "/v1/chat/completions") {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "Not found" } }));
+      return;
+    }
+
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      let body: any;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Invalid JSON" } }));
+        return;
+      }
+
+      const content = reply(body.messages);
+      const usage = usageFor(body.messages, content);
+
+      if (!body.stream) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            model: body.model,
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content },
+                finish_reason: "stop",
+              },
+            ],
+            usage,
+          }),
+        );
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      const words = content.split(/(?<= )/);
+      for (const word of words) {
+        res.write(
+          `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })}\n\n`,
+        );
+      }
+      res.write(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+      res.end("data: [DONE]\n\n");
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, "127.0.0.1", () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}/v1`,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  startLocalLLMStub(Number(process.env.PORT) || 11434).then(({ url }) => {
+    console.log(`🤖 Local LLM stub listening on ${url}`);
+  });
+}
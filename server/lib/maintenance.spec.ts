@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  localDateKey,
+  planTimezoneChange,
+  planUserMaintenance,
+  TIMEZONE_CHANGE_INTERVAL_MS,
+} from "./maintenance";
+
+// 2024-03-10 23:30 UTC: already March 11 in Paris, still March 10 in New York
+const NOW = Date.UTC(2024, 2, 10, 23, 30);
+const EARLIER_SAME_UTC_DAY = Date.UTC(2024, 2, 10, 12, 0);
+
+describe("maintenance", () => {
+  it("should compute the calendar day in the given timezone", () => {
+    expect(localDateKey(NOW, "Europe/Paris")).toBe("2024-03-11");
+    expect(localDateKey(NOW, "America/New_York")).toBe("2024-03-10");
+    expect(localDateKey(NOW, "Not/A_Zone")).toBe(
+      localDateKey(NOW, process.env.DEFAULT_TIMEZONE || "Europe/Paris"),
+    );
+  });
+
+  it("should reset the quota once the user's local day changes", () => {
+    const user = {
+      plan: "Classic",
+      tokensUsed: 5000,
+      lastMessageReset: Timestamp.fromMillis(EARLIER_SAME_UTC_DAY),
+    };
+
+    const paris = planUserMaintenance(
+      { ...user, timezone: "Europe/Paris" },
+      NOW,
+    );
+    expect(paris.action).toBe("quota_reset");
+    expect(paris.update).toMatchObject({
+      tokensUsed: 0,
+      tokenBudget: 1_000_000,
+    });
+
+    const newYork = planUserMaintenance(
+      { ...user, timezone: "America/New_York" },
+      NOW,
+    );
+    expect(newYork).toEqual({ action: "none", update: null });
+  });
+
+  it("should not refill the quota when the timezone changes", () => {
+    const user = {
+      plan: "Classic",
+      tokensUsed: 5000,
+      timezone: "America/New_York",
+      lastMessageReset: Timestamp.fromMillis(EARLIER_SAME_UTC_DAY),
+    };
+
+    // Already March 11 in Paris, but the day restarts from the change
+    const change = planTimezoneChange(user, "Europe/Paris", NOW);
+    expect(change.update).not.toHaveProperty("tokensUsed");
+    expect(change.update).toMatchObject({ timezone: "Europe/Paris" });
+    expect(
+      planUserMaintenance({ ...user, ...change.update }, NOW + 60_000),
+    ).toEqual({ action: "none", update: null });
+
+    const again = planTimezoneChange(
+      { ...user, ...change.update },
+      "Asia/Tokyo",
+      NOW + 60_000,
+    );
+    expect(again).toEqual({
+      update: null,
+      retryAt: NOW + TIMEZONE_CHANGE_INTERVAL_MS,
+    });
+  });
+
+  it("should downgrade expired licenses to Free", () => {
+    const result = planUserMaintenance(
+      {
+        plan: "Pro",
+        licenseKey: "KEY",
+        licenseExpiresAt: NOW - 1000,
+        lastMessageReset: NOW,
+      },
+      NOW,
+    );
+
+    expect(result.action).toBe("license_expired");
+    expect(result.update).toMatchObject({
+      plan: "Free",
+      tokenBudget: 20_000,
+      tokensUsed: 0,
+      licenseKey: "",
+      licenseExpiresAt: null,
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { FieldPath, Firestore, Timestamp } from "firebase-admin/firestore";
+import { getPlan, getTokenBudget } from "../../shared/plans";
+
+/**
+ * Daily quota resets and license expiry, applied server-side.
+ *
+ * The same per-user rules back the scheduled sweep (server/lib/scheduler.ts),
+ * the admin-triggered run and the per-user /api/daily-reset endpoint. "Daily"
+ * is measured in the user's own `timezone` (IANA name stored on the user
+ * document), falling back to DEFAULT_TIMEZONE. Only the server writes it:
+ * at registration and through planTimezoneChange.
+ */
+
+export type MaintenanceAction = "none" | "quota_reset" | "license_expired";
+
+export type MaintenanceTrigger = "schedule" | "admin";
+
+export interface UserMaintenance {
+  action: MaintenanceAction;
+  update: Record<string, unknown> | null;
+}
+
+export interface MaintenanceRunSummary {
+  id: string;
+  trigger: MaintenanceTrigger;
+  triggeredBy: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  usersScanned: number;
+  quotasReset: number;
+  licensesExpired: number;
+  errors: number;
+}
+
+const SWEEP_PAGE_SIZE = 300;
+const LOCK_TTL_MS = 10 * 60 * 1000;
+// A user's timezone can change at most this often (see planTimezoneChange)
+export const TIMEZONE_CHANGE_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function getDefaultTimezone(): string {
+  return process.env.DEFAULT_TIMEZONE || "Europe/Paris";
+}
+
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day ("YYYY-MM-DD") of an instant in the given timezone.
+ * Unknown timezones fall back to the default one.
+ */
+export function localDateKey(millis: number, timeZone?: string): string {
+  const zone = isValidTimezone(timeZone) ? timeZone : getDefaultTimezone();
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: zone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(millis));
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * User fields for reverting to the Free plan with a fresh quota (expired or
+ * revoked license).
+ */
+export function freePlanUpdate(now: number = Date.now()) {
+  return {
+    plan: "Free",
+    tokenBudget: getPlan("Free").dailyTokenBudget,
+    tokensUsed: 0,
+    licenseKey: "",
+    licenseExpiresAt: null,
+    lastMessageReset: Timestamp.fromMillis(now),
+  };
+}
+
+/**
+ * Decide what a user document needs at `now`: an expired license reverts to
+ * Free with a fresh quota, otherwise the quota is reset once the user's local
+ * day has changed since `lastMessageReset`.
+ */
+export function planUserMaintenance(
+  userData: Record<string, any>,
+  now: number,
+): UserMaintenance {
+  const licenseExpiresAt = toMillis(userData.licenseExpiresAt);
+  const lastMessageReset = toMillis(userData.lastMessageReset);
+
+  if (licenseExpiresAt && licenseExpiresAt <= now) {
+    return { action: "license_expired", update: freePlanUpdate(now) };
+  }
+
+  const timeZone = userData.timezone;
+  if (
+    !lastMessageReset ||
+    localDateKey(lastMessageReset, timeZone) !== localDateKey(now, timeZone)
+  ) {
+    return {
+      action: "quota_reset",
+      update: {
+        tokensUsed: 0,
+        tokenBudget: getTokenBudget(userData),
+        lastMessageReset: Timestamp.fromMillis(now),
+      },
+    };
+  }
+
+  return { action: "none", update: null };
+}
+
+/**
+ * User fields for a timezone change, or the time it is allowed again. The
+ * timezone decides when "midnight" is, so changing it re-anchors
+ * `lastMessageReset` to now: the next reset is at the next local midnight
+ * in the new zone, and hopping between zones cannot refill the budget. A
+ * reset already due in the old zone is applied with the change.
+ */
+export function planTimezoneChange(
+  userData: Record<string, any>,
+  timezone: string,
+  now: number,
+): { update: Record<string, unknown> | null; retryAt: number | null } {
+  if (userData.timezone === timezone) return { update: null, retryAt: null };
+
+  const changedAt = toMillis(userData.timezoneUpdatedAt);
+  if (
+    userData.timezone &&
+    changedAt &&
+    now - changedAt < TIMEZONE_CHANGE_INTERVAL_MS
+  ) {
+    return { update: null, retryAt: changedAt + TIMEZONE_CHANGE_INTERVAL_MS };
+  }
+
+  const { action, update } = planUserMaintenance(userData, now);
+  return {
+    update: {
+      ...(action === "quota_reset" ? update : {}),
+      timezone,
+      timezoneUpdatedAt: Timestamp.fromMillis(now),
+      lastMessageReset: Timestamp.fromMillis(now),
+    },
+    retryAt: null,
+  };
+}
+
+/**
+ * Take the cross-instance lease so that two servers (or a scheduled and a
+ * manual run) do not sweep at the same time. Expired leases are taken over.
+ */
+async function acquireLock(db: Firestore, holder: string): Promise<boolean> {
+  const lockRef = db.collection("settings").doc("maintenance_lock");
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(lockRef);
+    const expiresAt = toMillis(snap.data()?.expiresAt);
+    if (expiresAt && expiresAt > Date.now()) return false;
+
+    tx.set(lockRef, {
+      holder,
+      expiresAt: Timestamp.fromMillis(Date.now() + LOCK_TTL_MS),
+    });
+    return true;
+  });
+}
+
+async function releaseLock(db: Firestore, holder: string) {
+  const lockRef = db.collection("settings").doc("maintenance_lock");
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(lockRef);
+    if (snap.data()?.holder === holder) tx.delete(lockRef);
+  });
+}
+
+/**
+ * Sweep every user, apply planUserMaintenance and record the run in
+ * `maintenance_runs`. Returns null when another run holds the lock.
+ */
+export async function runMaintenanceSweep(
+  db: Firestore,
+  options: { trigger: MaintenanceTrigger; triggeredBy?: string | null },
+): Promise<MaintenanceRunSummary | null> {
+  const runRef = db.collection("maintenance_runs").doc();
+  if (!(await acquireLock(db, runRef.id))) {
+    return null;
+  }
+
+  const startedAt = Date.now();
+  let usersScanned = 0;
+  let quotasReset = 0;
+  let licensesExpired = 0;
+  let errors = 0;
+
+  try {
+    let cursor: string | null = null;
+
+    while (true) {
+      let query = db
+        .collection("users")
+        .orderBy(FieldPath.documentId())
+        .limit(SWEEP_PAGE_SIZE);
+      if (cursor) query = query.startAfter(cursor);
+
+      const snapshot = await query.get();
+      if (snapshot.empty) break;
+
+      const now = Date.now();
+      const batch = db.batch();
+      let pending = 0;
+
+      for (const doc of snapshot.docs) {
+        usersScanned++;
+        const { action, update } = planUserMaintenance(doc.data(), now);
+        if (!update) continue;
+
+        batch.update(doc.ref, update);
+        pending++;
+        if (action === "license_expired") licensesExpired++;
+        else quotasReset++;
+      }
+
+      if (pending > 0) {
+        try {
+          await batch.commit();
+        } catch (error) {
+          console.error("[MAINTENANCE] Failed to commit batch:", error);
+          errors += pending;
+        }
+      }
+
+      cursor = snapshot.docs[snapshot.docs.length - 1].id;
+      if (snapshot.size < SWEEP_PAGE_SIZE) break;
+    }
+  } finally {
+    await releaseLock(db, runRef.id).catch((error) =>
+      console.error("[MAINTENANCE] Failed to release lock:", error),
+    );
+  }
+
+  const finishedAt = Date.now();
+  const summary: MaintenanceRunSummary = {
+    id: runRef.id,
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy ?? null,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - startedAt,
+    usersScanned,
+    quotasReset,
+    licensesExpired,
+    errors,
+  };
+
+  await runRef.set({
+    ...summary,
+    startedAt: Timestamp.fromMillis(startedAt),
+    finishedAt: Timestamp.fromMillis(finishedAt),
+  });
+
+  return summary;
+}
+
+export function toMaintenanceRunSummary(
+  id: string,
+  data: Record<string, any>,
+): MaintenanceRunSummary {
+  return {
+    id,
+    trigger: data.trigger,
+    triggeredBy: data.triggeredBy ?? null,
+    startedAt: new Date(toMillis(data.startedAt) ?? 0).toISOString(),
+    finishedAt: new Date(toMillis(data.finishedAt) ?? 0).toISOString(),
+    durationMs: data.durationMs || 0,
+    usersScanned: data.usersScanned || 0,
+    quotasReset: data.quotasReset || 0,
+    licensesExpired: data.licensesExpired || 0,
+    errors: data.errors || 0,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  canUseModel,
+  DEFAULT_MODEL,
+  MODEL_CATALOG,
+  resolveDefaultModel,
+  resolveSavedModel,
+  toCatalogEntry,
+} from "./model-catalog";
+
+describe("model catalog", () => {
+  it("should keep Pro-only models away from Free users", () => {
+    expect(canUseModel("Free", "gpt-4")).toBe(false);
+    expect(canUseModel("Free", "claude-3-opus")).toBe(false);
+    expect(canUseModel("Pro", "gpt-4")).toBe(true);
+    expect(canUseModel("Free", DEFAULT_MODEL)).toBe(true);
+  });
+
+  it("should treat unknown plans as Free and reject unknown models", () => {
+    expect(canUseModel(undefined, "claude-3-sonnet")).toBe(false);
+    expect(canUseModel("Classic", "claude-3-sonnet")).toBe(true);
+    expect(canUseModel("Pro", "mistral-large")).toBe(false);
+  });
+
+  it("should fall back to the default model when the plan lacks the admin one", () => {
+    expect(resolveDefaultModel("Free", "gpt-4")).toBe(DEFAULT_MODEL);
+    expect(resolveDefaultModel("Pro", "gpt-4")).toBe("gpt-4");
+    expect(resolveDefaultModel("Pro", undefined)).toBe(DEFAULT_MODEL);
+  });
+
+  it("should skip saved models the plan no longer includes", () => {
+    expect(
+      resolveSavedModel("Pro", ["gpt-4", "claude-3-sonnet"], undefined),
+    ).toBe("gpt-4");
+    expect(
+      resolveSavedModel("Classic", ["gpt-4", "claude-3-sonnet"], undefined),
+    ).toBe("claude-3-sonnet");
+    expect(resolveSavedModel("Free", ["gpt-4", null], "gpt-4")).toBe(
+      DEFAULT_MODEL,
+    );
+  });
+
+  it("should price entries for the caller's plan", () => {
+    const gpt4 = MODEL_CATALOG.find((model) => model.id === "gpt-4")!;
+
+    expect(toCatalogEntry(gpt4, "Free")).toMatchObject({
+      costMultiplier: 15,
+      available: false,
+    });
+    expect(toCatalogEntry(gpt4, "Pro")).toMatchObject({
+      costMultiplier: 10,
+      available: true,
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { getModelMultiplier, getPlan, PlanName } from "../../shared/plans";
+import type { ModelCatalogEntry } from "../../shared/api";
+
+/**
+ * The chat models the server accepts, and which plans may use them. The
+ * client only learns about models through GET /api/models, so adding one
+ * here (and a route in settings/ai_config.modelProviders) is enough.
+ */
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  // Display name of the vendor; the upstream provider is resolved per model
+  // by getProviderForModel
+  provider: string;
+  // Prompt + completion tokens the model accepts
+  contextWindow: number;
+  charsPerToken: number;
+  plans: PlanName[];
+}
+
+const ALL_PLANS: PlanName[] = ["Free", "Classic", "Pro"];
+
+export const MODEL_CATALOG: ModelDefinition[] = [
+  {
+    id: "x-ai/grok-4.1-fast:free",
+    name: "Grok 4.1 Fast",
+    provider: "xAI",
+    contextWindow: 2_000_000,
+    charsPerToken: 4,
+    plans: ALL_PLANS,
+  },
+  {
+    id: "gpt-3.5-turbo",
+    name: "GPT-3.5 Turbo",
+    provider: "OpenAI",
+    contextWindow: 16_385,
+    charsPerToken: 4,
+    plans: ALL_PLANS,
+  },
+  {
+    id: "claude-3-sonnet",
+    name: "Claude 3 Sonnet",
+    provider: "Anthropic",
+    contextWindow: 200_000,
+    charsPerToken: 3.5,
+    plans: ["Classic", "Pro"],
+  },
+  {
+    id: "gpt-4",
+    name: "GPT-4",
+    provider: "OpenAI",
+    contextWindow: 8_192,
+    charsPerToken: 4,
+    plans: ["Pro"],
+  },
+  {
+    id: "claude-3-opus",
+    name: "Claude 3 Opus",
+    provider: "Anthropic",
+    contextWindow: 200_000,
+    charsPerToken: 3.5,
+    plans: ["Pro"],
+  },
+];
+
+// Available on every plan; used when nothing else applies
+export const DEFAULT_MODEL = "x-ai/grok-4.1-fast:free";
+
+// Sent with the 403 when a plan does not include the requested model
+export const MODEL_NOT_IN_PLAN = "Ce modèle n'est pas inclus dans votre offre";
+
+export const MODEL_IDS = MODEL_CATALOG.map((model) => model.id) as [
+  string,
+  ...string[],
+];
+
+export function getModel(id: string): ModelDefinition | null {
+  return MODEL_CATALOG.find((model) => model.id === id) ?? null;
+}
+
+/**
+ * Unknown plans are treated as Free, like everywhere else.
+ */
+export function canUseModel(plan: string | undefined, id: string): boolean {
+  const model = getModel(id);
+  return !!model && model.plans.includes(getPlan(plan).name);
+}
+
+/**
+ * The admin default (settings/ai_config.model) when the plan includes it,
+ * otherwise DEFAULT_MODEL, so a Pro-only default never locks Free users out.
+ */
+export function resolveDefaultModel(
+  plan: string | undefined,
+  configured: string | undefined,
+): string {
+  return configured && canUseModel(plan, configured)
+    ? configured
+    : DEFAULT_MODEL;
+}
+
+/**
+ * The first saved choice (conversation, then persona) the plan still
+ * includes, otherwise the plan's default: a downgrade must not lock users
+ * out of conversations set to a model they lost.
+ */
+export function resolveSavedModel(
+  plan: string | undefined,
+  saved: (string | null | undefined)[],
+  configured: string | undefined,
+): string {
+  return (
+    saved.find((model) => model && canUseModel(plan, model)) ??
+    resolveDefaultModel(plan, configured)
+  );
+}
+
+export function toCatalogEntry(
+  model: ModelDefinition,
+  plan: string | undefined,
+): ModelCatalogEntry {
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    contextLength: model.contextWindow,
+    costMultiplier: getModelMultiplier(plan, model.id),
+    plans: model.plans,
+    available: canUseModel(plan, model.id),
+  };
+}
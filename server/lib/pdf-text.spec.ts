@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { deflateSync } from "zlib";
+import { extractPdfText, parseToUnicode, PdfTextError } from "./pdf-text";
+
+type PdfObjectSource = string | { dict: string; stream: Buffer };
+
+// Minimal PDF: the parser reads objects directly, no xref table is needed
+function buildPdf(objects: PdfObjectSource[]): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")];
+  objects.forEach((object, i) => {
+    parts.push(Buffer.from(`${i + 1} 0 obj\n`, "latin1"));
+    if (typeof object === "string") {
+      parts.push(Buffer.from(object, "latin1"));
+    } else {
+      parts.push(
+        Buffer.from(
+          `<<${object.dict} /Length ${object.stream.length}>>\nstream\n`,
+          "latin1",
+        ),
+        object.stream,
+        Buffer.from("\nendstream", "latin1"),
+      );
+    }
+    parts.push(Buffer.from("\nendobj\n", "latin1"));
+  });
+  parts.push(Buffer.from("%%EOF\n", "latin1"));
+  return Buffer.concat(parts);
+}
+
+const content = (text: string) => ({
+  dict: "",
+  stream: Buffer.from(text, "latin1"),
+});
+
+describe("extractPdfText", () => {
+  it("should read text operators from an uncompressed stream", () => {
+    const pdf = buildPdf([
+      "<</Type /Catalog>>",
+      content(
+        "BT /F1 12 Tf 72 700 Td (Hello) Tj ( world) Tj 0 -14 Td (Second \\(line\\)) Tj ET",
+      ),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe("Hello world\nSecond (line)");
+  });
+
+  it("should inflate FlateDecode streams and turn wide kerning into spaces", () => {
+    const pdf = buildPdf([
+      {
+        dict: "/Filter /FlateDecode",
+        stream: deflateSync(
+          Buffer.from("BT [(Com)-20(pressed)-300(text)] TJ ET", "latin1"),
+        ),
+      },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe("Compressed text");
+  });
+
+  it("should map two-byte glyph codes through the font's ToUnicode CMap", () => {
+    const cmap = [
+      "begincmap",
+      "1 beginbfchar <0001> <00C9> endbfchar",
+      "1 beginbfrange <0002> <0003> <0074> endbfrange",
+      "endcmap",
+    ].join("\n");
+    const pdf = buildPdf([
+      "<</Type /Page /Resources <</Font <</F1 3 0 R>>>>>>",
+      content("BT /F1 12 Tf <000100020003> Tj ET"),
+      "<</Type /Font /Subtype /Type0 /ToUnicode 4 0 R>>",
+      { dict: "", stream: Buffer.from(cmap, "latin1") },
+    ]);
+
+    expect(extractPdfText(pdf)).toBe("Étu");
+  });
+
+  it("should return an empty string when there is no text layer", () => {
+    const pdf = buildPdf([
+      "<</Type /Catalog>>",
+      content("q 100 0 0 100 0 0 cm /Im1 Do Q"),
+    ]);
+
+    expect(extractPdfText(pdf)).toBe("");
+  });
+
+  it("should refuse streams that inflate past the decoding limit", () => {
+    const pdf = buildPdf([
+      {
+        dict: "/Filter /FlateDecode",
+        stream: deflateSync(Buffer.alloc(20 * 1024 * 1024)),
+      },
+    ]);
+
+    expect(() => extractPdfText(pdf)).toThrow(PdfTextError);
+  });
+
+  it("should stop reading once maxChars is reached", () => {
+    const pdf = buildPdf([
+      content("BT (first) Tj ET"),
+      content("BT (second) Tj ET"),
+    ]);
+
+    expect(extractPdfText(pdf, 5)).toBe("first");
+  });
+
+  it("should skip CMaps with too many ranges or entries", () => {
+    const ranges = Array.from(
+      { length: 6000 },
+      (_, i) => `<${i.toString(16).padStart(4, "0")}> <ffff> <0041>`,
+    );
+    const cmap = `${ranges.length} beginbfrange\n${ranges.join("\n")}\nendbfrange`;
+
+    expect(parseToUnicode(cmap)).toBeNull();
+    expect(
+      parseToUnicode("1 beginbfrange <0000> <00ff> <0041> endbfrange", 16),
+    ).toBeNull();
+    expect(
+      parseToUnicode("1 beginbfrange <0000> <0001> <0041> endbfrange"),
+    ).toEqual(
+      new Map([
+        [0, "A"],
+        [1, "B"],
+      ]),
+    );
+  });
+
+  it("should reject files that are not PDFs and encrypted PDFs", () => {
+    expect(() => extractPdfText(Buffer.from("hello"))).toThrow(PdfTextError);
+    expect(() =>
+      extractPdfText(buildPdf(["<</Root 2 0 R /Encrypt 5 0 R>>"])),
+    ).toThrow(PdfTextError);
+  });
+});
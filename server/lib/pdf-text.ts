@@ -0,0 +1,444 @@
+import { inflateSync } from "zlib";
+
+/**
+ * Best-effort text extraction from PDF files, without adding a dependency.
+ * Reads the text operators of every content stream (uncompressed or
+ * FlateDecode, including objects packed in object streams) and maps glyph
+ * codes through the fonts' ToUnicode CMaps when they have one. Scanned
+ * documents have no text to extract; encrypted ones are rejected.
+ */
+
+// Bounds on what a crafted file can make us allocate or loop over: inflated
+// stream sizes (deflate bombs) and ToUnicode entries (bfrange expansion)
+const MAX_STREAM_BYTES = 8 * 1024 * 1024;
+const MAX_DECODED_BYTES = 32 * 1024 * 1024;
+const MAX_CMAP_ENTRIES = 0x10000;
+const MAX_CMAP_RANGES = 5_000;
+
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfTextError";
+  }
+}
+
+interface PdfObject {
+  body: string;
+  // Decoded stream content, null when the object has no stream or it uses
+  // a filter we cannot decode
+  stream: Buffer | null;
+}
+
+interface PdfFont {
+  toUnicode: Map<number, string> | null;
+  twoByte: boolean;
+}
+
+type Token =
+  | { type: "string"; bytes: number[] }
+  | { type: "array"; items: Token[] }
+  | { type: "name"; value: string }
+  | { type: "number"; value: number }
+  | { type: "operator"; value: string };
+
+// Decoded bytes left for the whole document
+interface DecodeBudget {
+  remaining: number;
+}
+
+function decodeStream(
+  dict: string,
+  raw: Buffer,
+  budget: DecodeBudget,
+): Buffer | null {
+  // A single name or an array of them
+  const filter = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/);
+  if (!filter) return raw;
+  if (filter[1].replace(/[\[\]\s]/g, "") !== "/FlateDecode") return null;
+
+  const maxOutputLength = Math.min(MAX_STREAM_BYTES, budget.remaining);
+  let decoded: Buffer;
+  try {
+    decoded = inflateSync(raw, { maxOutputLength });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new PdfTextError("Decompressed content too large");
+    }
+    return null;
+  }
+  budget.remaining -= decoded.length;
+  return decoded;
+}
+
+function readObjects(pdf: Buffer): Map<number, PdfObject> {
+  const budget: DecodeBudget = { remaining: MAX_DECODED_BYTES };
+  const text = pdf.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text))) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endobj", start);
+    if (end < 0) break;
+    let body = text.slice(start, end);
+
+    let stream: Buffer | null = null;
+    const streamAt = body.search(/stream\r?\n/);
+    if (streamAt >= 0) {
+      const dataStart = start + body.indexOf("\n", streamAt) + 1;
+      let dataEnd = text.lastIndexOf("endstream", end);
+      if (text[dataEnd - 1] === "\n") dataEnd--;
+      if (text[dataEnd - 1] === "\r") dataEnd--;
+      body = body.slice(0, streamAt);
+      stream = decodeStream(body, pdf.subarray(dataStart, dataEnd), budget);
+    }
+    objects.set(Number(match[1]), { body, stream });
+    header.lastIndex = end;
+  }
+
+  // Objects compressed into object streams (PDF 1.5+)
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(object.body) || !object.stream) continue;
+    const first = Number(object.body.match(/\/First\s+(\d+)/)?.[1]);
+    const content = object.stream.toString("latin1");
+    const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+      const from = first + numbers[i + 1];
+      const to = i + 3 < numbers.length ? first + numbers[i + 3] : undefined;
+      if (!objects.has(numbers[i])) {
+        objects.set(numbers[i], {
+          body: content.slice(from, to),
+          stream: null,
+        });
+      }
+    }
+  }
+  return objects;
+}
+
+function hexToCode(hex: string): number {
+  return parseInt(hex, 16);
+}
+
+function hexToText(hex: string): string {
+  let text = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+}
+
+/**
+ * Glyph code to text mapping of a ToUnicode CMap. Null when it has more
+ * than MAX_CMAP_RANGES ranges or would map more than `maxEntries` codes; the
+ * font is then read without it.
+ */
+export function parseToUnicode(
+  cmap: string,
+  maxEntries = MAX_CMAP_ENTRIES,
+): Map<number, string> | null {
+  const map = new Map<number, string>();
+  let entries = 0;
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g,
+    )) {
+      if (++entries > maxEntries) return null;
+      map.set(hexToCode(entry[1]), hexToText(entry[2]));
+    }
+  }
+
+  let rangeCount = 0;
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    );
+    for (const [, from, to, target] of ranges) {
+      if (++rangeCount > MAX_CMAP_RANGES) return null;
+      const start = hexToCode(from);
+      const end = Math.min(hexToCode(to), start + 0xffff);
+      entries += Math.max(0, end - start + 1);
+      if (entries > maxEntries) return null;
+      if (target.startsWith("[")) {
+        const values = [...target.matchAll(/<([0-9a-fA-F]*)>/g)];
+        values.forEach((value, i) => map.set(start + i, hexToText(value[1])));
+      } else {
+        const base = target.slice(1, -1);
+        for (let code = start; code <= end; code++) {
+          // The last character is incremented across the range
+          const text = hexToText(base);
+          map.set(
+            code,
+            text.slice(0, -1) +
+              String.fromCharCode(
+                text.charCodeAt(text.length - 1) + code - start,
+              ),
+          );
+        }
+      }
+    }
+  }
+  return map;
+}
+
+/**
+ * Fonts by resource name (/F1...). Names are merged across pages; PDF
+ * producers usually reuse one name per font.
+ */
+function readFonts(objects: Map<number, PdfObject>): Map<string, PdfFont> {
+  const fonts = new Map<string, PdfFont>();
+  // Fonts often share a CMap; MAX_CMAP_ENTRIES is for the whole document
+  const cmaps = new Map<number, Map<number, string> | null>();
+  let remainingEntries = MAX_CMAP_ENTRIES;
+
+  const readCMap = (ref: number) => {
+    if (!cmaps.has(ref)) {
+      const stream = objects.get(ref)?.stream;
+      const map = stream
+        ? parseToUnicode(stream.toString("latin1"), remainingEntries)
+        : null;
+      remainingEntries -= map?.size ?? 0;
+      cmaps.set(ref, map);
+    }
+    return cmaps.get(ref)!;
+  };
+
+  const readFont = (ref: number): PdfFont => {
+    const body = objects.get(ref)?.body || "";
+    const toUnicodeRef = body.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+    return {
+      toUnicode: toUnicodeRef ? readCMap(Number(toUnicodeRef[1])) : null,
+      twoByte: /\/Subtype\s*\/Type0/.test(body),
+    };
+  };
+
+  const addFonts = (dict: string) => {
+    for (const [, name, ref] of dict.matchAll(
+      /\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g,
+    )) {
+      if (!fonts.has(name)) fonts.set(name, readFont(Number(ref)));
+    }
+  };
+
+  for (const { body } of objects.values()) {
+    const inline = body.match(/\/Font\s*<<([^>]*)>>/);
+    if (inline) addFonts(inline[1]);
+    const indirect = body.match(/\/Font\s+(\d+)\s+\d+\s+R/);
+    if (indirect) addFonts(objects.get(Number(indirect[1]))?.body || "");
+  }
+  return fonts;
+}
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const stack: Token[][] = [tokens];
+  const push = (token: Token) => stack[stack.length - 1].push(token);
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r")
+        i++;
+    } else if (char === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === "\\") {
+          const next = content[i + 1];
+          const escapes: Record<string, number> = {
+            n: 10,
+            r: 13,
+            t: 9,
+            b: 8,
+            f: 12,
+          };
+          if (next in escapes) {
+            bytes.push(escapes[next]);
+            i += 2;
+          } else if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+          } else if (next === "\r" || next === "\n") {
+            i += content[i + 2] === "\n" && next === "\r" ? 3 : 2;
+          } else {
+            bytes.push(next.charCodeAt(0));
+            i += 2;
+          }
+          continue;
+        }
+        if (c === "(") depth++;
+        if (c === ")") depth--;
+        if (depth > 0) bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      push({ type: "string", bytes });
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      const hex = content
+        .slice(i + 1, end < 0 ? undefined : end)
+        .replace(/\s/g, "");
+      const bytes: number[] = [];
+      for (let j = 0; j < hex.length; j += 2) {
+        bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, "0"), 16));
+      }
+      push({ type: "string", bytes });
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === "<" || char === ">") {
+      // Dictionary delimiters (inline images, marked content)
+      i += content[i + 1] === char ? 2 : 1;
+    } else if (char === "[") {
+      const array: Token = { type: "array", items: [] };
+      push(array);
+      stack.push(array.items);
+      i++;
+    } else if (char === "]") {
+      if (stack.length > 1) stack.pop();
+      i++;
+    } else if (char === "/") {
+      const match = content.slice(i + 1).match(/^[^\s/<>\[\]()%{}]*/)![0];
+      push({ type: "name", value: match });
+      i += 1 + match.length;
+    } else {
+      const match = content.slice(i).match(/^[^\s/<>\[\]()%{}]+/);
+      const word = match ? match[0] : char;
+      const value = Number(word);
+      push(
+        Number.isNaN(value)
+          ? { type: "operator", value: word }
+          : { type: "number", value },
+      );
+      i += word.length;
+    }
+  }
+  return tokens;
+}
+
+function decodeString(bytes: number[], font: PdfFont | undefined): string {
+  if (font?.twoByte) {
+    let text = "";
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      text += font.toUnicode?.get((bytes[i] << 8) | bytes[i + 1]) ?? "";
+    }
+    return text;
+  }
+  return bytes
+    .map((byte) => font?.toUnicode?.get(byte) ?? String.fromCharCode(byte))
+    .join("");
+}
+
+function extractContentText(
+  content: string,
+  fonts: Map<string, PdfFont>,
+  maxChars: number,
+): string {
+  let text = "";
+  let font: PdfFont | undefined;
+  let lastY: number | null = null;
+  let operands: Token[] = [];
+
+  const newLine = () => {
+    if (text && !text.endsWith("\n")) text += "\n";
+  };
+
+  for (const token of tokenize(content)) {
+    if (text.length >= maxChars) break;
+    if (token.type !== "operator") {
+      operands.push(token);
+      continue;
+    }
+
+    const last = operands[operands.length - 1];
+    switch (token.value) {
+      case "Tf": {
+        const name = operands.find((operand) => operand.type === "name");
+        font = name?.type === "name" ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case "Tj":
+      case "'":
+      case '"':
+        if (token.value !== "Tj") newLine();
+        if (last?.type === "string") text += decodeString(last.bytes, font);
+        break;
+      case "TJ":
+        if (last?.type === "array") {
+          for (const item of last.items) {
+            if (item.type === "string") text += decodeString(item.bytes, font);
+            // Large negative kerning is how many producers write a space
+            else if (item.type === "number" && item.value < -200) text += " ";
+          }
+        }
+        break;
+      case "Td":
+      case "TD": {
+        const ty = operands[operands.length - 1];
+        if (ty?.type === "number" && ty.value !== 0) newLine();
+        else if (text && !/\s$/.test(text)) text += " ";
+        break;
+      }
+      case "Tm": {
+        const y = operands[operands.length - 1];
+        if (y?.type === "number") {
+          if (lastY !== null && y.value !== lastY) newLine();
+          else if (text && !/\s$/.test(text)) text += " ";
+          lastY = y.value;
+        }
+        break;
+      }
+      case "T*":
+        newLine();
+        break;
+      case "ET":
+        if (text && !/\s$/.test(text)) text += " ";
+        break;
+    }
+    operands = [];
+  }
+  return text;
+}
+
+/**
+ * The text of a PDF, lines separated by "\n", stopping after about
+ * `maxChars`. Throws PdfTextError when the file is not a PDF, is encrypted or
+ * inflates past the decoding limits; returns "" when it has no text layer.
+ */
+export function extractPdfText(pdf: Buffer, maxChars = Infinity): string {
+  if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new PdfTextError("Not a PDF file");
+  }
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(pdf.toString("latin1"))) {
+    throw new PdfTextError("Encrypted PDF");
+  }
+
+  const objects = readObjects(pdf);
+  const fonts = readFonts(objects);
+  const parts: string[] = [];
+  let length = 0;
+  for (const { body, stream } of objects.values()) {
+    if (length >= maxChars) break;
+    if (!stream || /\/(Subtype\s*\/Image|Type\s*\/(ObjStm|XRef))/.test(body)) {
+      continue;
+    }
+    const content = stream.toString("latin1");
+    if (!/\bBT\b/.test(content) || content.includes("begincmap")) continue;
+    const text = extractContentText(content, fonts, maxChars - length);
+    parts.push(text);
+    length += text.length;
+  }
+
+  return parts
+    .join("\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { getAdminDb } from "./firebase-admin";
+import {
+  FirestoreRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitRule,
+  RateLimitStore,
+  RedisRateLimitStore,
+} from "./rate-limit";
+import { RedisClient } from "./redis-client";
+import { getPlan, PlanName } from "../../shared/plans";
+
+/**
+ * Named rate limit policies used by the routes in server/index.ts, and the
+ * store they run on.
+ *
+ * Any policy can be overridden without a code change through the
+ * RATE_LIMIT_POLICIES environment variable (JSON, merged over the defaults),
+ * e.g. {"aiChat":{"limit":20,"plans":{"Pro":{"limit":120}}}}.
+ * RATE_LIMIT_STORE selects "memory" (default), "firestore" or "redis"
+ * (REDIS_URL, redis:// or rediss://).
+ */
+
+export interface RateLimitPolicy extends RateLimitRule {
+  // "user" keys on the verified Firebase UID and falls back to the IP
+  keyBy: "ip" | "user";
+  // Applied on top of the policy for users on these plans
+  plans?: Partial<Record<PlanName, Partial<RateLimitRule>>>;
+}
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_POLICIES = {
+  global: {
+    algorithm: "sliding-window",
+    limit: 100,
+    windowMs: MINUTE,
+    keyBy: "ip",
+  },
+  ipLookup: {
+    algorithm: "sliding-window",
+    limit: 30,
+    windowMs: MINUTE,
+    keyBy: "ip",
+  },
+  vpnCheck: {
+    algorithm: "sliding-window",
+    limit: 10,
+    windowMs: MINUTE,
+    keyBy: "ip",
+  },
+  registration: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowMs: 60 * MINUTE,
+    keyBy: "ip",
+  },
+  licenseActivation: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowMs: MINUTE,
+    keyBy: "user",
+  },
+  dailyReset: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowMs: MINUTE,
+    keyBy: "user",
+  },
+  // Bursty by nature: a bucket lets a user send a few messages in a row
+  aiChat: {
+    algorithm: "token-bucket",
+    limit: 10,
+    windowMs: MINUTE,
+    keyBy: "user",
+    plans: { Classic: { limit: 30 }, Pro: { limit: 60 } },
+  },
+  aiImage: {
+    algorithm: "token-bucket",
+    limit: 10,
+    windowMs: MINUTE,
+    keyBy: "user",
+    plans: { Pro: { limit: 30 } },
+  },
+  aiConfig: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowMs: MINUTE,
+    keyBy: "user",
+  },
+  conversations: {
+    algorithm: "sliding-window",
+    limit: 60,
+    windowMs: MINUTE,
+    keyBy: "user",
+  },
+  // Each upload is decoded, parsed and stored: kept well below chat traffic
+  attachmentUpload: {
+    algorithm: "sliding-window",
+    limit: 10,
+    windowMs: MINUTE,
+    keyBy: "user",
+    plans: { Pro: { limit: 30 } },
+  },
+  // One appeal per ban, a few tries for validation errors
+  banAppeal: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowMs: 60 * MINUTE,
+    keyBy: "user",
+  },
+  admin: {
+    algorithm: "sliding-window",
+    limit: 10,
+    windowMs: MINUTE,
+    keyBy: "user",
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof DEFAULT_RATE_LIMIT_POLICIES;
+
+const RuleOverrideSchema = z
+  .object({
+    algorithm: z.enum(["token-bucket", "sliding-window"]),
+    limit: z.number().int().min(1),
+    windowMs: z.number().int().min(1000),
+  })
+  .partial();
+
+const PolicyOverridesSchema = z.record(
+  z.string(),
+  RuleOverrideSchema.extend({
+    keyBy: z.enum(["ip", "user"]).optional(),
+    plans: z
+      .record(z.enum(["Free", "Classic", "Pro"]), RuleOverrideSchema)
+      .optional(),
+  }),
+);
+
+let policies: Record<string, RateLimitPolicy> | null = null;
+
+function loadPolicies(): Record<string, RateLimitPolicy> {
+  const merged: Record<string, RateLimitPolicy> = {
+    ...DEFAULT_RATE_LIMIT_POLICIES,
+  };
+  const raw = process.env.RATE_LIMIT_POLICIES;
+  if (!raw) return merged;
+
+  try {
+    const overrides = PolicyOverridesSchema.parse(JSON.parse(raw));
+    for (const [name, override] of Object.entries(overrides)) {
+      const base = merged[name];
+      if (!base) {
+        console.warn(`[RATE_LIMIT] Unknown policy "${name}" in overrides`);
+        continue;
+      }
+      merged[name] = {
+        ...base,
+        ...override,
+        plans: { ...base.plans, ...override.plans },
+      } as RateLimitPolicy;
+    }
+  } catch (error) {
+    console.error("[RATE_LIMIT] Ignoring invalid RATE_LIMIT_POLICIES:", error);
+  }
+  return merged;
+}
+
+export function getRateLimitPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  policies ??= loadPolicies();
+  return policies[name];
+}
+
+// The rule for a caller on `plan` (unauthenticated callers get the base one)
+export function resolveRateLimitRule(
+  policy: RateLimitPolicy,
+  plan: string | null,
+): RateLimitRule {
+  const override = plan ? policy.plans?.[getPlan(plan).name] : undefined;
+  return {
+    algorithm: override?.algorithm ?? policy.algorithm,
+    limit: override?.limit ?? policy.limit,
+    windowMs: override?.windowMs ?? policy.windowMs,
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const kind = process.env.RATE_LIMIT_STORE || "memory";
+  if (kind === "redis" && process.env.REDIS_URL) {
+    store = new RedisRateLimitStore(new RedisClient(process.env.REDIS_URL));
+  } else if (kind === "firestore" && getAdminDb()) {
+    store = new FirestoreRateLimitStore(getAdminDb()!);
+  } else {
+    if (kind !== "memory") {
+      console.warn(
+        `[RATE_LIMIT] Store "${kind}" unavailable, using the in-memory store`,
+      );
+    }
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  MemoryRateLimitStore,
+  RateLimitRule,
+  slidingWindow,
+  tokenBucket,
+} from "./rate-limit";
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2024, 0, 15, 12, 0);
+
+describe("rate limit", () => {
+  it("should allow a burst then refill the token bucket over the window", () => {
+    const rule: RateLimitRule = {
+      algorithm: "token-bucket",
+      limit: 3,
+      windowMs: MINUTE,
+    };
+
+    let state = null;
+    for (let i = 0; i < 3; i++) {
+      const step = tokenBucket(rule, state, T0);
+      expect(step.decision.allowed).toBe(true);
+      state = step.state;
+    }
+    const denied = tokenBucket(rule, state, T0);
+    expect(denied.decision).toMatchObject({ allowed: false, remaining: 0 });
+    // One token every 20s
+    expect(denied.decision.retryAfterMs).toBe(20_000);
+
+    expect(tokenBucket(rule, state, T0 + 20_000).decision.allowed).toBe(true);
+  });
+
+  it("should weight the previous window in the sliding window", () => {
+    const rule: RateLimitRule = {
+      algorithm: "sliding-window",
+      limit: 10,
+      windowMs: MINUTE,
+    };
+
+    let state = null;
+    for (let i = 0; i < 10; i++) {
+      state = slidingWindow(rule, state, T0 + 50_000).state;
+    }
+    expect(slidingWindow(rule, state, T0 + 55_000).decision.allowed).toBe(
+      false,
+    );
+
+    // 15s into the next window, 75% of the previous 10 requests still count
+    const next = slidingWindow(rule, state, T0 + MINUTE + 15_000);
+    expect(next.decision).toMatchObject({ allowed: true, remaining: 1 });
+    expect(next.state).toEqual({
+      windowStart: T0 + MINUTE,
+      current: 1,
+      previous: 10,
+    });
+  });
+
+  it("should evict expired and least recently used keys from memory", async () => {
+    const store = new MemoryRateLimitStore(2, 0);
+    const rule: RateLimitRule = {
+      algorithm: "sliding-window",
+      limit: 5,
+      windowMs: MINUTE,
+    };
+
+    await store.consume("a", rule, T0);
+    await store.consume("b", rule, T0);
+    await store.consume("a", rule, T0);
+    await store.consume("c", rule, T0);
+    expect(store.size).toBe(2);
+
+    // "b" was evicted, so it starts over
+    expect((await store.consume("b", rule, T0)).remaining).toBe(4);
+
+    await store.consume("d", rule, T0 + 3 * MINUTE);
+    expect(store.size).toBe(1);
+  });
+});
@@ -0,0 +1,285 @@
+import { createHash } from "crypto";
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import { RedisClient } from "./redis-client";
+
+/**
+ * Rate limiting algorithms and the stores that keep their state.
+ *
+ * An algorithm is a pure step function from the previous state of a key to
+ * the next one plus the decision; a store applies it atomically. The memory
+ * store is per process (fine for a single server or local development), the
+ * Firestore and Redis stores share limits across instances and survive the
+ * cold starts of serverless deployments.
+ */
+
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  // Requests per window (the bucket size for token-bucket)
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Until the quota is fully available again
+  resetMs: number;
+  // Until the next request can succeed, 0 when allowed
+  retryAfterMs: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+/**
+ * Bucket of `limit` tokens refilled continuously over `windowMs`: allows
+ * bursts up to the limit, then one request per windowMs / limit.
+ */
+export function tokenBucket(
+  rule: RateLimitRule,
+  state: TokenBucketState | null,
+  now: number,
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const available = state
+    ? Math.min(
+        rule.limit,
+        state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs,
+      )
+    : rule.limit;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by
+ * how much of it still overlaps the sliding window. Avoids the double burst
+ * of fixed windows while storing two counters per key.
+ */
+export function slidingWindow(
+  rule: RateLimitRule,
+  state: SlidingWindowState | null,
+  now: number,
+): { state: SlidingWindowState; decision: RateLimitDecision } {
+  const windowStart = now - (now % rule.windowMs);
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - rule.windowMs) {
+    previous = state.current;
+  }
+
+  const elapsed = now - windowStart;
+  const weight = (rule.windowMs - elapsed) / rule.windowMs;
+  const estimated = previous * weight + current;
+  const allowed = estimated + 1 <= rule.limit;
+  if (allowed) current++;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Wait until the previous window's weight has decayed enough, or for
+    // the next window when the current one alone is full
+    retryAfterMs =
+      current + 1 > rule.limit || previous === 0
+        ? rule.windowMs - elapsed
+        : Math.ceil(
+            rule.windowMs * (1 - (rule.limit - current - 1) / previous) -
+              elapsed,
+          );
+  }
+
+  return {
+    state: { windowStart, current, previous },
+    decision: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.max(
+        0,
+        Math.floor(rule.limit - previous * weight - current),
+      ),
+      resetMs: rule.windowMs - elapsed + (previous > 0 ? rule.windowMs : 0),
+      retryAfterMs: Math.max(0, retryAfterMs),
+    },
+  };
+}
+
+export function applyRateLimit(
+  rule: RateLimitRule,
+  state: RateLimitState | null,
+  now: number,
+) {
+  return rule.algorithm === "token-bucket"
+    ? tokenBucket(rule, state as TokenBucketState | null, now)
+    : slidingWindow(rule, state as SlidingWindowState | null, now);
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  /**
+   * Atomically apply `rule` to `key` and persist the new state, which may be
+   * dropped once `rule.windowMs` has passed without requests.
+   */
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+}
+
+/**
+ * Process-local store. Expired keys are swept periodically and the oldest
+ * keys are evicted beyond `maxKeys`, so memory stays bounded.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expiresAt: number }
+  >();
+  private lastSweep = 0;
+
+  constructor(
+    private maxKeys = 50_000,
+    private sweepIntervalMs = 60_000,
+  ) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  sweep(now = Date.now()) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    this.lastSweep = now;
+  }
+
+  async consume(key: string, rule: RateLimitRule, now = Date.now()) {
+    if (now - this.lastSweep >= this.sweepIntervalMs) this.sweep(now);
+
+    const entry = this.entries.get(key);
+    const previous = entry && entry.expiresAt > now ? entry.state : null;
+    const { state, decision } = applyRateLimit(rule, previous, now);
+
+    // Re-insert so Map order stays least-recently-used first
+    this.entries.delete(key);
+    this.entries.set(key, { state, expiresAt: now + rule.windowMs * 2 });
+    if (this.entries.size > this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return decision;
+  }
+}
+
+// Keys contain IPs and paths, neither allowed nor wanted as document IDs
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex").slice(0, 40);
+}
+
+/**
+ * `rate_limits/{hash}` documents updated in a transaction. `expiresAt` is
+ * meant for a Firestore TTL policy (firestore.indexes.json) to delete idle
+ * keys.
+ */
+export class FirestoreRateLimitStore implements RateLimitStore {
+  readonly name = "firestore";
+
+  constructor(private db: Firestore) {}
+
+  consume(key: string, rule: RateLimitRule) {
+    const ref = this.db.collection("rate_limits").doc(hashKey(key));
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const now = Date.now();
+      const data = snap.data();
+      const previous =
+        data && data.expiresAt.toMillis() > now ? data.state : null;
+      const { state, decision } = applyRateLimit(rule, previous, now);
+      tx.set(ref, {
+        state,
+        expiresAt: Timestamp.fromMillis(now + rule.windowMs * 2),
+      });
+      return decision;
+    });
+  }
+}
+
+/**
+ * Redis (or compatible) store using optimistic WATCH/MULTI/EXEC, retried
+ * when another instance updated the key in between. Transactions share one
+ * connection, so they are run one at a time.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = "redis";
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private client: RedisClient,
+    private prefix = "ratelimit:",
+  ) {}
+
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const run = this.queue.then(() => this.transaction(key, rule));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async transaction(key: string, rule: RateLimitRule) {
+    try {
+      return await this.attempt(key, rule);
+    } catch (error) {
+      // Don't leave the shared connection inside WATCH or MULTI
+      this.client.close();
+      throw error;
+    }
+  }
+
+  private async attempt(key: string, rule: RateLimitRule) {
+    const redisKey = this.prefix + hashKey(key);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await this.client.command(["WATCH", redisKey]);
+      const raw = await this.client.command(["GET", redisKey]);
+      const now = Date.now();
+      const { state, decision } = applyRateLimit(
+        rule,
+        typeof raw === "string" ? JSON.parse(raw) : null,
+        now,
+      );
+
+      await this.client.command(["MULTI"]);
+      await this.client.command([
+        "SET",
+        redisKey,
+        JSON.stringify(state),
+        "PX",
+        rule.windowMs * 2,
+      ]);
+      // Null when the watched key changed: try again with the new state
+      if ((await this.client.command(["EXEC"])) !== null) return decision;
+    }
+    throw new Error(`Rate limit key kept changing: ${key}`);
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { encodeCommand, parseReply, RedisError } from "./redis-client";
+
+describe("redis client", () => {
+  it("should encode commands as RESP arrays of bulk strings", () => {
+    expect(encodeCommand(["SET", "k", "é", "PX", 500]).toString()).toBe(
+      "*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n$2\r\nPX\r\n$3\r\n500\r\n",
+    );
+  });
+
+  it("should parse replies and wait for incomplete ones", () => {
+    const reply = Buffer.from("*3\r\n+OK\r\n$-1\r\n:42\r\n-ERR bad\r\n");
+
+    const first = parseReply(reply);
+    expect(first?.value).toEqual(["OK", null, 42]);
+    expect(parseReply(reply, first!.next)?.value).toBeInstanceOf(RedisError);
+
+    expect(parseReply(Buffer.from("$5\r\nhel"))).toBeNull();
+    expect(parseReply(Buffer.from("*2\r\n+OK\r\n"))).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import net from "net";
+import tls from "tls";
+
+/**
+ * Minimal Redis client speaking RESP2 over a single connection, enough for
+ * the rate limiter (GET/SET/WATCH/MULTI/EXEC) without adding a dependency.
+ * Works with any server implementing the Redis protocol (Redis, Valkey,
+ * KeyDB, Dragonfly). Commands are pipelined and answered in order; the
+ * connection is reopened lazily after an error.
+ */
+
+export type RedisReply = string | number | null | RedisReply[] | RedisError;
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisError";
+  }
+}
+
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map((arg) => {
+    const value = Buffer.from(String(arg));
+    return Buffer.concat([
+      Buffer.from(`$${value.length}\r\n`),
+      value,
+      Buffer.from("\r\n"),
+    ]);
+  });
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]);
+}
+
+/**
+ * Parse one reply starting at `offset`. Returns null when the buffer does
+ * not hold a complete reply yet.
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset = 0,
+): { value: RedisReply; next: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next };
+    case "-":
+      return { value: new RedisError(line), next };
+    case ":":
+      return { value: Number(line), next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        next: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, next };
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`);
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+export class RedisClient {
+  private url: URL;
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(url: string) {
+    this.url = new URL(url);
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const secure = this.url.protocol === "rediss:";
+    const port = Number(this.url.port) || 6379;
+    const socket = secure
+      ? tls.connect({ host: this.url.hostname, port })
+      : net.connect({ host: this.url.hostname, port });
+    socket.setNoDelay(true);
+    socket.unref();
+    this.socket = socket;
+
+    socket.on("data", (chunk) => this.onData(chunk));
+    socket.on("error", (error) => this.reset(error));
+    socket.on("close", () => this.reset(new RedisError("Connection closed")));
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      socket.once(secure ? "secureConnect" : "connect", resolve);
+      socket.once("error", reject);
+    }).then(async () => {
+      const password = decodeURIComponent(this.url.password);
+      if (password) {
+        const username = decodeURIComponent(this.url.username);
+        await this.send(
+          username ? ["AUTH", username, password] : ["AUTH", password],
+        );
+      }
+      const db = this.url.pathname.slice(1);
+      if (db) await this.send(["SELECT", db]);
+    });
+    this.ready.catch(() => this.reset(new RedisError("Connection failed")));
+    return this.ready;
+  }
+
+  private reset(error: Error) {
+    if (!this.socket) return;
+    this.socket.destroy();
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    for (const command of this.pending.splice(0)) command.reject(error);
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    for (;;) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply.next;
+      const command = this.pending.shift();
+      if (!command) continue;
+      if (reply.value instanceof RedisError) command.reject(reply.value);
+      else command.resolve(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private send(args: (string | number)[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  async command(args: (string | number)[]): Promise<RedisReply> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close() {
+    this.reset(new RedisError("Client closed"));
+  }
+}
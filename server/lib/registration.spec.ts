@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { isDisposableEmail } from "./disposable-email";
+import {
+  normalizeIp,
+  registrationBlock,
+  RegistrationChecks,
+  RegistrationPolicy,
+} from "./registration";
+
+const CLEAN: RegistrationChecks = {
+  disposableEmail: false,
+  ipBan: null,
+  accountsOnIp: 0,
+  vpn: { isVPN: false, provider: null, source: "local" },
+};
+const POLICY: RegistrationPolicy = { maxAccountsPerIp: 1, blockVPN: true };
+
+describe("registration", () => {
+  it("should allow a clean registration", () => {
+    expect(registrationBlock(CLEAN, POLICY)).toBeNull();
+  });
+
+  it("should refuse once the IP holds the maximum number of accounts", () => {
+    expect(registrationBlock({ ...CLEAN, accountsOnIp: 1 }, POLICY)).toBe(
+      "ip_account_limit",
+    );
+    expect(
+      registrationBlock(
+        { ...CLEAN, accountsOnIp: 1 },
+        { ...POLICY, maxAccountsPerIp: 3 },
+      ),
+    ).toBeNull();
+  });
+
+  it("should report the most certain block first", () => {
+    const checks: RegistrationChecks = {
+      disposableEmail: true,
+      ipBan: { reason: "", expiresAt: null },
+      accountsOnIp: 5,
+      vpn: { isVPN: true, provider: "Example", source: "local" },
+    };
+    expect(registrationBlock(checks, POLICY)).toBe("disposable_email");
+    expect(
+      registrationBlock({ ...checks, disposableEmail: false }, POLICY),
+    ).toBe("ip_banned");
+  });
+
+  it("should only refuse VPNs when the policy says so", () => {
+    const vpn: RegistrationChecks = {
+      ...CLEAN,
+      vpn: { isVPN: true, provider: "Example", source: "local" },
+    };
+    expect(registrationBlock(vpn, POLICY)).toBe("vpn");
+    expect(registrationBlock(vpn, { ...POLICY, blockVPN: false })).toBeNull();
+  });
+
+  it("should unwrap IPv4-mapped IPv6 addresses", () => {
+    expect(normalizeIp("::ffff:203.0.113.7")).toBe("203.0.113.7");
+    expect(normalizeIp("2001:db8::1")).toBe("2001:db8::1");
+  });
+
+  it("should detect disposable email domains and their subdomains", () => {
+    expect(isDisposableEmail("someone@yopmail.com")).toBe(true);
+    expect(isDisposableEmail("someone@Eu.Mailinator.com")).toBe(true);
+    expect(isDisposableEmail("someone@gmail.com")).toBe(false);
+    expect(isDisposableEmail("someone@notmailinator.com")).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+import { Firestore, Timestamp } from "firebase-admin/firestore";
+import type { Auth } from "firebase-admin/auth";
+import { BanService } from "./bans";
+import { isDisposableEmail } from "./disposable-email";
+import { checkIpReputation, IpReputation } from "./ip-reputation";
+import type { RegistrationAttemptSummary } from "../../shared/api";
+
+/**
+ * Account creation, run by the server so abuse checks cannot be skipped:
+ * disposable emails, banned IPs, too many accounts per IP and VPNs are
+ * refused before the Firebase user exists. Every attempt, allowed or not,
+ * is stored in `registration_attempts` for review.
+ *
+ * REGISTRATION_MAX_ACCOUNTS_PER_IP (default 1) caps accounts per address;
+ * REGISTRATION_BLOCK_VPN=false lets VPN users register.
+ */
+
+export type RegistrationBlock =
+  | "disposable_email"
+  | "ip_banned"
+  | "ip_account_limit"
+  | "vpn";
+
+export interface RegistrationChecks {
+  disposableEmail: boolean;
+  ipBan: { reason: string; expiresAt: number | null } | null;
+  accountsOnIp: number;
+  vpn: IpReputation;
+}
+
+export interface RegistrationPolicy {
+  maxAccountsPerIp: number;
+  blockVPN: boolean;
+}
+
+export interface RegisterUserInput {
+  email: string;
+  password: string;
+  ipAddress: string;
+  timezone?: string;
+  // Links the account to others created from the same browser
+  deviceId?: string;
+}
+
+export class RegistrationError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "RegistrationError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const BLOCK_MESSAGES: Record<RegistrationBlock, string> = {
+  disposable_email: "Les adresses email temporaires ne sont pas acceptées",
+  ip_banned: "Votre adresse IP est bannie",
+  ip_account_limit:
+    "Vous avez atteint le nombre maximal de comptes autorisés depuis votre adresse IP",
+  vpn: "Les inscriptions depuis un VPN ou un proxy ne sont pas autorisées",
+};
+
+export function getRegistrationPolicy(): RegistrationPolicy {
+  const max = Number(process.env.REGISTRATION_MAX_ACCOUNTS_PER_IP);
+  return {
+    maxAccountsPerIp: Number.isInteger(max) && max > 0 ? max : 1,
+    blockVPN: process.env.REGISTRATION_BLOCK_VPN !== "false",
+  };
+}
+
+// IPv4 clients behind a dual-stack socket show up as "::ffff:1.2.3.4"
+export function normalizeIp(ipAddress: string): string {
+  return ipAddress.startsWith("::ffff:") && ipAddress.includes(".")
+    ? ipAddress.slice(7)
+    : ipAddress;
+}
+
+/**
+ * The first check that refuses the registration, in order of certainty.
+ */
+export function registrationBlock(
+  checks: RegistrationChecks,
+  policy: RegistrationPolicy,
+): RegistrationBlock | null {
+  if (checks.disposableEmail) return "disposable_email";
+  if (checks.ipBan) return "ip_banned";
+  if (checks.accountsOnIp >= policy.maxAccountsPerIp) return "ip_account_limit";
+  if (policy.blockVPN && checks.vpn.isVPN) return "vpn";
+  return null;
+}
+
+async function countAccountsOnIp(
+  db: Firestore,
+  ipAddress: string,
+): Promise<number> {
+  const snapshot = await db
+    .collection("user_ips")
+    .where("ipAddress", "==", ipAddress)
+    .get();
+  return new Set(snapshot.docs.map((doc) => doc.data().userId)).size;
+}
+
+export async function runRegistrationChecks(
+  db: Firestore,
+  email: string,
+  ipAddress: string,
+): Promise<RegistrationChecks> {
+  const [ipBan, accountsOnIp, vpn] = await Promise.all([
+    BanService.getActiveIpBan(db, ipAddress),
+    countAccountsOnIp(db, ipAddress),
+    checkIpReputation(ipAddress),
+  ]);
+
+  return {
+    disposableEmail: isDisposableEmail(email),
+    ipBan,
+    accountsOnIp,
+    vpn,
+  };
+}
+
+/**
+ * Run the checks, then create the Firebase user, its profile and its first
+ * IP record. Throws RegistrationError when refused.
+ */
+export async function registerUser(
+  db: Firestore,
+  auth: Auth,
+  input: RegisterUserInput,
+): Promise<{ uid: string }> {
+  const email = input.email.trim().toLowerCase();
+  const ipAddress = normalizeIp(input.ipAddress);
+
+  const checks = await runRegistrationChecks(db, email, ipAddress);
+  const block = registrationBlock(checks, getRegistrationPolicy());
+
+  const attemptRef = await db.collection("registration_attempts").add({
+    email,
+    ipAddress,
+    deviceId: input.deviceId ?? null,
+    allowed: block === null,
+    blockedBy: block,
+    checks,
+    userId: null,
+    createdAt: Timestamp.now(),
+  });
+
+  if (block) {
+    console.warn(`[REGISTER] Refused ${email} from ${ipAddress}: ${block}`);
+    throw new RegistrationError(BLOCK_MESSAGES[block], 403, block);
+  }
+
+  let uid: string;
+  try {
+    ({ uid } = await auth.createUser({ email, password: input.password }));
+  } catch (error: any) {
+    await attemptRef.update({ allowed: false, blockedBy: "auth_error" });
+    if (error?.code === "auth/email-already-exists") {
+      throw new RegistrationError(
+        "Cet email est déjà utilisé",
+        409,
+        "email_exists",
+      );
+    }
+    if (error?.code === "auth/invalid-email") {
+      throw new RegistrationError("Email invalide", 400, "invalid_email");
+    }
+    if (error?.code === "auth/invalid-password") {
+      throw new RegistrationError(
+        "Le mot de passe doit contenir au moins 6 caractères",
+        400,
+        "weak_password",
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const now = Timestamp.now();
+    const batch = db.batch();
+    batch.set(db.collection("users").doc(uid), {
+      uid,
+      email,
+      displayName: email.split("@")[0],
+      plan: "Free",
+      role: "user",
+      category: "individual",
+      messagesUsed: 0,
+      tokensUsed: 0,
+      createdAt: Date.now(),
+      isAdmin: false,
+      ...(input.timezone ? { timezone: input.timezone } : {}),
+    });
+    batch.set(db.collection("user_ips").doc(), {
+      userId: uid,
+      email,
+      ipAddress,
+      recordedAt: now,
+      lastUsed: now,
+    });
+    if (input.deviceId) {
+      batch.set(db.collection("user_devices").doc(), {
+        userId: uid,
+        email,
+        deviceId: input.deviceId,
+        recordedAt: now,
+        lastUsed: now,
+      });
+    }
+    batch.update(attemptRef, { userId: uid });
+    await batch.commit();
+  } catch (error) {
+    // No half-created accounts: the profile is what grants access
+    await auth.deleteUser(uid).catch(() => {});
+    throw error;
+  }
+
+  console.log(`[REGISTER] Created user ${uid} from ${ipAddress}`);
+  return { uid };
+}
+
+export async function listRegistrationAttempts(
+  db: Firestore,
+  options: { blockedOnly: boolean; limit: number },
+): Promise<RegistrationAttemptSummary[]> {
+  let query = db
+    .collection("registration_attempts")
+    .orderBy("createdAt", "desc");
+  if (options.blockedOnly) query = query.where("allowed", "==", false);
+
+  const snapshot = await query.limit(options.limit).get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      email: data.email,
+      ipAddress: data.ipAddress,
+      allowed: data.allowed === true,
+      blockedBy: data.blockedBy ?? null,
+      accountsOnIp: data.checks?.accountsOnIp ?? 0,
+      isVPN: data.checks?.vpn?.isVPN ?? null,
+      vpnProvider: data.checks?.vpn?.provider ?? null,
+      userId: data.userId ?? null,
+      createdAt: data.createdAt.toDate().toISOString(),
+    };
+  });
+}
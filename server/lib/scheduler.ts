@@ -0,0 +1,64 @@
+import { getAdminDb, isAdminInitialized } from "./firebase-admin";
+import { runMaintenanceSweep } from "./maintenance";
+
+/**
+ * In-process runner for the maintenance sweep, started by the Node server
+ * (node-build.ts). Every instance runs it; the Firestore lease in
+ * runMaintenanceSweep keeps sweeps from overlapping.
+ *
+ * MAINTENANCE_INTERVAL_MS sets the period (default 15 minutes), 0 disables
+ * the scheduler. A short period matters because users hit their local
+ * midnight at different times.
+ */
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+async function tick() {
+  if (running || !isAdminInitialized()) return;
+  running = true;
+
+  try {
+    const summary = await runMaintenanceSweep(getAdminDb(), {
+      trigger: "schedule",
+    });
+    if (summary) {
+      console.log(
+        `[MAINTENANCE] Scanned ${summary.usersScanned} users: ${summary.quotasReset} quotas reset, ${summary.licensesExpired} licenses expired (${summary.durationMs}ms)`,
+      );
+    }
+  } catch (error) {
+    console.error("[MAINTENANCE] Scheduled run failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startScheduler(): () => void {
+  const intervalMs = Number(
+    process.env.MAINTENANCE_INTERVAL_MS ?? DEFAULT_INTERVAL_MS,
+  );
+
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    console.log("[MAINTENANCE] Scheduler disabled");
+    return () => {};
+  }
+
+  if (!timer) {
+    timer = setInterval(tick, intervalMs);
+    timer.unref();
+    void tick();
+    console.log(`[MAINTENANCE] Scheduler running every ${intervalMs}ms`);
+  }
+
+  return stopScheduler;
+}
+
+export function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from "express";
+import { getAdminAuth, getAdminDb } from "../lib/firebase-admin";
+import { isUserBanned } from "../../shared/bans";
+import { can, Permission } from "../../shared/permissions";
+import { hasRole, resolveUserRole, UserRole } from "../../shared/roles";
+
+/**
+ * The verified caller of a request, loaded once by authMiddleware from the
+ * Firebase ID token and the users/{uid} document.
+ */
+export interface Principal {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+  plan: string;
+  isBanned: boolean;
+  // False until /api/register has created users/{uid}
+  provisioned: boolean;
+}
+
+function extractIdToken(req: Request): string | null {
+  const token =
+    req.body?.idToken ||
+    (req.headers.authorization?.startsWith("Bearer ")
+      ? req.headers.authorization.slice(7).trim()
+      : null);
+  return typeof token === "string" && token ? token : null;
+}
+
+async function loadPrincipal(idToken: string): Promise<Principal | null> {
+  const auth = getAdminAuth();
+  const db = getAdminDb();
+  if (!auth || !db) return null;
+
+  let decoded;
+  try {
+    decoded = await auth.verifyIdToken(idToken);
+  } catch {
+    return null;
+  }
+
+  // Signed up but not provisioned yet: no role until /api/register runs
+  const data = (await db.collection("users").doc(decoded.uid).get()).data();
+  return {
+    uid: decoded.uid,
+    email: decoded.email ?? data?.email ?? null,
+    role: resolveUserRole(data ?? {}),
+    plan: data?.plan || "Free",
+    isBanned: isUserBanned(data ?? {}),
+    provisioned: data !== undefined,
+  };
+}
+
+/**
+ * Authentication middleware - verifies the ID token (body `idToken` or
+ * Bearer header) and attaches the caller as the request principal.
+ * Requests without a valid token continue with a null principal; routes
+ * that need one are guarded by requireAuth or requireRole.
+ */
+export async function authMiddleware(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  const idToken = extractIdToken(req);
+
+  // Raw token kept for handlers that still verify it themselves
+  (req as any).idToken = idToken;
+  (req as any).principal = null;
+
+  if (idToken) {
+    try {
+      (req as any).principal = await loadPrincipal(idToken);
+    } catch (error) {
+      console.error("[AUTH] Failed to load principal:", error);
+    }
+  }
+
+  next();
+}
+
+export function getPrincipal(req: Request): Principal | null {
+  return (req as any).principal ?? null;
+}
+
+/**
+ * Require a signed-in caller, banned or not (e.g. to read their own ban).
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!getPrincipal(req)) {
+    return res.status(401).json({
+      message: "Unauthorized: Invalid or expired token",
+    });
+  }
+  next();
+}
+
+function guard(allowed: (principal: Principal) => boolean, label: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = getPrincipal(req);
+    if (!principal) {
+      return res.status(401).json({
+        message: "Unauthorized: Invalid or expired token",
+      });
+    }
+    if (principal.isBanned) {
+      return res.status(403).json({
+        message: "Your account has been banned.",
+      });
+    }
+    // /api/register, which creates the profile, is not guarded
+    if (!principal.provisioned) {
+      return res.status(403).json({
+        message: "Account not provisioned. Complete registration first.",
+      });
+    }
+    if (!allowed(principal)) {
+      console.warn(
+        `[AUTH] ${principal.uid} (${principal.role}) denied ${req.method} ${req.originalUrl}`,
+      );
+      return res.status(403).json({
+        message: `Forbidden: ${label} required`,
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Require a signed-in, registered, non-banned caller with at least `role`.
+ */
+export function requireRole(role: UserRole) {
+  return guard((principal) => hasRole(principal.role, role), `${role} access`);
+}
+
+/**
+ * Require a signed-in, registered, non-banned caller whose role grants `permission`
+ * (see shared/permissions.ts).
+ */
+export function requirePermission(permission: Permission) {
+  return guard(
+    (principal) => can(principal.role, permission),
+    `${permission} permission`,
+  );
+}
@@ -1,5 +1,17 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
+import { randomUUID } from "crypto";
+import { getPrincipal } from "./auth";
+import type { RateLimitDecision, RateLimitRule } from "../lib/rate-limit";
+import {
+  getRateLimitPolicy,
+  getRateLimitStore,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  resolveRateLimitRule,
+} from "../lib/rate-limit-policies";
+import { MODEL_IDS } from "../lib/model-catalog";
+import { isValidTimezone } from "../lib/maintenance";
 
 /**
  * Content-Type validation middleware.
@@ -85,7 +97,11 @@ export function validateInput(req: Request, res: Response, next: NextFunction) {
     return false;
   };
 
-  if (checkStringLength(req.body)) {
+  // Attachment uploads carry the file as base64 in `data`, sized by the
+  // body limit and the plan (server/routes/attachments.ts)
+  const checked =
+    req.path === "/api/attachments" ? { ...req.body, data: "" } : req.body;
+  if (checkStringLength(checked)) {
     return res.status(400).json({
       error: "Invalid input: string too long.",
     });
@@ -95,111 +111,97 @@ export function validateInput(req: Request, res: Response, next: NextFunction) {
 }
 
 /**
- * Server-side rate limiting using in-memory store.
- * Tracks requests per user ID (from JWT) with priority, falls back to IP address.
- * For production, use Redis or similar persistent store.
+ * Who a request is counted against: the verified caller (see authMiddleware)
+ * for "user" policies, otherwise (or when signed out) the client IP. The IP
+ * comes from req.ip, which honors the "trust proxy" setting instead of
+ * trusting any X-Forwarded-For value.
  */
-const rateLimitStore = new Map<string, Array<{ timestamp: number }>>();
+function resolveRateLimitSubject(
+  req: Request,
+  policy: RateLimitPolicy,
+): { key: string; plan: string | null } {
+  const principal = getPrincipal(req);
+  if (policy.keyBy === "user" && principal) {
+    return { key: `uid:${principal.uid}`, plan: principal.plan };
+  }
+  return {
+    key: `ip:${req.ip || req.socket.remoteAddress || "unknown"}`,
+    plan: null,
+  };
+}
 
-export function serverRateLimit(
-  windowMs: number = 60000,
-  maxRequests: number = 100,
+function setRateLimitHeaders(
+  res: Response,
+  rule: RateLimitRule,
+  decision: RateLimitDecision,
 ) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    // Priority: use decoded UID > use IP address
-    let userIdentifier: string;
-
-    if ((req as any).decodedUid) {
-      // User is authenticated, use their UID for rate limiting
-      userIdentifier = `uid:${(req as any).decodedUid}`;
-    } else if ((req as any).userId) {
-      // Fallback to userId if available
-      userIdentifier = `uid:${(req as any).userId}`;
-    } else {
-      // Fall back to IP address for unauthenticated requests
-      userIdentifier =
-        `ip:${(req.headers["x-forwarded-for"] as string)?.split(",")[0]}` ||
-        `ip:${req.headers["x-real-ip"]}` ||
-        `ip:${req.ip}` ||
-        `ip:${req.socket.remoteAddress}` ||
-        "unknown";
-    }
-
-    const key = `ratelimit:${userIdentifier}:${req.path}`;
-    const now = Date.now();
-
-    // Initialize or get existing request timestamps
-    let requests = rateLimitStore.get(key) || [];
-
-    // Remove old requests outside the window
-    requests = requests.filter((req) => now - req.timestamp < windowMs);
+  res.setHeader("RateLimit-Limit", decision.limit);
+  res.setHeader("RateLimit-Remaining", decision.remaining);
+  res.setHeader("RateLimit-Reset", Math.ceil(decision.resetMs / 1000));
+  res.setHeader(
+    "RateLimit-Policy",
+    `${rule.limit};w=${Math.round(rule.windowMs / 1000)}`,
+  );
+}
 
-    // Check if limit exceeded
-    if (requests.length >= maxRequests) {
-      const oldestRequest = requests[0];
-      const retryAfter = Math.ceil(
-        (windowMs - (now - oldestRequest.timestamp)) / 1000,
+/**
+ * Server-side rate limiting with a named policy (server/lib/rate-limit-policies.ts).
+ * Counts per subject and path on the configured store and answers 429 with
+ * Retry-After once the limit is reached. Store failures let the request
+ * through rather than taking the API down.
+ */
+export function serverRateLimit(policyName: RateLimitPolicyName) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const policy = getRateLimitPolicy(policyName);
+    let decision: RateLimitDecision;
+    try {
+      const subject = resolveRateLimitSubject(req, policy);
+      const rule = resolveRateLimitRule(policy, subject.plan);
+      decision = await getRateLimitStore().consume(
+        `${policyName}:${subject.key}:${req.path}`,
+        rule,
       );
+      setRateLimitHeaders(res, rule, decision);
+    } catch (error) {
+      console.error(`[RATE_LIMIT] ${policyName} check failed:`, error);
+      return next();
+    }
 
+    if (!decision.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+      res.setHeader("Retry-After", retryAfter);
       return res.status(429).json({
         error: "Too many requests. Please try again later.",
         retryAfter,
       });
     }
 
-    // Add current request
-    requests.push({ timestamp: now });
-    rateLimitStore.set(key, requests);
-
     // Store on request object for downstream use
-    (req as any).rateLimitRemaining = maxRequests - requests.length;
+    (req as any).rateLimitRemaining = decision.remaining;
 
     next();
   };
 }
 
 /**
- * Authentication middleware - extracts and validates JWT token from request.
- * Decodes JWT claims without verifying signature (signature verified later by routes).
+ * Request ID middleware.
+ * Reuses a well-formed incoming X-Request-Id (to trace client retries) or
+ * generates one, and echoes it on the response. Never used as a key for
+ * server state; credit ledger ids are generated in server/lib/credits.ts.
  */
-export function authMiddleware(
+export function requestIdMiddleware(
   req: Request,
   res: Response,
   next: NextFunction,
 ) {
-  const idToken =
-    req.body?.idToken ||
-    (req.headers.authorization?.startsWith("Bearer ")
-      ? req.headers.authorization.slice(7)
-      : null);
-
-  if (!idToken) {
-    // Store null and continue (route handlers will check for auth)
-    (req as any).idToken = null;
-    (req as any).decodedUid = null;
-    return next();
-  }
-
-  // Store token on request for later verification
-  (req as any).idToken = idToken;
-
-  // Try to extract UID from JWT for rate limiting purposes
-  // This is not a security verification - the actual route will verify the signature
-  try {
-    // Firebase JWT format: header.payload.signature
-    const parts = idToken.split(".");
-    if (parts.length === 3) {
-      const payload = JSON.parse(
-        Buffer.from(parts[1], "base64").toString("utf-8"),
-      );
-      if (payload.uid) {
-        (req as any).decodedUid = payload.uid;
-      }
-    }
-  } catch (error) {
-    // If parsing fails, just continue - signature verification will catch invalid tokens
-  }
-
+  const incoming = req.get("x-request-id");
+  const requestId =
+    incoming && /^[A-Za-z0-9\-_]{8,64}$/.test(incoming)
+      ? incoming
+      : randomUUID();
+
+  (req as any).requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
   next();
 }
 
@@ -350,6 +352,10 @@ export const DailyResetSchema = z.object({
   userId: FirebaseUidSchema,
 });
 
+// Models a chat request (or a persona) may name; plan access is checked
+// against server/lib/model-catalog.ts by the routes
+export const ChatModelSchema = z.enum(MODEL_IDS);
+
 export const AIChatSchema = z.object({
   idToken: IdTokenSchema,
   userMessage: z.string().min(1).max(5000).trim(),
@@ -360,20 +366,169 @@ export const AIChatSchema = z.object({
         content: z.string().max(5000),
       }),
     )
+    .max(100)
     .optional()
     .default([]),
-  model: z
-    .enum([
-      "x-ai/grok-4.1-fast:free",
-      "gpt-4",
-      "gpt-3.5-turbo",
-      "claude-3-opus",
-      "claude-3-sonnet",
-    ])
+  // Defaults come from the conversation, its persona, then settings/ai_config
+  model: ChatModelSchema.optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(4096).optional(),
+});
+
+export const MessageIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9\-_]{1,255}$/, "Invalid message ID");
+
+export const AttachmentIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9]{1,128}$/, "Invalid attachment ID");
+
+export const AIChatStreamSchema = AIChatSchema.extend({
+  conversationId: z
+    .string()
+    .regex(/^[a-zA-Z0-9\-_]{1,255}$/, "Invalid conversation ID")
+    .optional(),
+  // Not needed to regenerate: the stored user message is answered again
+  userMessage: z.string().max(5000).trim().optional(),
+  // Start a sibling branch instead of continuing the active one: a new
+  // version of a user message, or a new reply to the user message before an
+  // assistant message (server/lib/branches.ts)
+  editMessageId: MessageIdSchema.optional(),
+  regenerateMessageId: MessageIdSchema.optional(),
+  // Uploaded with /api/attachments; the per-plan count is checked by the route
+  attachmentIds: z.array(AttachmentIdSchema).max(10).optional().default([]),
+}).superRefine((value, ctx) => {
+  if (!value.regenerateMessageId && !value.userMessage) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["userMessage"],
+      message: "userMessage is required",
+    });
+  }
+  if (value.editMessageId && value.regenerateMessageId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["regenerateMessageId"],
+      message: "Cannot edit and regenerate at once",
+    });
+  }
+  if (
+    (value.editMessageId || value.regenerateMessageId) &&
+    !value.conversationId
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["conversationId"],
+      message: "conversationId is required to branch",
+    });
+  }
+  if (value.attachmentIds.length > 0 && !value.conversationId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["conversationId"],
+      message: "conversationId is required for attachments",
+    });
+  }
+  if (value.attachmentIds.length > 0 && value.regenerateMessageId) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["attachmentIds"],
+      message: "Cannot attach files when regenerating",
+    });
+  }
+});
+
+export const ConversationIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9\-_]{1,255}$/, "Invalid conversation ID");
+
+export const ConversationTitleSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+export const AIImageSchema = z.object({
+  idToken: IdTokenSchema,
+  prompt: z.string().min(1).max(1000).trim(),
+  conversationId: ConversationIdSchema.optional(),
+});
+
+export const PersonaIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9]{1,128}$/, "Invalid persona ID");
+
+export const PersonaSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  instructions: z.string().trim().min(1).max(4000),
+  model: ChatModelSchema.nullable().optional().default(null),
+  temperature: z.number().min(0).max(2).nullable().optional().default(null),
+});
+
+export const ConversationPersonaSchema = z.object({
+  personaId: PersonaIdSchema.nullable(),
+});
+
+export const ConversationModelSchema = z.object({
+  model: ChatModelSchema.nullable(),
+});
+
+export const MESSAGES_PAGE_SIZE = 50;
+
+export const MessagesPageQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(200)
     .optional()
-    .default("x-ai/grok-4.1-fast:free"),
-  temperature: z.number().min(0).max(2).optional().default(0.7),
-  maxTokens: z.number().int().min(1).max(4096).optional().default(2048),
+    .default(MESSAGES_PAGE_SIZE),
+  before: MessageIdSchema.optional(),
+});
+
+export const BranchSelectSchema = z.object({
+  messageId: MessageIdSchema,
+});
+
+export const AttachmentUploadSchema = z.object({
+  conversationId: ConversationIdSchema,
+  name: z.string().trim().min(1).max(255),
+  mimeType: z.string().max(255).optional().default(""),
+  // File content, base64; its decoded size is checked against the plan
+  data: z
+    .string()
+    .min(1)
+    .max(10 * 1024 * 1024),
+});
+
+// Random ID a browser keeps in localStorage (client/lib/ip-service.ts)
+export const DeviceIdSchema = z.string().regex(/^[a-zA-Z0-9-]{16,64}$/);
+
+// IANA name; decides when the daily quota resets (server/lib/maintenance.ts)
+export const TimezoneSchema = z
+  .string()
+  .max(64)
+  .refine(isValidTimezone, "Invalid timezone");
+
+export const TimezoneUpdateSchema = z.object({
+  timezone: TimezoneSchema,
+});
+
+export const RegisterSchema = z.object({
+  email: z.string().trim().email().max(254),
+  password: z.string().min(6).max(128),
+  timezone: TimezoneSchema.optional(),
+  deviceId: DeviceIdSchema.optional(),
+});
+
+export const SanctionIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9]{20}$/, "Invalid sanction ID");
+
+export const IpRangeIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9]{20}$/, "Invalid range ID");
+
+export const BanAppealSchema = z.object({
+  message: z.string().trim().min(20).max(2000),
 });
 
 export const AIConfigSchema = z.object({
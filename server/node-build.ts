@@ -1,6 +1,7 @@
 import path from "path";
 import { fileURLToPath } from "url";
 import { createServer } from "./index";
+import { startScheduler } from "./lib/scheduler";
 import express from "express";
 
 const app = createServer();
@@ -36,6 +37,9 @@ app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
+
+  // Resets quotidiens et expiration des licences
+  startScheduler();
 });
 
 // Arrêts propres
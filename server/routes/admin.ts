@@ -1,37 +1,147 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler } from "express";
 import { z } from "zod";
 import {
   initializeFirebaseAdmin,
   FirebaseAdminService,
 } from "../lib/firebase-admin";
+import { migrateLegacyMessages } from "../lib/conversations";
+import {
+  CreateLicenseBatchOptions,
+  createLicenseBatch,
+  getBatchLicenses,
+  licensesToCSV,
+  revokeLicenseBatch,
+  toLicenseBatchSummary,
+  toLicenseCSVRow,
+} from "../lib/license-batches";
+import { LicenseKeyError } from "../lib/license-signing";
+import {
+  createLicense,
+  extendLicense,
+  LicenseError,
+  revokeLicense,
+  toLicenseSummary,
+  transferLicense,
+} from "../lib/licenses";
+import { readLicense } from "../../shared/licenses";
+import {
+  runMaintenanceSweep,
+  toMaintenanceRunSummary,
+} from "../lib/maintenance";
+import { getTokenBudget } from "../../shared/plans";
+import { AuditService } from "../lib/audit";
+import {
+  clearChatSettingsCache,
+  DEFAULT_CHAT_SETTINGS,
+} from "../lib/ai-config";
+import { MODEL_IDS } from "../lib/model-catalog";
+import { LLM_PROVIDER_NAMES } from "../lib/llm-providers";
+import { BanError, BanService } from "../lib/bans";
+import { listRegistrationAttempts } from "../lib/registration";
+import { getLinkedAccounts, listAccountClusters } from "../lib/linked-accounts";
+import {
+  addManualRange,
+  IpReputationError,
+  listManualRanges,
+  removeManualRange,
+} from "../lib/ip-reputation";
+import { APPEAL_DECISIONS, isUserBanned } from "../../shared/bans";
+import type { SanctionSummary } from "../../shared/api";
+import { getPrincipal } from "../middleware/auth";
+import { IpRangeIdSchema, SanctionIdSchema } from "../middleware/security";
+import { canModerate } from "../../shared/permissions";
+import { resolveUserRole } from "../../shared/roles";
+import {
+  getPolicyRules,
+  PolicyRulesSchema,
+  savePolicyRules,
+} from "../lib/content-policy";
+import { evaluateContent, PolicyRule } from "../../shared/content-policy";
 
 // Initialize on first use
 initializeFirebaseAdmin();
 
-// Helper: Extract and validate idToken from Authorization header
-const extractIdToken = (authHeader: string | undefined): string => {
-  if (!authHeader?.startsWith("Bearer ")) {
-    throw new Error("Missing or invalid authorization header");
-  }
-  const token = authHeader.slice(7).trim();
-  if (!token || token.length < 10 || token.length > 3000) {
-    throw new Error("Invalid token format");
-  }
-  return token;
-};
-
 // Validation schemas
 const UserIdSchema = z.string().regex(/^[a-zA-Z0-9]{28}$/, "Invalid user ID");
 const BanReasonSchema = z.string().min(5).max(500);
+const StaffRoleSchema = z.enum(["moderator", "admin"]);
+const SanctionTypeSchema = z.enum(["ban", "warn"]);
+// Minutes, at most ten years
+const SanctionDurationSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(10 * 525600);
+const AppealDecisionSchema = z
+  .object({
+    decision: z.enum(APPEAL_DECISIONS),
+    response: z.string().trim().max(1000).optional(),
+    // New duration from now, required to reduce
+    durationMinutes: SanctionDurationSchema.optional(),
+  })
+  .refine((body) => body.decision !== "reduced" || body.durationMinutes, {
+    message: "durationMinutes is required to reduce a ban",
+  });
+const SanctionSchema = z.object({
+  userId: UserIdSchema,
+  type: SanctionTypeSchema,
+  reason: BanReasonSchema,
+  // Omitted for permanent sanctions
+  durationMinutes: SanctionDurationSchema.optional(),
+});
+const IpBanSchema = z.object({
+  // Single address or CIDR range, validated by BanService.issueIpBan
+  target: z.string().trim().min(1).max(64),
+  reason: BanReasonSchema,
+  durationMinutes: SanctionDurationSchema.optional(),
+});
+const ClusterBanSchema = z.object({
+  reason: BanReasonSchema,
+  durationMinutes: SanctionDurationSchema.optional(),
+  // Accounts the moderator chose to spare
+  excludeUserIds: z.array(UserIdSchema).max(100).default([]),
+});
 const DurationSchema = z.number().int().min(1).max(36500).optional();
+const PlanSchema = z.enum(["Free", "Classic", "Pro"]);
+const ValidityDaysSchema = z.number().int().min(1).max(3650);
+const SeatsSchema = z.number().int().min(1).max(1000).default(1);
+const LicenseKeyParamSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9-]{10,255}$/, "Invalid license key");
+const BatchIdSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9]{8,20}$/, "Invalid batch ID");
+const LicenseBatchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  reseller: z.string().trim().min(1).max(100),
+  plan: PlanSchema,
+  validityDays: ValidityDaysSchema,
+  count: z.number().int().min(1).max(1000),
+  seats: SeatsSchema,
+});
+const AuditQuerySchema = z.object({
+  action: z
+    .string()
+    .regex(/^[a-z_.]{1,60}$/)
+    .optional(),
+  actorId: UserIdSchema.optional(),
+  targetId: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]{1,255}$/)
+    .optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  before: z
+    .string()
+    .regex(/^[a-zA-Z0-9]{1,40}$/)
+    .optional(),
+});
 
 // ============ USER MANAGEMENT ============
 
 export const handleGetAllUsers: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
-
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
@@ -42,10 +152,12 @@ export const handleGetAllUsers: RequestHandler = async (req, res) => {
       displayName: doc.data().displayName,
       plan: doc.data().plan,
       isAdmin: doc.data().isAdmin,
+      role: resolveUserRole(doc.data()),
       messagesUsed: doc.data().messagesUsed || 0,
-      messagesLimit: doc.data().messagesLimit || 0,
+      tokensUsed: doc.data().tokensUsed || 0,
+      tokenBudget: getTokenBudget(doc.data()),
       createdAt: doc.data().createdAt,
-      isBanned: doc.data().isBanned || false,
+      isBanned: isUserBanned(doc.data()),
     }));
 
     res.json({ success: true, users });
@@ -57,12 +169,18 @@ export const handleGetAllUsers: RequestHandler = async (req, res) => {
   }
 };
 
+// Grants a staff role: moderator or admin (see shared/permissions.ts)
 export const handlePromoteUser: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
-    const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
+    const { userId, role } = z
+      .object({
+        userId: UserIdSchema,
+        role: StaffRoleSchema.default("admin"),
+      })
+      .parse(req.body);
+    if (userId === adminUid) throw new Error("Cannot change your own role");
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
@@ -71,19 +189,29 @@ export const handlePromoteUser: RequestHandler = async (req, res) => {
     const userDoc = await userRef.get();
     if (!userDoc.exists) throw new Error("User not found");
 
-    await userRef.update({ isAdmin: true });
+    await userRef.update({ isAdmin: role === "admin", role });
+
+    await AuditService.record(req, {
+      action: "user.promote",
+      actorId: adminUid,
+      target: { type: "user", id: userId },
+      before: { role: resolveUserRole(userDoc.data() ?? {}) },
+      after: { role },
+    });
 
-    // Log action
     const auth = FirebaseAdminService.getAdminAuth();
     if (auth) {
       try {
-        await auth.setCustomUserClaims(userId, { admin: true });
+        await auth.setCustomUserClaims(userId, {
+          role,
+          admin: role === "admin",
+        });
       } catch (e) {
         console.warn("Could not set custom claims:", e);
       }
     }
 
-    res.json({ success: true, message: "User promoted to admin" });
+    res.json({ success: true, message: `User promoted to ${role}` });
   } catch (error) {
     console.error("Promote user error:", error);
     const status = error instanceof z.ZodError ? 400 : 401;
@@ -95,10 +223,10 @@ export const handlePromoteUser: RequestHandler = async (req, res) => {
 
 export const handleDemoteUser: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
     const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
+    if (userId === adminUid) throw new Error("Cannot change your own role");
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
@@ -107,7 +235,15 @@ export const handleDemoteUser: RequestHandler = async (req, res) => {
     const userDoc = await userRef.get();
     if (!userDoc.exists) throw new Error("User not found");
 
-    await userRef.update({ isAdmin: false });
+    await userRef.update({ isAdmin: false, role: "user" });
+
+    await AuditService.record(req, {
+      action: "user.demote",
+      actorId: adminUid,
+      target: { type: "user", id: userId },
+      before: { role: resolveUserRole(userDoc.data() ?? {}) },
+      after: { role: "user" },
+    });
 
     // Remove custom claims
     const auth = FirebaseAdminService.getAdminAuth();
@@ -129,62 +265,427 @@ export const handleDemoteUser: RequestHandler = async (req, res) => {
   }
 };
 
+function banErrorStatus(error: unknown) {
+  if (error instanceof z.ZodError) return 400;
+  if (error instanceof BanError) return error.status;
+  return 401;
+}
+
+/**
+ * Issue a ban or warning through BanService, refusing targets ranked at or
+ * above the caller.
+ */
+async function issueSanction(
+  req: Request,
+  input: z.infer<typeof SanctionSchema>,
+  metadata: Record<string, unknown> = {},
+): Promise<SanctionSummary> {
+  const principal = getPrincipal(req)!;
+
+  const db = FirebaseAdminService.getAdminDb();
+  if (!db) throw new Error("Database not initialized");
+
+  const userDoc = await db.collection("users").doc(input.userId).get();
+  if (!userDoc.exists) throw new BanError("User not found", 404);
+  if (!canModerate(principal.role, resolveUserRole(userDoc.data()!))) {
+    throw new BanError("Cannot sanction staff members", 403);
+  }
+
+  const sanction = await BanService.issue(db, {
+    userId: input.userId,
+    type: input.type,
+    reason: input.reason,
+    durationMinutes: input.durationMinutes,
+    issuedBy: principal.uid,
+  });
+
+  await AuditService.record(req, {
+    action: `user.${input.type}`,
+    actorId: principal.uid,
+    target: { type: "user", id: input.userId },
+    before:
+      input.type === "ban"
+        ? { isBanned: isUserBanned(userDoc.data()!) }
+        : undefined,
+    after: input.type === "ban" ? { isBanned: true } : undefined,
+    metadata: {
+      sanctionId: sanction.id,
+      reason: input.reason,
+      expiresAt: sanction.expiresAt,
+      ...metadata,
+    },
+  });
+
+  console.log(
+    `[ADMIN] ${principal.uid} issued ${input.type} ${sanction.id} to user ${input.userId}. Reason: ${input.reason}`,
+  );
+  return sanction;
+}
+
 export const handleBanUser: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
+    const input = SanctionSchema.parse({ ...req.body, type: "ban" });
+    const ban = await issueSanction(req, input);
+
+    res.json({ success: true, message: "User banned", ban });
+  } catch (error) {
+    console.error("Ban user error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// Lifts every active ban of the user, legacy flags included
+export const handleUnbanUser: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const userDoc = await db.collection("users").doc(userId).get();
+    if (!userDoc.exists) throw new BanError("User not found", 404);
+
+    const lifted = await BanService.liftAllBans(db, userId, adminUid);
+
+    await AuditService.record(req, {
+      action: "user.unban",
+      actorId: adminUid,
+      target: { type: "user", id: userId },
+      before: { isBanned: isUserBanned(userDoc.data()!) },
+      after: { isBanned: false },
+      metadata: { sanctionIds: lifted.map((ban) => ban.id) },
+    });
+
+    console.log(`[ADMIN] ${adminUid} unbanned user ${userId}`);
+
+    res.json({ success: true, message: "User unbanned" });
+  } catch (error) {
+    console.error("Unban user error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ SANCTIONS ============
+
+export const handleGetSanctions: RequestHandler = async (req, res) => {
+  try {
+    const { type } = z
+      .object({ type: SanctionTypeSchema.optional() })
+      .parse(req.query);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const sanctions = await BanService.list(db, { type, limit: 200 });
+
+    res.json({ success: true, sanctions });
+  } catch (error) {
+    console.error("Get sanctions error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleIssueSanction: RequestHandler = async (req, res) => {
+  try {
+    const input = SanctionSchema.parse(req.body);
+    const sanction = await issueSanction(req, input);
+
+    res.json({ success: true, sanction });
+  } catch (error) {
+    console.error("Issue sanction error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleLiftSanction: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const sanctionId = SanctionIdSchema.parse(req.params.id);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const sanction = await BanService.lift(db, sanctionId, adminUid);
+
+    await AuditService.record(req, {
+      action: sanction.type === "ban" ? "user.unban" : "user.unwarn",
+      actorId: adminUid,
+      target: { type: "user", id: sanction.userId },
+      before: { status: "active" },
+      after: { status: "lifted" },
+      metadata: { sanctionId },
+    });
+
+    console.log(
+      `[ADMIN] ${adminUid} lifted ${sanction.type} ${sanctionId} of user ${sanction.userId}`,
+    );
+
+    res.json({ success: true, sanction });
+  } catch (error) {
+    console.error("Lift sanction error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ IP BANS ============
+
+export const handleGetIpBans: RequestHandler = async (req, res) => {
+  try {
+    const { status } = z
+      .object({ status: z.enum(["active", "all"]).default("active") })
+      .parse(req.query);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const bans = await BanService.listIpBans(db, {
+      activeOnly: status === "active",
+      limit: 200,
+    });
+
+    res.json({ success: true, bans });
+  } catch (error) {
+    console.error("Get IP bans error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleBanIp: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+    const { target, reason, durationMinutes } = IpBanSchema.parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const ban = await BanService.issueIpBan(db, {
+      target,
+      reason,
+      durationMinutes,
+      issuedBy: adminUid,
+    });
+
+    await AuditService.record(req, {
+      action: "ip.ban",
+      actorId: adminUid,
+      target: { type: "ip_ban", id: ban.id },
+      after: { cidr: ban.cidr, status: "active" },
+      metadata: { reason, expiresAt: ban.expiresAt },
+    });
+
+    console.log(`[ADMIN] ${adminUid} banned IP range ${ban.cidr}`);
+
+    res.json({ success: true, ban });
+  } catch (error) {
+    console.error("Ban IP error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleLiftIpBan: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+    const banId = SanctionIdSchema.parse(req.params.id);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const ban = await BanService.liftIpBan(db, banId, adminUid);
+
+    await AuditService.record(req, {
+      action: "ip.unban",
+      actorId: adminUid,
+      target: { type: "ip_ban", id: banId },
+      before: { status: "active" },
+      after: { status: "lifted" },
+      metadata: { cidr: ban.cidr },
+    });
+
+    console.log(`[ADMIN] ${adminUid} lifted IP ban ${banId} (${ban.cidr})`);
+
+    res.json({ success: true, ban });
+  } catch (error) {
+    console.error("Lift IP ban error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ LINKED ACCOUNTS ============
+
+export const handleGetLinkedAccounts: RequestHandler = async (req, res) => {
+  try {
+    const userId = UserIdSchema.parse(req.params.userId);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const cluster = await getLinkedAccounts(db, userId);
+
+    res.json({ success: true, cluster });
+  } catch (error) {
+    console.error("Get linked accounts error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
 
-    const { userId, reason } = z
+export const handleGetAccountClusters: RequestHandler = async (req, res) => {
+  try {
+    const { sinceDays } = z
       .object({
-        userId: UserIdSchema,
-        reason: BanReasonSchema,
+        sinceDays: z.coerce.number().int().min(1).max(365).default(30),
       })
-      .parse(req.body);
+      .parse(req.query);
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    const userRef = db.collection("users").doc(userId);
-    const userDoc = await userRef.get();
-    if (!userDoc.exists) throw new Error("User not found");
-    if (userDoc.data()?.isAdmin) throw new Error("Cannot ban admin users");
+    const clusters = await listAccountClusters(db, { sinceDays, limit: 50 });
+
+    res.json({ success: true, clusters });
+  } catch (error) {
+    console.error("Get account clusters error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
 
-    await userRef.update({
-      isBanned: true,
-      bannedAt: new Date(),
-      bannedBy: adminUid,
-      banReason: reason,
+/**
+ * Ban every account linked to a user, the user included. Staff, deleted
+ * and already banned accounts are skipped, as are the excluded ones.
+ */
+export const handleBanAccountCluster: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+    const userId = UserIdSchema.parse(req.params.userId);
+    const { reason, durationMinutes, excludeUserIds } = ClusterBanSchema.parse(
+      req.body,
+    );
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const cluster = await getLinkedAccounts(db, userId);
+    if (!cluster) throw new BanError("No linked accounts", 404);
+
+    const banned: SanctionSummary[] = [];
+    const skipped: { userId: string; reason: string }[] = [];
+    for (const account of cluster.accounts) {
+      if (excludeUserIds.includes(account.userId)) {
+        skipped.push({ userId: account.userId, reason: "excluded" });
+      } else if (!account.exists) {
+        skipped.push({ userId: account.userId, reason: "deleted" });
+      } else if (account.isBanned) {
+        skipped.push({ userId: account.userId, reason: "already_banned" });
+      } else {
+        try {
+          banned.push(
+            await issueSanction(
+              req,
+              {
+                userId: account.userId,
+                type: "ban",
+                reason,
+                durationMinutes,
+              },
+              { clusterOf: userId },
+            ),
+          );
+        } catch (error) {
+          if (!(error instanceof BanError)) throw error;
+          skipped.push({ userId: account.userId, reason: error.message });
+        }
+      }
+    }
+
+    console.log(
+      `[ADMIN] ${adminUid} banned ${banned.length} accounts linked to ${userId}`,
+    );
+
+    res.json({ success: true, banned, skipped });
+  } catch (error) {
+    console.error("Ban account cluster error:", error);
+    res.status(banErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
     });
+  }
+};
 
-    console.log(`[ADMIN] ${adminUid} banned user ${userId}. Reason: ${reason}`);
+// ============ BAN APPEALS ============
 
-    res.json({ success: true, message: "User banned" });
+export const handleGetAppeals: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const appeals = await BanService.listPendingAppeals(db, 100);
+
+    res.json({ success: true, appeals });
   } catch (error) {
-    console.error("Ban user error:", error);
-    const status = error instanceof z.ZodError ? 400 : 401;
-    res.status(status).json({
+    console.error("Get appeals error:", error);
+    res.status(banErrorStatus(error)).json({
       message: error instanceof Error ? error.message : "Operation failed",
     });
   }
 };
 
-export const handleUnbanUser: RequestHandler = async (req, res) => {
+export const handleDecideAppeal: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
-    const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
+    const sanctionId = SanctionIdSchema.parse(req.params.id);
+    const { decision, response, durationMinutes } = AppealDecisionSchema.parse(
+      req.body,
+    );
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    await db.collection("users").doc(userId).update({ isBanned: false });
+    const sanction = await BanService.decideAppeal(db, sanctionId, {
+      decision,
+      response,
+      durationMinutes,
+      decidedBy: adminUid,
+    });
+
+    await AuditService.record(req, {
+      action: "user.appeal_decide",
+      actorId: adminUid,
+      target: { type: "user", id: sanction.userId },
+      before: { appealStatus: "pending" },
+      after: { appealStatus: decision, expiresAt: sanction.expiresAt },
+      metadata: { sanctionId, response: response ?? null },
+    });
 
-    res.json({ success: true, message: "User unbanned" });
+    console.log(
+      `[ADMIN] ${adminUid} decided appeal on ban ${sanctionId}: ${decision}`,
+    );
+
+    res.json({ success: true, sanction });
   } catch (error) {
-    console.error("Unban user error:", error);
-    const status = error instanceof z.ZodError ? 400 : 401;
-    res.status(status).json({
+    console.error("Decide appeal error:", error);
+    res.status(banErrorStatus(error)).json({
       message: error instanceof Error ? error.message : "Operation failed",
     });
   }
@@ -192,17 +693,29 @@ export const handleUnbanUser: RequestHandler = async (req, res) => {
 
 export const handleResetMessages: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
     const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    await db.collection("users").doc(userId).update({ messagesUsed: 0 });
+    const userRef = db.collection("users").doc(userId);
+    const userDoc = await userRef.get();
+    await userRef.update({ messagesUsed: 0, tokensUsed: 0 });
+
+    await AuditService.record(req, {
+      action: "user.reset_usage",
+      actorId: adminUid,
+      target: { type: "user", id: userId },
+      before: {
+        messagesUsed: userDoc.data()?.messagesUsed || 0,
+        tokensUsed: userDoc.data()?.tokensUsed || 0,
+      },
+      after: { messagesUsed: 0, tokensUsed: 0 },
+    });
 
-    res.json({ success: true, message: "Messages reset" });
+    res.json({ success: true, message: "Usage reset" });
   } catch (error) {
     console.error("Reset messages error:", error);
     const status = error instanceof z.ZodError ? 400 : 401;
@@ -214,8 +727,7 @@ export const handleResetMessages: RequestHandler = async (req, res) => {
 
 export const handleDeleteUser: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
     const { userId } = z.object({ userId: UserIdSchema }).parse(req.body);
 
@@ -224,7 +736,9 @@ export const handleDeleteUser: RequestHandler = async (req, res) => {
     if (!db || !auth) throw new Error("Firebase not initialized");
 
     // Delete from Firestore
-    await db.collection("users").doc(userId).delete();
+    const userRef = db.collection("users").doc(userId);
+    const userDoc = await userRef.get();
+    await userRef.delete();
 
     // Delete from Auth
     try {
@@ -235,6 +749,23 @@ export const handleDeleteUser: RequestHandler = async (req, res) => {
 
     console.log(`[ADMIN] ${adminUid} deleted user ${userId}`);
 
+    const deletedUser = userDoc.data();
+    await AuditService.record(req, {
+      action: "user.delete",
+      actorId: adminUid,
+      target: { type: "user", id: userId },
+      before: deletedUser
+        ? {
+            email: deletedUser.email,
+            plan: deletedUser.plan,
+            isAdmin: deletedUser.isAdmin || false,
+            isBanned: deletedUser.isBanned || false,
+            licenseKey: deletedUser.licenseKey,
+          }
+        : null,
+      after: null,
+    });
+
     res.json({ success: true, message: "User deleted" });
   } catch (error) {
     console.error("Delete user error:", error);
@@ -249,21 +780,13 @@ export const handleDeleteUser: RequestHandler = async (req, res) => {
 
 export const handleGetLicenses: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
-
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
     const snapshot = await db.collection("licenses").get();
-    const licenses = snapshot.docs.map((doc) => ({
-      key: doc.id,
-      plan: doc.data().plan,
-      valid: doc.data().valid || true,
-      usedBy: doc.data().usedBy || null,
-      usedAt: doc.data().usedAt || null,
-      createdAt: doc.data().createdAt,
-    }));
+    const licenses = snapshot.docs.map((doc) =>
+      toLicenseSummary(doc.id, doc.data()),
+    );
 
     res.json({ success: true, licenses });
   } catch (error) {
@@ -276,122 +799,601 @@ export const handleGetLicenses: RequestHandler = async (req, res) => {
 
 export const handleCreateLicense: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
-    const { plan, validityDays } = z
+    const { plan, validityDays, seats } = z
       .object({
-        plan: z.enum(["Free", "Classic", "Pro"]),
-        validityDays: z.number().int().min(1).max(3650),
+        plan: PlanSchema,
+        validityDays: ValidityDaysSchema,
+        seats: SeatsSchema,
       })
       .parse(req.body);
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    const licenseKey = `LIC-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
-
-    await db.collection("licenses").doc(licenseKey).set({
-      key: licenseKey,
+    const licenseKey = await createLicense(db, {
       plan,
       validityDays,
-      valid: true,
+      seats,
       createdBy: adminUid,
-      createdAt: new Date(),
-      usedBy: null,
-      usedAt: null,
     });
+    const license = await db.collection("licenses").doc(licenseKey).get();
 
     console.log(
-      `[ADMIN] ${adminUid} created license ${licenseKey} for ${plan}`,
+      `[ADMIN] ${adminUid} created license ${licenseKey} for ${plan} (${seats} seats)`,
     );
 
-    res.json({ success: true, license: { key: licenseKey, plan } });
+    await AuditService.record(req, {
+      action: "license.create",
+      actorId: adminUid,
+      target: { type: "license", id: licenseKey },
+      after: { plan, validityDays, seats, status: "issued" },
+    });
+
+    res.json({
+      success: true,
+      license: toLicenseSummary(licenseKey, license.data()!),
+    });
   } catch (error) {
     console.error("Create license error:", error);
-    const status = error instanceof z.ZodError ? 400 : 401;
+    const status =
+      error instanceof z.ZodError
+        ? 400
+        : error instanceof LicenseKeyError
+          ? error.status
+          : 401;
     res.status(status).json({
       message: error instanceof Error ? error.message : "Operation failed",
     });
   }
 };
 
-// ============ AI CONFIGURATION ============
+// Lifecycle errors carry their own status, everything else is treated as
+// an authorization failure like the other admin handlers
+function licenseErrorStatus(error: unknown) {
+  if (error instanceof z.ZodError) return 400;
+  if (error instanceof LicenseError) return error.status;
+  return 401;
+}
 
-export const handleGetAIConfig: RequestHandler = async (req, res) => {
+export const handleRevokeLicense: RequestHandler = async (req, res) => {
   try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const key = LicenseKeyParamSchema.parse(req.params.key);
+
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    const doc = await db.collection("settings").doc("ai_config").get();
+    const before = await db.collection("licenses").doc(key).get();
+    const result = await revokeLicense(db, key, adminUid);
 
-    if (!doc.exists) {
-      return res.json({
-        model: "gpt-4",
-        temperature: 0.7,
-        maxTokens: 2000,
-        systemPrompt: "You are a helpful assistant.",
-      });
-    }
+    console.log(
+      `[ADMIN] ${adminUid} revoked license ${key} (${result.holdersDowngraded} holders downgraded)`,
+    );
+
+    await AuditService.record(req, {
+      action: "license.revoke",
+      actorId: adminUid,
+      target: { type: "license", id: key },
+      before: before.exists
+        ? { status: readLicense(before.data()!).status }
+        : null,
+      after: { status: "revoked" },
+      metadata: result,
+    });
 
-    res.json(doc.data());
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error("Get AI config error:", error);
-    res.status(500).json({
+    console.error("Revoke license error:", error);
+    res.status(licenseErrorStatus(error)).json({
       message: error instanceof Error ? error.message : "Operation failed",
     });
   }
 };
 
-export const handleUpdateAIConfig: RequestHandler = async (req, res) => {
+export const handleExtendLicense: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
-    const config = z
-      .object({
-        model: z.string().min(1).max(100),
-        temperature: z.number().min(0).max(2),
-        maxTokens: z.number().int().min(100).max(4000),
-        systemPrompt: z.string().max(2000),
-      })
-      .parse(req.body);
+    const key = LicenseKeyParamSchema.parse(req.params.key);
+    const { days } = z.object({ days: ValidityDaysSchema }).parse(req.body);
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    await db.collection("settings").doc("ai_config").set(config);
+    const before = await db.collection("licenses").doc(key).get();
+    const result = await extendLicense(db, key, days);
+
+    console.log(`[ADMIN] ${adminUid} extended license ${key} by ${days} days`);
+
+    const previous = before.exists ? readLicense(before.data()!) : null;
+    await AuditService.record(req, {
+      action: "license.extend",
+      actorId: adminUid,
+      target: { type: "license", id: key },
+      before: previous && {
+        expiresAt: previous.expiresAt && new Date(previous.expiresAt),
+        validityDays: before.data()?.validityDays,
+      },
+      after: {
+        expiresAt: result.expiresAt && new Date(result.expiresAt),
+        validityDays: result.validityDays,
+      },
+      metadata: { days },
+    });
 
-    res.json({ success: true, config });
+    res.json({
+      success: true,
+      expiresAt: result.expiresAt
+        ? new Date(result.expiresAt).toISOString()
+        : null,
+      validityDays: result.validityDays,
+    });
   } catch (error) {
-    console.error("Update AI config error:", error);
-    const status = error instanceof z.ZodError ? 400 : 401;
-    res.status(status).json({
+    console.error("Extend license error:", error);
+    res.status(licenseErrorStatus(error)).json({
       message: error instanceof Error ? error.message : "Operation failed",
     });
   }
 };
 
-// ============ SYSTEM STATS ============
-
-export const handleGetSystemStats: RequestHandler = async (req, res) => {
+export const handleTransferLicense: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
+
+    const key = LicenseKeyParamSchema.parse(req.params.key);
+    const { fromUserId, toUserId } = z
+      .object({ fromUserId: UserIdSchema, toUserId: UserIdSchema })
+      .parse(req.body);
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    // Get user stats
-    const usersSnap = await db.collection("users").get();
-    const users = usersSnap.docs.map((d) => d.data());
-    const totalUsers = users.length;
-    const adminUsers = users.filter((u) => u.isAdmin).length;
-    const bannedUsers = users.filter((u) => u.isBanned).length;
-    const freeUsers = users.filter((u) => u.plan === "Free").length;
-    const proUsers = users.filter((u) => u.plan !== "Free").length;
-    const totalMessages = users.reduce(
-      (sum, u) => sum + (u.messagesUsed || 0),
+    await transferLicense(db, key, fromUserId, toUserId);
+
+    console.log(
+      `[ADMIN] ${adminUid} transferred license ${key} from ${fromUserId} to ${toUserId}`,
+    );
+
+    await AuditService.record(req, {
+      action: "license.transfer",
+      actorId: adminUid,
+      target: { type: "license", id: key },
+      before: { holder: fromUserId },
+      after: { holder: toUserId },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Transfer license error:", error);
+    res.status(licenseErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleGetLicenseBatches: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const snapshot = await db
+      .collection("license_batches")
+      .orderBy("createdAt", "desc")
+      .get();
+
+    res.json({
+      success: true,
+      batches: snapshot.docs.map((doc) =>
+        toLicenseBatchSummary(doc.id, doc.data()),
+      ),
+    });
+  } catch (error) {
+    console.error("Get license batches error:", error);
+    res.status(401).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleCreateLicenseBatch: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    // Fields are required by the schema (zod infers them optional without strict)
+    const options = LicenseBatchSchema.parse(req.body) as Omit<
+      CreateLicenseBatchOptions,
+      "createdBy"
+    >;
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const { batch, keys } = await createLicenseBatch(db, {
+      ...options,
+      createdBy: adminUid,
+    });
+
+    console.log(
+      `[ADMIN] ${adminUid} created license batch ${batch.id} (${keys.length} ${options.plan} keys for ${options.reseller})`,
+    );
+
+    await AuditService.record(req, {
+      action: "license_batch.create",
+      actorId: adminUid,
+      target: { type: "license_batch", id: batch.id },
+      after: { ...options },
+    });
+
+    res.status(201).json({ success: true, batch, keys });
+  } catch (error) {
+    console.error("Create license batch error:", error);
+    const status =
+      error instanceof z.ZodError
+        ? 400
+        : error instanceof LicenseKeyError
+          ? error.status
+          : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleExportLicenseBatch: RequestHandler = async (req, res) => {
+  try {
+    const batchId = BatchIdSchema.parse(req.params.id);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const batchSnap = await db.collection("license_batches").doc(batchId).get();
+    if (!batchSnap.exists) {
+      return res.status(404).json({ message: "Batch not found" });
+    }
+
+    const licenses = await getBatchLicenses(db, batchId);
+    const csv = licensesToCSV(
+      licenses
+        .map((doc) => toLicenseCSVRow(doc.data()))
+        .sort((a, b) => a.key.localeCompare(b.key)),
+    );
+    const filename = `licenses-${batchId}.csv`;
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("Export license batch error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleRevokeLicenseBatch: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const batchId = BatchIdSchema.parse(req.params.id);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const result = await revokeLicenseBatch(db, batchId, adminUid);
+    if (!result) {
+      return res.status(404).json({ message: "Batch not found" });
+    }
+
+    console.log(
+      `[ADMIN] ${adminUid} revoked license batch ${batchId}: ${result.licensesRevoked} keys, ${result.usersDowngraded} users downgraded`,
+    );
+
+    await AuditService.record(req, {
+      action: "license_batch.revoke",
+      actorId: adminUid,
+      target: { type: "license_batch", id: batchId },
+      metadata: result,
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Revoke license batch error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ AI CONFIGURATION ============
+
+export const handleGetAIConfig: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const doc = await db.collection("settings").doc("ai_config").get();
+
+    res.json({ ...DEFAULT_CHAT_SETTINGS, ...doc.data() });
+  } catch (error) {
+    console.error("Get AI config error:", error);
+    res.status(500).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+/**
+ * Update settings/ai_config (PUT /api/admin/ai-config and /api/ai/config).
+ * Fields left out keep their stored value; `modelProviders` routes models to
+ * providers (server/lib/llm-providers.ts).
+ */
+export const handleUpdateAIConfig: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const config = z
+      .object({
+        model: z.enum(MODEL_IDS),
+        temperature: z.number().min(0).max(2),
+        maxTokens: z.number().int().min(100).max(4000),
+        systemPrompt: z.string().max(2000),
+        modelProviders: z.record(
+          z.string().max(100),
+          z.object({
+            provider: z.enum(LLM_PROVIDER_NAMES as [string, ...string[]]),
+            upstreamModel: z.string().min(1).max(100).optional(),
+          }),
+        ),
+      })
+      .partial()
+      .refine((value) => Object.keys(value).length > 0, {
+        message: "No valid fields to update",
+      })
+      .parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const configRef = db.collection("settings").doc("ai_config");
+    const before = await configRef.get();
+    await configRef.set(config, { merge: true });
+    clearChatSettingsCache();
+
+    await AuditService.record(req, {
+      action: "ai_config.update",
+      actorId: adminUid,
+      target: { type: "settings", id: "ai_config" },
+      before: before.data() ?? null,
+      after: { ...before.data(), ...config },
+    });
+
+    res.json({ success: true, config });
+  } catch (error) {
+    console.error("Update AI config error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ CONTENT POLICY ============
+
+export const handleGetContentPolicy: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    res.json({ success: true, rules: await getPolicyRules(db) });
+  } catch (error) {
+    console.error("Get content policy error:", error);
+    res.status(401).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleUpdateContentPolicy: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const { rules } = z.object({ rules: PolicyRulesSchema }).parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const before = await getPolicyRules(db);
+    await savePolicyRules(db, rules as PolicyRule[], adminUid);
+
+    console.log(`[ADMIN] ${adminUid} updated the content policy`);
+
+    await AuditService.record(req, {
+      action: "content_policy.update",
+      actorId: adminUid,
+      target: { type: "settings", id: "content_policy" },
+      before: { rules: before },
+      after: { rules },
+    });
+
+    res.json({ success: true, rules });
+  } catch (error) {
+    console.error("Update content policy error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// Dry run of a draft rule set (or the saved one) against sample text
+export const handleTestContentPolicy: RequestHandler = async (req, res) => {
+  try {
+    const { text, rules } = z
+      .object({
+        text: z.string().min(1).max(20000),
+        rules: PolicyRulesSchema.optional(),
+      })
+      .parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const decision = evaluateContent(
+      text,
+      (rules as PolicyRule[] | undefined) ?? (await getPolicyRules(db)),
+    );
+
+    res.json({ success: true, decision });
+  } catch (error) {
+    console.error("Test content policy error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ REGISTRATIONS ============
+
+export const handleGetRegistrationAttempts: RequestHandler = async (
+  req,
+  res,
+) => {
+  try {
+    const { blocked } = z
+      .object({ blocked: z.enum(["true", "false"]).optional() })
+      .parse(req.query);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const attempts = await listRegistrationAttempts(db, {
+      blockedOnly: blocked === "true",
+      limit: 100,
+    });
+
+    res.json({ success: true, attempts });
+  } catch (error) {
+    console.error("Get registration attempts error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ IP REPUTATION RANGES ============
+
+const IpRangeSchema = z.object({
+  cidr: z.string().trim().min(1).max(64),
+  action: z.enum(["allow", "deny"]),
+  note: z.string().trim().max(200).default(""),
+});
+
+function ipRangeErrorStatus(error: unknown) {
+  if (error instanceof z.ZodError) return 400;
+  if (error instanceof IpReputationError) return error.status;
+  return 401;
+}
+
+export const handleGetIpRanges: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    res.json({ success: true, ranges: await listManualRanges(db) });
+  } catch (error) {
+    console.error("Get IP ranges error:", error);
+    res.status(ipRangeErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleAddIpRange: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+    const { cidr, action, note } = IpRangeSchema.parse(req.body);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const range = await addManualRange(db, {
+      cidr,
+      action,
+      note,
+      createdBy: adminUid,
+    });
+
+    console.log(`[ADMIN] ${adminUid} added IP range ${range.cidr} (${action})`);
+
+    await AuditService.record(req, {
+      action: "ip_range.create",
+      actorId: adminUid,
+      target: { type: "ip_range", id: range.id },
+      after: { cidr: range.cidr, action, note },
+    });
+
+    res.json({ success: true, range });
+  } catch (error) {
+    console.error("Add IP range error:", error);
+    res.status(ipRangeErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleRemoveIpRange: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+    const id = IpRangeIdSchema.parse(req.params.id);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const range = await removeManualRange(db, id);
+
+    console.log(`[ADMIN] ${adminUid} removed IP range ${range.cidr}`);
+
+    await AuditService.record(req, {
+      action: "ip_range.delete",
+      actorId: adminUid,
+      target: { type: "ip_range", id },
+      before: { cidr: range.cidr, action: range.action, note: range.note },
+      after: null,
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Remove IP range error:", error);
+    res.status(ipRangeErrorStatus(error)).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// ============ SYSTEM STATS ============
+
+export const handleGetSystemStats: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    // Get user stats
+    const usersSnap = await db.collection("users").get();
+    const users = usersSnap.docs.map((d) => d.data());
+    const totalUsers = users.length;
+    const adminUsers = users.filter((u) => u.isAdmin).length;
+    const bannedUsers = users.filter((u) => isUserBanned(u)).length;
+    const freeUsers = users.filter((u) => u.plan === "Free").length;
+    const proUsers = users.filter((u) => u.plan !== "Free").length;
+    const totalMessages = users.reduce(
+      (sum, u) => sum + (u.messagesUsed || 0),
       0,
     );
 
@@ -399,7 +1401,9 @@ export const handleGetSystemStats: RequestHandler = async (req, res) => {
     const licensesSnap = await db.collection("licenses").get();
     const licenses = licensesSnap.docs.map((d) => d.data());
     const totalLicenses = licenses.length;
-    const usedLicenses = licenses.filter((l) => l.usedBy).length;
+    const usedLicenses = licenses.filter(
+      (l) => readLicense(l).holders.length > 0,
+    ).length;
 
     res.json({
       totalUsers,
@@ -425,25 +1429,35 @@ export const handleGetSystemStats: RequestHandler = async (req, res) => {
 
 export const handlePurgeLicenses: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
+    const adminUid = getPrincipal(req)!.uid;
 
     const db = FirebaseAdminService.getAdminDb();
     if (!db) throw new Error("Database not initialized");
 
-    const snapshot = await db
-      .collection("licenses")
-      .where("valid", "==", false)
-      .get();
+    // Revoked licenses, including documents from before the status field
+    const [revoked, legacyInvalid] = await Promise.all([
+      db.collection("licenses").where("status", "==", "revoked").get(),
+      db.collection("licenses").where("valid", "==", false).get(),
+    ]);
+    const docs = new Map(
+      [...revoked.docs, ...legacyInvalid.docs].map((doc) => [doc.id, doc]),
+    );
     let deleted = 0;
 
-    for (const doc of snapshot.docs) {
+    for (const doc of docs.values()) {
       await doc.ref.delete();
       deleted++;
     }
 
     console.log(`[ADMIN] ${adminUid} purged ${deleted} invalid licenses`);
 
+    await AuditService.record(req, {
+      action: "license.purge",
+      actorId: adminUid,
+      target: { type: "system", id: "licenses" },
+      metadata: { deleted, keys: [...docs.keys()] },
+    });
+
     res.json({ success: true, deleted });
   } catch (error) {
     console.error("Purge licenses error:", error);
@@ -453,19 +1467,128 @@ export const handlePurgeLicenses: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleVerifyAdmin: RequestHandler = async (req, res) => {
+// Convert "user:"/"assistant:" prefixed messages to the structured schema
+export const handleMigrateMessages: RequestHandler = async (req, res) => {
   try {
-    const idToken = extractIdToken(req.headers.authorization);
-    const adminUid = await FirebaseAdminService.verifyAdmin(idToken);
-    res.json({ success: true, adminUid });
+    const adminUid = getPrincipal(req)!.uid;
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const result = await migrateLegacyMessages(db);
+
+    console.log(
+      `[ADMIN] ${adminUid} migrated ${result.migrated}/${result.scanned} messages`,
+    );
+
+    await AuditService.record(req, {
+      action: "system.migrate_messages",
+      actorId: adminUid,
+      target: { type: "system", id: "messages" },
+      metadata: result,
+    });
+
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error("Verify admin error:", error);
+    console.error("Migrate messages error:", error);
+    res.status(401).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+// Run the daily-reset / license-expiry sweep now (it also runs on a schedule)
+export const handleRunMaintenance: RequestHandler = async (req, res) => {
+  try {
+    const adminUid = getPrincipal(req)!.uid;
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const summary = await runMaintenanceSweep(db, {
+      trigger: "admin",
+      triggeredBy: adminUid,
+    });
+    if (!summary) {
+      return res
+        .status(409)
+        .json({ message: "A maintenance run is already in progress" });
+    }
+
+    console.log(
+      `[ADMIN] ${adminUid} ran maintenance: ${summary.quotasReset} quotas reset, ${summary.licensesExpired} licenses expired`,
+    );
+
+    await AuditService.record(req, {
+      action: "system.run_maintenance",
+      actorId: adminUid,
+      target: { type: "system", id: "maintenance" },
+      metadata: { runId: summary.id },
+    });
+
+    res.json({ success: true, run: summary });
+  } catch (error) {
+    console.error("Run maintenance error:", error);
+    res.status(401).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleGetMaintenanceRuns: RequestHandler = async (req, res) => {
+  try {
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const snapshot = await db
+      .collection("maintenance_runs")
+      .orderBy("startedAt", "desc")
+      .limit(20)
+      .get();
+
+    res.json({
+      runs: snapshot.docs.map((doc) =>
+        toMaintenanceRunSummary(doc.id, doc.data()),
+      ),
+    });
+  } catch (error) {
+    console.error("Get maintenance runs error:", error);
     res.status(401).json({
       message: error instanceof Error ? error.message : "Unauthorized",
     });
   }
 };
 
+// ============ AUDIT LOG ============
+
+// Read-only: audit entries cannot be edited or deleted through the API
+export const handleGetAuditLog: RequestHandler = async (req, res) => {
+  try {
+    const query = AuditQuerySchema.parse(req.query);
+
+    const db = FirebaseAdminService.getAdminDb();
+    if (!db) throw new Error("Database not initialized");
+
+    const page = await AuditService.list(db, {
+      ...query,
+      limit: query.limit ?? 50,
+    });
+
+    res.json({ success: true, ...page });
+  } catch (error) {
+    console.error("Get audit log error:", error);
+    const status = error instanceof z.ZodError ? 400 : 401;
+    res.status(status).json({
+      message: error instanceof Error ? error.message : "Operation failed",
+    });
+  }
+};
+
+export const handleVerifyAdmin: RequestHandler = (req, res) => {
+  const { uid, role } = getPrincipal(req)!;
+  res.json({ success: true, adminUid: uid, role });
+};
+
 // Legacy exports for backward compatibility
 export const handleBanIP = handleBanUser;
 export const handleGetAllLicenses = handleGetLicenses;
@@ -1,174 +1,600 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler, Response } from "express";
 import { z } from "zod";
-import { getAdminAuth, getAdminDb } from "../lib/firebase-admin";
-import { AIChatSchema } from "../middleware/security";
+import { getAdminDb } from "../lib/firebase-admin";
+import { getChatSettings } from "../lib/ai-config";
+import {
+  buildSystemMessages,
+  getOwnedPersona,
+  PersonaInput,
+} from "../lib/personas";
+import {
+  appendMessage,
+  getOwnedConversation,
+  getActiveLeafId,
+  HistoryRecord,
+  loadMessageTree,
+  MAX_HISTORY_MESSAGES,
+  saveContextSummary,
+  toContextSummary,
+} from "../lib/conversations";
+import {
+  getBranchPath,
+  resolveActiveLeaf,
+  splitAtSummary,
+} from "../lib/branches";
+import {
+  countMessageTokens,
+  countTokens,
+  getHistoryTokenLimit,
+  HistoryMessage,
+  planContext,
+  summarizeMessages,
+  SUMMARY_MAX_TOKENS,
+} from "../lib/context-window";
+import {
+  canUseModel,
+  DEFAULT_MODEL,
+  getModel,
+  MODEL_NOT_IN_PLAN,
+  resolveSavedModel,
+} from "../lib/model-catalog";
+import {
+  claimAttachments,
+  linkAttachments,
+  loadAttachmentChunks,
+} from "../lib/attachments";
+import {
+  AttachmentError,
+  formatAttachmentContext,
+  getAttachmentTokenLimit,
+  MAX_PROMPT_ATTACHMENTS,
+  selectChunks,
+} from "../lib/attachment-text";
+import { getPrincipal } from "../middleware/auth";
+import { checkContent } from "../lib/content-policy";
+import {
+  CreditError,
+  CreditReservation,
+  CreditService,
+  ReserveCreditOptions,
+} from "../lib/credits";
+import {
+  AIChatSchema,
+  AIChatStreamSchema,
+  AIImageSchema,
+  ConversationIdSchema,
+} from "../middleware/security";
+import {
+  getProviderForModel,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMStreamChunk,
+  LLMUsage,
+} from "../lib/llm-providers";
+import { IMAGE_TOKEN_COST } from "../../shared/plans";
+import { formatSSEEvent } from "../../shared/sse";
+import type { PolicyDecision } from "../../shared/content-policy";
+import type {
+  AIStreamEvent,
+  ContentPolicyNotice,
+  ContextSummary,
+  MessageAttachment,
+} from "../../shared/api";
 
-export const handleAIChat: RequestHandler = async (req, res) => {
+const IMAGE_MODEL = "pollinations";
+
+interface ChatContext {
+  userId: string;
+  provider: LLMProvider;
+  upstreamModel: string;
+  reservation: CreditReservation;
+}
+
+interface ChatPrompt {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: LLMMessage[];
+  // Admin prompt and persona instructions (server/lib/personas.ts)
+  system: LLMMessage[];
+  userMessage: string;
+  // Where the new user message goes in the conversation tree, or the stored
+  // user message answered again when regenerating
+  parentId: string | null;
+  replyToId: string | null;
+  // Files the new user message carries, and the system message with the
+  // excerpts of the branch's attachments that match it
+  attachments: MessageAttachment[];
+  attachmentContext: string | null;
+  // Turns sent verbatim, and older stored turns to fold into the summary
+  keep: HistoryMessage[];
+  fold: HistoryRecord[];
+  summary: { content: string; messageCount: number } | null;
+}
+
+/**
+ * Reserve the request's credit, answering 403/404 when it cannot be taken.
+ */
+async function reserveCredit(
+  req: Request,
+  res: Response,
+  options: Omit<ReserveCreditOptions, "httpRequestId">,
+): Promise<CreditReservation | null> {
   try {
-    // Validate input schema
-    const validated = AIChatSchema.parse(req.body);
-    const {
-      idToken,
-      userMessage,
-      conversationHistory = [],
-      model = "x-ai/grok-4.1-fast:free",
-      temperature = 0.7,
-      maxTokens = 2048,
-    } = validated;
-
-    // Verify authentication
-    const auth = getAdminAuth();
-    let decoded;
-    try {
-      decoded = await auth.verifyIdToken(idToken);
-    } catch (error) {
-      return res.status(401).json({
-        error: "Unauthorized: Invalid or expired token",
+    return await CreditService.reserve({
+      httpRequestId: (req as any).requestId,
+      ...options,
+    });
+  } catch (error) {
+    if (error instanceof CreditError) {
+      res.status(error.status).json({
+        error: error.message,
+        tokensUsed: error.tokensUsed,
+        tokenBudget: error.tokenBudget,
       });
+      return null;
     }
+    throw error;
+  }
+}
 
-    const userId = decoded.uid;
+async function ensureConversation(
+  userId: string,
+  conversationId: string | undefined,
+  res: Response,
+): Promise<boolean> {
+  if (!conversationId) return true;
 
-    // Get user data and verify credits
-    const db = getAdminDb();
-    const userDocRef = db.collection("users").doc(userId);
-    const userDocSnap = await userDocRef.get();
+  const conversation = await getOwnedConversation(
+    getAdminDb(),
+    conversationId,
+    userId,
+  );
+  if (!conversation) {
+    res.status(404).json({
+      error: "Conversation not found",
+    });
+    return false;
+  }
+  return true;
+}
 
-    if (!userDocSnap.exists) {
-      return res.status(404).json({
-        error: "User not found",
-      });
-    }
+/**
+ * Build the prompt from the stored conversation (from the history sent by
+ * the client when there is no conversationId), keeping as many recent turns
+ * verbatim as the model's budget allows. The history is the active branch,
+ * or the branch being edited or regenerated. Model settings not given in the
+ * request come from the conversation's persona, then settings/ai_config.
+ * Excerpts of the files attached on the branch are added for the new message.
+ * Answers 404 and returns null when the conversation or the branched message
+ * is not the user's, and the AttachmentError status when the attachments
+ * cannot be sent.
+ */
+async function loadPrompt(
+  req: Request,
+  res: Response,
+  options: {
+    userMessage: string;
+    conversationId?: string;
+    conversationHistory: HistoryMessage[];
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    editMessageId?: string;
+    regenerateMessageId?: string;
+    attachmentIds?: string[];
+  },
+): Promise<ChatPrompt | null> {
+  const { conversationId } = options;
+  const { uid: userId, plan } = getPrincipal(req)!;
+  const db = getAdminDb();
+  const settings = await getChatSettings(db);
 
-    const userData = userDocSnap.data();
-    if (!userData) {
-      return res.status(404).json({
-        error: "User data not found",
+  let userMessage = options.userMessage;
+  let history: HistoryMessage[] = options.conversationHistory;
+  let summary: ChatPrompt["summary"] = null;
+  let parentId: string | null = null;
+  let replyToId: string | null = null;
+  let attachments: MessageAttachment[] = [];
+  let branchAttachments: MessageAttachment[] = [];
+  let persona: PersonaInput | null = null;
+  let conversationModel: string | null = null;
+  if (conversationId) {
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      res.status(404).json({
+        error: "Conversation not found",
       });
+      return null;
     }
 
-    // Check if user has credits
-    const messagesUsed = userData.messagesUsed || 0;
-    const messagesLimit = userData.messagesLimit || 10;
+    conversationModel = conversation.data()?.model ?? null;
 
-    if (messagesUsed >= messagesLimit) {
-      return res.status(403).json({
-        error: "No credits available. Please activate a license.",
-        messagesUsed,
-        messagesLimit,
-      });
+    // A deleted persona falls back to the default assistant
+    const personaId = conversation.data()?.personaId;
+    if (personaId) {
+      const snapshot = await getOwnedPersona(db, personaId, userId);
+      persona = (snapshot?.data() as PersonaInput) ?? null;
     }
 
-    // Check if user is banned
-    if (userData.banned === true) {
-      return res.status(403).json({
-        error: "Your account has been banned.",
-      });
+    const tree = await loadMessageTree(db, conversationId);
+    let parent: HistoryRecord | null;
+    // An edited message keeps its files; new ones can be added
+    let kept: MessageAttachment[] = [];
+    if (options.regenerateMessageId) {
+      const reply = tree.byId.get(options.regenerateMessageId);
+      const question = reply?.parentId ? tree.byId.get(reply.parentId) : null;
+      if (reply?.role !== "assistant" || question?.role !== "user") {
+        res.status(404).json({ error: "Message not found" });
+        return null;
+      }
+      replyToId = question.id;
+      userMessage = question.content;
+      branchAttachments = question.attachments;
+      parent = question.parentId ? tree.byId.get(question.parentId) : null;
+    } else if (options.editMessageId) {
+      const edited = tree.byId.get(options.editMessageId);
+      if (edited?.role !== "user") {
+        res.status(404).json({ error: "Message not found" });
+        return null;
+      }
+      kept = edited.attachments;
+      parent = edited.parentId ? tree.byId.get(edited.parentId) : null;
+    } else {
+      parent = resolveActiveLeaf(tree, conversation.data()?.activeLeafId);
     }
+    parentId = parent?.id ?? null;
 
-    // Validate model is allowed
-    const allowedModels = [
-      "x-ai/grok-4.1-fast:free",
-      "gpt-4",
-      "gpt-3.5-turbo",
-      "claude-3-opus",
-      "claude-3-sonnet",
+    if (!replyToId) {
+      try {
+        attachments = await claimAttachments(db, {
+          userId,
+          plan,
+          conversationId,
+          attachmentIds: options.attachmentIds ?? [],
+          kept,
+        });
+      } catch (error) {
+        if (error instanceof AttachmentError) {
+          res.status(error.status).json({ error: error.message });
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    const path = parent ? getBranchPath(tree, parent.id) : [];
+    branchAttachments = [
+      ...attachments,
+      ...branchAttachments,
+      ...[...path].reverse().flatMap((message) => message.attachments),
     ];
 
-    if (!allowedModels.includes(model)) {
-      return res.status(400).json({
-        error: "Model not allowed",
-      });
-    }
+    // A summary made for another branch is ignored, and replaced when this
+    // branch needs one
+    const stored = toContextSummary(conversation.data());
+    const { covered, rest } = splitAtSummary(path, stored);
+    summary = covered ? stored : null;
+    history = rest.slice(-MAX_HISTORY_MESSAGES);
+  }
 
-    const apiKey = process.env.OPENROUTER_API_KEY;
+  // Explicit choices are checked against the plan by authorizeChat, saved
+  // ones the plan lost fall back to its default
+  const model =
+    options.model ??
+    resolveSavedModel(
+      plan,
+      [conversationModel, persona?.model],
+      settings.model,
+    );
+  const temperature =
+    options.temperature ?? persona?.temperature ?? settings.temperature;
+  const maxTokens = options.maxTokens ?? settings.maxTokens;
+  const system = buildSystemMessages(settings.systemPrompt, persona);
 
-    if (!apiKey) {
-      console.error("OPENROUTER_API_KEY not configured");
-      return res.status(500).json({
-        error:
-          "Service d'IA non disponible. Veuillez contacter l'administrateur.",
-      });
+  let attachmentContext: string | null = null;
+  const searched = [
+    ...new Map(
+      branchAttachments.map((attachment) => [attachment.id, attachment]),
+    ).values(),
+  ].slice(0, MAX_PROMPT_ATTACHMENTS);
+  if (searched.length > 0) {
+    const excerpts = selectChunks(
+      userMessage,
+      await loadAttachmentChunks(userId, searched),
+      getAttachmentTokenLimit(model),
+      model,
+    );
+    if (excerpts.length > 0) {
+      attachmentContext = formatAttachmentContext(excerpts);
     }
+  }
 
-    // Call OpenRouter API
-    const response = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": process.env.APP_URL || "http://localhost:5173",
-          "X-Title": "Chat AI",
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: "system",
-              content:
-                "Tu es un assistant utile et amical. Réponds toujours en français.",
-            },
-            ...conversationHistory.map((msg) => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-            {
-              role: "user",
-              content: userMessage,
-            },
-          ],
-          temperature,
-          max_tokens: maxTokens,
-        }),
-      },
+  const { keep, fold } = planContext({
+    model,
+    history,
+    reservedTokens:
+      countMessageTokens(
+        buildMessages(
+          system,
+          [],
+          userMessage,
+          summary?.content ?? null,
+          attachmentContext,
+        ),
+        model,
+      ) + maxTokens,
+    historyLimit: getHistoryTokenLimit(),
+  });
+
+  return {
+    model,
+    temperature,
+    maxTokens,
+    messages: buildMessages(
+      system,
+      keep,
+      userMessage,
+      summary?.content ?? null,
+      attachmentContext,
+    ),
+    system,
+    userMessage,
+    parentId,
+    replyToId,
+    attachments,
+    attachmentContext,
+    keep,
+    // Client-sent turns that do not fit are simply dropped
+    fold: conversationId ? (fold as HistoryRecord[]) : [],
+    summary,
+  };
+}
+
+/**
+ * Fold the turns that no longer fit into the conversation summary and
+ * rebuild the prompt around it. Summarizing is charged on its own, even if
+ * the reply is refunded later. When it fails the turns are only left out of
+ * this request, and folding is tried again on the next one.
+ */
+async function foldHistory(
+  context: ChatContext,
+  prompt: ChatPrompt,
+  conversationId: string,
+): Promise<{ messages: LLMMessage[]; summary: ContextSummary | null }> {
+  if (prompt.fold.length === 0) {
+    return { messages: prompt.messages, summary: null };
+  }
+
+  const model = context.reservation.model;
+  try {
+    const result = await summarizeMessages({
+      provider: context.provider,
+      upstreamModel: context.upstreamModel,
+      model,
+      previousSummary: prompt.summary?.content ?? null,
+      messages: prompt.fold,
+    });
+    await CreditService.charge(context.reservation, "summary", result.usage);
+    const last = prompt.fold[prompt.fold.length - 1];
+    const summary = await saveContextSummary(getAdminDb(), conversationId, {
+      content: result.content,
+      coveredMessageId: last.id,
+      coveredUntil: last.createdAtTimestamp,
+      messageCount: (prompt.summary?.messageCount || 0) + prompt.fold.length,
+      model,
+    });
+    console.log(
+      `[AI_SUMMARY] ${context.userId} conversation=${conversationId} folded=${prompt.fold.length} prompt=${result.usage.promptTokens} completion=${result.usage.completionTokens}`,
     );
 
-    let responseText: string;
-    try {
-      responseText = await response.text();
-    } catch (readError) {
-      console.error("Failed to read OpenRouter response:", readError);
-      return res.status(500).json({
-        error: "Failed to read response from AI service",
-      });
-    }
+    return {
+      messages: buildMessages(
+        prompt.system,
+        prompt.keep,
+        prompt.userMessage,
+        summary.content,
+        prompt.attachmentContext,
+      ),
+      summary,
+    };
+  } catch (error) {
+    console.error(`Failed to summarize conversation ${conversationId}:`, error);
+    return { messages: prompt.messages, summary: null };
+  }
+}
 
-    let data: any;
-    try {
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error("Failed to parse OpenRouter response:", parseError);
-      console.error("Response text:", responseText.substring(0, 500));
-      return res.status(500).json({
-        error: "Invalid response from AI service",
-      });
-    }
+/**
+ * Checks shared by the buffered and streaming chat routes, ending with the
+ * credit reservation. Sends the error response itself and returns null when
+ * the request must not reach the model; otherwise the caller must commit or
+ * refund `reservation`.
+ */
+async function authorizeChat(
+  req: Request,
+  res: Response,
+  options: {
+    model: string;
+    messages: LLMMessage[];
+    maxTokens: number;
+    conversationId?: string;
+  },
+): Promise<ChatContext | null> {
+  const { model, messages, maxTokens, conversationId } = options;
+  const { uid: userId, plan } = getPrincipal(req)!;
 
-    if (!response.ok) {
-      console.error("OpenRouter API error:", data);
-      return res.status(response.status).json({
-        error: data?.error?.message || data?.error || "OpenRouter API error",
-      });
+  // Validate model is allowed
+  if (!getModel(model)) {
+    res.status(400).json({
+      error: "Model not allowed",
+    });
+    return null;
+  }
+  if (!canUseModel(plan, model)) {
+    res.status(403).json({ error: MODEL_NOT_IN_PLAN, model });
+    return null;
+  }
+
+  let resolved: { provider: LLMProvider; upstreamModel: string };
+  try {
+    resolved = await getProviderForModel(model);
+  } catch (error) {
+    if (error instanceof LLMProviderError) {
+      res.status(error.status).json({ error: error.message });
+      return null;
     }
+    throw error;
+  }
+
+  const reservation = await reserveCredit(req, res, {
+    userId,
+    model,
+    provider: resolved.provider.name,
+    conversationId,
+    estimatedTokens: countMessageTokens(messages, model),
+    maxCompletionTokens: maxTokens,
+  });
+  if (!reservation) return null;
+
+  return { userId, reservation, ...resolved };
+}
+
+/**
+ * Run the content policy on user input. Answers 422 and returns null when it
+ * is blocked; otherwise the decision's `content` (redacted if needed) is what
+ * must be sent to the model and stored.
+ */
+async function enforceContentPolicy(
+  req: Request,
+  res: Response,
+  content: string,
+  source: string,
+): Promise<PolicyDecision | null> {
+  const decision = await checkContent(
+    getAdminDb(),
+    content,
+    `${source} request=${(req as any).requestId}`,
+  );
+  if (decision.outcome === "block") {
+    res.status(422).json({
+      error: "Message refusé par la politique de contenu",
+      policy: toPolicyNotice(decision),
+    });
+    return null;
+  }
+  return decision;
+}
 
-    const content = data?.choices?.[0]?.message?.content || "Pas de réponse";
+function toPolicyNotice(decision: PolicyDecision): ContentPolicyNotice {
+  return {
+    outcome: decision.outcome,
+    matches: decision.matches,
+    content: decision.content,
+  };
+}
 
-    // Update user message count in Firestore
+function buildMessages(
+  system: LLMMessage[],
+  conversationHistory: HistoryMessage[],
+  userMessage: string,
+  summary: string | null,
+  attachmentContext: string | null,
+): LLMMessage[] {
+  return [
+    ...system,
+    ...(summary
+      ? [
+          {
+            role: "system" as const,
+            content: `Résumé des échanges précédents :\n${summary}`,
+          },
+        ]
+      : []),
+    ...conversationHistory.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+    ...(attachmentContext
+      ? [{ role: "system" as const, content: attachmentContext }]
+      : []),
+    {
+      role: "user",
+      content: userMessage,
+    },
+  ];
+}
+
+function logUsage(
+  context: ChatContext,
+  usage: LLMUsage | null,
+  aborted = false,
+) {
+  console.log(
+    `[AI_USAGE] ${context.userId} request=${context.reservation.requestId} model=${context.reservation.model} provider=${context.provider.name} aborted=${aborted} prompt=${usage?.promptTokens ?? "?"} completion=${usage?.completionTokens ?? "?"}`,
+  );
+}
+
+export const handleAIChat: RequestHandler = async (req, res) => {
+  try {
+    // Validate input schema
+    const validated = AIChatSchema.parse(req.body);
+    const { userMessage, conversationHistory = [] } = validated;
+
+    const decision = await enforceContentPolicy(req, res, userMessage, "chat");
+    if (!decision) return;
+
+    const prompt = await loadPrompt(req, res, {
+      userMessage: decision.content,
+      conversationHistory: conversationHistory.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      model: validated.model,
+      temperature: validated.temperature,
+      maxTokens: validated.maxTokens,
+    });
+    if (!prompt) return;
+
+    const { model, temperature, maxTokens, messages } = prompt;
+    const context = await authorizeChat(req, res, {
+      model,
+      messages,
+      maxTokens,
+    });
+    if (!context) return;
+    const { provider, upstreamModel, reservation } = context;
+
+    let completion;
     try {
-      await userDocRef.update({
-        messagesUsed: messagesUsed + 1,
+      completion = await provider.complete({
+        model: upstreamModel,
+        messages,
+        temperature,
+        maxTokens,
       });
-    } catch (updateError) {
-      console.error("Failed to update message count:", updateError);
-      // Log but don't fail the response - user got their answer
+    } catch (error) {
+      await CreditService.refund(reservation, "upstream_error");
+      if (error instanceof LLMProviderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
     }
 
+    const usage = completion.usage || {
+      promptTokens: countMessageTokens(messages, model),
+      completionTokens: countTokens(completion.content, model),
+    };
+    const tokensUsed = await CreditService.commit(reservation, usage);
+    logUsage(context, completion.usage);
+
     return res.json({
-      content,
-      messagesUsed: messagesUsed + 1,
-      messagesLimit,
+      content: completion.content || "Pas de réponse",
+      tokensUsed,
+      tokenBudget: reservation.tokenBudget,
+      ...(decision.outcome !== "allow" && {
+        policy: toPolicyNotice(decision),
+      }),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -185,135 +611,426 @@ export const handleAIChat: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleGetAIConfig: RequestHandler = async (req, res) => {
+/**
+ * Streaming variant of handleAIChat.
+ * Relays the model provider's `stream: true` deltas to the browser as SSE
+ * events (see AIStreamEvent). With a conversationId the prompt is built from
+ * the stored messages, folding the oldest into the conversation summary when
+ * they no longer fit; once the stream ends the user message and the
+ * assistant message are stored, unless the credit was refunded. `editMessageId` and `regenerateMessageId`
+ * store them as a new branch instead of after the active one, and
+ * `attachmentIds` are stored with the user message. The
+ * reserved credit is committed when the model produced output or the client
+ * disconnected mid-answer, and refunded otherwise.
+ */
+export const handleAIChatStream: RequestHandler = async (req, res) => {
+  let validated: z.infer<typeof AIChatStreamSchema>;
   try {
-    const db = getAdminDb();
-    const configDoc = await db.collection("settings").doc("ai_config").get();
-
-    const config = configDoc.exists ? configDoc.data() : {};
-
-    return res.json({
-      model: config.model || "x-ai/grok-4.1-fast:free",
-      temperature: config.temperature || 0.7,
-      maxTokens: config.maxTokens || 2048,
-      // Never return system prompt to client
-    });
+    validated = AIChatStreamSchema.parse(req.body);
   } catch (error) {
-    console.error("Get AI config error:", error);
-    return res.status(500).json({
-      error: "Failed to get AI config",
+    return res.status(400).json({
+      error: "Invalid request body",
+      details: error instanceof z.ZodError ? error.errors : undefined,
     });
   }
-};
 
-export const handleUpdateAIConfig: RequestHandler = async (req, res) => {
+  const { userMessage, conversationHistory = [], conversationId } = validated;
+
+  let context: ChatContext | null = null;
   try {
-    const { idToken, model, temperature, maxTokens } = req.body;
+    // A regenerated reply answers a stored message that already passed
+    let decision: PolicyDecision | null = null;
+    if (!validated.regenerateMessageId) {
+      decision = await enforceContentPolicy(
+        req,
+        res,
+        userMessage,
+        "chat_stream",
+      );
+      if (!decision) return;
+    }
+
+    const prompt = await loadPrompt(req, res, {
+      userMessage: decision?.content ?? "",
+      conversationId,
+      conversationHistory: conversationHistory.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      model: validated.model,
+      temperature: validated.temperature,
+      maxTokens: validated.maxTokens,
+      editMessageId: validated.editMessageId,
+      regenerateMessageId: validated.regenerateMessageId,
+      attachmentIds: validated.attachmentIds,
+    });
+    if (!prompt) return;
+    const { model, temperature, maxTokens } = prompt;
+
+    context = await authorizeChat(req, res, {
+      model,
+      messages: prompt.messages,
+      maxTokens,
+      conversationId,
+    });
+    if (!context) return;
+    const { reservation } = context;
+
+    const folded = conversationId
+      ? await foldHistory(context, prompt, conversationId)
+      : { messages: prompt.messages, summary: null };
+    const { messages } = folded;
+
+    // Abort the upstream request as soon as the browser goes away
+    const upstream = new AbortController();
+    let finished = false;
+    res.on("close", () => {
+      if (!finished) upstream.abort();
+    });
 
-    // Validate idToken with Zod
-    const IdTokenSchema = z
-      .string()
-      .min(10)
-      .max(3000)
-      .regex(/^[A-Za-z0-9_\-\.]+$/, "Invalid token format");
+    const chunks = context.provider.stream({
+      model: context.upstreamModel,
+      messages,
+      temperature,
+      maxTokens,
+      signal: upstream.signal,
+    });
 
-    let validatedIdToken: string;
+    // Pull the first chunk before committing to SSE so upstream errors can
+    // still be returned as a plain JSON response.
+    let first: IteratorResult<LLMStreamChunk>;
     try {
-      validatedIdToken = IdTokenSchema.parse(idToken);
+      first = await chunks.next();
     } catch (error) {
-      return res.status(400).json({
-        error: "Invalid token format",
-      });
+      await CreditService.refund(
+        reservation,
+        upstream.signal.aborted ? "client_aborted" : "upstream_error",
+      );
+      if (upstream.signal.aborted) return;
+      if (error instanceof LLMProviderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
     }
 
-    // Verify admin
-    const auth = getAdminAuth();
-    let decoded;
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    const send = (event: AIStreamEvent) => {
+      res.write(formatSSEEvent(event.type, event));
+    };
+
+    if (decision && decision.outcome !== "allow") {
+      send({ type: "policy", ...toPolicyNotice(decision) });
+    }
+    if (folded.summary) {
+      send({ type: "summary", summary: folded.summary });
+    }
+
+    let content = "";
+    let usage: LLMUsage | null = null;
+    let streamError: string | null = null;
+
     try {
-      decoded = await auth.verifyIdToken(validatedIdToken);
+      for (let next = first; !next.done; next = await chunks.next()) {
+        const chunk = next.value;
+        if (chunk.type === "usage") {
+          usage = chunk.usage;
+        } else {
+          content += chunk.content;
+          send({ type: "delta", content: chunk.content });
+        }
+      }
     } catch (error) {
-      return res.status(401).json({
-        error: "Unauthorized: Invalid or expired token",
-      });
+      if (!upstream.signal.aborted) {
+        console.error(`${context.provider.name} stream failed:`, error);
+        streamError =
+          error instanceof LLMProviderError
+            ? error.message
+            : "Stream interrupted";
+      }
     }
 
-    const db = getAdminDb();
-    const userDoc = await db.collection("users").doc(decoded.uid).get();
+    const aborted = upstream.signal.aborted;
 
-    if (!userDoc.exists || !userDoc.data()?.isAdmin) {
-      return res.status(403).json({
-        error: "Forbidden: Admin access required",
-      });
+    // Tokens were consumed if the model produced output or the user cut the
+    // stream after the upstream request started.
+    // Aborted streams usually end before the provider reports usage, so
+    // charge an estimate of what was consumed.
+    let tokensUsed: number;
+    const charged = Boolean(content || aborted);
+    if (charged) {
+      tokensUsed = await CreditService.commit(
+        reservation,
+        usage || {
+          promptTokens: countMessageTokens(messages, model),
+          completionTokens: countTokens(content, model),
+        },
+        { aborted },
+      );
+      logUsage(context, usage, aborted);
+    } else {
+      tokensUsed = await CreditService.refund(
+        reservation,
+        streamError ? "upstream_error" : "empty_response",
+      );
     }
 
-    // Validate and build update data
-    const updateData: Record<string, any> = {};
-
-    if (model !== undefined) {
-      const modelSchema = z.enum([
-        "x-ai/grok-4.1-fast:free",
-        "gpt-4",
-        "gpt-3.5-turbo",
-        "claude-3-opus",
-        "claude-3-sonnet",
-      ]);
+    // The turn is only stored with a charged reply, so a refunded request
+    // leaves the conversation as it was
+    const db = getAdminDb();
+    let userMessageId: string | null = null;
+    let assistantMessageId: string | null = null;
+    if (conversationId && charged) {
       try {
-        updateData.model = modelSchema.parse(model);
-      } catch {
-        return res.status(400).json({
-          error: "Invalid model specified",
-        });
+        if (!prompt.replyToId) {
+          const stored = await appendMessage(db, {
+            conversationId,
+            userId: context.userId,
+            parentId: prompt.parentId,
+            role: "user",
+            content: prompt.userMessage,
+            attachments: prompt.attachments,
+          });
+          userMessageId = stored.id;
+          await linkAttachments(db, prompt.attachments, stored.id);
+        }
+        if (content) {
+          const stored = await appendMessage(db, {
+            conversationId,
+            userId: context.userId,
+            parentId: prompt.replyToId ?? userMessageId,
+            role: "assistant",
+            content,
+            model,
+            promptTokens: usage?.promptTokens ?? null,
+            completionTokens: usage?.completionTokens ?? null,
+          });
+          assistantMessageId = stored.id;
+        }
+      } catch (saveError) {
+        console.error("Failed to save chat messages:", saveError);
       }
     }
 
-    if (temperature !== undefined) {
-      const tempSchema = z.number().min(0).max(2);
-      try {
-        updateData.temperature = tempSchema.parse(temperature);
-      } catch {
-        return res.status(400).json({
-          error: "Invalid temperature (must be 0-2)",
-        });
-      }
+    finished = true;
+    if (aborted) return;
+
+    if (streamError) {
+      send({ type: "error", error: streamError });
+    } else {
+      send({
+        type: "done",
+        tokensUsed,
+        tokenBudget: reservation.tokenBudget,
+        userMessageId,
+        assistantMessageId,
+      });
+    }
+    res.end();
+  } catch (error) {
+    console.error("AI stream route error:", error);
+    // No-op when the reservation was already settled
+    if (context)
+      await CreditService.refund(context.reservation, "server_error");
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: error instanceof Error ? error.message : "Internal server error",
+      });
     }
+    res.end();
+  }
+};
 
-    if (maxTokens !== undefined) {
-      const tokensSchema = z.number().int().min(1).max(4096);
-      try {
-        updateData.maxTokens = tokensSchema.parse(maxTokens);
-      } catch {
-        return res.status(400).json({
-          error: "Invalid maxTokens (must be 1-4096)",
+/**
+ * Image generation (Pollinations). Charged a flat IMAGE_TOKEN_COST; both the
+ * prompt and the resulting image link are stored when a conversationId is
+ * given.
+ */
+export const handleAIImage: RequestHandler = async (req, res) => {
+  try {
+    const validated = AIImageSchema.parse(req.body);
+    const { conversationId } = validated;
+
+    const decision = await enforceContentPolicy(
+      req,
+      res,
+      validated.prompt,
+      "image",
+    );
+    if (!decision) return;
+    const prompt = decision.content;
+
+    const userId = getPrincipal(req)!.uid;
+    if (!(await ensureConversation(userId, conversationId, res))) return;
+
+    const reservation = await reserveCredit(req, res, {
+      userId,
+      model: IMAGE_MODEL,
+      conversationId,
+      fixedCost: IMAGE_TOKEN_COST,
+    });
+    if (!reservation) return;
+
+    const content = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}`;
+
+    try {
+      if (conversationId) {
+        const db = getAdminDb();
+        const conversation = await db
+          .collection("conversations")
+          .doc(conversationId)
+          .get();
+        const question = await appendMessage(db, {
+          conversationId,
+          userId,
+          parentId: await getActiveLeafId(db, conversation),
+          role: "user",
+          content: prompt,
+        });
+        await appendMessage(db, {
+          conversationId,
+          userId,
+          parentId: question.id,
+          role: "assistant",
+          content,
+          model: IMAGE_MODEL,
         });
       }
+    } catch (error) {
+      await CreditService.refund(reservation, "server_error");
+      throw error;
     }
 
-    if (Object.keys(updateData).length === 0) {
+    const tokensUsed = await CreditService.commit(reservation, null);
+
+    return res.json({
+      content,
+      tokensUsed,
+      tokenBudget: reservation.tokenBudget,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
-        error: "No valid fields to update",
+        error: "Invalid request body",
+        details: error.errors,
       });
     }
 
-    await db.collection("settings").doc("ai_config").set(updateData, {
-      merge: true,
+    console.error("AI image route error:", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Internal server error",
     });
+  }
+};
 
-    console.log(`[ADMIN_ACTION] ${decoded.uid} updated AI configuration`);
+/**
+ * Rewrite a conversation's summary from the messages it covers, e.g. when
+ * the rolling summary lost something important. Charged like a chat request
+ * on the model that wrote the summary.
+ */
+export const handleRegenerateContextSummary: RequestHandler = async (
+  req,
+  res,
+) => {
+  try {
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const userId = getPrincipal(req)!.uid;
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    const current = toContextSummary(conversation.data());
+    if (!current) {
+      return res
+        .status(404)
+        .json({ error: "No summary for this conversation" });
+    }
+
+    const tree = await loadMessageTree(db, conversationId);
+    const leaf = current.coveredMessageId
+      ? tree.byId.get(current.coveredMessageId)
+      : resolveActiveLeaf(tree, conversation.data()?.activeLeafId);
+    const { covered: messages } = splitAtSummary(
+      leaf ? getBranchPath(tree, leaf.id) : [],
+      current,
+    );
+    if (!messages?.length) {
+      return res.status(404).json({ error: "Summarized messages not found" });
+    }
+
+    const model = canUseModel(getPrincipal(req)!.plan, current.model)
+      ? current.model
+      : DEFAULT_MODEL;
+
+    let resolved: { provider: LLMProvider; upstreamModel: string };
+    try {
+      resolved = await getProviderForModel(model);
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    const reservation = await reserveCredit(req, res, {
+      userId,
+      model,
+      provider: resolved.provider.name,
+      conversationId,
+      estimatedTokens: countMessageTokens(messages, model),
+      maxCompletionTokens: SUMMARY_MAX_TOKENS,
+    });
+    if (!reservation) return;
+
+    let result: Awaited<ReturnType<typeof summarizeMessages>>;
+    try {
+      result = await summarizeMessages({
+        ...resolved,
+        model,
+        previousSummary: null,
+        messages,
+      });
+    } catch (error) {
+      await CreditService.refund(reservation, "upstream_error");
+      if (error instanceof LLMProviderError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    const last = messages[messages.length - 1];
+    const summary = await saveContextSummary(db, conversationId, {
+      content: result.content,
+      coveredMessageId: last.id,
+      coveredUntil: last.createdAtTimestamp,
+      messageCount: messages.length,
+      model,
+    });
+    const tokensUsed = await CreditService.commit(reservation, result.usage);
 
     return res.json({
-      success: true,
-      config: updateData,
+      summary,
+      tokensUsed,
+      tokenBudget: reservation.tokenBudget,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
-        error: "Invalid request body",
+        error: "Invalid request",
         details: error.errors,
       });
     }
-    console.error("Update AI config error:", error);
+
+    console.error("Regenerate summary error:", error);
     return res.status(500).json({
-      error: "Failed to update AI config",
+      error: error instanceof Error ? error.message : "Internal server error",
     });
   }
 };
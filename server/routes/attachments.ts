@@ -0,0 +1,121 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import { getAdminDb } from "../lib/firebase-admin";
+import { getOwnedConversation } from "../lib/conversations";
+import {
+  createAttachment,
+  deleteAttachment,
+  getOwnedAttachment,
+  readAttachmentFile,
+} from "../lib/attachments";
+import { AttachmentError } from "../lib/attachment-text";
+import {
+  AttachmentIdSchema,
+  AttachmentUploadSchema,
+} from "../middleware/security";
+import { getPrincipal } from "../middleware/auth";
+
+function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof AttachmentError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+/**
+ * Upload a file (base64 in a JSON body) for the next message of a
+ * conversation. Size and count limits depend on the plan (shared/plans.ts).
+ */
+export const handleUploadAttachment: RequestHandler = async (req, res) => {
+  try {
+    const { uid: userId, plan } = getPrincipal(req)!;
+    const upload = AttachmentUploadSchema.parse(req.body);
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(
+      db,
+      upload.conversationId,
+      userId,
+    );
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const attachment = await createAttachment(db, {
+      userId,
+      plan,
+      conversationId: upload.conversationId,
+      name: upload.name,
+      mimeType: upload.mimeType,
+      data: upload.data,
+    });
+    return res.status(201).json(attachment);
+  } catch (error) {
+    return handleError(res, error, "Upload attachment");
+  }
+};
+
+/**
+ * Remove an attachment that was not sent yet; sent ones go with their
+ * conversation.
+ */
+export const handleDeleteAttachment: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+    const attachmentId = AttachmentIdSchema.parse(req.params.id);
+
+    const attachment = await getOwnedAttachment(
+      getAdminDb(),
+      attachmentId,
+      userId,
+    );
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+    if (attachment.data()?.messageId) {
+      return res.status(409).json({
+        error: "Cette pièce jointe a déjà été envoyée",
+      });
+    }
+
+    await deleteAttachment(attachment);
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, "Delete attachment");
+  }
+};
+
+export const handleDownloadAttachment: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+    const attachmentId = AttachmentIdSchema.parse(req.params.id);
+
+    const attachment = await getOwnedAttachment(
+      getAdminDb(),
+      attachmentId,
+      userId,
+    );
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    const { name } = attachment.data()!;
+    const file = await readAttachmentFile(attachment);
+    // Always a download: an uploaded .html must not render on our origin
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+    );
+    return res.send(file);
+  } catch (error) {
+    return handleError(res, error, "Download attachment");
+  }
+};
@@ -0,0 +1,75 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import { getAdminDb } from "../lib/firebase-admin";
+import { BanError, BanService } from "../lib/bans";
+import { getPrincipal } from "../middleware/auth";
+import { BanAppealSchema, SanctionIdSchema } from "../middleware/security";
+
+function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof BanError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+/**
+ * The caller's active ban or warning, null when they have none, and the
+ * latest appeal decision they have not seen. Open to banned users so the
+ * client can tell them why.
+ */
+export const handleGetMyBan: RequestHandler = async (req, res) => {
+  try {
+    const db = getAdminDb();
+    const userId = getPrincipal(req)!.uid;
+
+    const [sanction, appealDecision] = await Promise.all([
+      BanService.getActiveSanction(db, userId),
+      BanService.getUnseenAppealDecision(db, userId),
+    ]);
+    return res.json({ sanction, appealDecision });
+  } catch (error) {
+    return handleError(res, error, "Get ban");
+  }
+};
+
+export const handleSubmitAppeal: RequestHandler = async (req, res) => {
+  try {
+    const banId = SanctionIdSchema.parse(req.params.id);
+    const { message } = BanAppealSchema.parse(req.body);
+    const userId = getPrincipal(req)!.uid;
+
+    const sanction = await BanService.submitAppeal(
+      getAdminDb(),
+      banId,
+      userId,
+      message,
+    );
+
+    console.log(`[BANS] User ${userId} appealed ban ${banId}`);
+    return res.json({ sanction });
+  } catch (error) {
+    return handleError(res, error, "Submit appeal");
+  }
+};
+
+export const handleAcknowledgeAppeal: RequestHandler = async (req, res) => {
+  try {
+    const banId = SanctionIdSchema.parse(req.params.id);
+
+    await BanService.acknowledgeAppeal(
+      getAdminDb(),
+      banId,
+      getPrincipal(req)!.uid,
+    );
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, "Acknowledge appeal");
+  }
+};
@@ -0,0 +1,249 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../lib/firebase-admin";
+import {
+  deleteConversationWithMessages,
+  getOwnedConversation,
+  toContextSummary,
+  loadMessageTree,
+  toBranchMessage,
+  toConversationSummary,
+} from "../lib/conversations";
+import { deleteConversationAttachments } from "../lib/attachments";
+import {
+  getBranchPath,
+  getLatestLeaf,
+  pageBranch,
+  resolveActiveLeaf,
+} from "../lib/branches";
+import {
+  BranchSelectSchema,
+  ConversationIdSchema,
+  ConversationTitleSchema,
+  MESSAGES_PAGE_SIZE,
+  MessagesPageQuerySchema,
+} from "../middleware/security";
+import { getPrincipal } from "../middleware/auth";
+import type { MessagesPage } from "../../shared/api";
+
+function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: error.errors,
+    });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+export const handleListConversations: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const snapshot = await getAdminDb()
+      .collection("conversations")
+      .where("userId", "==", userId)
+      .orderBy("updatedAt", "desc")
+      .get();
+
+    return res.json({
+      conversations: snapshot.docs.map((doc) =>
+        toConversationSummary(doc.id, doc.data()),
+      ),
+    });
+  } catch (error) {
+    return handleError(res, error, "List conversations");
+  }
+};
+
+export const handleCreateConversation: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const { title } = ConversationTitleSchema.parse(req.body);
+    const now = Timestamp.now();
+    const data = {
+      userId,
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+      personaId: null,
+      model: null,
+    };
+    const ref = await getAdminDb().collection("conversations").add(data);
+
+    return res.status(201).json(toConversationSummary(ref.id, data));
+  } catch (error) {
+    return handleError(res, error, "Create conversation");
+  }
+};
+
+export const handleGetConversation: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const conversation = await getOwnedConversation(
+      getAdminDb(),
+      conversationId,
+      userId,
+    );
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    return res.json(toConversationSummary(conversationId, conversation.data()));
+  } catch (error) {
+    return handleError(res, error, "Get conversation");
+  }
+};
+
+export const handleRenameConversation: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const { title } = ConversationTitleSchema.parse(req.body);
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const updatedAt = Timestamp.now();
+    await conversation.ref.update({ title, updatedAt });
+
+    return res.json(
+      toConversationSummary(conversationId, {
+        ...conversation.data(),
+        title,
+        updatedAt,
+      }),
+    );
+  } catch (error) {
+    return handleError(res, error, "Rename conversation");
+  }
+};
+
+export const handleDeleteConversation: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    await deleteConversationAttachments(db, conversationId);
+    await deleteConversationWithMessages(db, conversationId);
+
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, "Delete conversation");
+  }
+};
+
+export const handleGetContextSummary: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const conversation = await getOwnedConversation(
+      getAdminDb(),
+      conversationId,
+      userId,
+    );
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    return res.json({ summary: toContextSummary(conversation.data()) });
+  } catch (error) {
+    return handleError(res, error, "Get context summary");
+  }
+};
+
+/**
+ * Newest page first: returns up to `limit` messages of the active branch
+ * older than `before`, in chronological order, with the cursor for the next
+ * older page.
+ */
+export const handleGetMessages: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const { limit, before } = MessagesPageQuerySchema.parse(req.query);
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const tree = await loadMessageTree(db, conversationId);
+    const leaf = resolveActiveLeaf(tree, conversation.data()?.activeLeafId);
+    const found = pageBranch(
+      leaf ? getBranchPath(tree, leaf.id) : [],
+      before,
+      limit,
+    );
+    if (!found) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+
+    const page: MessagesPage = {
+      messages: found.messages.map((record) => toBranchMessage(tree, record)),
+      nextCursor: found.nextCursor,
+    };
+    return res.json(page);
+  } catch (error) {
+    return handleError(res, error, "Get messages");
+  }
+};
+
+/**
+ * Show another branch: `messageId` (usually a sibling of a message on the
+ * current branch) and its most recent continuation become the active
+ * branch. Returns its last page, like GET /messages.
+ */
+export const handleSelectBranch: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const { messageId } = BranchSelectSchema.parse(req.body);
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const tree = await loadMessageTree(db, conversationId);
+    const leaf = getLatestLeaf(tree, messageId);
+    if (!leaf) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+    await conversation.ref.update({ activeLeafId: leaf.id });
+
+    const found = pageBranch(
+      getBranchPath(tree, leaf.id),
+      undefined,
+      MESSAGES_PAGE_SIZE,
+    )!;
+    const page: MessagesPage = {
+      messages: found.messages.map((record) => toBranchMessage(tree, record)),
+      nextCursor: found.nextCursor,
+    };
+    return res.json(page);
+  } catch (error) {
+    return handleError(res, error, "Select branch");
+  }
+};
@@ -1,38 +1,30 @@
 import { Request, Response } from "express";
 import { z } from "zod";
-import { getAdminAuth, getAdminDb } from "../lib/firebase-admin";
-import { DailyResetSchema } from "../middleware/security";
-import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../lib/firebase-admin";
+import { getPrincipal } from "../middleware/auth";
+import { DailyResetSchema, TimezoneUpdateSchema } from "../middleware/security";
+import { planTimezoneChange, planUserMaintenance } from "../lib/maintenance";
+import { getTokenBudget } from "../../shared/plans";
+import { hasRole } from "../../shared/roles";
 
 export async function handleDailyReset(req: Request, res: Response) {
   try {
     // Validate input
     const validated = DailyResetSchema.parse(req.body);
-    const { idToken, userId } = validated;
-
-    // Verify authentication
-    const auth = getAdminAuth();
-    let decoded;
-    try {
-      decoded = await auth.verifyIdToken(idToken);
-    } catch (error) {
+    const { userId } = validated;
+
+    const principal = getPrincipal(req);
+    if (!principal) {
       return res.status(401).json({
         error: "Unauthorized: Invalid or expired token",
       });
     }
 
     // Security: Only allow users to reset their own data, or admins
-    if (decoded.uid !== userId) {
-      const userDoc = await getAdminDb()
-        .collection("users")
-        .doc(decoded.uid)
-        .get();
-
-      if (!userDoc.exists || !userDoc.data()?.isAdmin) {
-        return res.status(403).json({
-          error: "Forbidden: Can only reset your own data",
-        });
-      }
+    if (principal.uid !== userId && !hasRole(principal.role, "admin")) {
+      return res.status(403).json({
+        error: "Forbidden: Can only reset your own data",
+      });
     }
 
     // Get user data
@@ -53,64 +45,38 @@ export async function handleDailyReset(req: Request, res: Response) {
       });
     }
 
-    const now = Date.now();
-    const licenseExpiresAt = userData.licenseExpiresAt
-      ? userData.licenseExpiresAt.toMillis?.() || userData.licenseExpiresAt
-      : null;
-    const lastMessageReset = userData.lastMessageReset
-      ? userData.lastMessageReset.toMillis?.() || userData.lastMessageReset
-      : null;
-    const plan = userData.plan || "Free";
-
-    // Check if license has expired
-    if (licenseExpiresAt && licenseExpiresAt <= now) {
-      // License expired, reset to Free plan
-      await userDocRef.update({
-        plan: "Free",
-        messagesLimit: 10,
-        messagesUsed: 0,
-        licenseKey: "",
-        licenseExpiresAt: null,
-      });
+    const { action, update } = planUserMaintenance(userData, Date.now());
+
+    if (action === "license_expired") {
+      await userDocRef.update(update!);
 
       console.log(`[RESET] User ${userId} license expired, reverted to Free`);
 
       return res.status(200).json({
         message: "Licence expirée - reverted to Free",
         plan: "Free",
-        messagesLimit: 10,
-        messagesUsed: 0,
+        tokenBudget: update!.tokenBudget,
+        tokensUsed: 0,
       });
     }
 
-    // Check if we need to reset messages for daily limit
-    if (plan !== "Free" && lastMessageReset) {
-      const lastResetDate = new Date(lastMessageReset).toDateString();
-      const todayDate = new Date(now).toDateString();
-
-      if (lastResetDate !== todayDate) {
-        // Reset messages for the new day
-        await userDocRef.update({
-          messagesUsed: 0,
-          lastMessageReset: Timestamp.now(),
-        });
+    // Every plan has a daily token budget, measured in the user's timezone
+    if (action === "quota_reset") {
+      await userDocRef.update(update!);
 
-        const messageLimit = userData.messagesLimit || 500;
+      console.log(`[RESET] User ${userId} token budget reset for new day`);
 
-        console.log(`[RESET] User ${userId} messages reset for new day`);
-
-        return res.status(200).json({
-          message: "Messages réinitialisés pour aujourd'hui",
-          messagesUsed: 0,
-          messagesLimit: messageLimit,
-        });
-      }
+      return res.status(200).json({
+        message: "Quota réinitialisé pour aujourd'hui",
+        tokensUsed: 0,
+        tokenBudget: update!.tokenBudget,
+      });
     }
 
     return res.status(200).json({
       message: "Aucun reset nécessaire",
-      messagesUsed: userData.messagesUsed || 0,
-      messagesLimit: userData.messagesLimit || 10,
+      tokensUsed: userData.tokensUsed || 0,
+      tokenBudget: getTokenBudget(userData),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -126,3 +92,45 @@ export async function handleDailyReset(req: Request, res: Response) {
     });
   }
 }
+
+/**
+ * Set the caller's timezone, at most once per TIMEZONE_CHANGE_INTERVAL_MS
+ * (the first one is always accepted). Clients cannot write it directly.
+ */
+export async function handleSetTimezone(req: Request, res: Response) {
+  try {
+    const { timezone } = TimezoneUpdateSchema.parse(req.body);
+    const userId = getPrincipal(req)!.uid;
+
+    const db = getAdminDb();
+    const userDocRef = db.collection("users").doc(userId);
+    const result = await db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(userDocRef);
+      if (!snapshot.exists) return null;
+      const change = planTimezoneChange(snapshot.data()!, timezone, Date.now());
+      if (change.update) tx.update(userDocRef, change.update);
+      return change;
+    });
+
+    if (!result) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (result.retryAt) {
+      return res.status(429).json({
+        error: "Le fuseau horaire ne peut être modifié qu'une fois par semaine",
+        retryAt: new Date(result.retryAt).toISOString(),
+      });
+    }
+    return res.json({ timezone });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Invalid request body",
+        details: error.errors,
+      });
+    }
+
+    console.error("Error setting timezone:", error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+}
@@ -1,5 +1,6 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
+import { checkIpReputation } from "../lib/ip-reputation";
 
 /**
  * Schema for checking VPN
@@ -41,8 +42,8 @@ export const handleGetIP: RequestHandler = (req, res) => {
 };
 
 /**
- * Check if an IP address is a VPN or data center.
- * Uses AbuseIPDB API for detection.
+ * Check if an IP address is a VPN or data center, through the configured
+ * IP reputation provider (see server/lib/ip-reputation.ts).
  */
 export const handleCheckVPN: RequestHandler = async (req, res) => {
   try {
@@ -50,47 +51,7 @@ export const handleCheckVPN: RequestHandler = async (req, res) => {
     const validated = CheckVPNSchema.parse(req.body);
     const { ipAddress } = validated;
 
-    // If no API key, return safe default
-    if (!process.env.ABUSEIPDB_API_KEY) {
-      console.warn("ABUSEIPDB_API_KEY not configured");
-      return res.json({
-        isVPN: false,
-        provider: undefined,
-      });
-    }
-
-    const response = await fetch("https://api.abuseipdb.com/api/v2/check", {
-      method: "POST",
-      headers: {
-        Key: process.env.ABUSEIPDB_API_KEY,
-        Accept: "application/json",
-      },
-      body: new URLSearchParams({
-        ipAddress,
-        maxAgeInDays: "90",
-      }),
-    });
-
-    if (!response.ok) {
-      console.warn("AbuseIPDB API request failed:", response.status);
-      return res.json({ isVPN: false });
-    }
-
-    const data = (await response.json()) as {
-      data?: {
-        usageType?: string;
-        totalReports?: number;
-      };
-    };
-
-    const isVPN =
-      data.data?.usageType === "Data Center" ||
-      (data.data?.totalReports || 0) > 5;
-
-    res.json({
-      isVPN,
-      provider: data.data?.usageType || undefined,
-    });
+    res.json(await checkIpReputation(ipAddress));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -5,7 +5,11 @@ import {
   initializeFirebaseAdmin,
   isAdminInitialized,
 } from "../lib/firebase-admin";
-import { Timestamp } from "firebase-admin/firestore";
+import { BanService } from "../lib/bans";
+import { recordAccountUse } from "../lib/linked-accounts";
+import { normalizeIp } from "../lib/registration";
+import { getPrincipal } from "../middleware/auth";
+import { DeviceIdSchema } from "../middleware/security";
 
 // Initialize Firebase Admin on module load
 initializeFirebaseAdmin();
@@ -27,23 +31,8 @@ const CheckIPLimitSchema = z.object({
   maxAccounts: z.number().int().min(1).max(10),
 });
 
-const RecordUserIPSchema = z.object({
-  userId: z
-    .string()
-    .min(20)
-    .max(40)
-    .regex(/^[a-zA-Z0-9]{20,40}$/),
-  ipAddress: IPAddressSchema,
-  email: z.string().email().optional(),
-});
-
 const UpdateUserIPLoginSchema = z.object({
-  userId: z
-    .string()
-    .min(20)
-    .max(40)
-    .regex(/^[a-zA-Z0-9]{20,40}$/),
-  ipAddress: IPAddressSchema,
+  deviceId: DeviceIdSchema.optional(),
 });
 
 export interface IPBan {
@@ -82,32 +71,15 @@ export const handleCheckIPBan: RequestHandler = async (req, res) => {
       return res.json({ banned: false });
     }
 
-    const snapshot = await db
-      .collection("ip_bans")
-      .where("ipAddress", "==", ipAddress)
-      .get();
-
-    if (snapshot.empty) {
+    const ban = await BanService.getActiveIpBan(db, ipAddress);
+    if (!ban) {
       return res.json({ banned: false });
     }
 
-    const banDoc = snapshot.docs[0];
-    const banData = banDoc.data() as IPBan;
-
-    // Check if ban has expired
-    if (banData.expiresAt) {
-      const expiresAt = banData.expiresAt.toDate();
-      if (new Date() > expiresAt) {
-        // Ban has expired, delete it
-        await banDoc.ref.delete();
-        return res.json({ banned: false });
-      }
-    }
-
     return res.json({
       banned: true,
-      reason: banData.reason,
-      expiresAt: banData.expiresAt ? banData.expiresAt.toDate() : null,
+      reason: ban.reason,
+      expiresAt: ban.expiresAt === null ? null : new Date(ban.expiresAt),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -173,53 +145,15 @@ export const handleCheckIPLimit: RequestHandler = async (req, res) => {
   }
 };
 
-export const handleRecordUserIP: RequestHandler = async (req, res) => {
-  try {
-    // Validate input
-    const validated = RecordUserIPSchema.parse(req.body);
-    const { userId, email, ipAddress } = validated;
-
-    // If Firebase Admin is not initialized, skip recording
-    if (!isAdminInitialized()) {
-      console.warn(
-        "Firebase Admin not initialized. Skipping IP recording. Set FIREBASE_SERVICE_ACCOUNT_KEY env var.",
-      );
-      return res.json({ success: true, ipId: "pending-initialization" });
-    }
-
-    const db = getAdminDb();
-    if (!db) {
-      return res.json({ success: true, ipId: "pending-initialization" });
-    }
-
-    const now = Timestamp.now();
-
-    const docRef = await db.collection("user_ips").add({
-      userId,
-      email: email || "",
-      ipAddress,
-      recordedAt: now,
-      lastUsed: now,
-    });
-
-    return res.json({ success: true, ipId: docRef.id });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: "Invalid request parameters",
-        details: error.errors,
-      });
-    }
-    console.error("Error recording user IP:", error);
-    return res.status(500).json({ error: "Failed to record IP" });
-  }
-};
-
+/**
+ * Record the IP (and device) a signed-in user logs in from. The user and
+ * address come from the verified token and the connection, never from the
+ * body, so accounts can't be linked to others from the outside.
+ */
 export const handleUpdateUserIPLogin: RequestHandler = async (req, res) => {
   try {
-    // Validate input
-    const validated = UpdateUserIPLoginSchema.parse(req.body);
-    const { userId, ipAddress } = validated;
+    const { deviceId } = UpdateUserIPLoginSchema.parse(req.body);
+    const principal = getPrincipal(req)!;
 
     // If Firebase Admin is not initialized, skip updating
     if (!isAdminInitialized()) {
@@ -234,32 +168,12 @@ export const handleUpdateUserIPLogin: RequestHandler = async (req, res) => {
       return res.json({ success: true });
     }
 
-    const snapshot = await db
-      .collection("user_ips")
-      .where("userId", "==", userId)
-      .get();
-
-    let found = false;
-    for (const doc of snapshot.docs) {
-      if (doc.data().ipAddress === ipAddress) {
-        // Update last used
-        await doc.ref.update({
-          lastUsed: Timestamp.now(),
-        });
-        found = true;
-        break;
-      }
-    }
-
-    if (!found) {
-      // Record new IP
-      await db.collection("user_ips").add({
-        userId,
-        ipAddress,
-        recordedAt: Timestamp.now(),
-        lastUsed: Timestamp.now(),
-      });
-    }
+    await recordAccountUse(db, {
+      userId: principal.uid,
+      email: principal.email,
+      ipAddress: normalizeIp(req.ip || req.socket.remoteAddress || "unknown"),
+      deviceId,
+    });
 
     return res.json({ success: true });
   } catch (error) {
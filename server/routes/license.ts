@@ -1,120 +1,80 @@
 import { Request, Response } from "express";
 import { z } from "zod";
-import { getAdminAuth, getAdminDb } from "../lib/firebase-admin";
+import { getAdminDb } from "../lib/firebase-admin";
+import { getPrincipal } from "../middleware/auth";
 import { ActivateLicenseSchema } from "../middleware/security";
-import { Timestamp } from "firebase-admin/firestore";
+import {
+  isSignedLicenseKey,
+  normalizeLicenseKey,
+} from "../../shared/license-key";
+import { activateLicense, LicenseError } from "../lib/licenses";
+import {
+  legacyLicenseKeysAllowed,
+  LicenseKeyError,
+  verifyLicenseKey,
+} from "../lib/license-signing";
 
 export async function handleActivateLicense(req: Request, res: Response) {
   try {
     // Validate input
     const validated = ActivateLicenseSchema.parse(req.body);
-    const { idToken, userId, licenseKey } = validated;
-
-    // Verify authentication
-    const auth = getAdminAuth();
-    let decoded;
-    try {
-      decoded = await auth.verifyIdToken(idToken);
-    } catch (error) {
-      return res.status(401).json({
-        error: "Unauthorized: Invalid or expired token",
-      });
-    }
+    const { userId, licenseKey } = validated;
 
     // Security: Only allow users to activate licenses for themselves
-    if (decoded.uid !== userId) {
+    if (getPrincipal(req)!.uid !== userId) {
       return res.status(403).json({
         error: "Forbidden: Can only activate licenses for yourself",
       });
     }
 
-    // Get database instance
-    const db = getAdminDb();
-
-    // Query Firestore for licenses with matching key
-    const licenseQuery = await db
-      .collection("licenses")
-      .where("key", "==", licenseKey.trim())
-      .get();
-
-    if (licenseQuery.empty) {
+    // Signed keys are checked before touching Firestore, so forged or
+    // mistyped keys never cost a lookup
+    let key = licenseKey.trim();
+    if (isSignedLicenseKey(key)) {
+      key = normalizeLicenseKey(key);
+      try {
+        verifyLicenseKey(key);
+      } catch (error) {
+        if (error instanceof LicenseKeyError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+    } else if (!legacyLicenseKeysAllowed()) {
       return res.status(400).json({
         message: "Clé de licence invalide",
       });
+    } else {
+      // Legacy documents are not always stored under their key
+      const legacy = await getAdminDb()
+        .collection("licenses")
+        .where("key", "==", key)
+        .limit(1)
+        .get();
+      if (!legacy.empty) key = legacy.docs[0].id;
     }
 
-    const licenseDoc = licenseQuery.docs[0];
-    const licenseData = licenseDoc.data();
-
-    if (!licenseData) {
-      return res.status(400).json({
-        message: "Clé de licence invalide",
-      });
-    }
-
-    // Check if license is active
-    const isActive = licenseData.isActive !== false;
-    if (!isActive) {
-      return res.status(400).json({
-        message: "Clé de licence désactivée",
-      });
-    }
-
-    // Check if license has expired
-    const expiresAt = licenseData.expiresAt;
-    const expiresAtMs = expiresAt?.toMillis?.() || expiresAt;
-
-    if (expiresAtMs && expiresAtMs < Date.now()) {
-      return res.status(400).json({
-        message: "Clé de licence expirée",
-      });
+    let activation;
+    try {
+      activation = await activateLicense(getAdminDb(), key, userId);
+    } catch (error) {
+      if (error instanceof LicenseError) {
+        return res.status(error.status === 404 ? 400 : error.status).json({
+          message: error.message,
+        });
+      }
+      throw error;
     }
 
-    // Extract license plan info
-    const plan = licenseData.plan || "Classic";
-    const validityDays = licenseData.validityDays || 30;
-
-    // Plan message limits
-    const planLimits: Record<string, number> = {
-      Free: 10,
-      Classic: 500,
-      Pro: 1000,
-    };
-
-    const messageLimit = planLimits[plan] || 500;
-    const licenseId = licenseDoc.id;
-
-    // Update user data with license info
-    const now = Date.now();
-    const userDocRef = db.collection("users").doc(userId);
-
-    await userDocRef.update({
-      messagesUsed: 0,
-      messagesLimit: messageLimit,
-      plan,
-      licenseKey: licenseKey.trim(),
-      licenseExpiresAt: Timestamp.fromDate(
-        new Date(expiresAtMs || now + validityDays * 24 * 60 * 60 * 1000),
-      ),
-      lastMessageReset: Timestamp.now(),
-    });
-
-    // Update the license with usage info
-    await licenseDoc.ref.update({
-      usedBy: userId,
-      usedAt: Timestamp.now(),
-      used: true,
-    });
-
-    console.log(`[LICENSE] User ${userId} activated license ${licenseKey}`);
+    console.log(`[LICENSE] User ${userId} activated license ${key}`);
 
     return res.status(200).json({
       message: "Licence activée avec succès",
-      licenseId,
-      plan,
-      messageLimit,
-      messagesUsed: 0,
-      expiresAt: expiresAtMs,
+      licenseId: key,
+      plan: activation.plan,
+      tokenBudget: activation.tokenBudget,
+      tokensUsed: activation.tokensUsed,
+      expiresAt: activation.expiresAt,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,88 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../lib/firebase-admin";
+import { getChatSettings } from "../lib/ai-config";
+import {
+  getOwnedConversation,
+  toConversationSummary,
+} from "../lib/conversations";
+import {
+  canUseModel,
+  MODEL_CATALOG,
+  MODEL_NOT_IN_PLAN,
+  resolveDefaultModel,
+  toCatalogEntry,
+} from "../lib/model-catalog";
+import {
+  ConversationIdSchema,
+  ConversationModelSchema,
+} from "../middleware/security";
+import { getPrincipal } from "../middleware/auth";
+import type { ModelCatalogResponse } from "../../shared/api";
+
+function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: error.errors,
+    });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+/**
+ * The model catalog as seen by the caller's plan. Models outside the plan
+ * are listed with `available: false` so the client can show what upgrading
+ * unlocks.
+ */
+export const handleListModels: RequestHandler = async (req, res) => {
+  try {
+    const { plan } = getPrincipal(req)!;
+    const settings = await getChatSettings(getAdminDb());
+
+    const response: ModelCatalogResponse = {
+      models: MODEL_CATALOG.map((model) => toCatalogEntry(model, plan)),
+      defaultModel: resolveDefaultModel(plan, settings.model),
+    };
+    return res.json(response);
+  } catch (error) {
+    return handleError(res, error, "List models");
+  }
+};
+
+/**
+ * Pick the model used for the next messages of a conversation, or go back
+ * to the persona's / default model with `model: null`.
+ */
+export const handleSetConversationModel: RequestHandler = async (req, res) => {
+  try {
+    const { uid: userId, plan } = getPrincipal(req)!;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const { model } = ConversationModelSchema.parse(req.body);
+    if (model && !canUseModel(plan, model)) {
+      return res.status(403).json({ error: MODEL_NOT_IN_PLAN, model });
+    }
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const updatedAt = Timestamp.now();
+    await conversation.ref.update({ model, updatedAt });
+
+    return res.json(
+      toConversationSummary(conversationId, {
+        ...conversation.data(),
+        model,
+        updatedAt,
+      }),
+    );
+  } catch (error) {
+    return handleError(res, error, "Set conversation model");
+  }
+};
@@ -0,0 +1,164 @@
+import { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "../lib/firebase-admin";
+import { checkContent } from "../lib/content-policy";
+import { canUseModel, MODEL_NOT_IN_PLAN } from "../lib/model-catalog";
+import {
+  getOwnedConversation,
+  toConversationSummary,
+} from "../lib/conversations";
+import {
+  createPersona,
+  deletePersona,
+  getOwnedPersona,
+  listPersonas,
+  PersonaError,
+  PersonaInput,
+  updatePersona,
+} from "../lib/personas";
+import {
+  ConversationIdSchema,
+  ConversationPersonaSchema,
+  PersonaIdSchema,
+  PersonaSchema,
+} from "../middleware/security";
+import { getPrincipal } from "../middleware/auth";
+
+function handleError(res: Response, error: unknown, context: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: "Invalid request",
+      details: error.errors,
+    });
+  }
+  if (error instanceof PersonaError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${context} error:`, error);
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+/**
+ * Validate a persona and run its instructions through the content policy,
+ * like a chat message. Answers 422 and returns null when they are blocked.
+ */
+async function parsePersona(
+  req: Request,
+  res: Response,
+): Promise<PersonaInput | null> {
+  const input = PersonaSchema.parse(req.body);
+  if (input.model && !canUseModel(getPrincipal(req)!.plan, input.model)) {
+    throw new PersonaError(MODEL_NOT_IN_PLAN, 403);
+  }
+
+  const decision = await checkContent(
+    getAdminDb(),
+    input.instructions,
+    `persona request=${(req as any).requestId}`,
+  );
+  if (decision.outcome === "block") {
+    res.status(422).json({
+      error: "Instructions refusées par la politique de contenu",
+    });
+    return null;
+  }
+
+  return {
+    name: input.name,
+    instructions: decision.content,
+    model: input.model ?? null,
+    temperature: input.temperature ?? null,
+  };
+}
+
+export const handleListPersonas: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+    return res.json({ personas: await listPersonas(getAdminDb(), userId) });
+  } catch (error) {
+    return handleError(res, error, "List personas");
+  }
+};
+
+export const handleCreatePersona: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const input = await parsePersona(req, res);
+    if (!input) return;
+
+    return res
+      .status(201)
+      .json(await createPersona(getAdminDb(), userId, input));
+  } catch (error) {
+    return handleError(res, error, "Create persona");
+  }
+};
+
+export const handleUpdatePersona: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const personaId = PersonaIdSchema.parse(req.params.id);
+    const input = await parsePersona(req, res);
+    if (!input) return;
+
+    return res.json(
+      await updatePersona(getAdminDb(), userId, personaId, input),
+    );
+  } catch (error) {
+    return handleError(res, error, "Update persona");
+  }
+};
+
+export const handleDeletePersona: RequestHandler = async (req, res) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const personaId = PersonaIdSchema.parse(req.params.id);
+    await deletePersona(getAdminDb(), userId, personaId);
+
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, "Delete persona");
+  }
+};
+
+/**
+ * Choose the persona used for the next messages of a conversation, or go
+ * back to the default assistant with `personaId: null`.
+ */
+export const handleSetConversationPersona: RequestHandler = async (
+  req,
+  res,
+) => {
+  try {
+    const userId = getPrincipal(req)!.uid;
+
+    const conversationId = ConversationIdSchema.parse(req.params.id);
+    const { personaId } = ConversationPersonaSchema.parse(req.body);
+
+    const db = getAdminDb();
+    const conversation = await getOwnedConversation(db, conversationId, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+    if (personaId && !(await getOwnedPersona(db, personaId, userId))) {
+      return res.status(404).json({ error: "Personnalité introuvable" });
+    }
+
+    const updatedAt = Timestamp.now();
+    await conversation.ref.update({ personaId, updatedAt });
+
+    return res.json(
+      toConversationSummary(conversationId, {
+        ...conversation.data(),
+        personaId,
+        updatedAt,
+      }),
+    );
+  } catch (error) {
+    return handleError(res, error, "Set conversation persona");
+  }
+};
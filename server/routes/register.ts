@@ -0,0 +1,43 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { getAdminAuth, getAdminDb } from "../lib/firebase-admin";
+import { registerUser, RegistrationError } from "../lib/registration";
+import { RegisterSchema } from "../middleware/security";
+
+/**
+ * Create an account after the server-side abuse checks (see
+ * server/lib/registration.ts). The client signs in once it succeeds.
+ */
+export const handleRegister: RequestHandler = async (req, res) => {
+  try {
+    const { email, password, timezone, deviceId } = RegisterSchema.parse(
+      req.body,
+    );
+
+    const { uid } = await registerUser(getAdminDb(), getAdminAuth(), {
+      email,
+      password,
+      timezone,
+      deviceId,
+      ipAddress: req.ip || req.socket.remoteAddress || "unknown",
+    });
+
+    return res.status(201).json({ success: true, uid });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Invalid request body",
+        details: error.errors,
+      });
+    }
+    if (error instanceof RegistrationError) {
+      return res
+        .status(error.status)
+        .json({ error: error.message, code: error.code });
+    }
+    console.error("Error registering user:", error);
+    return res.status(500).json({
+      error: "Erreur serveur lors de l'inscription",
+    });
+  }
+};
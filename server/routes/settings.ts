@@ -9,15 +9,14 @@ export const handleGetAIConfig: RequestHandler = async (req, res) => {
     const db = getAdminDb();
     const configSnap = await db.collection("settings").doc("ai_config").get();
 
-    const config = configSnap.exists
-      ? configSnap.data()
-      : {
-          model: "x-ai/grok-4.1-fast:free",
-          temperature: 0.7,
-          maxTokens: 2048,
-        };
+    const data = configSnap.data();
 
-    return res.json(config);
+    // The system prompt and provider routing stay server-side
+    return res.json({
+      model: data?.model || "x-ai/grok-4.1-fast:free",
+      temperature: data?.temperature ?? 0.7,
+      maxTokens: data?.maxTokens || 2048,
+    });
   } catch (error) {
     console.error("Error getting AI config:", error);
     return res.json({
@@ -29,8 +28,8 @@ export const handleGetAIConfig: RequestHandler = async (req, res) => {
 };
 
 export const handleUpdateAIConfig: RequestHandler = async (req, res) => {
-  // This is now handled in ai.ts with proper authentication
+  // Handled by handleUpdateAIConfig in admin.ts, behind ai_config.manage
   return res.status(405).json({
-    error: "Use POST /api/ai/config with idToken to update settings",
+    error: "Use PUT /api/ai/config to update settings",
   });
 };
@@ -4,9 +4,340 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type { LicenseStatus } from "./licenses";
+import type { AppealStatus, SanctionStatus, SanctionType } from "./bans";
+import type { PolicyMatch, PolicyOutcome } from "./content-policy";
+import type { UserRole } from "./roles";
+import type { PlanName } from "./plans";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Events emitted by POST /api/ai/chat/stream (sent as SSE, see shared/sse.ts)
+ */
+export interface AIStreamDeltaEvent {
+  type: "delta";
+  content: string;
+}
+
+export interface AIStreamDoneEvent {
+  type: "done";
+  // Daily token quota after this request (see shared/plans.ts)
+  tokensUsed: number;
+  tokenBudget: number;
+  // Stored messages, null when nothing was stored (no conversation, or the
+  // user message of a regenerated reply already existed)
+  userMessageId: string | null;
+  assistantMessageId: string | null;
+}
+
+export interface AIStreamErrorEvent {
+  type: "error";
+  error: string;
+}
+
+// Sent first when the content policy flagged or redacted the user message
+export interface AIStreamPolicyEvent extends ContentPolicyNotice {
+  type: "policy";
+}
+
+// Sent before the answer when older turns were folded into the summary
+export interface AIStreamSummaryEvent {
+  type: "summary";
+  summary: ContextSummary;
+}
+
+export type AIStreamEvent =
+  | AIStreamDeltaEvent
+  | AIStreamDoneEvent
+  | AIStreamErrorEvent
+  | AIStreamPolicyEvent
+  | AIStreamSummaryEvent;
+
+/**
+ * Content policy result attached to AI responses (shared/content-policy.ts).
+ * `content` is the user input as the model received it.
+ */
+export interface ContentPolicyNotice {
+  outcome: PolicyOutcome;
+  matches: PolicyMatch[];
+  content: string;
+}
+
+/**
+ * Conversations API (/api/conversations). Timestamps are ISO strings.
+ */
+export type ChatRole = "user" | "assistant";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  // Persona used for new messages, null for the default assistant
+  personaId: string | null;
+  // Model picked for this conversation, null to use the persona's or the
+  // default one
+  model: string | null;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  conversationId: string;
+  // Message this one follows, null for the first one (server/lib/branches.ts)
+  parentId: string | null;
+  role: ChatRole;
+  content: string;
+  model: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  // Files sent with a user message
+  attachments: MessageAttachment[];
+  createdAt: string;
+}
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * An uploaded attachment (/api/attachments), pending until it is sent with
+ * a message.
+ */
+export interface AttachmentSummary extends MessageAttachment {
+  conversationId: string;
+  // Text chunks extracted from the file
+  chunkCount: number;
+  createdAt: string;
+}
+
+/**
+ * Rolling summary of a conversation's older messages, sent to the model in
+ * place of them (/api/conversations/:id/summary).
+ */
+export interface ContextSummary {
+  content: string;
+  // Messages folded into the summary so far
+  messageCount: number;
+  coveredUntil: string;
+  // Last summarized message; the summary only applies to its branch. Null
+  // for summaries written before branching.
+  coveredMessageId: string | null;
+  model: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Personas (/api/personas): instructions layered under the admin system
+ * prompt. `model` and `temperature` replace the global defaults when set.
+ */
+export interface PersonaSummary {
+  id: string;
+  name: string;
+  instructions: string;
+  model: string | null;
+  temperature: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A chat model as listed by GET /api/models for the caller's plan.
+ * `costMultiplier` applies to the tokens charged against the daily budget.
+ */
+export interface ModelCatalogEntry {
+  id: string;
+  name: string;
+  provider: string;
+  contextLength: number;
+  costMultiplier: number;
+  plans: PlanName[];
+  available: boolean;
+}
+
+export interface ModelCatalogResponse {
+  models: ModelCatalogEntry[];
+  // Model used when neither the conversation nor its persona picks one
+  defaultModel: string;
+}
+
+// A message of the active branch with the alternatives to it
+export interface BranchMessageRecord extends ChatMessageRecord {
+  // Messages answering the same parent, this one included, oldest first
+  siblingIds: string[];
+}
+
+/**
+ * A page of the conversation's active branch, oldest first.
+ */
+export interface MessagesPage {
+  messages: BranchMessageRecord[];
+  // Pass as `before` to fetch the previous (older) page, null when exhausted
+  nextCursor: string | null;
+}
+
+/**
+ * Licenses as listed by /api/admin/licenses (model in shared/licenses.ts).
+ */
+export interface LicenseSummary {
+  key: string;
+  plan: string;
+  status: LicenseStatus;
+  seats: number;
+  holders: string[];
+  validityDays: number;
+  expiresAt: string | null;
+  batchId: string | null;
+  createdAt: string | null;
+}
+
+/**
+ * License batches generated for resellers (/api/admin/license-batches).
+ */
+export interface LicenseBatchSummary {
+  id: string;
+  name: string;
+  reseller: string;
+  plan: string;
+  validityDays: number;
+  count: number;
+  createdBy: string;
+  createdAt: string;
+  revoked: boolean;
+  revokedAt: string | null;
+}
+
+/**
+ * Bans and warnings (model in shared/bans.ts), as returned by /api/bans/me
+ * and /api/admin/bans.
+ */
+export interface SanctionSummary {
+  id: string;
+  userId: string;
+  email: string;
+  type: SanctionType;
+  status: SanctionStatus;
+  reason: string;
+  isPermanent: boolean;
+  expiresAt: string | null;
+  issuedBy: string | null;
+  createdAt: string | null;
+  liftedAt: string | null;
+  liftedBy: string | null;
+  appealStatus: AppealStatus;
+  appeal: SanctionAppeal | null;
+}
+
+// Appeal of a ban, as submitted by the user and decided by staff
+export interface SanctionAppeal {
+  message: string;
+  submittedAt: string | null;
+  decidedAt: string | null;
+  decidedBy: string | null;
+  // Staff reply shown to the user with the decision
+  response: string | null;
+}
+
+/**
+ * Server-side registration checks (/api/admin/registration-attempts).
+ */
+export interface RegistrationAttemptSummary {
+  id: string;
+  email: string;
+  ipAddress: string;
+  allowed: boolean;
+  // Check that refused the registration
+  blockedBy: string | null;
+  accountsOnIp: number;
+  // Null for attempts recorded before the lookup ran
+  isVPN: boolean | null;
+  vpnProvider: string | null;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface IpBanSummary {
+  id: string;
+  // Canonical form; single addresses are /32 (IPv4) or /128 (IPv6)
+  cidr: string;
+  status: SanctionStatus;
+  reason: string;
+  isPermanent: boolean;
+  expiresAt: string | null;
+  issuedBy: string | null;
+  createdAt: string | null;
+  liftedAt: string | null;
+  liftedBy: string | null;
+}
+
+export interface LinkedAccountSummary {
+  userId: string;
+  email: string;
+  plan: string;
+  role: UserRole;
+  isBanned: boolean;
+  createdAt: string | null;
+  // False once the account was deleted; its IP records remain
+  exists: boolean;
+}
+
+// An IP address or device ID used by several accounts of a cluster
+export interface SharedIdentifier {
+  kind: "ip" | "device";
+  value: string;
+  userIds: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface AccountClusterSummary {
+  accounts: LinkedAccountSummary[];
+  // Most shared first
+  shared: SharedIdentifier[];
+}
+
+export interface IpRangeRuleSummary {
+  id: string;
+  // Canonical form, e.g. "203.0.113.0/24" or "2001:db8::/32"
+  cidr: string;
+  action: "allow" | "deny";
+  note: string;
+  createdBy: string;
+  createdAt: string | null;
+}
+
+/**
+ * Admin audit trail (/api/admin/audit), newest first.
+ */
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  action: string;
+  actorId: string;
+  targetType: string;
+  targetId: string;
+  // Only the fields that changed
+  changes: Record<string, AuditChange>;
+  metadata: Record<string, unknown>;
+  ip: string | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface AdminAuditPage {
+  entries: AdminAuditEntry[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  canAppeal,
+  isUserBanned,
+  longestExpiry,
+  readSanction,
+  reducedExpiry,
+  sanctionExpiry,
+} from "./bans";
+
+const NOW = Date.UTC(2024, 0, 15);
+
+describe("bans", () => {
+  it("should derive active, expired and lifted from status and expiry", () => {
+    expect(readSanction({ status: "active", expiresAt: NOW + 1 }, NOW)).toEqual(
+      {
+        type: "ban",
+        status: "active",
+        expiresAt: NOW + 1,
+        appealStatus: "none",
+      },
+    );
+    expect(readSanction({ status: "active", expiresAt: NOW }, NOW).status).toBe(
+      "expired",
+    );
+    expect(
+      readSanction({ status: "lifted", expiresAt: NOW + 1 }, NOW).status,
+    ).toBe("lifted");
+  });
+
+  it("should treat documents without an expiry as permanent", () => {
+    expect(readSanction({ type: "warn" }, NOW)).toMatchObject({
+      type: "warn",
+      status: "active",
+      expiresAt: null,
+    });
+    expect(
+      readSanction({ isPermanent: true, expiresAt: NOW - 1 }, NOW).status,
+    ).toBe("active");
+  });
+
+  it("should compute expiries in minutes, null when permanent", () => {
+    expect(sanctionExpiry(60, NOW)).toBe(NOW + 60 * 60 * 1000);
+    expect(sanctionExpiry(undefined, NOW)).toBeNull();
+    expect(longestExpiry(NOW, NOW + 1)).toBe(NOW + 1);
+    expect(longestExpiry(NOW, null)).toBeNull();
+  });
+
+  it("should only allow one appeal per active ban", () => {
+    expect(canAppeal(readSanction({ expiresAt: NOW + 1 }, NOW))).toBe(true);
+    expect(canAppeal(readSanction({ type: "warn" }, NOW))).toBe(false);
+    expect(canAppeal(readSanction({ expiresAt: NOW }, NOW))).toBe(false);
+    expect(canAppeal(readSanction({ appealStatus: "pending" }, NOW))).toBe(
+      false,
+    );
+    expect(canAppeal(readSanction({ appealStatus: "upheld" }, NOW))).toBe(
+      false,
+    );
+  });
+
+  it("should only reduce a ban to an earlier expiry", () => {
+    const permanent = readSanction({}, NOW);
+    const hour = readSanction({ expiresAt: NOW + 60 * 60 * 1000 }, NOW);
+
+    expect(reducedExpiry(permanent, 60, NOW)).toBe(NOW + 60 * 60 * 1000);
+    expect(reducedExpiry(hour, 30, NOW)).toBe(NOW + 30 * 60 * 1000);
+    expect(reducedExpiry(hour, 60, NOW)).toBeNull();
+    expect(reducedExpiry(hour, 0, NOW)).toBeNull();
+  });
+
+  it("should read the ban mirror and legacy flags on user documents", () => {
+    expect(isUserBanned({}, NOW)).toBe(false);
+    expect(isUserBanned({ banned: true }, NOW)).toBe(true);
+    expect(isUserBanned({ isBanned: true }, NOW)).toBe(true);
+    expect(isUserBanned({ isBanned: true, banExpiresAt: NOW + 1 }, NOW)).toBe(
+      true,
+    );
+    expect(isUserBanned({ isBanned: true, banExpiresAt: NOW }, NOW)).toBe(
+      false,
+    );
+  });
+});
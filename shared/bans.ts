@@ -0,0 +1,112 @@
+/**
+ * Sanction model shared by the server and the admin panel.
+ *
+ * A `bans/{id}` document is either a ban, which blocks the account, or a
+ * warning, which is only shown to the user. It stores `status` ("active"
+ * until lifted, then "lifted") and `expiresAt` (null when permanent);
+ * "expired" is never stored, it is derived from `expiresAt`. Appeals
+ * (`appealStatus`, `appeal`) are tracked on the ban they contest: one per
+ * ban, decided once.
+ *
+ * The user document mirrors the longest active ban in `isBanned` and
+ * `banExpiresAt`, so authenticating a request needs no extra query. Users
+ * banned before this model only carry `isBanned` or `banned`.
+ */
+
+export type SanctionType = "ban" | "warn";
+
+export type SanctionStatus = "active" | "expired" | "lifted";
+
+export type AppealStatus = "none" | "pending" | "upheld" | "reduced" | "lifted";
+
+export const APPEAL_DECISIONS = ["upheld", "reduced", "lifted"] as const;
+
+export type AppealDecision = (typeof APPEAL_DECISIONS)[number];
+
+export interface SanctionState {
+  type: SanctionType;
+  status: SanctionStatus;
+  // Milliseconds, null for permanent sanctions
+  expiresAt: number | null;
+  appealStatus: AppealStatus;
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return typeof value === "number" ? value : null;
+}
+
+export function readSanction(
+  data: Record<string, any>,
+  now: number = Date.now(),
+): SanctionState {
+  const expiresAt = data.isPermanent === true ? null : toMillis(data.expiresAt);
+
+  let status: SanctionStatus;
+  if (data.status === "lifted") {
+    status = "lifted";
+  } else if (expiresAt !== null && expiresAt <= now) {
+    status = "expired";
+  } else {
+    status = "active";
+  }
+
+  return {
+    type: data.type === "warn" ? "warn" : "ban",
+    status,
+    expiresAt,
+    appealStatus: data.appealStatus || "none",
+  };
+}
+
+// Only active bans can be appealed, and only once
+export function canAppeal(state: SanctionState): boolean {
+  return (
+    state.type === "ban" &&
+    state.status === "active" &&
+    state.appealStatus === "none"
+  );
+}
+
+/**
+ * New expiry of a ban reduced on appeal, counted from `now`. Null when it
+ * would not end the ban sooner than it currently does.
+ */
+export function reducedExpiry(
+  state: SanctionState,
+  durationMinutes: number,
+  now: number = Date.now(),
+): number | null {
+  const expiresAt = sanctionExpiry(durationMinutes, now);
+  if (expiresAt === null) return null;
+  return state.expiresAt === null || expiresAt < state.expiresAt
+    ? expiresAt
+    : null;
+}
+
+export function sanctionExpiry(
+  durationMinutes: number | undefined,
+  now: number = Date.now(),
+): number | null {
+  return durationMinutes ? now + durationMinutes * 60 * 1000 : null;
+}
+
+/**
+ * Whichever of two ban expiries lasts longer (null is permanent).
+ */
+export function longestExpiry(a: number | null, b: number | null) {
+  return a === null || b === null ? null : Math.max(a, b);
+}
+
+// Ban state mirrored on a users/{uid} document
+export function isUserBanned(
+  data: Record<string, any>,
+  now: number = Date.now(),
+): boolean {
+  if (data.banned === true) return true;
+  if (data.isBanned !== true) return false;
+  const expiresAt = toMillis(data.banExpiresAt);
+  return expiresAt === null || expiresAt > now;
+}
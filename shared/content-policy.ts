@@ -0,0 +1,277 @@
+/**
+ * Content policy engine, applied by the server to chat messages and image
+ * prompts before they reach a model.
+ *
+ * A rule set is an ordered list of rules (size limit, PII detection,
+ * prompt-injection heuristics, banned topics), each with the outcome to apply
+ * when it matches. The decision is the most severe outcome among the matching
+ * rules: "redact" replaces the matched spans and lets the message through,
+ * "block" rejects it. Rule sets are edited by admins and stored in
+ * `settings/content_policy` (see server/lib/content-policy.ts).
+ */
+
+export type PolicyOutcome = "allow" | "warn" | "redact" | "block";
+
+export const POLICY_OUTCOMES: PolicyOutcome[] = [
+  "allow",
+  "warn",
+  "redact",
+  "block",
+];
+
+export type PiiType = "email" | "phone" | "credit_card" | "iban";
+
+export const PII_TYPES: PiiType[] = ["email", "phone", "credit_card", "iban"];
+
+interface PolicyRuleBase {
+  id: string;
+  label: string;
+  enabled: boolean;
+  outcome: PolicyOutcome;
+}
+
+export interface SizePolicyRule extends PolicyRuleBase {
+  kind: "size";
+  maxChars: number;
+}
+
+export interface PiiPolicyRule extends PolicyRuleBase {
+  kind: "pii";
+  types: PiiType[];
+}
+
+export interface InjectionPolicyRule extends PolicyRuleBase {
+  kind: "injection";
+}
+
+export interface TopicPolicyRule extends PolicyRuleBase {
+  kind: "topic";
+  // Words or phrases, matched case-insensitively on word boundaries
+  terms: string[];
+}
+
+export type PolicyRule =
+  | SizePolicyRule
+  | PiiPolicyRule
+  | InjectionPolicyRule
+  | TopicPolicyRule;
+
+export interface PolicyMatch {
+  ruleId: string;
+  label: string;
+  outcome: PolicyOutcome;
+  // What matched, e.g. "credit_card" or the banned term
+  detail: string;
+}
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome;
+  // The input with "redact" matches replaced
+  content: string;
+  matches: PolicyMatch[];
+}
+
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  {
+    id: "size",
+    kind: "size",
+    label: "Taille maximale",
+    enabled: true,
+    outcome: "block",
+    maxChars: 5000,
+  },
+  {
+    id: "prompt-injection",
+    kind: "injection",
+    label: "Injection de prompt",
+    enabled: true,
+    outcome: "warn",
+  },
+  {
+    id: "pii-payment",
+    kind: "pii",
+    label: "Données bancaires",
+    enabled: true,
+    outcome: "redact",
+    types: ["credit_card", "iban"],
+  },
+  {
+    id: "pii-contact",
+    kind: "pii",
+    label: "Coordonnées",
+    enabled: false,
+    outcome: "warn",
+    types: ["email", "phone"],
+  },
+];
+
+interface Span {
+  start: number;
+  end: number;
+  detail: string;
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanValid(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+const PII_PATTERNS: Record<
+  PiiType,
+  { pattern: RegExp; validate?: (match: string) => boolean }
+> = {
+  email: { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // International (+33 6 12 34 56 78) or French national (06 12 34 56 78)
+  phone: {
+    pattern: /(?:\+\d{1,3}[ .-]?\d|\b0\d)(?:[ .-]?\d{2}){4}\b/g,
+  },
+  credit_card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhnValid(match.replace(/\D/g, "")),
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: (match) => ibanValid(match.replace(/ /g, "")),
+  },
+};
+
+// Attempts to override the system prompt, not mere mentions of "ignore"
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all)\b[^.\n]{0,20}\b(instructions?|prompts?|rules)\b/i,
+  /\b(ignorez?|oublie[sz]?)\b[^.\n]{0,40}\b(instructions?|consignes?|règles)\b[^.\n]{0,20}\b(précédentes?|ci-dessus|système)\b/i,
+  /\b(reveal|show|print|repeat|révèle|affiche)\b[^.\n]{0,30}\b(system prompt|prompt système|hidden instructions|initial instructions)\b/i,
+  /\byou are now\b[^.\n]{0,30}\b(DAN|jailbroken|unrestricted|unfiltered)\b/i,
+  /<\|(im_start|im_end|system|endoftext)\|>/i,
+];
+
+function collect(text: string, pattern: RegExp, detail: string): Span[] {
+  const flags = pattern.flags.includes("g")
+    ? pattern.flags
+    : pattern.flags + "g";
+  return [...text.matchAll(new RegExp(pattern.source, flags))].map((m) => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    detail,
+  }));
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function findSpans(text: string, rule: PolicyRule): Span[] {
+  switch (rule.kind) {
+    case "size":
+      return text.length > rule.maxChars
+        ? [{ start: rule.maxChars, end: text.length, detail: "size" }]
+        : [];
+    case "pii":
+      return rule.types.flatMap((type) => {
+        const { pattern, validate } = PII_PATTERNS[type];
+        return collect(text, pattern, type).filter(
+          (span) => !validate || validate(text.slice(span.start, span.end)),
+        );
+      });
+    case "injection":
+      return INJECTION_PATTERNS.flatMap((pattern) =>
+        collect(text, pattern, "prompt_injection"),
+      );
+    case "topic":
+      return rule.terms
+        .map((term) => term.trim())
+        .filter(Boolean)
+        .flatMap((term) =>
+          collect(
+            text,
+            new RegExp(
+              `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+              "giu",
+            ),
+            term,
+          ),
+        );
+  }
+}
+
+const SEVERITY: Record<PolicyOutcome, number> = {
+  allow: 0,
+  warn: 1,
+  redact: 2,
+  block: 3,
+};
+
+function redact(text: string, spans: Span[]): string {
+  let result = "";
+  let cursor = 0;
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    // Overlapping matches are covered by the earlier placeholder
+    if (span.start < cursor) continue;
+    result +=
+      text.slice(cursor, span.start) +
+      (span.detail === "size" ? "…" : `[masqué:${span.detail}]`);
+    cursor = span.end;
+  }
+  return result + text.slice(cursor);
+}
+
+export interface EvaluateOptions {
+  // Rule kinds left out, e.g. "size" for attachment text, which has its own
+  // limit (MAX_ATTACHMENT_TEXT_CHARS)
+  skipKinds?: PolicyRule["kind"][];
+}
+
+export function evaluateContent(
+  text: string,
+  rules: PolicyRule[],
+  options: EvaluateOptions = {},
+): PolicyDecision {
+  const matches: PolicyMatch[] = [];
+  const redactions: Span[] = [];
+  let outcome: PolicyOutcome = "allow";
+
+  for (const rule of rules) {
+    if (!rule.enabled || options.skipKinds?.includes(rule.kind)) continue;
+    const spans = findSpans(text, rule);
+    if (spans.length === 0) continue;
+
+    for (const detail of new Set(spans.map((span) => span.detail))) {
+      matches.push({
+        ruleId: rule.id,
+        label: rule.label,
+        outcome: rule.outcome,
+        detail,
+      });
+    }
+    if (rule.outcome === "redact") redactions.push(...spans);
+    if (SEVERITY[rule.outcome] > SEVERITY[outcome]) outcome = rule.outcome;
+  }
+
+  return {
+    outcome,
+    content:
+      outcome === "redact" && redactions.length
+        ? redact(text, redactions)
+        : text,
+    matches,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Signed license key format, shared by the server (issuing, signature check)
+ * and the client (typo detection before calling the API).
+ *
+ *   LIC2-<payload>-<signature><check>
+ *
+ * Both parts are Crockford base32. The payload carries the plan, validity,
+ * issue date and batch; the signature is an Ed25519 signature of the payload
+ * bytes made with the server's key (server/lib/license-signing.ts). The last
+ * character is a Luhn mod 32 check over payload and signature, so a mistyped
+ * key is rejected without a round trip.
+ */
+
+import type { PlanName } from "./plans";
+
+export const LICENSE_KEY_PREFIX = "LIC2-";
+export const LICENSE_KEY_VERSION = 1;
+
+export const LICENSE_PAYLOAD_BYTES = 17;
+export const LICENSE_SIGNATURE_BYTES = 64;
+export const LICENSE_BATCH_ID_LENGTH = 8;
+
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const PLAN_CODES: PlanName[] = ["Free", "Classic", "Pro"];
+
+const PAYLOAD_CHARS = Math.ceil((LICENSE_PAYLOAD_BYTES * 8) / 5);
+const SIGNATURE_CHARS = Math.ceil((LICENSE_SIGNATURE_BYTES * 8) / 5);
+
+export interface LicensePayload {
+  version: number;
+  plan: PlanName;
+  validityDays: number;
+  // Unix seconds
+  issuedAt: number;
+  // 8 base32 characters, null for keys issued outside a batch
+  batchId: string | null;
+  nonce: number;
+}
+
+export interface ParsedLicenseKey {
+  payload: LicensePayload;
+  payloadBytes: Uint8Array;
+  signature: Uint8Array;
+}
+
+export type LicenseKeyProblem = "format" | "checksum";
+
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function decodeBase32(text: string, byteLength: number): Uint8Array {
+  const bytes = new Uint8Array(byteLength);
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (const char of text) {
+    const value = ALPHABET.indexOf(char);
+    if (value === -1) throw new Error(`Invalid base32 character: ${char}`);
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8 && index < byteLength) {
+      bytes[index++] = (buffer >> (bits - 8)) & 0xff;
+      bits -= 8;
+    }
+  }
+  if (index !== byteLength) throw new Error("Invalid base32 length");
+  return bytes;
+}
+
+/**
+ * Luhn mod N over the base32 alphabet: catches every single-character
+ * mistake and most swaps of adjacent characters.
+ */
+export function checkCharacter(text: string): string {
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = text.length - 1; i >= 0; i--) {
+    let addend = factor * ALPHABET.indexOf(text[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / 32) + (addend % 32);
+    sum += addend;
+  }
+  return ALPHABET[(32 - (sum % 32)) % 32];
+}
+
+/**
+ * Uppercase, drop whitespace and map the characters Crockford base32 treats
+ * as look-alikes (O -> 0, I/L -> 1) in the key body.
+ */
+export function normalizeLicenseKey(key: string): string {
+  const compact = key.replace(/\s+/g, "").toUpperCase();
+  if (!compact.startsWith(LICENSE_KEY_PREFIX)) return compact;
+
+  return (
+    LICENSE_KEY_PREFIX +
+    compact
+      .slice(LICENSE_KEY_PREFIX.length)
+      .replace(/O/g, "0")
+      .replace(/[IL]/g, "1")
+  );
+}
+
+export function isSignedLicenseKey(key: string): boolean {
+  return normalizeLicenseKey(key).startsWith(LICENSE_KEY_PREFIX);
+}
+
+export function encodeLicensePayload(payload: LicensePayload): Uint8Array {
+  const bytes = new Uint8Array(LICENSE_PAYLOAD_BYTES);
+  const view = new DataView(bytes.buffer);
+  const planCode = PLAN_CODES.indexOf(payload.plan);
+  if (planCode === -1) throw new Error(`Unknown plan: ${payload.plan}`);
+
+  view.setUint8(0, payload.version);
+  view.setUint8(1, planCode);
+  view.setUint16(2, payload.validityDays);
+  view.setUint32(4, payload.issuedAt);
+  if (payload.batchId) {
+    bytes.set(decodeBase32(payload.batchId, 5), 8);
+  }
+  view.setUint32(13, payload.nonce);
+  return bytes;
+}
+
+export function decodeLicensePayload(bytes: Uint8Array): LicensePayload {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const plan = PLAN_CODES[view.getUint8(1)];
+  if (!plan) throw new Error("Unknown plan code");
+
+  const batchBytes = bytes.slice(8, 13);
+  return {
+    version: view.getUint8(0),
+    plan,
+    validityDays: view.getUint16(2),
+    issuedAt: view.getUint32(4),
+    batchId: batchBytes.some((byte) => byte !== 0)
+      ? encodeBase32(batchBytes)
+      : null,
+    nonce: view.getUint32(13),
+  };
+}
+
+export function formatLicenseKey(
+  payloadBytes: Uint8Array,
+  signature: Uint8Array,
+): string {
+  const payloadText = encodeBase32(payloadBytes);
+  const signatureText = encodeBase32(signature);
+  return `${LICENSE_KEY_PREFIX}${payloadText}-${signatureText}${checkCharacter(
+    payloadText + signatureText,
+  )}`;
+}
+
+/**
+ * Split a signed key and decode its payload. Does not check the signature,
+ * only the structure and the check character.
+ */
+export function parseLicenseKey(
+  key: string,
+): ParsedLicenseKey | { problem: LicenseKeyProblem } {
+  const normalized = normalizeLicenseKey(key);
+  const match = new RegExp(
+    `^${LICENSE_KEY_PREFIX}([${ALPHABET}]{${PAYLOAD_CHARS}})-([${ALPHABET}]{${SIGNATURE_CHARS}})([${ALPHABET}])$`,
+  ).exec(normalized);
+  if (!match) return { problem: "format" };
+
+  const [, payloadText, signatureText, check] = match;
+  if (checkCharacter(payloadText + signatureText) !== check) {
+    return { problem: "checksum" };
+  }
+
+  try {
+    const payloadBytes = decodeBase32(payloadText, LICENSE_PAYLOAD_BYTES);
+    return {
+      payload: decodeLicensePayload(payloadBytes),
+      payloadBytes,
+      signature: decodeBase32(signatureText, LICENSE_SIGNATURE_BYTES),
+    };
+  } catch {
+    return { problem: "format" };
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { hasFreeSeat, readLicense } from "./licenses";
+
+const NOW = Date.UTC(2024, 0, 15);
+
+describe("licenses", () => {
+  it("should derive issued, active and expired from holders and expiry", () => {
+    expect(readLicense({ status: "issued", holders: [] }, NOW).status).toBe(
+      "issued",
+    );
+    expect(
+      readLicense({ status: "active", holders: ["a"], expiresAt: NOW + 1 }, NOW)
+        .status,
+    ).toBe("active");
+    expect(
+      readLicense({ status: "active", holders: ["a"], expiresAt: NOW }, NOW)
+        .status,
+    ).toBe("expired");
+  });
+
+  it("should map legacy flags onto the unified model", () => {
+    expect(readLicense({ valid: false }, NOW).status).toBe("revoked");
+    expect(readLicense({ isActive: false }, NOW).status).toBe("revoked");
+    expect(readLicense({ active: false }, NOW).status).toBe("revoked");
+    expect(readLicense({ used: true, usedBy: "u1" }, NOW)).toEqual({
+      status: "active",
+      seats: 1,
+      holders: ["u1"],
+      expiresAt: null,
+    });
+  });
+
+  it("should only offer a seat on a usable license below its seat count", () => {
+    const license = (data: Record<string, unknown>) => readLicense(data, NOW);
+
+    expect(hasFreeSeat(license({ seats: 2, holders: ["a"] }))).toBe(true);
+    expect(hasFreeSeat(license({ seats: 2, holders: ["a", "b"] }))).toBe(false);
+    expect(
+      hasFreeSeat(license({ seats: 2, holders: [], status: "revoked" })),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * License model shared by the server and the admin panel.
+ *
+ * A `licenses/{key}` document stores `status` ("issued" until its first
+ * activation, then "active", or "revoked"), `seats` and the `holders` that
+ * activated it. "expired" is never stored: it is derived from `expiresAt`,
+ * which is set by the first activation (validityDays later) and moved by
+ * extensions. Every seat shares the same expiry.
+ *
+ * Documents written before this model used `valid`, `isActive`, `active`,
+ * `used` and a single `usedBy`; readLicense maps them onto it.
+ */
+
+export type LicenseStatus = "issued" | "active" | "revoked" | "expired";
+
+export interface LicenseState {
+  status: LicenseStatus;
+  seats: number;
+  holders: string[];
+  // Milliseconds, null until the first activation
+  expiresAt: number | null;
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return typeof value === "number" ? value : null;
+}
+
+export function readLicense(
+  data: Record<string, any>,
+  now: number = Date.now(),
+): LicenseState {
+  const holders: string[] = Array.isArray(data.holders)
+    ? data.holders
+    : data.usedBy
+      ? [data.usedBy]
+      : [];
+  const seats = Math.max(1, data.seats || 1);
+  const expiresAt = toMillis(data.expiresAt);
+
+  const revoked =
+    data.status === "revoked" ||
+    data.valid === false ||
+    data.isActive === false ||
+    data.active === false;
+
+  let status: LicenseStatus;
+  if (revoked) {
+    status = "revoked";
+  } else if (expiresAt !== null && expiresAt <= now) {
+    status = "expired";
+  } else {
+    status = holders.length > 0 ? "active" : "issued";
+  }
+
+  return { status, seats, holders, expiresAt };
+}
+
+export function hasFreeSeat(license: LicenseState): boolean {
+  return (
+    (license.status === "issued" || license.status === "active") &&
+    license.holders.length < license.seats
+  );
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { can, canModerate } from "./permissions";
+
+describe("permissions", () => {
+  it("should keep moderators out of licenses, AI config and deletions", () => {
+    expect(can("moderator", "users.moderate")).toBe(true);
+    expect(can("moderator", "users.reset_usage")).toBe(true);
+    expect(can("moderator", "licenses.manage")).toBe(false);
+    expect(can("moderator", "ai_config.manage")).toBe(false);
+    expect(can("moderator", "users.delete")).toBe(false);
+    expect(can("admin", "users.delete")).toBe(true);
+    expect(can("user", "users.read")).toBe(false);
+  });
+
+  it("should only let staff act on lower ranked accounts", () => {
+    expect(canModerate("moderator", "user")).toBe(true);
+    expect(canModerate("moderator", "moderator")).toBe(false);
+    expect(canModerate("admin", "moderator")).toBe(true);
+    expect(canModerate("admin", "admin")).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { USER_ROLES, UserRole } from "./roles";
+
+/**
+ * What each role may do in the admin panel, enforced by the server routes
+ * (requirePermission) and used by the client to trim the panel.
+ *
+ * Moderators handle support: they can warn and ban users and reset usage,
+ * but not mint licenses, change the AI setup or delete accounts.
+ */
+
+export type Permission =
+  | "users.read"
+  | "users.moderate"
+  | "users.reset_usage"
+  | "users.manage_roles"
+  | "users.delete"
+  | "licenses.manage"
+  | "ai_config.manage"
+  | "content_policy.manage"
+  | "reports.read"
+  | "audit.read"
+  | "system.manage";
+
+const MODERATOR_PERMISSIONS: Permission[] = [
+  "users.read",
+  "users.moderate",
+  "users.reset_usage",
+  "reports.read",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  moderator: MODERATOR_PERMISSIONS,
+  admin: [
+    ...MODERATOR_PERMISSIONS,
+    "users.manage_roles",
+    "users.delete",
+    "licenses.manage",
+    "ai_config.manage",
+    "content_policy.manage",
+    "audit.read",
+    "system.manage",
+  ],
+};
+
+export function can(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Staff can only act on accounts ranked strictly below their own
+export function canModerate(role: UserRole, targetRole: UserRole): boolean {
+  return USER_ROLES.indexOf(role) > USER_ROLES.indexOf(targetRole);
+}
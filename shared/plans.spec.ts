@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatTokens,
+  getModelMultiplier,
+  getTokenBudget,
+  tokenCost,
+} from "./plans";
+
+describe("plans", () => {
+  it("should apply plan overrides before default model multipliers", () => {
+    expect(getModelMultiplier("Free", "gpt-4")).toBe(15);
+    expect(getModelMultiplier("Pro", "gpt-4")).toBe(10);
+    expect(getModelMultiplier("Pro", "unknown-model")).toBe(1);
+  });
+
+  it("should charge prompt and completion tokens times the multiplier", () => {
+    expect(
+      tokenCost("Classic", "claude-3-sonnet", {
+        promptTokens: 100,
+        completionTokens: 50,
+      }),
+    ).toBe(450);
+  });
+
+  it("should fall back to the plan budget for legacy users", () => {
+    expect(getTokenBudget({ plan: "Classic" })).toBe(1_000_000);
+    expect(getTokenBudget({ plan: "Unknown" })).toBe(20_000);
+    expect(getTokenBudget({ plan: "Free", tokenBudget: 5000 })).toBe(5000);
+  });
+
+  it("should format token counts for display", () => {
+    expect(formatTokens(950)).toBe("950");
+    expect(formatTokens(12_345)).toBe("12.3k");
+    expect(formatTokens(20_000)).toBe("20k");
+    expect(formatTokens(2_000_000)).toBe("2M");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Plan quotas, shared by the server (charging) and the client (usage meter).
+ *
+ * Each plan gets a daily token budget. A request costs
+ * (prompt tokens + completion tokens) x the model's multiplier, so a GPT-4
+ * answer drains the budget faster than one from a free model.
+ */
+
+export type PlanName = "Free" | "Classic" | "Pro";
+
+export interface PlanDefinition {
+  name: PlanName;
+  dailyTokenBudget: number;
+  // Overrides DEFAULT_MODEL_MULTIPLIERS for this plan
+  modelMultipliers?: Record<string, number>;
+  attachments: AttachmentLimits;
+}
+
+/**
+ * Chat attachments (server/lib/attachments.ts). Files are uploaded as base64
+ * in a JSON body capped at 10mb, so no plan can go past ~7MB per file.
+ */
+export interface AttachmentLimits {
+  maxFileBytes: number;
+  maxFilesPerMessage: number;
+}
+
+export const DEFAULT_MODEL_MULTIPLIERS: Record<string, number> = {
+  "x-ai/grok-4.1-fast:free": 1,
+  "gpt-3.5-turbo": 1,
+  "claude-3-sonnet": 3,
+  "gpt-4": 15,
+  "claude-3-opus": 15,
+};
+
+// Image generations have no token usage, they are charged a flat amount
+export const IMAGE_TOKEN_COST = 1000;
+
+export const PLANS: Record<PlanName, PlanDefinition> = {
+  Free: {
+    name: "Free",
+    dailyTokenBudget: 20_000,
+    attachments: { maxFileBytes: 1_000_000, maxFilesPerMessage: 2 },
+  },
+  Classic: {
+    name: "Classic",
+    dailyTokenBudget: 1_000_000,
+    attachments: { maxFileBytes: 4_000_000, maxFilesPerMessage: 5 },
+  },
+  Pro: {
+    name: "Pro",
+    dailyTokenBudget: 2_000_000,
+    attachments: { maxFileBytes: 7_000_000, maxFilesPerMessage: 10 },
+    modelMultipliers: {
+      "gpt-4": 10,
+      "claude-3-opus": 10,
+    },
+  },
+};
+
+export function getPlan(name: string | undefined): PlanDefinition {
+  return PLANS[name as PlanName] || PLANS.Free;
+}
+
+export function getModelMultiplier(plan: string | undefined, model: string) {
+  return (
+    getPlan(plan).modelMultipliers?.[model] ??
+    DEFAULT_MODEL_MULTIPLIERS[model] ??
+    1
+  );
+}
+
+export function getAttachmentLimits(plan: string | undefined) {
+  return getPlan(plan).attachments;
+}
+
+/**
+ * Rough token count (~4 characters per token), used before the provider
+ * reports real usage.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function tokenCost(
+  plan: string | undefined,
+  model: string,
+  usage: { promptTokens: number; completionTokens: number },
+): number {
+  return Math.ceil(
+    (usage.promptTokens + usage.completionTokens) *
+      getModelMultiplier(plan, model),
+  );
+}
+
+/**
+ * Budget for a user document, falling back to the plan default for users
+ * created before token quotas.
+ */
+export function getTokenBudget(user: {
+  plan?: string;
+  tokenBudget?: number;
+}): number {
+  return user.tokenBudget || getPlan(user.plan).dailyTokenBudget;
+}
+
+/**
+ * Short display used by the usage meters: 12345 -> "12.3k".
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1).replace(/\.0$/, "")}k`;
+  }
+  return String(Math.max(0, Math.round(tokens)));
+}
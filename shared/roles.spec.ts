@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { hasRole, resolveUserRole } from "./roles";
+
+describe("roles", () => {
+  it("should rank admin above moderator above user", () => {
+    expect(hasRole("admin", "moderator")).toBe(true);
+    expect(hasRole("moderator", "moderator")).toBe(true);
+    expect(hasRole("moderator", "admin")).toBe(false);
+    expect(hasRole("user", "moderator")).toBe(false);
+  });
+
+  it("should honor the legacy isAdmin flag and ignore unknown roles", () => {
+    expect(resolveUserRole({ isAdmin: true })).toBe("admin");
+    expect(resolveUserRole({ isAdmin: false, role: "moderator" })).toBe(
+      "moderator",
+    );
+    expect(resolveUserRole({ role: "superuser" })).toBe("user");
+    expect(resolveUserRole({})).toBe("user");
+  });
+});
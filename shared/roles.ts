@@ -0,0 +1,27 @@
+/**
+ * User roles, shared by the server (route guards) and the client (admin UI).
+ *
+ * Roles are ordered: each one includes everything the previous one can do.
+ * Users created before roles existed only carry the legacy `isAdmin` flag.
+ */
+
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+// Role stored on a users/{uid} document
+export function resolveUserRole(data: {
+  role?: unknown;
+  isAdmin?: unknown;
+}): UserRole {
+  if (data.isAdmin === true) return "admin";
+  return isUserRole(data.role) ? data.role : "user";
+}
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { formatSSEEvent, parseSSEStream } from "./sse";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const events = [];
+  for await (const event of parseSSEStream(stream)) events.push(event);
+  return events;
+}
+
+describe("parseSSEStream", () => {
+  it("should parse events split across chunks", async () => {
+    const events = await collect(
+      streamOf('data: {"a":', "1}\n\nda", "ta: [DONE]\n\n"),
+    );
+    expect(events).toEqual([
+      { event: "message", data: '{"a":1}' },
+      { event: "message", data: "[DONE]" },
+    ]);
+  });
+
+  it("should skip comments and keep event names", async () => {
+    const events = await collect(
+      streamOf(": OPENROUTER PROCESSING\n\nevent: delta\r\ndata: hi\r\n\r\n"),
+    );
+    expect(events).toEqual([{ event: "delta", data: "hi" }]);
+  });
+
+  it("should flush a trailing event without blank line", async () => {
+    const events = await collect(streamOf("data: last"));
+    expect(events).toEqual([{ event: "message", data: "last" }]);
+  });
+
+  it("should round-trip multi-line payloads", async () => {
+    const events = await collect(streamOf(formatSSEEvent("done", "a\nb")));
+    expect(events).toEqual([{ event: "done", data: "a\nb" }]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Server-Sent Events helpers shared by the server (relaying upstream model
+ * streams) and the client (reading /api/ai/chat/stream with fetch, since
+ * EventSource cannot send a POST body).
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Serialize one event in SSE wire format.
+ */
+export function formatSSEEvent(event: string, data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const lines = payload
+    .split(/\r?\n/)
+    .map((line) => `data: ${line}`)
+    .join("\n");
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+/**
+ * Parse a byte stream into SSE events.
+ * Comment lines (": keep-alive") are skipped, multi-line data is joined with
+ * "\n" and events without an explicit name default to "message".
+ */
+export async function* parseSSEStream(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventName = "";
+  let dataLines: string[] = [];
+
+  const dispatch = (): SSEEvent | null => {
+    if (dataLines.length === 0) {
+      eventName = "";
+      return null;
+    }
+    const event = { event: eventName || "message", data: dataLines.join("\n") };
+    eventName = "";
+    dataLines = [];
+    return event;
+  };
+
+  const processLine = (line: string): SSEEvent | null => {
+    if (line === "") return dispatch();
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") eventName = value;
+    else if (field === "data") dataLines.push(value);
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const event = processLine(line);
+        if (event) yield event;
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    buffer += decoder.decode();
+    if (buffer) processLine(buffer);
+    const last = dispatch();
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}